@@ -1,14 +1,45 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import ChatMessage from './components/ChatMessage';
 import LoginScreen from './components/LoginScreen';
-import { Message, Role, TaskModule, Session, UserProfile } from './types';
-import { MODULES, Icons, ILOVEPDF_SECRET_KEY } from './constants';
-import { sendMessageStream, initializeChat, resetSession, generateImage, generateVideo, generateSpeech, generateChatTitle } from './services/geminiService';
-import { convertWithILovePDF } from './services/ilovepdfService';
-import { getCurrentUser, getUserSessions, saveUserSessions, logout } from './services/userService';
+import LockScreen from './components/LockScreen';
+import ChecklistPanel from './components/ChecklistPanel';
+import InvoiceEditor from './components/InvoiceEditor';
+import InvoiceHistory from './components/InvoiceHistory';
+import BackupModal, { BackupModalMode } from './components/BackupModal';
+import PdfToolModal, { PDF_TOOLS, isPdfFile } from './components/PdfToolModal';
+import ConnectionModal from './components/ConnectionModal';
+import { Message, Role, TaskModule, Session, UserProfile, Invoice, StorageUsage, FileAttachment, ConnectionKeys, VideoJob, ConvertTarget, ConversionBatch, DocumentCitation } from './types';
+import { MODULES, Icons } from './constants';
+import { sendMessageStream, initializeChat, configureChat, hasChatSession, resetSession, generateImage, generateSpeech, generateChatTitle } from './services/geminiService';
+import { runILovePdfTask, PdfTool, PdfToolOptions } from './services/ilovepdfService';
+import { buildConvertedFile, extractionPrompt, extractContent, convertFile, archiveConvertedFiles, CONVERT_TARGETS } from './services/converterService';
+import { prepareAttachments, condenseDocuments, documentLength, documentKey, DOCUMENT_CONTEXT_CHARS } from './services/documentIngestion';
+import { loadDocumentIndex, clearDocumentIndex, forgetSessionDocuments, syncSessionDocuments, indexSessions, retrievePassages, citedPassages, documentHistoryText, RetrievedPassages } from './services/documentStore';
+import { enqueueConversionBatch, retryConversionItem, cancelConversionBatch, cancelSessionConversions, clearConversions, subscribeToConversions, isBatchSettled, getConversionConcurrency, setConversionConcurrency, MAX_CONCURRENCY } from './services/conversionQueue';
+import { getSessionChecklist } from './utils/checklist';
+import { createSearchIndex, SearchFilters, SearchResult } from './services/searchIndex';
+import { buildMessageTree, getActivePath, getBranchPosition, getLeafKey, getSessionPath, selectPathTo, NO_BRANCH, ROOT_KEY } from './utils/messageTree';
+import { exportSession, parseSessionExport, prepareImportedSessions, SessionExportFormat } from './services/sessionExport';
+import { downloadFile } from './utils/download';
+import {
+  getUserInvoices, loadInvoices, saveInvoice, deleteInvoice, createInvoice, getInvoiceBackup, restoreInvoices, INVOICE_TOOL_NAME
+} from './services/invoiceService';
+import { createToolSession, getToolsForModule, stripToolTags } from './services/toolRegistry';
+import { getCurrentUser, getUserSessions, saveUserSessions, flushUserSessions, logout, lockAccount, isAccountUnlocked, getTrashRetentionDays, setTrashRetentionDays, purgeExpiredSessions, restoreAccount } from './services/userService';
+import { loadConnectionKeys, saveConnectionKeys, setActiveConnectionKeys, isProxyEnabled } from './services/keyVault';
+import { isApiServerEnabled, setApiServerUser } from './services/apiServer';
+import { AUTO_LOCK_MS } from './services/authService';
+import { createAccountBackup, readAccountBackup, isSameAccount, mergeRestoredSessions, RestoreStrategy, RestoreSummary } from './services/backupService';
+import { getStorageUsage, requestPersistentStorage, isQuotaError, persistMediaUrl, restoreMediaUrls } from './services/storageService';
+import { toMessageError } from './services/serviceErrors';
+import { enqueueVideoJob, cancelVideoJob, cancelSessionVideoJobs, resumeVideoJobs, suspendVideoJobs, subscribeToVideoJobs } from './services/videoJobs';
+import { dataUrlToBlob } from './utils/dataUrl';
 import { v4 as uuidv4 } from 'uuid';
 
+// The provider a session's module runs on, for work done outside a turn
+const sessionProvider = (session: Session) => MODULES.find(m => m.id === session.activeModule)?.provider;
+
 // --- SUB-COMPONENTS ---
 
 // 1. Toast Notification
@@ -66,7 +97,7 @@ const FeedbackModal: React.FC<FeedbackModalProps> = ({ isOpen, onClose, onSubmit
                   onClick={() => setRating(star)}
                   className={`transition-transform hover:scale-110 ${rating >= star ? 'text-amber-400 fill-amber-400' : 'text-gray-300'}`}
                 >
-                    {React.cloneElement(Icons.Star as React.ReactElement, { fill: rating >= star ? "currentColor" : "none" })}
+                    {React.cloneElement(Icons.Star, { fill: rating >= star ? "currentColor" : "none" })}
                 </button>
             ))}
         </div>
@@ -95,85 +126,10 @@ const FeedbackModal: React.FC<FeedbackModalProps> = ({ isOpen, onClose, onSubmit
   );
 };
 
-// 3. Connection Modal (for Keys)
-interface ConnectionModalProps {
-    isOpen: boolean;
-    onClose: () => void;
-    ilovePdfKeys: { public: string; secret: string };
-    onSave: (keys: { public: string; secret: string }) => void;
-}
-
-const ConnectionModal: React.FC<ConnectionModalProps> = ({ isOpen, onClose, ilovePdfKeys, onSave }) => {
-    const [pub, setPub] = useState(ilovePdfKeys.public);
-    const [sec, setSec] = useState(ilovePdfKeys.secret);
-
-    useEffect(() => {
-        if(isOpen) {
-            setPub(ilovePdfKeys.public);
-            setSec(ilovePdfKeys.secret);
-        }
-    }, [isOpen, ilovePdfKeys]);
-
-    if (!isOpen) return null;
-
-    return (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-            <div className="absolute inset-0 bg-gray-900/30 backdrop-blur-sm" onClick={onClose}></div>
-            <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg p-8 relative z-10 animate-in zoom-in-95 duration-200">
-                <h3 className="text-xl font-semibold text-gray-900 mb-2">Connect Apps</h3>
-                <p className="text-sm text-gray-500 mb-6">Integrate third-party tools for enhanced capabilities.</p>
-                
-                <div className="mb-6 p-4 bg-gray-50 rounded-xl border border-gray-100">
-                    <div className="flex items-center gap-2 mb-4">
-                        <span className="text-red-500 font-bold">iLovePDF Integration</span>
-                        <span className="text-xs bg-sky-100 text-sky-600 px-2 py-0.5 rounded-full">Pro Converter</span>
-                    </div>
-                    
-                    <div className="space-y-4">
-                        <div>
-                            <label className="block text-xs font-medium text-gray-700 mb-1">Public Key (Project Key)</label>
-                            <input 
-                                type="text" 
-                                value={pub}
-                                onChange={(e) => setPub(e.target.value)}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none"
-                                placeholder="project_public_..."
-                            />
-                            <p className="text-[10px] text-gray-400 mt-1">Required for API authentication.</p>
-                        </div>
-                        <div>
-                            <label className="block text-xs font-medium text-gray-700 mb-1">Secret Key</label>
-                            <input 
-                                type="text" 
-                                value={sec}
-                                onChange={(e) => setSec(e.target.value)}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-100 text-gray-500 cursor-not-allowed"
-                                readOnly
-                            />
-                        </div>
-                    </div>
-                </div>
-
-                <div className="flex justify-end gap-3">
-                    <button onClick={onClose} className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-50 rounded-lg transition-colors">
-                        Cancel
-                    </button>
-                    <button 
-                        onClick={() => { onSave({ public: pub, secret: sec }); onClose(); }}
-                        className="px-6 py-2 bg-sky-500 text-white font-medium rounded-lg hover:bg-sky-600 shadow-sm"
-                    >
-                        Save Connections
-                    </button>
-                </div>
-            </div>
-        </div>
-    );
-};
-
-
 const App: React.FC = () => {
   // Auth State
   const [user, setUser] = useState<UserProfile | null>(null);
+  const [lockedUser, setLockedUser] = useState<UserProfile | null>(null); // Signed in but not unlocked
   const [isProfileOpen, setIsProfileOpen] = useState(false);
 
   // App State
@@ -181,46 +137,128 @@ const App: React.FC = () => {
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   
   const [activeModule, setActiveModule] = useState<TaskModule>(TaskModule.GENERAL);
-  const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  // Sessions with a request in flight; each session streams independently
+  const [loadingSessionIds, setLoadingSessionIds] = useState<string[]>([]);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isModuleMenuOpen, setIsModuleMenuOpen] = useState(false);
+  const [isChecklistOpen, setIsChecklistOpen] = useState(false);
   
   // Specific Module States
   const [imageSize, setImageSize] = useState<'1K' | '2K' | '4K'>('1K');
   const [videoAspectRatio, setVideoAspectRatio] = useState<'16:9' | '9:16'>('16:9');
   
   // Updated to support multiple files
-  const [selectedFiles, setSelectedFiles] = useState<{name: string, data: string, type: string}[]>([]);
+  const [selectedFiles, setSelectedFiles] = useState<FileAttachment[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllersRef = useRef<Record<string, AbortController>>({});
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
   // Interaction States
   const [toastMsg, setToastMsg] = useState<string | null>(null);
   const [feedbackModal, setFeedbackModal] = useState<{isOpen: boolean, messageId: string | null}>({ isOpen: false, messageId: null });
   const [connectionModalOpen, setConnectionModalOpen] = useState(false);
+  const [pdfTool, setPdfTool] = useState<PdfTool | null>(null);
   const [playingMessageId, setPlayingMessageId] = useState<string | null>(null);
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
 
+  // Invoices
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [invoiceHistoryOpen, setInvoiceHistoryOpen] = useState(false);
+
+  // Browser storage used by saved chats
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [trashRetentionDays, setTrashRetention] = useState(30);
+
+  // Search
+  const searchIndexRef = useRef(createSearchIndex());
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
   // API Keys
-  const [ilovePdfKeys, setIlovePdfKeys] = useState({ public: '', secret: ILOVEPDF_SECRET_KEY });
+  const [connectionKeys, setConnectionKeys] = useState<ConnectionKeys>({});
+  const [backupMode, setBackupMode] = useState<BackupModalMode | null>(null);
+
+  // Background video jobs, keyed by job id
+  const [videoJobs, setVideoJobs] = useState<Record<string, VideoJob>>({});
+  // Converter batches, keyed by batch id; they only live while the page is open
+  const [conversionBatches, setConversionBatches] = useState<Record<string, ConversionBatch>>({});
+  const [conversionConcurrency, setConversionConcurrencyState] = useState(getConversionConcurrency);
 
 
   // --- AUTH CHECK ON MOUNT ---
   useEffect(() => {
-    const currentUser = getCurrentUser();
-    if (currentUser) {
-        setUser(currentUser);
-    }
+    getCurrentUser()
+      .then(currentUser => {
+        if (!currentUser) return;
+        // After a reload the data key is gone, so the account has to be unlocked again
+        if (isAccountUnlocked(currentUser.id)) setUser(currentUser);
+        else setLockedUser(currentUser);
+      })
+      .catch(error => console.error("Failed to restore user:", error));
+    requestPersistentStorage().catch(() => undefined);
+    getStorageUsage().then(setStorageUsage).catch(() => undefined);
+
+    // Debounced saves would otherwise be lost when the tab closes
+    window.addEventListener('beforeunload', flushUserSessions);
+    const unsubscribeVideoJobs = subscribeToVideoJobs(job => handleVideoJobRef.current(job));
+    const unsubscribeConversions = subscribeToConversions(batch => handleConversionBatchRef.current(batch));
+    return () => {
+      window.removeEventListener('beforeunload', flushUserSessions);
+      unsubscribeVideoJobs();
+      unsubscribeConversions();
+    };
   }, []);
 
+  // --- AUTO-LOCK ON INACTIVITY ---
+  useEffect(() => {
+    if (!user) return;
+    let timer = window.setTimeout(() => handleLockRef.current(), AUTO_LOCK_MS);
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => handleLockRef.current(), AUTO_LOCK_MS);
+    };
+    const events = ['mousemove', 'keydown', 'pointerdown', 'scroll'];
+    events.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [user]);
+
   // --- SESSION LOADING PER USER ---
   useEffect(() => {
-    if (user) {
-        const userSessions = getUserSessions(user.id);
+    if (!user) return;
+    let cancelled = false;
+    loadInvoices(user.id).then(list => {
+        if (!cancelled) setInvoices(list);
+    }).catch(error => console.error("Failed to load invoices:", error));
+    setApiServerUser(user.id);
+    loadConnectionKeys(user.id).then(keys => {
+        if (cancelled) return;
+        setActiveConnectionKeys(keys);
+        setConnectionKeys(keys);
+    }).catch(error => console.error("Failed to load connection keys:", error));
+    const retentionDays = getTrashRetentionDays(user.id);
+    setTrashRetention(retentionDays);
+    // The document index loads first: chat histories rebuilt from the sessions leave indexed files out
+    Promise.all([
+        getUserSessions(user.id),
+        loadDocumentIndex(user.id).catch(error => console.error("Failed to load the document index:", error))
+    ]).then(([loadedSessions]) => {
+        if (cancelled) return;
+        // Expired trash is dropped here and removed from storage by the next save
+        // Converter batches don't survive a reload, so their unfinished replies are closed off
+        const userSessions = purgeExpiredSessions(loadedSessions, retentionDays).map(s => s.messages.some(msg => msg.isStreaming && msg.conversionBatchId)
+            ? { ...s, messages: s.messages.map(msg => msg.isStreaming && msg.conversionBatchId
+                ? { ...msg, content: "Conversion was interrupted.", isStreaming: false, isInterrupted: true }
+                : msg) }
+            : s
+        );
+        // Sessions that arrived without a document index (a restore into this account, older chats) get one
+        indexSessions(user.id, userSessions, sessionProvider);
         if (userSessions.length === 0) {
             // Create default session for new user
             const newId = uuidv4();
@@ -233,16 +271,14 @@ const App: React.FC = () => {
             };
             setSessions([newSession]);
             setCurrentSessionId(newId);
-            setMessages([]);
-            saveUserSessions(user.id, [newSession]);
         } else {
             setSessions(userSessions);
             // Select most recent or first
             const activeSessions = userSessions.filter(s => !s.isDeleted);
             if (activeSessions.length > 0) {
                  setCurrentSessionId(activeSessions[0].id);
-                 setMessages(activeSessions[0].messages);
                  setActiveModule(activeSessions[0].activeModule);
+                 restoreSessionMedia(activeSessions[0]);
             } else {
                  // All deleted? Create new.
                  const newId = uuidv4();
@@ -255,42 +291,206 @@ const App: React.FC = () => {
                  };
                  setSessions([...userSessions, newSession]);
                  setCurrentSessionId(newId);
-                 setMessages([]);
             }
         }
-    }
+        // After the sessions, so videos that finished while the page was closed have a message to land in
+        return resumeVideoJobs(user.id).then(jobs => {
+            if (cancelled) return;
+            const known = new Set(jobs.map(job => job.id));
+            setSessions(prev => prev.map(s => s.messages.some(msg => msg.isStreaming && msg.videoJobId && !known.has(msg.videoJobId))
+                ? { ...s, messages: s.messages.map(msg => msg.isStreaming && msg.videoJobId && !known.has(msg.videoJobId)
+                    ? { ...msg, content: "Video generation was interrupted.", isStreaming: false }
+                    : msg) }
+                : s
+            ));
+        }).catch(error => console.error("Failed to resume video jobs:", error));
+    }).catch(error => {
+        console.error("Failed to load sessions:", error);
+        setToastMsg("Couldn't load your saved chats. Please reload the page.");
+    });
+    return () => { cancelled = true; };
   }, [user]);
 
   // --- SESSION SAVING ---
   useEffect(() => {
     if (user && sessions.length > 0) {
-        saveUserSessions(user.id, sessions);
+        saveUserSessions(user.id, sessions,
+            (error) => setToastMsg(isQuotaError(error)
+                ? "Browser storage is full, so recent changes weren't saved. Delete old sessions to free space."
+                : "Couldn't save your chats. Recent changes may be lost."),
+            () => getStorageUsage().then(setStorageUsage).catch(() => undefined)
+        );
     }
   }, [sessions, user]);
 
 
-  // Sync current messages to the active session object
-  useEffect(() => {
-    if (currentSessionId && messages.length > 0 && user) {
-        setSessions(prev => prev.map(s => {
-            if (s.id === currentSessionId) {
-                return {
-                    ...s,
-                    messages: messages,
-                    activeModule: activeModule,
-                    lastModified: Date.now()
-                };
-            }
-            return s;
-        }));
+  // The visible conversation is always read from the active session object
+  const currentSession = sessions.find(s => s.id === currentSessionId);
+  // Sessions hold every branch; the conversation shown is the active path through them
+  const messageTree = useMemo(() => buildMessageTree(currentSession?.messages || []), [currentSession?.messages]);
+  const messages: Message[] = useMemo(
+    () => getActivePath(currentSession?.messages || [], currentSession?.branchSelections, messageTree),
+    [messageTree, currentSession?.branchSelections]
+  );
+  const isLoading = currentSessionId ? loadingSessionIds.includes(currentSessionId) : false;
+  const checklistItems = useMemo(() => getSessionChecklist(messages), [messages]);
+  const remainingCount = checklistItems.filter(item => !item.checked).length;
+
+  const updateMessages = (sessionId: string, updater: (prev: Message[]) => Message[]) => {
+    setSessions(prev => prev.map(s => s.id === sessionId
+        ? { ...s, messages: updater(s.messages), lastModified: Date.now() }
+        : s
+    ));
+  };
+
+  // New messages continue the active branch unless a parent is given, and become its selected child
+  const appendMessage = (sessionId: string, message: Message, parentKey?: string) => {
+    setSessions(prev => prev.map(s => {
+        if (s.id !== sessionId) return s;
+        const key = parentKey ?? getLeafKey(s);
+        return {
+            ...s,
+            messages: [...s.messages, { ...message, parentId: key === ROOT_KEY ? null : key }],
+            branchSelections: { ...s.branchSelections, [key]: message.id },
+            lastModified: Date.now()
+        };
+    }));
+  };
+
+  const patchMessage = (sessionId: string, messageId: string, patch: Partial<Message> | ((msg: Message) => Partial<Message>)) => {
+    updateMessages(sessionId, prev => prev.map(msg =>
+        msg.id === messageId ? { ...msg, ...(typeof patch === 'function' ? patch(msg) : patch) } : msg
+    ));
+  };
+
+  // Generated video/audio come back as object URLs that die on reload, so their bytes are stored too.
+  // Resolves with the blob id, or undefined when the media could not be saved.
+  const persistMedia = async (sessionId: string, messageId: string, url: string): Promise<string | undefined> => {
+    if (!user || !url.startsWith('blob:')) return undefined;
+    try {
+      return await persistMediaUrl({ userId: user.id, sessionId, messageId }, url);
+    } catch (error) {
+      console.warn("Failed to store generated media:", error);
+      setToastMsg(isQuotaError(error) ? "Browser storage is full, so this media won't survive a reload." : "Couldn't save this media for later.");
+      return undefined;
+    }
+  };
+
+  // Recreates playable URLs for stored media; leaves lastModified alone since nothing really changed
+  const restoreSessionMedia = (session: Session) => {
+    restoreMediaUrls(session.messages).then(patches => {
+      if (patches.size === 0) return;
+      setSessions(prev => prev.map(s => s.id === session.id
+          ? { ...s, messages: s.messages.map(msg => patches.has(msg.id) ? { ...msg, ...patches.get(msg.id) } : msg) }
+          : s
+      ));
+    }).catch(error => console.warn("Failed to restore stored media:", error));
+  };
+
+  // --- VIDEO JOBS ---
+
+  const handleVideoJob = (job: VideoJob) => {
+    setVideoJobs(prev => ({ ...prev, [job.id]: job }));
+    if (job.status === 'done' && job.videoUrl) {
+      const videoUrl = job.videoUrl;
+      patchMessage(job.sessionId, job.messageId, { content: `Video generated successfully!`, mediaUrl: videoUrl, mediaType: 'video', isStreaming: false });
+      persistMedia(job.sessionId, job.messageId, videoUrl).then(mediaBlobId => {
+        if (mediaBlobId) patchMessage(job.sessionId, job.messageId, { mediaBlobId });
+      });
+      notifyVideoReady(job);
+    } else if (job.status === 'failed') {
+      patchMessage(job.sessionId, job.messageId, { content: "Failed to generate video.", isStreaming: false, error: job.error });
+    } else if (job.status === 'cancelled') {
+      patchMessage(job.sessionId, job.messageId, { content: "Video generation cancelled.", isStreaming: false, isInterrupted: true });
+    }
+  };
+  const handleVideoJobRef = useRef(handleVideoJob);
+  handleVideoJobRef.current = handleVideoJob;
+
+  // A toast when the video belongs to another session, a system notification when the tab is in the background
+  const notifyVideoReady = (job: VideoJob) => {
+    const title = sessions.find(s => s.id === job.sessionId)?.title || 'another chat';
+    if (job.sessionId !== currentSessionId) setToastMsg(`Your video in "${title}" is ready`);
+    if (document.hidden && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification('SwiftMind: video ready', { body: job.prompt.slice(0, 120), tag: job.id });
     }
-  }, [messages, activeModule, currentSessionId, user]);
+  };
+
+  // --- CONVERTER BATCHES ---
+
+  // Once every file has finished, the batch's reply becomes a summary with the results attached
+  const handleConversionBatch = (batch: ConversionBatch) => {
+    setConversionBatches(prev => ({ ...prev, [batch.id]: batch }));
+    if (!isBatchSettled(batch)) return;
+
+    const results = batch.items.flatMap(item => (item.result ? [item.result] : []));
+    const lines = batch.items.map(item => {
+      if (item.status === 'done' && item.result) return `- ${item.fileName} → ${item.result.fileName}`;
+      if (item.status === 'failed') return `- ${item.fileName} — failed: ${item.error?.message || 'unknown error'}`;
+      return `- ${item.fileName} — cancelled`;
+    });
+    const label = CONVERT_TARGETS[batch.target].label;
+    const downloadData = results.length === 0 ? undefined
+        : results.length === 1 ? results[0]
+        : archiveConvertedFiles(results, `converted-${label.toLowerCase()}-files.zip`);
+    patchMessage(batch.sessionId, batch.messageId, {
+      content: `Converted ${results.length} of ${batch.items.length} file${batch.items.length === 1 ? '' : 's'} to ${label}.\n\n${lines.join('\n')}`,
+      isStreaming: false,
+      isInterrupted: batch.items.some(item => item.status === 'cancelled') || undefined,
+      downloadData
+    });
+  };
+  const handleConversionBatchRef = useRef(handleConversionBatch);
+  handleConversionBatchRef.current = handleConversionBatch;
+
+  const handleRetryConversion = (batchId: string, itemId: string) => {
+    const batch = conversionBatches[batchId];
+    if (!batch) return;
+    patchMessage(batch.sessionId, batch.messageId, { isStreaming: true, isInterrupted: undefined, downloadData: undefined });
+    retryConversionItem(batchId, itemId);
+  };
+
+  const handleConversionConcurrency = (value: number) => {
+    setConversionConcurrency(value);
+    setConversionConcurrencyState(getConversionConcurrency());
+  };
+
+  const setSessionLoading = (sessionId: string, loading: boolean) => {
+    setLoadingSessionIds(prev => loading
+        ? (prev.includes(sessionId) ? prev : [...prev, sessionId])
+        : prev.filter(id => id !== sessionId)
+    );
+  };
+
+  // One AbortController per session request, so Stop only cancels the session on screen
+  const beginRequest = (sessionId: string): AbortController => {
+    const controller = new AbortController();
+    abortControllersRef.current[sessionId] = controller;
+    setSessionLoading(sessionId, true);
+    return controller;
+  };
+
+  const endRequest = (sessionId: string) => {
+    delete abortControllersRef.current[sessionId];
+    setSessionLoading(sessionId, false);
+  };
+
+  const handleStopGeneration = () => {
+    if (currentSessionId) {
+      abortControllersRef.current[currentSessionId]?.abort();
+    }
+  };
 
-  // Re-initialize chat when active module changes
+  // Keep the active module on the session and point its chat engine at the module's model
   useEffect(() => {
+    if (!currentSessionId) return;
+    setSessions(prev => prev.map(s => s.id === currentSessionId && s.activeModule !== activeModule
+        ? { ...s, activeModule: activeModule, lastModified: Date.now() }
+        : s
+    ));
     if (messages.length > 0) {
          const config = MODULES.find(m => m.id === activeModule);
-         initializeChat(messages, config?.modelPreference || 'gemini-2.5-flash');
+         configureChat(currentSessionId, messages, config?.modelPreference || 'gemini-2.5-flash', config?.provider);
     }
   }, [activeModule]);
 
@@ -361,9 +561,8 @@ const App: React.FC = () => {
     
     setSessions(prev => [newSession, ...prev]);
     setCurrentSessionId(newId);
-    setMessages([]);
     setActiveModule(TaskModule.GENERAL);
-    initializeChat([], 'gemini-2.5-flash'); 
+    initializeChat(newId, [], 'gemini-2.5-flash');
     setIsMobileMenuOpen(false);
     setSelectedFiles([]);
     window.speechSynthesis.cancel(); 
@@ -374,11 +573,14 @@ const App: React.FC = () => {
     const session = sessions.find(s => s.id === sessionId);
     if (session) {
         setCurrentSessionId(session.id);
-        setMessages(session.messages);
         setActiveModule(session.activeModule);
+        restoreSessionMedia(session);
         
-        const config = MODULES.find(m => m.id === session.activeModule);
-        initializeChat(session.messages, config?.modelPreference || 'gemini-2.5-flash');
+        // Sessions keep their engine across switches, including any turn still streaming
+        if (!hasChatSession(session.id)) {
+            const config = MODULES.find(m => m.id === session.activeModule);
+            initializeChat(session.id, getSessionPath(session), config?.modelPreference || 'gemini-2.5-flash', config?.provider);
+        }
         setSelectedFiles([]);
         window.speechSynthesis.cancel(); 
         setPlayingMessageId(null);
@@ -390,7 +592,8 @@ const App: React.FC = () => {
   };
 
   const handleDeleteSession = (id: string) => {
-      setSessions(prev => prev.map(s => s.id === id ? { ...s, isDeleted: true } : s));
+      setSessions(prev => prev.map(s => s.id === id ? { ...s, isDeleted: true, deletedAt: Date.now() } : s));
+      resetSession(id);
       if (currentSessionId === id) {
           const remaining = sessions.filter(s => s.id !== id && !s.isDeleted);
           if (remaining.length > 0) {
@@ -402,7 +605,8 @@ const App: React.FC = () => {
   };
 
   const handleClearAll = () => {
-      setSessions(prev => prev.map(s => ({...s, isDeleted: true})));
+      const deletedAt = Date.now();
+      setSessions(prev => prev.map(s => s.isDeleted ? s : { ...s, isDeleted: true, deletedAt }));
       resetSession();
       if (user) {
          const newId = uuidv4();
@@ -415,50 +619,251 @@ const App: React.FC = () => {
          };
          setSessions(prev => [newSession, ...prev]);
          setCurrentSessionId(newId);
-         setMessages([]);
       }
   };
   
-  const handleLogout = () => {
-      logout();
-      setUser(null);
+  // --- SEARCH ---
+
+  // The index catches up with whatever changed since the last query, streamed text included
+  const handleSearch = (query: string, filters: SearchFilters): SearchResult[] => {
+      searchIndexRef.current.sync(sessions);
+      return searchIndexRef.current.search(query, filters);
+  };
+
+  const handleOpenSearchResult = (result: SearchResult) => {
+      if (result.sessionId !== currentSessionId) switchSession(result.sessionId);
+      if (!result.messageId) return;
+      // Matches on another branch bring that branch into view first
+      const session = sessions.find(s => s.id === result.sessionId);
+      if (session && !getSessionPath(session).some(m => m.id === result.messageId)) {
+          const branchSelections = selectPathTo(session.messages, session.branchSelections, result.messageId);
+          updateBranchSelections(session.id, () => branchSelections);
+          if (!loadingSessionIds.includes(session.id)) reseedChat(session, getActivePath(session.messages, branchSelections));
+      }
+      setHighlightedMessageId(result.messageId);
+  };
+
+  // --- TRASH ---
+
+  const handleRestoreSession = (id: string) => {
+      setSessions(prev => prev.map(s => s.id === id ? { ...s, isDeleted: false, deletedAt: undefined } : s));
+  };
+
+  // Removing a session from state deletes it, its messages and stored media on the next save
+  const handlePurgeSession = (id: string) => {
+      setSessions(prev => prev.filter(s => s.id !== id));
+      resetSession(id);
+      cancelSessionVideoJobs(id);
+      cancelSessionConversions(id);
+      forgetSessionDocuments(id);
+  };
+
+  const handleEmptyTrash = () => {
+      sessions.filter(s => s.isDeleted).forEach(s => {
+          resetSession(s.id);
+          cancelSessionVideoJobs(s.id);
+          cancelSessionConversions(s.id);
+          forgetSessionDocuments(s.id);
+      });
+      setSessions(prev => prev.filter(s => !s.isDeleted));
+  };
+
+  const handleChangeTrashRetention = (days: number) => {
+      if (!user) return;
+      setTrashRetentionDays(user.id, days);
+      setTrashRetention(days);
+      setSessions(prev => purgeExpiredSessions(prev, days));
+  };
+
+  // --- EXPORT / IMPORT ---
+
+  const handleExportSession = async (id: string, format: SessionExportFormat) => {
+      const session = sessions.find(s => s.id === id);
+      if (!session) return;
+      try {
+          // The HTML transcript is the file itself, not a print job
+          downloadFile(await exportSession(session, format), { print: false });
+      } catch (error) {
+          console.error("Failed to export session:", error);
+          setToastMsg("Couldn't export this conversation.");
+      }
+  };
+
+  const handleImportSessions = async (file: File) => {
+      try {
+          const imported = prepareImportedSessions(parseSessionExport(await file.text()));
+          setSessions(prev => [...imported, ...prev]);
+          if (user) indexSessions(user.id, imported, sessionProvider);
+          const first = imported[0];
+          setCurrentSessionId(first.id);
+          setActiveModule(first.activeModule);
+          reseedChat(first, getSessionPath(first));
+          setToastMsg(imported.length === 1 ? `Imported "${first.title}"` : `Imported ${imported.length} conversations`);
+      } catch (error) {
+          console.error("Failed to import sessions:", error);
+          setToastMsg(`Import failed: ${error instanceof Error ? error.message : 'unreadable file'}`);
+      }
+  };
+
+  // --- CONNECTIONS ---
+
+  const handleSaveConnections = async (keys: ConnectionKeys) => {
+      if (!user) return;
+      await saveConnectionKeys(user.id, keys);
+      setActiveConnectionKeys(keys);
+      setConnectionKeys(keys);
+      setToastMsg("Connections saved");
+  };
+
+  // --- ACCOUNT BACKUP ---
+
+  const describeRestore = (summary: RestoreSummary) =>
+      summary.added + summary.updated === 0
+          ? 'Backup restored. Your chats were already up to date.'
+          : `Backup restored: ${summary.added} chat${summary.added === 1 ? '' : 's'} added, ${summary.updated} updated.`;
+
+  const handleBackupAccount = async (password: string) => {
+      if (!user) return;
+      downloadFile(await createAccountBackup({
+          profile: user,
+          sessions,
+          invoices: getInvoiceBackup(user.id),
+          settings: { trashRetentionDays },
+          connections: connectionKeys
+      }, password));
+      setToastMsg("Backup downloaded. Keep the password somewhere safe.");
+  };
+
+  // Errors propagate to the modal, which shows them next to the password field
+  const handleRestoreBackup = async (file: File, password: string, strategy: RestoreStrategy, passphrase: string) => {
+      const backup = await readAccountBackup(await file.text(), password);
+
+      // The signed-in account's sessions live in state; merging there lets the normal save write them
+      if (user && isSameAccount(user, backup.profile)) {
+          const { sessions: merged, summary } = mergeRestoredSessions(sessions, backup.sessions, strategy);
+          setSessions(merged);
+          // Backups don't carry the document index; restored sessions are indexed again
+          indexSessions(user.id, merged, sessionProvider);
+          restoreInvoices(user.id, backup.invoices);
+          setInvoices(getUserInvoices(user.id));
+          setTrashRetentionDays(user.id, backup.settings.trashRetentionDays);
+          setTrashRetention(backup.settings.trashRetentionDays);
+          // Keys already set here win over the backup's
+          await handleSaveConnections({ ...backup.connections, ...connectionKeys });
+          setToastMsg(describeRestore(summary));
+          return;
+      }
+
+      const { user: restoredUser, summary } = await restoreAccount(backup, strategy, passphrase);
+      if (user) await lockAccount(user.id);
+      clearWorkspace();
+      setUser(restoredUser);
+      setToastMsg(`Switched to ${restoredUser.name}. ${describeRestore(summary)}`);
+  };
+
+  // Drops everything the previous account had on screen
+  const clearWorkspace = () => {
+      searchIndexRef.current = createSearchIndex();
+      setApiServerUser(null);
+      suspendVideoJobs();
+      setVideoJobs({});
+      clearConversions();
+      setConversionBatches({});
+      clearDocumentIndex();
       setSessions([]);
-      setMessages([]);
+      setInvoices([]);
+      setConnectionKeys({});
+      resetSession();
       setIsProfileOpen(false);
   };
 
+  const handleLogout = async () => {
+      clearWorkspace();
+      setUser(null);
+      setLockedUser(null);
+      await logout().catch(error => console.error("Failed to sign out:", error));
+  };
+
+  // Saves pending chats, forgets the data key and shows the lock screen for the same account
+  const handleLock = async () => {
+      if (!user) return;
+      const lockingUser = user;
+      await lockAccount(lockingUser.id).catch(error => console.error("Failed to lock account:", error));
+      clearWorkspace();
+      setUser(null);
+      setLockedUser(lockingUser);
+  };
+  const handleLockRef = useRef(handleLock);
+  handleLockRef.current = handleLock;
+
   // --- REACTION HANDLERS ---
   const handleLike = (messageId: string) => {
-     setMessages(prev => prev.map(msg => 
-         msg.id === messageId ? { ...msg, reaction: 'like' } : msg
-     ));
+     if (currentSessionId) patchMessage(currentSessionId, messageId, { reaction: 'like' });
      setToastMsg("Thank you, We glad you like it!");
   };
 
   const handleDislike = (messageId: string) => {
-     setMessages(prev => prev.map(msg => 
-         msg.id === messageId ? { ...msg, reaction: 'dislike' } : msg
-     ));
+     if (currentSessionId) patchMessage(currentSessionId, messageId, { reaction: 'dislike' });
      setFeedbackModal({ isOpen: true, messageId });
   };
 
   const handleFeedbackSubmit = (rating: number, text: string) => {
-      if (feedbackModal.messageId) {
-          setMessages(prev => prev.map(msg => 
-              msg.id === feedbackModal.messageId ? { ...msg, feedback: `Rating: ${rating}, Comment: ${text}` } : msg
-          ));
+      if (feedbackModal.messageId && currentSessionId) {
+          patchMessage(currentSessionId, feedbackModal.messageId, { feedback: `Rating: ${rating}, Comment: ${text}` });
       }
       setToastMsg("Thanks for your Feedback, we'll try improving our tool for you!");
   };
 
+  // --- INVOICE HANDLERS ---
+  const handleSaveInvoice = (invoice: Invoice) => {
+      const saved = saveInvoice(invoice);
+      setInvoices(prev => [saved, ...prev.filter(i => i.id !== saved.id)].sort((a, b) => b.createdAt - a.createdAt));
+      setToastMsg(`Invoice ${saved.number} saved`);
+  };
+
+  const handleDeleteInvoice = (invoiceId: string) => {
+      if (!user) return;
+      deleteInvoice(user.id, invoiceId);
+      setInvoices(prev => prev.filter(i => i.id !== invoiceId));
+  };
+
+  const handleNewInvoice = () => {
+      if (!user) return;
+      const invoice = createInvoice(user.id, {}, currentSessionId || undefined);
+      setInvoices(prev => [invoice, ...prev]);
+      setInvoiceHistoryOpen(false);
+      setEditingInvoice(invoice);
+  };
+
+  // --- CHECKLIST HANDLERS ---
+  const handleToggleTask = (messageId: string, taskIndex: number, checked: boolean) => {
+      if (!currentSessionId) return;
+      patchMessage(currentSessionId, messageId, msg => ({
+          taskState: { ...msg.taskState, [taskIndex]: checked }
+      }));
+  };
+
+  const handleJumpToMessage = (messageId: string) => {
+      setIsChecklistOpen(false);
+      document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
-    scrollToBottom();
+    // A search jump owns the scroll position until its highlight fades
+    if (!highlightedMessageId) scrollToBottom();
   }, [messages]);
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, currentSessionId]);
+
   useEffect(() => {
     inputRef.current?.focus();
   }, [activeModule]);
@@ -495,190 +900,153 @@ const App: React.FC = () => {
   };
 
   // --- CONVERTER BUTTON ACTIONS ---
-  const handleConvertAction = async (targetFormat: 'PDF' | 'EXCEL' | 'WORD' | 'PPT') => {
-      if (selectedFiles.length === 0 && targetFormat !== 'PDF') {
-          if (!inputValue.trim()) {
-              setToastMsg("Please upload files to convert.");
-              return;
-          }
+  const handleConvertAction = async (targetFormat: ConvertTarget) => {
+      const sessionId = currentSessionId;
+      if (!sessionId) return;
+      if (selectedFiles.length === 0 && !inputValue.trim()) {
+          setToastMsg("Please upload files to convert.");
+          return;
       }
+      // Text goes through the session's request like a chat turn, so it waits for the current one;
+      // file batches run in the conversion queue alongside it
+      if (selectedFiles.length === 0 && isLoading) return;
+      const label = CONVERT_TARGETS[targetFormat].label;
 
-      setIsLoading(true);
-      
       // User Message
-      const userMsgId = uuidv4();
-      const userMsg: Message = { 
-          id: userMsgId, 
-          role: Role.USER, 
-          content: `Convert ${selectedFiles.length > 0 ? `${selectedFiles.length} files` : 'content'} to ${targetFormat}`, 
-          timestamp: Date.now(), 
-          attachments: selectedFiles 
+      const userMsg: Message = {
+          id: uuidv4(),
+          role: Role.USER,
+          content: `Convert ${selectedFiles.length > 0 ? `${selectedFiles.length} file${selectedFiles.length === 1 ? '' : 's'}` : 'content'} to ${label}`,
+          timestamp: Date.now(),
+          attachments: selectedFiles
       };
-      setMessages(prev => [...prev, userMsg]);
+      appendMessage(sessionId, userMsg);
 
       // If no files, process text content
       if (selectedFiles.length === 0) {
+          const { signal } = beginRequest(sessionId);
           const aiMsgId = uuidv4();
-          setMessages(prev => [...prev, { id: aiMsgId, role: Role.MODEL, content: 'Initializing text conversion...', timestamp: Date.now(), isStreaming: true }]);
-          // Simple single-flow for text
+          appendMessage(sessionId, { id: aiMsgId, role: Role.MODEL, content: 'Converting content...', timestamp: Date.now(), isStreaming: true });
           try {
-             let prompt = "";
-             if (targetFormat === 'EXCEL') prompt = "Convert this text data strictly to CSV.";
-             else if (targetFormat === 'WORD') prompt = "Convert this text to Markdown.";
-             else if (targetFormat === 'PDF') prompt = "Convert this text to HTML.";
-             else prompt = "Create presentation outline.";
-
-             await sendMessageStream(
-                prompt + "\n\n" + inputValue,
-                MODULES.find(m => m.id === TaskModule.CONVERTER)?.contextParams,
-                (chunk) => {
-                    setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: msg.content + chunk } : msg));
-                }
-             );
-             setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, isStreaming: false } : msg));
+             // The model only extracts content; converterService writes the actual file
+             const extracted = await extractContent(`${sessionId}:convert:${aiMsgId}`, extractionPrompt(targetFormat, 'text') + "\n\n" + inputValue, undefined, signal);
+             if (signal.aborted) {
+                 patchMessage(sessionId, aiMsgId, { content: 'Stopped converting content.', isStreaming: false, isInterrupted: true });
+             } else {
+                 const downloadData = buildConvertedFile(targetFormat, extracted, 'converted');
+                 patchMessage(sessionId, aiMsgId, { content: `Converted content to ${downloadData.fileName}.`, isStreaming: false, downloadData });
+             }
           } catch(e) {
-              setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: "Conversion failed.", isStreaming: false } : msg));
+              patchMessage(sessionId, aiMsgId, { content: "Conversion failed.", isStreaming: false, error: toMessageError(e) });
           }
-          setIsLoading(false);
+          endRequest(sessionId);
           setInputValue('');
           return;
       }
 
+      // Files go through the conversion queue, which reports into one reply per batch
+      const aiMsgId = uuidv4();
+      const files = selectedFiles;
+      const ilovePdfKey = connectionKeys.ilovePdf?.public || '';
+      const useILovePdf = canUseILovePdf();
+      const batch = enqueueConversionBatch(
+          { sessionId, messageId: aiMsgId, target: targetFormat, files },
+          (file, report, signal) => convertFile(file, targetFormat, { engineId: `${sessionId}:convert:${uuidv4()}`, ilovePdfKey, useILovePdf }, report, signal)
+      );
+      appendMessage(sessionId, {
+          id: aiMsgId,
+          role: Role.MODEL,
+          content: `Converting ${files.length} file${files.length === 1 ? '' : 's'} to ${label}...`,
+          timestamp: Date.now(),
+          isStreaming: true,
+          conversionBatchId: batch.id
+      });
+
       // Clear selection
       setSelectedFiles([]);
       setInputValue('');
+  };
 
-      // Process each file
-      for (const file of selectedFiles) {
-          const aiMsgId = uuidv4();
-          setMessages(prev => [...prev, { id: aiMsgId, role: Role.MODEL, content: `Processing ${file.name}...`, timestamp: Date.now(), isStreaming: true }]);
-
-          let conversionSuccessful = false;
-          
-          // Map to iLovePDF tools
-          const toolMap: Record<string, string> = {
-            'EXCEL': 'pdfexcel',
-            'WORD': 'pdfword',
-            'PDF': 'officepdf',
-            'PPT': 'pdfpowerpoint'
-          };
-
-          // 1. ATTEMPT ILOVEPDF
-          if (ilovePdfKeys.public) {
-              const tool = toolMap[targetFormat];
-              if (tool) {
-                  try {
-                      setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: `Converting ${file.name} with iLovePDF...` } : msg));
-                      const result = await convertWithILovePDF(file.data, file.name, tool, ilovePdfKeys.public, ilovePdfKeys.secret);
-                      setMessages(prev => prev.map(msg => 
-                          msg.id === aiMsgId ? {
-                              ...msg,
-                              content: `Successfully converted ${file.name} to ${result.filename}.`,
-                              isStreaming: false,
-                              downloadData: { fileName: result.filename, data: result.data, mimeType: result.mimeType }
-                          } : msg
-                      ));
-                      conversionSuccessful = true;
-                  } catch (e) {
-                      console.warn(`iLovePDF failed for ${file.name}`, e);
-                  }
-              }
-          }
-
-          if (conversionSuccessful) continue;
-
-          // 2. FALLBACK TO GEMINI
-          setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: `Converting ${file.name} with AI...` } : msg));
 
-          let prompt = "";
-          if (targetFormat === 'EXCEL') {
-              prompt = "Extract all tabular data from the attached file. Output strictly as CSV.";
-          } else if (targetFormat === 'WORD') {
-              prompt = "Extract content from the attached file into Markdown.";
-          } else if (targetFormat === 'PDF') {
-              prompt = "Analyze file and recreate as semantic HTML for printing.";
-          } else {
-              prompt = "Create presentation outline.";
-          }
+  // --- PDF TOOLS (iLovePDF) ---
+  const canUseILovePdf = () => !!connectionKeys.ilovePdf?.public || isProxyEnabled() || isApiServerEnabled();
 
-          try {
-              let gatheredText = '';
-              const serviceAttachments = [{ data: file.data, mimeType: file.type }];
-              
-              await sendMessageStream(
-                  prompt,
-                  MODULES.find(m => m.id === TaskModule.CONVERTER)?.contextParams,
-                  (chunk) => { gatheredText += chunk; },
-                  serviceAttachments
-              );
-
-              let downloadData = undefined;
-              let responseContent = `Converted ${file.name}.`;
-
-              if (targetFormat === 'EXCEL') {
-                  const cleanCsv = gatheredText.replace(/```csv/g, '').replace(/```/g, '').trim();
-                  downloadData = { fileName: file.name.replace(/\.[^/.]+$/, "") + ".csv", data: cleanCsv, mimeType: "text/csv" };
-              } else if (targetFormat === 'WORD') {
-                  const cleanMd = gatheredText.replace(/```markdown/g, '').replace(/```/g, '').trim();
-                  downloadData = { fileName: file.name.replace(/\.[^/.]+$/, "") + ".md", data: cleanMd, mimeType: "text/markdown" };
-              } else if (targetFormat === 'PDF') {
-                  const cleanHtml = gatheredText.replace(/```html/g, '').replace(/```/g, '').trim();
-                  downloadData = { fileName: file.name.replace(/\.[^/.]+$/, "") + ".pdf", data: cleanHtml, mimeType: "text/html" };
-              }
-
-              setMessages(prev => prev.map(msg => 
-                  msg.id === aiMsgId ? { ...msg, content: responseContent, isStreaming: false, downloadData: downloadData } : msg
-              ));
-
-          } catch (e) {
-              setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: `Failed to convert ${file.name}.`, isStreaming: false } : msg));
-          }
+  const openPdfTool = (tool: PdfTool) => {
+      if (!canUseILovePdf()) {
+          setToastMsg("PDF tools run on iLovePDF. Add a key under Connect Apps.");
+          return;
       }
-
-      setIsLoading(false);
+      if (!selectedFiles.some(isPdfFile)) {
+          setToastMsg("Please upload PDF files first.");
+          return;
+      }
+      setPdfTool(tool);
   };
 
+  const handlePdfTool = async (tool: PdfTool, files: FileAttachment[], options: PdfToolOptions) => {
+      const sessionId = currentSessionId;
+      if (!sessionId) return;
+      // Runs on the session's request like a chat turn, so it waits for the current one
+      if (isLoading) {
+          setToastMsg("Wait for the current reply to finish.");
+          return;
+      }
+      const label = PDF_TOOLS.find(t => t.id === tool)?.label || tool;
+      const { signal } = beginRequest(sessionId);
 
-  const parseMediaTags = (text: string) => {
-    const imgMatch = text.match(/{{IMAGE:\s*(.*?)}}/);
-    const videoMatch = text.match(/{{VIDEO:\s*(.*?)}}/);
-    const audioMatch = text.match(/{{AUDIO:\s*(.*?)}}/);
+      appendMessage(sessionId, {
+          id: uuidv4(),
+          role: Role.USER,
+          content: `${label} ${files.length === 1 ? files[0].name : `${files.length} PDFs`}`,
+          timestamp: Date.now(),
+          attachments: files
+      });
+      setSelectedFiles([]);
+      setInputValue('');
 
-    if (imgMatch) return { type: 'IMAGE', prompt: imgMatch[1], cleanText: text.replace(imgMatch[0], '') };
-    if (videoMatch) return { type: 'VIDEO', prompt: videoMatch[1], cleanText: text.replace(videoMatch[0], '') };
-    if (audioMatch) return { type: 'AUDIO', prompt: audioMatch[1], cleanText: text.replace(audioMatch[0], '') };
-    
-    return { type: 'TEXT', prompt: '', cleanText: text };
+      const aiMsgId = uuidv4();
+      appendMessage(sessionId, { id: aiMsgId, role: Role.MODEL, content: `Running ${label} with iLovePDF...`, timestamp: Date.now(), isStreaming: true });
+      try {
+          const result = await runILovePdfTask(tool, files, options, connectionKeys.ilovePdf?.public || '', signal);
+          patchMessage(sessionId, aiMsgId, {
+              content: result.fileCount > 1
+                  ? `${label} produced ${result.fileCount} files, packed in ${result.filename}.`
+                  : `${label} produced ${result.filename}.`,
+              isStreaming: false,
+              downloadData: { fileName: result.filename, data: result.data, mimeType: result.mimeType }
+          });
+      } catch (e) {
+          if (signal.aborted) patchMessage(sessionId, aiMsgId, { content: `Stopped ${label}.`, isStreaming: false, isInterrupted: true });
+          else patchMessage(sessionId, aiMsgId, { content: `${label} failed.`, isStreaming: false, error: toMessageError(e) });
+      }
+      endRequest(sessionId);
   };
 
-  const handleSendMessage = async (forceExecution = false) => {
-    // Allow sending if file is selected OR input is not empty
-    const hasContent = inputValue.trim().length > 0 || selectedFiles.length > 0;
-    if ((!hasContent && !forceExecution) || isLoading) return;
-
-    const userMsgText = inputValue.trim();
-    if (!forceExecution) setInputValue('');
-    setIsLoading(true);
+  // Runs one turn of the active module. Branching (edit / regenerate) places the user message
+  // itself and passes appendUserMessage=false.
+  const runTurn = async (sessionId: string, userMsgText: string, files: FileAttachment[], appendUserMessage: boolean) => {
+    const currentModuleConfig = MODULES.find(m => m.id === activeModule);
+    const provider = currentModuleConfig?.provider;
+    const { signal } = beginRequest(sessionId);
     
     // Add user message
-    if (!forceExecution) {
+    if (appendUserMessage) {
         const userMsgId = uuidv4();
         const newUserMsg: Message = {
           id: userMsgId,
           role: Role.USER,
           content: userMsgText,
           timestamp: Date.now(),
-          attachments: selectedFiles // Attach array
+          attachments: files // Attach array
         };
-        setMessages(prev => [...prev, newUserMsg]);
+        appendMessage(sessionId, newUserMsg);
     }
     
     // --- Auto-Title Generation ---
-    const currentSession = sessions.find(s => s.id === currentSessionId);
     if (currentSession && (currentSession.title === 'New Chat' || currentSession.messages.length === 0)) {
        if (userMsgText) {
-          generateChatTitle(userMsgText).then(newTitle => {
-             setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, title: newTitle } : s));
+          generateChatTitle(userMsgText, provider).then(newTitle => {
+             setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title: newTitle } : s));
           });
        }
     }
@@ -687,32 +1055,39 @@ const App: React.FC = () => {
     if (activeModule === TaskModule.IMAGE_GEN) {
       const aiMsgId = uuidv4();
       const initialAiMsg: Message = { id: aiMsgId, role: Role.MODEL, content: 'Generating image...', timestamp: Date.now(), isStreaming: true };
-      setMessages(prev => [...prev, initialAiMsg]);
+      appendMessage(sessionId, initialAiMsg);
       try {
-        const result = await generateImage(userMsgText, imageSize);
-        setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: `Here is your ${imageSize} generated image for: "${userMsgText}"`, mediaUrl: result.imageUrl, mediaType: 'image', isStreaming: false } : msg));
+        const result = await generateImage(userMsgText, imageSize, provider);
+        if (signal.aborted) throw signal.reason;
+        patchMessage(sessionId, aiMsgId, { content: `Here is your ${imageSize} generated image for: "${userMsgText}"`, mediaUrl: result.imageUrl, mediaType: 'image', isStreaming: false });
       } catch (e) {
-        setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: "Failed to generate image.", isStreaming: false } : msg));
+        patchMessage(sessionId, aiMsgId, signal.aborted
+            ? { content: "Image generation stopped.", isStreaming: false, isInterrupted: true }
+            : { content: "Failed to generate image.", isStreaming: false, error: toMessageError(e) });
       }
-      setIsLoading(false);
+      endRequest(sessionId);
       return;
     }
 
     // --- Video Generation ---
+    // Veo takes minutes, so the job runs in the background (services/videoJobs.ts) and the request ends here
     if (activeModule === TaskModule.VIDEO_GEN) {
         const aiMsgId = uuidv4();
         const initialAiMsg: Message = { id: aiMsgId, role: Role.MODEL, content: 'Generating video with Veo...', timestamp: Date.now(), isStreaming: true };
-        setMessages(prev => [...prev, initialAiMsg]);
+        appendMessage(sessionId, initialAiMsg);
         try {
           // Use first image if multiple
-          const imgData = selectedFiles.length > 0 ? selectedFiles[0].data : undefined;
-          const result = await generateVideo(userMsgText, videoAspectRatio, imgData);
-          setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: `Video generated successfully!`, mediaUrl: result.videoUrl, mediaType: 'video', isStreaming: false } : msg));
+          const imgData = files.length > 0 ? files[0].data : undefined;
+          const job = enqueueVideoJob({ sessionId, messageId: aiMsgId, provider, prompt: userMsgText, aspectRatio: videoAspectRatio, image: imgData });
+          patchMessage(sessionId, aiMsgId, { videoJobId: job.id });
+          if ('Notification' in window && Notification.permission === 'default') {
+            Notification.requestPermission().catch(() => undefined);
+          }
         } catch (e) {
-          setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: "Failed to generate video.", isStreaming: false } : msg));
+          patchMessage(sessionId, aiMsgId, { content: "Failed to generate video.", isStreaming: false, error: toMessageError(e) });
         }
         setSelectedFiles([]);
-        setIsLoading(false);
+        endRequest(sessionId);
         return;
     }
 
@@ -720,14 +1095,19 @@ const App: React.FC = () => {
     if (activeModule === TaskModule.TEXT_TO_SPEECH) {
         const aiMsgId = uuidv4();
         const initialAiMsg: Message = { id: aiMsgId, role: Role.MODEL, content: 'Generating speech...', timestamp: Date.now(), isStreaming: true };
-        setMessages(prev => [...prev, initialAiMsg]);
+        appendMessage(sessionId, initialAiMsg);
         try {
-            const result = await generateSpeech(userMsgText);
-            setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: `Audio generated for: "${userMsgText}"`, audioUrl: result.audioUrl, mediaType: 'audio', isStreaming: false } : msg));
+            const result = await generateSpeech(userMsgText, provider);
+            if (signal.aborted) throw signal.reason;
+            patchMessage(sessionId, aiMsgId, { content: `Audio generated for: "${userMsgText}"`, audioUrl: result.audioUrl, mediaType: 'audio', isStreaming: false });
+            const audioBlobId = await persistMedia(sessionId, aiMsgId, result.audioUrl);
+            if (audioBlobId) patchMessage(sessionId, aiMsgId, { audioBlobId });
         } catch (e) {
-            setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: "Failed to generate speech.", isStreaming: false } : msg));
+            patchMessage(sessionId, aiMsgId, signal.aborted
+                ? { content: "Speech generation stopped.", isStreaming: false, isInterrupted: true }
+                : { content: "Failed to generate speech.", isStreaming: false, error: toMessageError(e) });
         }
-        setIsLoading(false);
+        endRequest(sessionId);
         return;
     }
 
@@ -740,65 +1120,193 @@ const App: React.FC = () => {
       timestamp: Date.now(),
       isStreaming: true
     };
-    setMessages(prev => [...prev, initialAiMsg]);
+    appendMessage(sessionId, initialAiMsg);
 
     try {
-      const currentModuleConfig = MODULES.find(m => m.id === activeModule);
-      
       let gatheredText = '';
       
-      // Map to service attachments format
-      const serviceAttachments = selectedFiles.map(f => ({ data: f.data, mimeType: f.type }));
+      // Documents are read here and sent as text; other files go to the model as they are
+      const { inline, documents } = await prepareAttachments(files);
+
+      // Every document in the session, this turn's included, is indexed before the request goes out
+      if (user) {
+        const sessionFiles = (sessions.find(s => s.id === sessionId)?.messages || []).flatMap(m => m.attachments || []);
+        await syncSessionDocuments(user.id, sessionId, [...sessionFiles, ...files], provider)
+          .catch(error => console.error("Failed to update the document index:", error));
+      }
+
+      // The Summarizer works through documents too long for one prompt part by part; otherwise the
+      // request gets this turn's documents and the passages of earlier ones that match it
+      let prompt = userMsgText;
+      let passages: RetrievedPassages | null = null;
+      const tooLong = documents.reduce((sum, doc) => sum + documentLength(doc), 0) > DOCUMENT_CONTEXT_CHARS;
+      if (activeModule === TaskModule.SUMMARIZER && tooLong) {
+        const notes = await condenseDocuments(documents, `${sessionId}:condense:${aiMsgId}`, signal, (done, total) =>
+            patchMessage(sessionId, aiMsgId, { content: `Reading the documents (${done} of ${total} parts done)...` }));
+        prompt = [userMsgText, notes].filter(Boolean).join('\n\n');
+      } else {
+        passages = await retrievePassages(sessionId, userMsgText, files, provider);
+      }
+      const citationsFor = (reply: string) => {
+        const cited = passages ? citedPassages(reply, passages.citations) : [];
+        return cited.length > 0 ? cited : undefined;
+      };
+      const serviceAttachments = inline.map(file => ({ data: file.data, mimeType: file.type, historyText: documentHistoryText(file) ?? undefined }));
+
+      // Every tool call, native or from a fallback tag, shows up as a status card on the reply
+      const availableTools = getToolsForModule(activeModule);
+      const toolSession = createToolSession(availableTools, {
+        userId: user?.id,
+        sessionId,
+        provider,
+        signal,
+        patchMessage: (updater) => patchMessage(sessionId, aiMsgId, updater)
+      }, (record) => {
+        patchMessage(sessionId, aiMsgId, msg => {
+          const calls = msg.toolCalls || [];
+          const exists = calls.some(c => c.id === record.id);
+          return { toolCalls: exists ? calls.map(c => c.id === record.id ? record : c) : [...calls, record] };
+        });
+        if (record.name === INVOICE_TOOL_NAME && record.status === 'success' && user) {
+          setInvoices(getUserInvoices(user.id));
+        }
+        if (record.status === 'success' && record.media) {
+          const media = record.media;
+          persistMedia(sessionId, aiMsgId, media.url).then(blobId => {
+            if (!blobId) return;
+            patchMessage(sessionId, aiMsgId, msg => ({
+              toolCalls: (msg.toolCalls || []).map(c => c.id === record.id ? { ...c, media: { ...media, blobId } } : c)
+            }));
+          });
+        }
+      });
 
       await sendMessageStream(
-        userMsgText, 
+        sessionId,
+        prompt,
         currentModuleConfig?.contextParams,
         (chunk) => {
             gatheredText += chunk;
-            setMessages(prev => prev.map(msg => 
-                msg.id === aiMsgId 
-                ? { ...msg, content: gatheredText } 
-                : msg
-            ));
+            patchMessage(sessionId, aiMsgId, { content: stripToolTags(gatheredText, availableTools) });
         },
-        serviceAttachments
+        serviceAttachments,
+        signal,
+        toolSession.handlers,
+        passages?.text
       );
 
-      // Check for media tags in standard response
-      const mediaCheck = parseMediaTags(gatheredText);
-      if (mediaCheck.type !== 'TEXT') {
-          setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, content: mediaCheck.cleanText } : msg));
-          if (mediaCheck.type === 'IMAGE') {
-              const imgResult = await generateImage(mediaCheck.prompt);
-              setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, mediaUrl: imgResult.imageUrl, mediaType: 'image' } : msg));
-          } else if (mediaCheck.type === 'VIDEO') {
-              const vidResult = await generateVideo(mediaCheck.prompt, '16:9');
-              setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, mediaUrl: vidResult.videoUrl, mediaType: 'video' } : msg));
-          } else if (mediaCheck.type === 'AUDIO') {
-              const audResult = await generateSpeech(mediaCheck.prompt);
-              setMessages(prev => prev.map(msg => msg.id === aiMsgId ? { ...msg, audioUrl: audResult.audioUrl, mediaType: 'audio' } : msg));
-          }
+      // Stopped: keep the partial text and skip any fallback tags
+      if (signal.aborted) {
+          patchMessage(sessionId, aiMsgId, { isStreaming: false, isInterrupted: true, citations: citationsFor(gatheredText) });
+          return;
       }
 
-      setMessages(prev => prev.map(msg => 
-        msg.id === aiMsgId 
-        ? { ...msg, isStreaming: false } 
-        : msg
-      ));
+      // Providers without function calling write {{TAG: ...}} markers instead
+      patchMessage(sessionId, aiMsgId, { content: toolSession.runTags(gatheredText) });
+      await toolSession.settled();
+
+      patchMessage(sessionId, aiMsgId, { isStreaming: false, citations: citationsFor(gatheredText) });
 
     } catch (error) {
+      if (signal.aborted) {
+        patchMessage(sessionId, aiMsgId, { isStreaming: false, isInterrupted: true });
+        return;
+      }
       console.error(error);
-      setMessages(prev => prev.map(msg => 
-        msg.id === aiMsgId 
-        ? { ...msg, content: "Execution failed. Please check your connection or API key.", isStreaming: false } 
-        : msg
-      ));
+      // Whatever streamed before the failure stays; the error box says what to do next
+      patchMessage(sessionId, aiMsgId, { isStreaming: false, error: toMessageError(error) });
     } finally {
       setSelectedFiles([]); 
-      setIsLoading(false);
+      endRequest(sessionId);
     }
   };
 
+  const handleSendMessage = async (forceExecution = false) => {
+    // Allow sending if file is selected OR input is not empty
+    const hasContent = inputValue.trim().length > 0 || selectedFiles.length > 0;
+    const sessionId = currentSessionId;
+    if ((!hasContent && !forceExecution) || isLoading || !sessionId) return;
+
+    if (!forceExecution) setInputValue('');
+    await runTurn(sessionId, inputValue.trim(), selectedFiles, !forceExecution);
+  };
+
+  // --- BRANCHING ---
+
+  // The engine only knows one linear history, so it is rebuilt whenever the active path changes
+  const reseedChat = (session: Session, path: Message[]) => {
+      const config = MODULES.find(m => m.id === session.activeModule);
+      initializeChat(session.id, path, config?.modelPreference || 'gemini-2.5-flash', config?.provider);
+  };
+
+  const updateBranchSelections = (sessionId: string, updater: (session: Session) => Record<string, string>) => {
+      setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, branchSelections: updater(s), lastModified: Date.now() } : s));
+  };
+
+  // Sends an edited copy of a user message as a new sibling branch
+  const handleEditMessage = (messageId: string, newText: string) => {
+      const sessionId = currentSessionId;
+      const original = messages.find(m => m.id === messageId);
+      if (!currentSession || !sessionId || !original || isLoading || !newText.trim()) return;
+
+      const index = messages.indexOf(original);
+      const parentKey = messageTree.parentKeys.get(messageId) ?? ROOT_KEY;
+      reseedChat(currentSession, messages.slice(0, index));
+      appendMessage(sessionId, {
+          id: uuidv4(),
+          role: Role.USER,
+          content: newText.trim(),
+          timestamp: Date.now(),
+          attachments: original.attachments
+      }, parentKey);
+      runTurn(sessionId, newText.trim(), original.attachments || [], false);
+  };
+
+  // Asks again for the reply to the user message before it, keeping the old reply as a sibling
+  const handleRegenerate = (messageId: string) => {
+      const sessionId = currentSessionId;
+      const index = messages.findIndex(m => m.id === messageId);
+      const userMsg = index > 0 ? messages[index - 1] : undefined;
+      if (!currentSession || !sessionId || !userMsg || userMsg.role !== Role.USER || isLoading) return;
+
+      reseedChat(currentSession, messages.slice(0, index - 1));
+      // End the path at the user message so the new reply is appended beside the old one
+      updateBranchSelections(sessionId, s => ({ ...s.branchSelections, [userMsg.id]: NO_BRANCH }));
+      runTurn(sessionId, userMsg.content, userMsg.attachments || [], false);
+  };
+
+  // PDFs open at the cited page; other documents lead back to the message they were attached to
+  const handleOpenCitation = (citation: DocumentCitation) => {
+      const source = currentSession?.messages.find(m => m.attachments?.some(att => documentKey(att) === citation.documentKey));
+      const attachment = source?.attachments?.find(att => documentKey(att) === citation.documentKey);
+      if (!source || !attachment) {
+          setToastMsg(`${citation.fileName} is no longer in this chat.`);
+          return;
+      }
+      if (citation.page && /\.pdf$/i.test(attachment.name)) {
+          const url = URL.createObjectURL(dataUrlToBlob(attachment.data));
+          window.open(`${url}#page=${citation.page}`, '_blank', 'noopener');
+          setTimeout(() => URL.revokeObjectURL(url), 60_000);
+          return;
+      }
+      setHighlightedMessageId(source.id);
+  };
+
+  // Failed replies are retried by regenerating the turn; converter replies aren't turns
+  const canRetry = (message: Message, index: number): boolean =>
+      !!message.error && !isLoading && activeModule !== TaskModule.CONVERTER && messages[index - 1]?.role === Role.USER;
+
+  const handleSwitchBranch = (messageId: string, direction: -1 | 1) => {
+      const parentKey = messageTree.parentKeys.get(messageId) ?? ROOT_KEY;
+      const siblings = messageTree.children.get(parentKey) || [];
+      const target = siblings[siblings.findIndex(m => m.id === messageId) + direction];
+      if (!currentSession || !target || isLoading) return;
+
+      const branchSelections = { ...currentSession.branchSelections, [parentKey]: target.id };
+      updateBranchSelections(currentSession.id, () => branchSelections);
+      reseedChat(currentSession, getActivePath(currentSession.messages, branchSelections, messageTree));
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -811,6 +1319,15 @@ const App: React.FC = () => {
   const isWelcomeScreen = messages.length === 0;
 
   if (!user) {
+      if (lockedUser) {
+          return (
+            <LockScreen
+              user={lockedUser}
+              onUnlock={(unlocked) => { setLockedUser(null); setUser(unlocked); }}
+              onSignOut={handleLogout}
+            />
+          );
+      }
       return <LoginScreen onLoginSuccess={setUser} />;
   }
 
@@ -828,6 +1345,18 @@ const App: React.FC = () => {
         onRenameSession={handleRenameSession}
         onDeleteSession={handleDeleteSession}
         onOpenConnections={() => setConnectionModalOpen(true)}
+        onOpenInvoices={() => setInvoiceHistoryOpen(true)}
+        storageUsage={storageUsage}
+        trashedSessions={sessions.filter(s => s.isDeleted).sort((a, b) => (b.deletedAt ?? b.lastModified) - (a.deletedAt ?? a.lastModified))}
+        trashRetentionDays={trashRetentionDays}
+        onRestoreSession={handleRestoreSession}
+        onPurgeSession={handlePurgeSession}
+        onEmptyTrash={handleEmptyTrash}
+        onChangeTrashRetention={handleChangeTrashRetention}
+        onSearch={handleSearch}
+        onOpenSearchResult={handleOpenSearchResult}
+        onExportSession={handleExportSession}
+        onImportSessions={handleImportSessions}
       />
 
       {/* Main Content */}
@@ -850,7 +1379,7 @@ const App: React.FC = () => {
                         className="flex items-center gap-2 px-4 py-2 bg-gray-50 hover:bg-gray-100 rounded-full transition-colors text-sm font-medium text-gray-700 border border-gray-100"
                     >
                          <span className="text-sky-500">
-                            {React.cloneElement(MODULES.find(m => m.id === activeModule)?.icon as React.ReactElement, { size: 16 } as any)}
+                            {React.cloneElement(MODULES.find(m => m.id === activeModule)?.icon ?? Icons.MessageSquare, { width: 16, height: 16 })}
                          </span>
                          {MODULES.find(m => m.id === activeModule)?.label || "New Session"}
                          <svg className={`w-3 h-3 text-gray-400 transition-transform ${isModuleMenuOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -876,7 +1405,7 @@ const App: React.FC = () => {
                                         `}
                                     >
                                         <span className={activeModule === module.id ? 'text-sky-500' : 'text-gray-400'}>
-                                            {React.cloneElement(module.icon as React.ReactElement, { width: 16, height: 16 } as any)}
+                                            {React.cloneElement(module.icon, { width: 16, height: 16 })}
                                         </span>
                                         {module.label}
                                     </button>
@@ -889,6 +1418,28 @@ const App: React.FC = () => {
 
             {/* Right Icons */}
             <div className="flex items-center gap-4 text-gray-400">
+                {checklistItems.length > 0 && (
+                    <div className="relative">
+                        <button
+                            onClick={() => setIsChecklistOpen(!isChecklistOpen)}
+                            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors border
+                                ${remainingCount > 0 ? 'bg-sky-50 border-sky-100 text-sky-600 hover:bg-sky-100' : 'bg-green-50 border-green-100 text-green-600 hover:bg-green-100'}
+                            `}
+                            title="Checklist items in this chat"
+                        >
+                            {React.cloneElement(Icons.CheckSquare, { width: 14, height: 14 })}
+                            {remainingCount > 0 ? `${remainingCount} left` : 'All done'}
+                        </button>
+                        {isChecklistOpen && (
+                            <ChecklistPanel
+                                items={checklistItems}
+                                onToggle={handleToggleTask}
+                                onJumpToMessage={handleJumpToMessage}
+                                onClose={() => setIsChecklistOpen(false)}
+                            />
+                        )}
+                    </div>
+                )}
                 <button className="hidden md:block hover:text-amber-400 transition-colors">{Icons.Star}</button>
                 <div className="relative">
                     <button 
@@ -909,6 +1460,15 @@ const App: React.FC = () => {
                                 <div className="text-sm font-medium text-gray-900 truncate">{user.name}</div>
                                 <div className="text-xs text-gray-500 truncate">{user.email}</div>
                             </div>
+                            <button onClick={() => { setIsProfileOpen(false); setBackupMode('backup'); }} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                {Icons.Download} Back up account
+                            </button>
+                            <button onClick={() => { setIsProfileOpen(false); setBackupMode('restore'); }} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                {Icons.Upload} Restore backup
+                            </button>
+                            <button onClick={handleLock} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                {Icons.Lock} Lock now
+                            </button>
                             <button onClick={handleLogout} className="w-full text-left px-4 py-2 text-sm text-red-500 hover:bg-gray-50 flex items-center gap-2">
                                 {Icons.LogOut} Sign Out
                             </button>
@@ -1008,7 +1568,7 @@ const App: React.FC = () => {
           <>
             <div className="flex-1 overflow-y-auto p-4 md:px-20 md:py-8 scroll-smooth bg-white">
               <div className="max-w-4xl mx-auto space-y-6 pb-4">
-                {messages.map((msg) => (
+                {messages.map((msg, index) => (
                   <ChatMessage 
                     key={msg.id} 
                     message={msg} 
@@ -1016,6 +1576,21 @@ const App: React.FC = () => {
                     onDislike={handleDislike}
                     onPlayVoice={handlePlayVoice}
                     isVoicePlaying={playingMessageId === msg.id}
+                    onToggleTask={handleToggleTask}
+                    invoice={msg.invoiceId ? invoices.find(i => i.id === msg.invoiceId) : undefined}
+                    onEditInvoice={setEditingInvoice}
+                    isHighlighted={highlightedMessageId === msg.id}
+                    branch={getBranchPosition(messageTree, msg.id)}
+                    onSwitchBranch={isLoading ? undefined : handleSwitchBranch}
+                    onEditMessage={isLoading ? undefined : handleEditMessage}
+                    onRegenerate={isLoading ? undefined : handleRegenerate}
+                    videoJob={msg.videoJobId ? videoJobs[msg.videoJobId] : undefined}
+                    onCancelVideo={cancelVideoJob}
+                    conversionBatch={msg.conversionBatchId ? conversionBatches[msg.conversionBatchId] : undefined}
+                    onRetryConversion={handleRetryConversion}
+                    onCancelConversion={cancelConversionBatch}
+                    onRetry={canRetry(msg, index) ? handleRegenerate : undefined}
+                    onOpenCitation={handleOpenCitation}
                   />
                 ))}
                 <div ref={messagesEndRef} />
@@ -1030,7 +1605,7 @@ const App: React.FC = () => {
                     <div className="mb-3 p-2 bg-sky-50 border border-sky-100 rounded-xl flex items-center justify-between flex-wrap gap-2 animate-in slide-in-from-bottom-2">
                         <div className="flex items-center gap-2 text-sky-700 text-sm font-medium px-2">
                             {Icons.RefreshCw}
-                            <span>Convert {selectedFiles.length > 0 ? `${selectedFiles.length} files` : 'Files'} to:</span>
+                            <span>Convert {selectedFiles.length > 0 ? `${selectedFiles.length} file${selectedFiles.length === 1 ? '' : 's'}` : 'Files'} to:</span>
                         </div>
                         <div className="flex items-center gap-2">
                             <button onClick={() => handleConvertAction('PDF')} className="px-3 py-1.5 bg-white border border-sky-200 text-sky-600 rounded-lg text-xs font-semibold hover:bg-sky-500 hover:text-white transition-all shadow-sm flex items-center gap-1">
@@ -1045,6 +1620,29 @@ const App: React.FC = () => {
                             <button onClick={() => handleConvertAction('PPT')} className="px-3 py-1.5 bg-white border border-sky-200 text-sky-600 rounded-lg text-xs font-semibold hover:bg-sky-500 hover:text-white transition-all shadow-sm flex items-center gap-1">
                                 {Icons.Presentation} PPT
                             </button>
+                            <label className="flex items-center gap-1 text-xs text-sky-700 pl-1" title="How many files convert at the same time">
+                                Parallel:
+                                <select
+                                    value={conversionConcurrency}
+                                    onChange={(e) => handleConversionConcurrency(Number(e.target.value))}
+                                    className="bg-white border border-sky-200 rounded-lg px-1.5 py-1 text-xs text-sky-700 outline-none focus:ring-2 focus:ring-sky-500"
+                                >
+                                    {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                                        <option key={n} value={n}>{n}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                        <div className="flex items-center gap-2 text-sky-700 text-sm font-medium px-2">
+                            {Icons.FileTypePdf}
+                            <span>PDF tools:</span>
+                        </div>
+                        <div className="flex items-center gap-2 flex-wrap">
+                            {PDF_TOOLS.map(tool => (
+                                <button key={tool.id} onClick={() => openPdfTool(tool.id)} disabled={isLoading} title={tool.description} className="px-3 py-1.5 bg-white border border-sky-200 text-sky-600 rounded-lg text-xs font-semibold hover:bg-sky-500 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:text-sky-600 transition-all shadow-sm flex items-center gap-1">
+                                    {tool.icon} {tool.label}
+                                </button>
+                            ))}
                         </div>
                     </div>
                 )}
@@ -1113,13 +1711,23 @@ const App: React.FC = () => {
                     onChange={handleFileUpload} 
                   />
 
-                  <button
-                    onClick={() => handleSendMessage()}
-                    disabled={isLoading || (!inputValue.trim() && selectedFiles.length === 0)}
-                    className="absolute right-2 top-1/2 -translate-y-1/2 p-2.5 text-sky-400 hover:text-sky-600 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-                  >
-                    {Icons.Send}
-                  </button>
+                  {isLoading ? (
+                    <button
+                      onClick={handleStopGeneration}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 p-2.5 text-red-400 hover:text-red-600 transition-all"
+                      title="Stop generating"
+                    >
+                      {Icons.StopCircle}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleSendMessage()}
+                      disabled={!inputValue.trim() && selectedFiles.length === 0}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 p-2.5 text-sky-400 hover:text-sky-600 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+                    >
+                      {Icons.Send}
+                    </button>
+                  )}
                 </div>
                 <div className="text-center mt-2">
                      <p className="text-[10px] text-gray-300">SwiftMind AI can make mistakes. Verify important information.</p>
@@ -1142,8 +1750,37 @@ const App: React.FC = () => {
       <ConnectionModal
         isOpen={connectionModalOpen}
         onClose={() => setConnectionModalOpen(false)}
-        ilovePdfKeys={ilovePdfKeys}
-        onSave={setIlovePdfKeys}
+        keys={connectionKeys}
+        onSave={handleSaveConnections}
+      />
+
+      <PdfToolModal
+        tool={pdfTool}
+        files={selectedFiles}
+        onClose={() => setPdfTool(null)}
+        onRun={handlePdfTool}
+      />
+
+      <BackupModal
+        mode={backupMode}
+        onClose={() => setBackupMode(null)}
+        onBackup={handleBackupAccount}
+        onRestore={handleRestoreBackup}
+      />
+
+      <InvoiceHistory
+        isOpen={invoiceHistoryOpen}
+        invoices={invoices}
+        onClose={() => setInvoiceHistoryOpen(false)}
+        onOpenInvoice={(invoice) => { setInvoiceHistoryOpen(false); setEditingInvoice(invoice); }}
+        onNewInvoice={handleNewInvoice}
+        onDeleteInvoice={handleDeleteInvoice}
+      />
+
+      <InvoiceEditor
+        invoice={editingInvoice}
+        onClose={() => setEditingInvoice(null)}
+        onSave={handleSaveInvoice}
       />
     </div>
   );
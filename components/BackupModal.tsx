@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from '../constants';
+import { MIN_BACKUP_PASSWORD_LENGTH, RestoreStrategy } from '../services/backupService';
+
+export type BackupModalMode = 'backup' | 'restore';
+
+interface BackupModalProps {
+  mode: BackupModalMode | null;
+  onClose: () => void;
+  onBackup?: (password: string) => Promise<void>;
+  // passphrase: the account's passphrase on this browser, separate from the backup password
+  onRestore: (file: File, password: string, strategy: RestoreStrategy, passphrase: string) => Promise<void>;
+  requirePassphrase?: boolean; // No account is signed in, so every restore needs one
+}
+
+const STRATEGIES: { id: RestoreStrategy; label: string; description: string }[] = [
+  { id: 'keep-both', label: 'Keep both', description: 'Chats changed on both sides are kept twice; the backup copy is marked "(restored)".' },
+  { id: 'newest-wins', label: 'Newest wins', description: 'For each chat, whichever copy was changed last is kept.' }
+];
+
+const BackupModal: React.FC<BackupModalProps> = ({ mode, onClose, onBackup, onRestore, requirePassphrase = false }) => {
+  const [password, setPassword] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [strategy, setStrategy] = useState<RestoreStrategy>('keep-both');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (mode) {
+      setPassword('');
+      setConfirmPassword('');
+      setPassphrase('');
+      setFile(null);
+      setError(null);
+    }
+  }, [mode]);
+
+  if (!mode) return null;
+
+  const isBackup = mode === 'backup';
+  const canSubmit = isBackup
+    ? password.length >= MIN_BACKUP_PASSWORD_LENGTH && password === confirmPassword
+    : !!file && password.length > 0 && (!requirePassphrase || passphrase.length > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit || isWorking) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (isBackup) await onBackup?.(password);
+      else await onRestore(file!, password, strategy, passphrase);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    }
+    setIsWorking(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/30 backdrop-blur-sm" onClick={isWorking ? undefined : onClose}></div>
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 relative z-10 animate-in zoom-in-95 duration-200 text-left">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-semibold text-gray-800">{isBackup ? 'Back up account' : 'Restore from backup'}</h3>
+          <button type="button" onClick={onClose} disabled={isWorking} className="text-gray-400 hover:text-gray-600">{Icons.X}</button>
+        </div>
+        <p className="text-sm text-gray-500 mb-5">
+          {isBackup
+            ? 'Downloads your profile, chats (trash included), invoices, settings and connection keys as one encrypted file. Without the password it cannot be opened, and it cannot be recovered.'
+            : 'Opens an encrypted SwiftMind backup and adds its chats and invoices to the matching account on this browser.'}
+        </p>
+
+        <div className="space-y-4">
+          {!isBackup && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Backup file</label>
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-sky-50 file:text-sky-600 file:text-xs file:font-medium"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">{isBackup ? 'Password' : 'Backup password'}</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={isBackup ? 'new-password' : 'current-password'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+              autoFocus
+            />
+            {isBackup && (
+              <p className="text-[10px] text-gray-400 mt-1">At least {MIN_BACKUP_PASSWORD_LENGTH} characters.</p>
+            )}
+          </div>
+
+          {!isBackup && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Account passphrase on this browser</label>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="current-password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+              />
+              <p className="text-[10px] text-gray-400 mt-1">
+                {requirePassphrase
+                  ? 'Unlocks the backup\'s account here. If this browser doesn\'t have it yet, it becomes its passphrase.'
+                  : 'Only needed if the backup belongs to another account. If this browser doesn\'t have it yet, it becomes its passphrase.'}
+              </p>
+            </div>
+          )}
+
+          {isBackup ? (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Confirm password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+              />
+              {confirmPassword && password !== confirmPassword && (
+                <p className="text-[10px] text-red-500 mt-1">Passwords don't match.</p>
+              )}
+            </div>
+          ) : (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-2">When a chat exists in both places</label>
+              <div className="space-y-2">
+                {STRATEGIES.map(option => (
+                  <label key={option.id} className={`flex gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${strategy === option.id ? 'border-sky-300 bg-sky-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+                    <input
+                      type="radio"
+                      name="restore-strategy"
+                      checked={strategy === option.id}
+                      onChange={() => setStrategy(option.id)}
+                      className="mt-0.5 accent-sky-500"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-800">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && <div className="text-sm text-red-500 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button type="button" onClick={onClose} disabled={isWorking} className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-50 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit || isWorking}
+            className="px-6 py-2 bg-sky-500 text-white font-medium rounded-lg hover:bg-sky-600 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {isWorking ? (isBackup ? 'Encrypting…' : 'Restoring…') : (isBackup ? 'Download backup' : 'Restore')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default BackupModal;
@@ -1,6 +1,15 @@
 import React, { useState } from 'react';
-import { Message, Role } from '../types';
+import { Message, Role, Invoice, VideoJob, ConversionBatch, DocumentCitation } from '../types';
 import { Icons } from '../constants';
+import MarkdownRenderer from './MarkdownRenderer';
+import GstBreakdown from './GstBreakdown';
+import InvoiceCard from './InvoiceCard';
+import ToolCallCard from './ToolCallCard';
+import VideoJobCard from './VideoJobCard';
+import ConversionBatchCard from './ConversionBatchCard';
+import CitationList from './CitationList';
+import { downloadFile } from '../utils/download';
+import { BranchPosition } from '../utils/messageTree';
 
 interface ChatMessageProps {
   message: Message;
@@ -8,6 +17,21 @@ interface ChatMessageProps {
   onDislike?: (id: string) => void;
   onPlayVoice?: (id: string, text: string) => void;
   isVoicePlaying?: boolean;
+  onToggleTask?: (messageId: string, taskIndex: number, checked: boolean) => void;
+  invoice?: Invoice; // Resolved from message.invoiceId by the parent
+  onEditInvoice?: (invoice: Invoice) => void;
+  isHighlighted?: boolean; // Briefly set after jumping here from search
+  branch?: BranchPosition; // Position among alternative versions of this turn
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+  onEditMessage?: (messageId: string, newText: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  videoJob?: VideoJob; // Background job behind a video reply, resolved from message.videoJobId
+  onCancelVideo?: (jobId: string) => void;
+  conversionBatch?: ConversionBatch; // Converter batch behind this reply, resolved from message.conversionBatchId
+  onRetryConversion?: (batchId: string, itemId: string) => void;
+  onCancelConversion?: (batchId: string) => void;
+  onRetry?: (messageId: string) => void; // Offered when the reply failed (message.error)
+  onOpenCitation?: (citation: DocumentCitation) => void;
 }
 
 const ChatMessage: React.FC<ChatMessageProps> = ({ 
@@ -15,132 +39,70 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
   onLike, 
   onDislike, 
   onPlayVoice,
-  isVoicePlaying = false
+  isVoicePlaying = false,
+  onToggleTask,
+  invoice,
+  onEditInvoice,
+  isHighlighted = false,
+  branch,
+  onSwitchBranch,
+  onEditMessage,
+  onRegenerate,
+  videoJob,
+  onCancelVideo,
+  conversionBatch,
+  onRetryConversion,
+  onCancelConversion,
+  onRetry,
+  onOpenCitation
 }) => {
   const isUser = message.role === Role.USER;
   const [isCopied, setIsCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
 
-  // Helper to render a table from a buffer of strings
-  const renderTable = (tableLines: string[], keyPrefix: string) => {
-    const rows = tableLines.map(row => 
-        row.split('|')
-           .filter((cell, i, arr) => {
-               if (i === 0 && cell.trim() === '') return false;
-               if (i === arr.length - 1 && cell.trim() === '') return false;
-               return true;
-           })
-           .map(c => c.trim())
-    );
-
-    if (rows.length === 0) return null;
-    const separatorIndex = rows.findIndex(row => row.some(cell => /^[-:]+$/.test(cell)));
-    
-    let headers: string[] | null = null;
-    let bodyRows = rows;
-
-    if (separatorIndex !== -1) {
-        if (separatorIndex === 1) {
-             headers = rows[0];
-             bodyRows = rows.slice(2);
-        } else {
-             bodyRows = rows.filter((_, idx) => idx !== separatorIndex);
-        }
-    }
-
-    return (
-        <div key={keyPrefix} className="my-4 overflow-x-auto border border-gray-200 rounded-lg shadow-sm">
-            <table className="min-w-full divide-y divide-gray-200">
-                {headers && (
-                    <thead className="bg-gray-50">
-                        <tr>
-                            {headers.map((h, i) => (
-                                <th key={i} className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">
-                                    {h}
-                                </th>
-                            ))}
-                        </tr>
-                    </thead>
-                )}
-                <tbody className="bg-white divide-y divide-gray-200">
-                    {bodyRows.map((row, i) => (
-                        <tr key={i} className={i % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                            {row.map((cell, j) => (
-                                <td key={j} className="px-6 py-4 text-sm text-gray-700 whitespace-nowrap">
-                                    {cell}
-                                </td>
-                            ))}
-                        </tr>
-                    ))}
-                </tbody>
-            </table>
-        </div>
-    );
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
   };
 
-  const renderInlineFormat = (text: string) => {
-    const parts = text.split(/(\*\*.*?\*\*)/g);
-    return parts.map((part, index) => {
-        if (part.startsWith('**') && part.endsWith('**')) {
-            return <strong key={index} className="text-gray-900 font-semibold">{part.slice(2, -2)}</strong>;
-        }
-        return part;
-    });
+  const submitEdit = () => {
+    if (!draft.trim() || !onEditMessage) return;
+    setIsEditing(false);
+    if (draft.trim() !== message.content.trim()) onEditMessage(message.id, draft);
   };
 
-  const formatText = (text: string) => {
-    const lines = text.split('\n');
-    const elements: React.ReactNode[] = [];
-    let tableBuffer: string[] = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const trimmed = line.trim();
-        
-        if (trimmed.startsWith('|')) {
-            tableBuffer.push(trimmed);
-            if (i === lines.length - 1) {
-                 elements.push(renderTable(tableBuffer, `table-${i}`));
-                 tableBuffer = [];
-            }
-            continue;
-        } 
-        
-        if (tableBuffer.length > 0) {
-            elements.push(renderTable(tableBuffer, `table-${i}`));
-            tableBuffer = [];
-        }
-
-        if (trimmed === '') {
-            elements.push(<div key={`spacer-${i}`} className="h-3" />);
-        } else if (trimmed.startsWith('###')) {
-            elements.push(<h3 key={`h3-${i}`} className="text-lg font-bold text-gray-800 mt-5 mb-2">{trimmed.replace(/^###\s+/, '')}</h3>);
-        } else if (trimmed.startsWith('##')) {
-            elements.push(<h2 key={`h2-${i}`} className="text-xl font-bold text-gray-800 mt-6 mb-3">{trimmed.replace(/^##\s+/, '')}</h2>);
-        } else if (trimmed.startsWith('**') && trimmed.endsWith('**') && trimmed.length < 60 && !trimmed.includes(':')) {
-             elements.push(<div key={`bold-${i}`} className="font-bold text-gray-800 mt-2 mb-1">{trimmed.replace(/\*\*/g, '')}</div>);
-        } else if (trimmed.startsWith('---') || trimmed.startsWith('___')) {
-             elements.push(<hr key={`hr-${i}`} className="my-4 border-gray-200" />);
-        } else if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-            const content = trimmed.substring(2);
-            elements.push(
-                <div key={`list-${i}`} className="flex gap-2.5 ml-1 my-1.5">
-                    <span className="text-gray-400 mt-2 w-1.5 h-1.5 rounded-full bg-gray-500 shrink-0 block" />
-                    <span className="text-gray-600 leading-relaxed">
-                        {renderInlineFormat(content)}
-                    </span>
-                </div>
-            );
-        } else {
-            elements.push(
-                <p key={`p-${i}`} className="mb-2 leading-relaxed text-gray-600">
-                    {renderInlineFormat(line)}
-                </p>
-            );
-        }
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
     }
-    return elements;
   };
 
+  const branchSwitcher = branch && branch.count > 1 && (
+    <div className={`flex items-center gap-1 text-xs ${isUser ? 'text-sky-50' : 'text-gray-400'}`}>
+      <button
+        onClick={() => onSwitchBranch?.(message.id, -1)}
+        disabled={!onSwitchBranch || branch.index === 0}
+        className="px-1 rounded hover:opacity-70 disabled:opacity-40 transition-opacity"
+        title="Previous version"
+      >
+        &lsaquo;
+      </button>
+      <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+      <button
+        onClick={() => onSwitchBranch?.(message.id, 1)}
+        disabled={!onSwitchBranch || branch.index === branch.count - 1}
+        className="px-1 rounded hover:opacity-70 disabled:opacity-40 transition-opacity"
+        title="Next version"
+      >
+        &rsaquo;
+      </button>
+    </div>
+  );
+
   const handleShare = () => {
     navigator.clipboard.writeText(message.content).then(() => {
         setIsCopied(true);
@@ -148,32 +110,6 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
     });
   };
 
-  const downloadFile = (data: string, fileName: string, mimeType: string) => {
-    const blob = new Blob([data], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    
-    if (mimeType === 'text/html') {
-        const printWindow = window.open('', '_blank');
-        if (printWindow) {
-            printWindow.document.write(data);
-            printWindow.document.close();
-            setTimeout(() => {
-                printWindow.print();
-            }, 500);
-        }
-        URL.revokeObjectURL(url);
-        return;
-    }
-
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
   const renderAttachment = (attachment: { name: string, type: string, data: string }) => {
       if (attachment.type.startsWith('image/')) {
           return (
@@ -203,10 +139,11 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
   };
 
   return (
-    <div className={`w-full flex ${isUser ? 'justify-end' : 'justify-start'} animate-in fade-in duration-300 slide-in-from-bottom-2 px-2`}>
+    <div id={`message-${message.id}`} className={`w-full flex ${isUser ? 'justify-end' : 'justify-start'} animate-in fade-in duration-300 slide-in-from-bottom-2 px-2`}>
       <div 
         className={`
-          max-w-[95%] md:max-w-[85%] rounded-2xl p-5 shadow-sm
+          max-w-[95%] md:max-w-[85%] rounded-2xl p-5 shadow-sm transition-shadow duration-500
+          ${isHighlighted ? 'ring-2 ring-amber-300 ring-offset-2' : ''}
           ${isUser 
             ? 'bg-sky-400 text-white rounded-br-sm' 
             : 'bg-white text-gray-800 rounded-bl-sm border border-gray-100 shadow-gray-100'}
@@ -251,9 +188,9 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
           <div className="my-4 p-4 bg-sky-50 border border-sky-100 rounded-xl flex items-center justify-between gap-4">
               <div className="flex items-center gap-3">
                   <div className="p-2 bg-white rounded-lg text-sky-500 shadow-sm">
-                      {message.downloadData.mimeType === 'text/html' 
+                      {message.downloadData.mimeType === 'text/html' || message.downloadData.mimeType === 'application/pdf'
                         ? Icons.FileTypePdf 
-                        : message.downloadData.fileName.endsWith('.csv') || message.downloadData.fileName.endsWith('.xlsx') 
+                        : /\.(csv|xlsx)$/i.test(message.downloadData.fileName)
                             ? Icons.FileSpreadsheet 
                             : Icons.FileTypeDoc
                       }
@@ -266,7 +203,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                   </div>
               </div>
               <button 
-                onClick={() => message.downloadData && downloadFile(message.downloadData.data, message.downloadData.fileName, message.downloadData.mimeType)}
+                onClick={() => message.downloadData && downloadFile(message.downloadData)}
                 className="px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
               >
                 {message.downloadData.mimeType === 'text/html' ? 'Print / PDF' : 'Download'}
@@ -274,11 +211,87 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
           </div>
         )}
 
+        {isEditing ? (
+          <div className="flex flex-col gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+              autoFocus
+              className="w-full min-w-[16rem] resize-none rounded-lg bg-white/95 text-gray-800 p-2 text-base outline-none"
+            />
+            <div className="flex justify-end gap-2 text-sm">
+              <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded-md text-sky-50 hover:bg-sky-500 transition-colors">Cancel</button>
+              <button onClick={submitEdit} disabled={!draft.trim()} className="px-3 py-1 rounded-md bg-white text-sky-600 font-medium hover:bg-sky-50 disabled:opacity-50 transition-colors">Send</button>
+            </div>
+          </div>
+        ) : (
         <div className={`text-base overflow-x-auto ${isUser ? 'text-white font-normal' : 'text-gray-600'}`}>
-           {isUser ? message.content : formatText(message.content)}
+           {isUser ? message.content : (
+              <MarkdownRenderer
+                content={message.content}
+                taskState={message.taskState}
+                onToggleTask={onToggleTask && !message.isStreaming ? (taskIndex, checked) => onToggleTask(message.id, taskIndex, checked) : undefined}
+              />
+           )}
         </div>
+        )}
+
+        {!isUser && message.citations && message.citations.length > 0 && (
+          <CitationList messageId={message.id} citations={message.citations} onOpen={onOpenCitation} />
+        )}
+
+        {isUser && !isEditing && (branchSwitcher || onEditMessage) && (
+          <div className="flex items-center justify-end gap-3 mt-2">
+            {branchSwitcher}
+            {onEditMessage && (
+              <button
+                onClick={startEditing}
+                className="text-sky-50 hover:text-white transition-colors"
+                title="Edit and resend"
+              >
+                {React.cloneElement(Icons.Edit2, { width: 14, height: 14 })}
+              </button>
+            )}
+          </div>
+        )}
+
+        {message.error && (
+          <div className={`mt-3 flex items-start justify-between gap-3 text-sm rounded-lg px-3 py-2 border ${
+            message.error.kind === 'quota' || message.error.kind === 'network'
+              ? 'text-amber-700 bg-amber-50 border-amber-100'
+              : 'text-red-500 bg-red-50 border-red-100'
+          }`}>
+            <span>{message.error.message}</span>
+            {onRetry && (
+              <button
+                onClick={() => onRetry(message.id)}
+                className="shrink-0 inline-flex items-center gap-1 font-medium hover:underline"
+                title="Try this request again"
+              >
+                {React.cloneElement(Icons.RefreshCw, { width: 14, height: 14 })}
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+
+        {message.toolCalls?.map(call => (
+          <ToolCallCard key={call.id} call={call} />
+        ))}
+
+        {message.gstCalculations?.map((result, idx) => (
+          <GstBreakdown key={idx} result={result} />
+        ))}
+
+        {invoice && <InvoiceCard invoice={invoice} onEdit={onEditInvoice} />}
+
+        {videoJob && message.isStreaming && <VideoJobCard job={videoJob} onCancel={onCancelVideo} />}
         
-        {message.isStreaming && (
+        {conversionBatch && <ConversionBatchCard batch={conversionBatch} onRetry={onRetryConversion} onCancel={onCancelConversion} />}
+
+        {message.isStreaming && !videoJob && !conversionBatch && (
              <div className="mt-3 flex items-center gap-1.5 h-4">
                 <div className="w-1.5 h-1.5 bg-gray-300 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
                 <div className="w-1.5 h-1.5 bg-gray-300 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
@@ -286,6 +299,13 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
             </div>
         )}
 
+        {message.isInterrupted && (
+             <div className="mt-3 inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-amber-50 border border-amber-100 text-[11px] font-medium text-amber-600">
+                {React.cloneElement(Icons.StopCircle, { width: 12, height: 12 })}
+                Stopped by you
+             </div>
+        )}
+
         {!isUser && !message.isStreaming && (
           <div className="flex items-center gap-4 mt-4 pt-3 border-t border-gray-50 text-gray-400">
              <button 
@@ -319,6 +339,16 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
              >
                 {isVoicePlaying ? Icons.StopCircle : Icons.Volume2}
              </button>
+             {onRegenerate && (
+               <button
+                  onClick={() => onRegenerate(message.id)}
+                  className="flex items-center gap-1 hover:text-sky-500 transition-colors"
+                  title="Regenerate"
+               >
+                  {React.cloneElement(Icons.RefreshCw, { width: 16, height: 16 })}
+               </button>
+             )}
+             {branchSwitcher && <div className="ml-auto">{branchSwitcher}</div>}
           </div>
         )}
       </div>
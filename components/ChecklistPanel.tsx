@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { ChecklistItem } from '../utils/checklist';
+import { Icons } from '../constants';
+
+interface ChecklistPanelProps {
+  items: ChecklistItem[];
+  onToggle: (messageId: string, taskIndex: number, checked: boolean) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onClose: () => void;
+}
+
+const ChecklistPanel: React.FC<ChecklistPanelProps> = ({ items, onToggle, onJumpToMessage, onClose }) => {
+  const [showCompleted, setShowCompleted] = useState(false);
+
+  const doneCount = items.filter(item => item.checked).length;
+  const visible = showCompleted ? items : items.filter(item => !item.checked);
+  const progress = items.length > 0 ? Math.round((doneCount / items.length) * 100) : 0;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-10" onClick={onClose}></div>
+      <div className="absolute top-full right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-100 z-20 animate-in fade-in zoom-in-95 duration-100">
+        <div className="px-4 py-3 border-b border-gray-50">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-gray-800">Remaining items</span>
+            <span className="text-xs text-gray-400">{doneCount} of {items.length} done</span>
+          </div>
+          <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-sky-400 transition-all" style={{ width: `${progress}%` }}></div>
+          </div>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto py-1">
+          {visible.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-400">
+              All done! Nothing left on this list.
+            </div>
+          ) : (
+            visible.map(item => (
+              <div key={`${item.messageId}-${item.taskIndex}`} className="flex items-start gap-2.5 px-4 py-2 hover:bg-gray-50 group">
+                <input
+                  type="checkbox"
+                  checked={item.checked}
+                  onChange={(e) => onToggle(item.messageId, item.taskIndex, e.target.checked)}
+                  className="mt-0.5 h-4 w-4 shrink-0 rounded border-gray-300 accent-sky-500 cursor-pointer"
+                />
+                <button
+                  onClick={() => onJumpToMessage(item.messageId)}
+                  className={`flex-1 text-left text-sm leading-snug ${item.checked ? 'text-gray-400 line-through' : 'text-gray-700'} group-hover:text-sky-600`}
+                  title="Show in conversation"
+                >
+                  {item.text || 'Untitled item'}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t border-gray-50 flex items-center justify-between">
+          <button
+            onClick={() => setShowCompleted(!showCompleted)}
+            className="text-xs text-gray-500 hover:text-sky-500 transition-colors"
+          >
+            {showCompleted ? 'Hide completed' : 'Show completed'}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            {Icons.X}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ChecklistPanel;
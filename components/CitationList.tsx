@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { DocumentCitation } from '../types';
+import { Icons } from '../constants';
+
+interface CitationListProps {
+  messageId: string;
+  citations: DocumentCitation[];
+  onOpen?: (citation: DocumentCitation) => void;
+}
+
+// The document passages a reply cites, numbered like the [n] markers in its text
+const CitationList: React.FC<CitationListProps> = ({ messageId, citations, onOpen }) => {
+  const [openMarker, setOpenMarker] = useState<number | null>(null);
+
+  return (
+    <div className="mt-4 pt-3 border-t border-gray-100">
+      <div className="text-xs font-semibold uppercase tracking-wider text-gray-400 mb-2">Sources</div>
+      <ol className="space-y-1.5">
+        {citations.map(citation => (
+          <li key={citation.marker} id={`citation-${messageId}-${citation.marker}`} className="text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="shrink-0 min-w-[1.5rem] px-1 text-center text-xs font-semibold text-sky-600 bg-sky-50 rounded">
+                {citation.marker}
+              </span>
+              <button
+                onClick={() => onOpen?.(citation)}
+                disabled={!onOpen}
+                className="flex items-center gap-1.5 min-w-0 text-gray-700 hover:text-sky-600 disabled:hover:text-gray-700 transition-colors"
+                title={citation.page ? `Open ${citation.fileName} at page ${citation.page}` : `Show where ${citation.fileName} was attached`}
+              >
+                <span className="shrink-0 text-gray-400">
+                  {React.cloneElement(Icons.FileText, { width: 14, height: 14 })}
+                </span>
+                <span className="truncate hover:underline">{citation.fileName}</span>
+              </button>
+              <span className="shrink-0 text-xs text-gray-400">{citation.location} · chunk {citation.chunkIndex + 1}</span>
+              <button
+                onClick={() => setOpenMarker(openMarker === citation.marker ? null : citation.marker)}
+                className="ml-auto shrink-0 text-xs text-gray-400 hover:text-sky-600 transition-colors"
+              >
+                {openMarker === citation.marker ? 'Hide' : 'Excerpt'}
+              </button>
+            </div>
+            {openMarker === citation.marker && (
+              <blockquote className="mt-1.5 ml-8 pl-3 border-l-2 border-sky-100 text-xs text-gray-500 whitespace-pre-wrap">
+                {citation.excerpt}
+              </blockquote>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default CitationList;
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from '../constants';
+import { ConnectionKeys } from '../types';
+import {
+  API_PROXY_URL,
+  isProxyEnabled,
+  validateGeminiKey,
+  validateIlovePdfKeys,
+  testGeminiKey,
+  testIlovePdfKeys
+} from '../services/keyVault';
+
+interface ConnectionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  keys: ConnectionKeys;
+  onSave: (keys: ConnectionKeys) => Promise<void>;
+}
+
+type Integration = 'gemini' | 'ilovePdf';
+
+interface CheckState {
+  status: 'idle' | 'testing' | 'ok' | 'error';
+  message?: string;
+}
+
+const IDLE: CheckState = { status: 'idle' };
+
+const ConnectionModal: React.FC<ConnectionModalProps> = ({ isOpen, onClose, keys, onSave }) => {
+  const [geminiKey, setGeminiKey] = useState('');
+  const [pub, setPub] = useState('');
+  const [sec, setSec] = useState('');
+  const [showKeys, setShowKeys] = useState(false);
+  const [checks, setChecks] = useState<Record<Integration, CheckState>>({ gemini: IDLE, ilovePdf: IDLE });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setGeminiKey(keys.gemini?.apiKey || '');
+      setPub(keys.ilovePdf?.public || '');
+      setSec(keys.ilovePdf?.secret || '');
+      setShowKeys(false);
+      setChecks({ gemini: IDLE, ilovePdf: IDLE });
+      setError(null);
+    }
+  }, [isOpen, keys]);
+
+  if (!isOpen) return null;
+
+  const trimmedGemini = geminiKey.trim();
+  const ilovePdf = { public: pub.trim(), secret: sec.trim() };
+  // Empty fields are allowed: they remove the key
+  const geminiProblem = trimmedGemini ? validateGeminiKey(trimmedGemini) : null;
+  const ilovePdfProblem = ilovePdf.public || ilovePdf.secret ? validateIlovePdfKeys(ilovePdf) : null;
+
+  const setCheck = (integration: Integration, state: CheckState) =>
+    setChecks(prev => ({ ...prev, [integration]: state }));
+
+  const runCheck = async (integration: Integration) => {
+    setCheck(integration, { status: 'testing' });
+    try {
+      if (integration === 'gemini') await testGeminiKey(trimmedGemini);
+      else await testIlovePdfKeys(ilovePdf);
+      setCheck(integration, { status: 'ok', message: 'Connected.' });
+    } catch (err) {
+      setCheck(integration, { status: 'error', message: err instanceof Error ? err.message : 'Check failed.' });
+    }
+  };
+
+  const handleSave = async () => {
+    if (geminiProblem || ilovePdfProblem || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        ...(trimmedGemini ? { gemini: { apiKey: trimmedGemini } } : {}),
+        ...(ilovePdf.public ? { ilovePdf } : {})
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the keys.');
+    }
+    setIsSaving(false);
+  };
+
+  const renderCheck = (integration: Integration, problem: string | null, canTest: boolean) => {
+    const check = checks[integration];
+    return (
+      <div className="flex items-center justify-between gap-3 mt-3">
+        <p className={`text-[11px] ${problem || check.status === 'error' ? 'text-red-500' : check.status === 'ok' ? 'text-emerald-600' : 'text-gray-400'}`}>
+          {problem || check.message || ''}
+        </p>
+        <button
+          type="button"
+          onClick={() => runCheck(integration)}
+          disabled={!canTest || !!problem || check.status === 'testing'}
+          className="shrink-0 px-3 py-1 text-xs font-medium text-sky-600 bg-sky-50 rounded-lg hover:bg-sky-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {check.status === 'testing' ? 'Testing…' : 'Test'}
+        </button>
+      </div>
+    );
+  };
+
+  const inputType = showKeys ? 'text' : 'password';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/30 backdrop-blur-sm" onClick={isSaving ? undefined : onClose}></div>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg p-8 relative z-10 animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-xl font-semibold text-gray-900">Connect Apps</h3>
+          <button onClick={onClose} disabled={isSaving} className="text-gray-400 hover:text-gray-600">{Icons.X}</button>
+        </div>
+        <p className="text-sm text-gray-500 mb-6">
+          Keys are encrypted with your passphrase and stay on this device.
+          {isProxyEnabled() && ` Leave a key empty to use the key proxy at ${API_PROXY_URL}.`}
+        </p>
+
+        <div className="mb-4 p-4 bg-gray-50 rounded-xl border border-gray-100">
+          <div className="flex items-center gap-2 mb-4">
+            <span className="text-sky-600 font-bold">Google Gemini</span>
+            <span className="text-xs bg-sky-100 text-sky-600 px-2 py-0.5 rounded-full">Chat &amp; Media</span>
+          </div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">API Key</label>
+          <input
+            type={inputType}
+            value={geminiKey}
+            onChange={(e) => { setGeminiKey(e.target.value); setCheck('gemini', IDLE); }}
+            autoComplete="off"
+            spellCheck={false}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-sky-500 outline-none"
+            placeholder="AIza..."
+          />
+          {renderCheck('gemini', geminiProblem, !!trimmedGemini)}
+        </div>
+
+        <div className="mb-4 p-4 bg-gray-50 rounded-xl border border-gray-100">
+          <div className="flex items-center gap-2 mb-4">
+            <span className="text-red-500 font-bold">iLovePDF Integration</span>
+            <span className="text-xs bg-sky-100 text-sky-600 px-2 py-0.5 rounded-full">Pro Converter</span>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Public Key (Project Key)</label>
+              <input
+                type={inputType}
+                value={pub}
+                onChange={(e) => { setPub(e.target.value); setCheck('ilovePdf', IDLE); }}
+                autoComplete="off"
+                spellCheck={false}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-sky-500 outline-none"
+                placeholder="project_public_..."
+              />
+              <p className="text-[10px] text-gray-400 mt-1">Required for API authentication.</p>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Secret Key</label>
+              <input
+                type={inputType}
+                value={sec}
+                onChange={(e) => setSec(e.target.value)}
+                autoComplete="off"
+                spellCheck={false}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-sky-500 outline-none"
+                placeholder="secret_key_..."
+              />
+            </div>
+          </div>
+          {renderCheck('ilovePdf', ilovePdfProblem, !!ilovePdf.public)}
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-gray-500 mb-6 cursor-pointer">
+          <input type="checkbox" checked={showKeys} onChange={(e) => setShowKeys(e.target.checked)} className="accent-sky-500" />
+          Show keys
+        </label>
+
+        {error && <div className="mb-4 text-sm text-red-500 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</div>}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} disabled={isSaving} className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-50 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!geminiProblem || !!ilovePdfProblem || isSaving}
+            className="px-6 py-2 bg-sky-500 text-white font-medium rounded-lg hover:bg-sky-600 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {isSaving ? 'Saving…' : 'Save Connections'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionModal;
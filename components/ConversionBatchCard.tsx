@@ -0,0 +1,117 @@
+import React from 'react';
+import { ConversionBatch, ConversionItem, ConversionStage } from '../types';
+import { Icons } from '../constants';
+import { getConversionQueuePosition, isBatchSettled } from '../services/conversionQueue';
+import { downloadFile } from '../utils/download';
+
+interface ConversionBatchCardProps {
+  batch: ConversionBatch;
+  onRetry?: (batchId: string, itemId: string) => void;
+  onCancel?: (batchId: string) => void;
+}
+
+const STAGES: { id: ConversionStage; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'process', label: 'Process' },
+  { id: 'download', label: 'Download' }
+];
+
+const METHOD_LABELS = { direct: 'converted locally', ilovepdf: 'via iLovePDF', ai: 'extracted with AI' };
+
+// How full each stage segment is; undefined renders an indeterminate (pulsing) segment
+const segmentFill = (item: ConversionItem, stageIndex: number): number | undefined => {
+  if (item.status === 'done') return 1;
+  const current = STAGES.findIndex(stage => stage.id === item.stage);
+  if (item.status !== 'running' || current < 0 || stageIndex > current) return 0;
+  if (stageIndex < current) return 1;
+  return item.progress;
+};
+
+const statusNote = (item: ConversionItem): string => {
+  switch (item.status) {
+    case 'queued': {
+      const position = getConversionQueuePosition(item.id);
+      return position > 1 ? `Waiting (${position - 1} ahead)` : 'Waiting';
+    }
+    case 'running': {
+      const stage = STAGES.find(s => s.id === item.stage)?.label || 'Working';
+      return item.progress !== undefined ? `${stage} ${Math.round(item.progress * 100)}%` : `${stage}...`;
+    }
+    case 'done':
+      return item.method ? `Done, ${METHOD_LABELS[item.method]}` : 'Done';
+    case 'failed':
+      return item.error?.message || 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+const ConversionBatchCard: React.FC<ConversionBatchCardProps> = ({ batch, onRetry, onCancel }) => {
+  const settled = isBatchSettled(batch);
+  const finished = batch.items.filter(item => item.status === 'done').length;
+
+  return (
+    <div className="my-3 border border-sky-100 bg-sky-50/40 rounded-xl px-4 py-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          {!settled && <div className="w-3.5 h-3.5 rounded-full border-2 border-sky-200 border-t-sky-500 animate-spin"></div>}
+          {settled ? 'Conversion finished' : 'Converting files'}
+          <span className="text-xs font-normal text-gray-400">{finished} of {batch.items.length} done</span>
+        </div>
+        {onCancel && !settled && (
+          <button
+            onClick={() => onCancel(batch.id)}
+            className="text-xs font-medium text-gray-400 hover:text-red-500 transition-colors"
+          >
+            Cancel all
+          </button>
+        )}
+      </div>
+
+      <ul className="mt-3 space-y-3">
+        {batch.items.map(item => (
+          <li key={item.id}>
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className="truncate text-gray-700">{item.fileName}</span>
+              <span className="flex items-center gap-2 shrink-0">
+                {item.status === 'done' && item.result && (
+                  <button
+                    onClick={() => item.result && downloadFile(item.result, { print: false })}
+                    className="p-1 text-sky-500 hover:text-sky-700"
+                    title={`Download ${item.result.fileName}`}
+                  >
+                    {Icons.Download}
+                  </button>
+                )}
+                {(item.status === 'failed' || item.status === 'cancelled') && onRetry && (
+                  <button
+                    onClick={() => onRetry(batch.id, item.id)}
+                    className="flex items-center gap-1 text-xs font-medium text-sky-600 hover:text-sky-800"
+                  >
+                    {Icons.RefreshCw} Retry
+                  </button>
+                )}
+              </span>
+            </div>
+            <div className="mt-1.5 grid grid-cols-3 gap-1">
+              {STAGES.map((stage, i) => {
+                const fill = segmentFill(item, i);
+                return (
+                  <div key={stage.id} className="h-1.5 rounded-full bg-sky-100 overflow-hidden" title={stage.label}>
+                    <div
+                      className={`h-full rounded-full transition-all duration-300 ${item.status === 'failed' ? 'bg-red-400' : 'bg-sky-500'} ${fill === undefined ? 'w-full animate-pulse opacity-60' : ''}`}
+                      style={fill === undefined ? undefined : { width: `${Math.round(fill * 100)}%` }}
+                    ></div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className={`mt-1 text-[11px] ${item.status === 'failed' ? 'text-red-500' : 'text-gray-400'}`}>{statusNote(item)}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ConversionBatchCard;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { GstCalculationResult } from '../types';
+import { formatInr } from '../services/gstEngine';
+
+interface GstBreakdownProps {
+  result: GstCalculationResult;
+}
+
+const GstBreakdown: React.FC<GstBreakdownProps> = ({ result }) => {
+  const [showSteps, setShowSteps] = useState(false);
+  const isIntra = result.supplyType === 'intra';
+
+  return (
+    <div className="my-4 border border-emerald-100 rounded-xl overflow-hidden bg-emerald-50/30">
+      <div className="flex items-center justify-between px-4 py-2.5 bg-emerald-50 border-b border-emerald-100">
+        <div className="flex items-center gap-2 text-sm font-semibold text-emerald-700">
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>
+          Verified GST breakdown
+        </div>
+        <div className="text-[11px] text-emerald-600 uppercase tracking-wider">
+          {isIntra ? 'CGST + SGST' : 'IGST'} · {result.pricing}{result.reverseCharge ? ' · reverse charge' : ''}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase tracking-wider">
+              <th className="px-4 py-2 text-left font-semibold">Item</th>
+              <th className="px-4 py-2 text-right font-semibold">Taxable</th>
+              <th className="px-4 py-2 text-right font-semibold">Rate</th>
+              {isIntra ? (
+                <>
+                  <th className="px-4 py-2 text-right font-semibold">CGST</th>
+                  <th className="px-4 py-2 text-right font-semibold">SGST</th>
+                </>
+              ) : (
+                <th className="px-4 py-2 text-right font-semibold">IGST</th>
+              )}
+              {result.cess > 0 && <th className="px-4 py-2 text-right font-semibold">Cess</th>}
+              <th className="px-4 py-2 text-right font-semibold">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-emerald-100/60 text-gray-700">
+            {result.lines.map((line, i) => (
+              <tr key={i}>
+                <td className="px-4 py-2">
+                  {line.description}
+                  {line.quantity !== 1 && <span className="text-gray-400"> × {line.quantity}</span>}
+                </td>
+                <td className="px-4 py-2 text-right tabular-nums">{formatInr(line.taxableValue)}</td>
+                <td className="px-4 py-2 text-right tabular-nums">{line.rate}%</td>
+                {isIntra ? (
+                  <>
+                    <td className="px-4 py-2 text-right tabular-nums">{formatInr(line.cgst)}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">{formatInr(line.sgst)}</td>
+                  </>
+                ) : (
+                  <td className="px-4 py-2 text-right tabular-nums">{formatInr(line.igst)}</td>
+                )}
+                {result.cess > 0 && <td className="px-4 py-2 text-right tabular-nums">{formatInr(line.cess)}</td>}
+                <td className="px-4 py-2 text-right tabular-nums font-medium">{formatInr(line.lineTotal)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-4 py-3 border-t border-emerald-100 space-y-1 text-sm">
+        <div className="flex justify-between text-gray-600">
+          <span>Taxable value</span><span className="tabular-nums">{formatInr(result.taxableValue)}</span>
+        </div>
+        <div className="flex justify-between text-gray-600">
+          <span>Total GST{result.reverseCharge ? ' (payable by recipient)' : ''}</span><span className="tabular-nums">{formatInr(result.totalTax)}</span>
+        </div>
+        {result.roundOff !== 0 && (
+          <div className="flex justify-between text-gray-400">
+            <span>Round-off</span><span className="tabular-nums">{result.roundOff > 0 ? '+' : ''}{formatInr(result.roundOff)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold text-gray-900 pt-1">
+          <span>Invoice total</span><span className="tabular-nums">{formatInr(result.invoiceTotal)}</span>
+        </div>
+      </div>
+
+      <div className="px-4 pb-3">
+        <button
+          onClick={() => setShowSteps(!showSteps)}
+          className="text-xs font-medium text-emerald-600 hover:text-emerald-700 transition-colors"
+        >
+          {showSteps ? 'Hide steps' : 'Show step-by-step'}
+        </button>
+        {showSteps && (
+          <ol className="mt-2 ml-4 list-decimal space-y-1 text-xs text-gray-600 marker:text-gray-400">
+            {result.steps.map((step, i) => <li key={i}>{step}</li>)}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GstBreakdown;
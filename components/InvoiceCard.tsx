@@ -0,0 +1,79 @@
+import React from 'react';
+import { Invoice } from '../types';
+import { Icons } from '../constants';
+import { calculateInvoiceTotals } from '../services/invoiceService';
+import { invoiceToPdf, invoiceToJson, invoiceToCsv, formatInvoiceDate } from '../services/invoiceExport';
+import { formatInr } from '../services/gstEngine';
+import { downloadFile } from '../utils/download';
+
+interface InvoiceCardProps {
+  invoice: Invoice;
+  onEdit?: (invoice: Invoice) => void;
+}
+
+const STATUS_CLASSES: Record<Invoice['status'], string> = {
+  draft: 'bg-gray-100 text-gray-500',
+  issued: 'bg-sky-50 text-sky-600',
+  paid: 'bg-green-50 text-green-600'
+};
+
+const InvoiceCard: React.FC<InvoiceCardProps> = ({ invoice, onEdit }) => {
+  const totals = calculateInvoiceTotals(invoice);
+
+  return (
+    <div className="my-4 border border-gray-200 rounded-xl overflow-hidden">
+      <div className="flex items-start justify-between gap-4 p-4 bg-gray-50/60">
+        <div className="flex items-start gap-3 min-w-0">
+          <div className="p-2 bg-white rounded-lg text-sky-500 shadow-sm shrink-0">{Icons.DollarSign}</div>
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold text-gray-800 text-sm">{invoice.number}</span>
+              <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wider ${STATUS_CLASSES[invoice.status]}`}>
+                {invoice.status}
+              </span>
+            </div>
+            <div className="text-xs text-gray-500 truncate">
+              {invoice.buyer.name || 'Buyer not set'} · Due {formatInvoiceDate(invoice.dueDate)}
+            </div>
+          </div>
+        </div>
+        <div className="text-right shrink-0">
+          <div className="text-lg font-semibold text-gray-900 tabular-nums">{totals ? formatInr(totals.invoiceTotal) : '—'}</div>
+          {totals && <div className="text-[11px] text-gray-400">incl. {formatInr(totals.totalTax)} GST</div>}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-t border-gray-100">
+        {onEdit && (
+          <button
+            onClick={() => onEdit(invoice)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-sky-500 hover:bg-sky-600 text-white text-xs font-medium rounded-lg transition-colors shadow-sm"
+          >
+            {React.cloneElement(Icons.Edit2, { width: 12, height: 12 })}
+            Edit
+          </button>
+        )}
+        <button
+          onClick={() => downloadFile(invoiceToPdf(invoice))}
+          className="px-3 py-1.5 bg-white border border-gray-200 hover:border-sky-200 hover:text-sky-600 text-gray-600 text-xs font-medium rounded-lg transition-colors"
+        >
+          PDF
+        </button>
+        <button
+          onClick={() => downloadFile(invoiceToJson(invoice))}
+          className="px-3 py-1.5 bg-white border border-gray-200 hover:border-sky-200 hover:text-sky-600 text-gray-600 text-xs font-medium rounded-lg transition-colors"
+        >
+          JSON
+        </button>
+        <button
+          onClick={() => downloadFile(invoiceToCsv(invoice))}
+          className="px-3 py-1.5 bg-white border border-gray-200 hover:border-sky-200 hover:text-sky-600 text-gray-600 text-xs font-medium rounded-lg transition-colors"
+        >
+          CSV
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceCard;
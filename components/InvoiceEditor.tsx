@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Invoice, InvoiceParty, InvoiceLineItem, InvoiceTemplateId, GstCalculationResult } from '../types';
+import { Icons } from '../constants';
+import { calculateInvoiceTotals, createLineItem, inferSupplyType } from '../services/invoiceService';
+import { INVOICE_TEMPLATES, getInvoiceTemplate } from '../services/invoiceTemplates';
+import { invoiceToPdf, formatInvoiceDate, amountInWords } from '../services/invoiceExport';
+import { GST_RATE_SLABS, formatInr } from '../services/gstEngine';
+import { downloadFile } from '../utils/download';
+
+interface InvoiceEditorProps {
+  invoice: Invoice | null;
+  onClose: () => void;
+  onSave: (invoice: Invoice) => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-sky-200 focus:outline-none text-sm";
+const labelClass = "block text-xs font-medium text-gray-500 mb-1";
+
+// --- Party fields ---
+
+const PartyFields: React.FC<{ title: string; party: InvoiceParty; onChange: (party: InvoiceParty) => void }> = ({ title, party, onChange }) => {
+  const set = (field: keyof InvoiceParty) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    onChange({ ...party, [field]: e.target.value });
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-semibold uppercase tracking-wider text-gray-400">{title}</div>
+      <input value={party.name} onChange={set('name')} placeholder="Name" className={inputClass} />
+      <textarea value={party.address} onChange={set('address')} placeholder="Address" rows={2} className={`${inputClass} resize-none`} />
+      <div className="grid grid-cols-2 gap-2">
+        <input value={party.state || ''} onChange={set('state')} placeholder="State" className={inputClass} />
+        <input value={party.gstin || ''} onChange={set('gstin')} placeholder="GSTIN" className={`${inputClass} uppercase`} />
+        <input value={party.email || ''} onChange={set('email')} placeholder="Email" className={inputClass} />
+        <input value={party.phone || ''} onChange={set('phone')} placeholder="Phone" className={inputClass} />
+      </div>
+    </div>
+  );
+};
+
+// --- Preview (same template colours as the PDF export) ---
+
+const InvoicePreview: React.FC<{ invoice: Invoice; totals: GstCalculationResult | null }> = ({ invoice, totals }) => {
+  const template = getInvoiceTemplate(invoice.template);
+  const headerStyle = template.headerBand ? { backgroundColor: template.accent, color: '#ffffff' } : { color: template.accent, borderBottom: `2px solid ${template.accent}` };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm text-sm">
+      <div className="flex justify-between items-start px-6 py-5" style={headerStyle}>
+        <div>
+          <div className="text-xl font-bold tracking-wide">{invoice.items.some(i => i.taxRate > 0) ? 'TAX INVOICE' : 'INVOICE'}</div>
+          <div className="opacity-80">{invoice.seller.name}</div>
+        </div>
+        <div className="text-right">
+          <div className="font-semibold">No. {invoice.number}</div>
+          <div className="text-xs opacity-80">Issued {formatInvoiceDate(invoice.issueDate)}</div>
+          <div className="text-xs opacity-80">Due {formatInvoiceDate(invoice.dueDate)}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 px-6 py-4">
+        {[{ title: 'From', party: invoice.seller }, { title: 'Bill To', party: invoice.buyer }].map(({ title, party }) => (
+          <div key={title}>
+            <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{title}</div>
+            <div className="font-semibold text-gray-800">{party.name || '—'}</div>
+            <div className="text-xs text-gray-500 whitespace-pre-line">{party.address}</div>
+            {party.state && <div className="text-xs text-gray-500">State: {party.state}</div>}
+            {party.gstin && <div className="text-xs text-gray-500">GSTIN: {party.gstin}</div>}
+          </div>
+        ))}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead style={{ backgroundColor: template.tableHeaderFill }}>
+          <tr className="text-gray-600">
+            <th className="px-6 py-2 text-left font-semibold">Description</th>
+            <th className="px-2 py-2 text-right font-semibold">Qty</th>
+            <th className="px-2 py-2 text-right font-semibold">Rate</th>
+            <th className="px-2 py-2 text-right font-semibold">GST</th>
+            <th className="px-6 py-2 text-right font-semibold">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(totals?.lines || []).map((line, i) => (
+            <tr key={i} className="border-b border-gray-100" style={i % 2 === 1 ? { backgroundColor: template.zebraFill } : undefined}>
+              <td className="px-6 py-2 text-gray-700">{line.description}</td>
+              <td className="px-2 py-2 text-right tabular-nums">{line.quantity}</td>
+              <td className="px-2 py-2 text-right tabular-nums">{formatInr(line.unitPrice)}</td>
+              <td className="px-2 py-2 text-right">{line.rate}%</td>
+              <td className="px-6 py-2 text-right tabular-nums">{formatInr(line.lineTotal)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {totals && (
+        <div className="px-6 py-4 flex flex-col items-end gap-1 text-xs">
+          <div className="flex gap-6"><span className="text-gray-500">Taxable value</span><span className="tabular-nums w-28 text-right">{formatInr(totals.taxableValue)}</span></div>
+          {invoice.supplyType === 'intra' ? (
+            <>
+              <div className="flex gap-6"><span className="text-gray-500">CGST</span><span className="tabular-nums w-28 text-right">{formatInr(totals.cgst)}</span></div>
+              <div className="flex gap-6"><span className="text-gray-500">SGST</span><span className="tabular-nums w-28 text-right">{formatInr(totals.sgst)}</span></div>
+            </>
+          ) : (
+            <div className="flex gap-6"><span className="text-gray-500">IGST</span><span className="tabular-nums w-28 text-right">{formatInr(totals.igst)}</span></div>
+          )}
+          {totals.roundOff !== 0 && (
+            <div className="flex gap-6"><span className="text-gray-500">Round-off</span><span className="tabular-nums w-28 text-right">{formatInr(totals.roundOff)}</span></div>
+          )}
+          <div className="flex gap-6 text-sm font-bold pt-1" style={{ color: template.highlight }}>
+            <span>Total</span><span className="tabular-nums w-28 text-right">{formatInr(totals.invoiceTotal)}</span>
+          </div>
+          <div className="text-[11px] text-gray-500 mt-1">{amountInWords(totals.invoiceTotal)}</div>
+        </div>
+      )}
+
+      {invoice.notes && <div className="px-6 pb-4 text-xs text-gray-500 whitespace-pre-line">{invoice.notes}</div>}
+    </div>
+  );
+};
+
+// --- Editor ---
+
+const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ invoice, onClose, onSave }) => {
+  const [draft, setDraft] = useState<Invoice | null>(invoice);
+  const [view, setView] = useState<'edit' | 'preview'>('edit');
+
+  useEffect(() => {
+    setDraft(invoice);
+    setView('edit');
+  }, [invoice]);
+
+  const totals = useMemo(() => (draft ? calculateInvoiceTotals(draft) : null), [draft]);
+
+  if (!invoice || !draft) return null;
+
+  const update = (patch: Partial<Invoice>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  // Changing either state re-derives the supply type, but a manual choice sticks until then
+  const updateParty = (field: 'seller' | 'buyer', party: InvoiceParty) => {
+    const seller = field === 'seller' ? party : draft.seller;
+    const buyer = field === 'buyer' ? party : draft.buyer;
+    const stateChanged = party.state !== draft[field].state;
+    update({ [field]: party, supplyType: stateChanged ? inferSupplyType(seller, buyer, draft.supplyType) : draft.supplyType });
+  };
+
+  const updateItem = (id: string, patch: Partial<InvoiceLineItem>) =>
+    update({ items: draft.items.map(item => (item.id === id ? { ...item, ...patch } : item)) });
+
+  const removeItem = (id: string) => {
+    const items = draft.items.filter(item => item.id !== id);
+    update({ items: items.length > 0 ? items : [createLineItem()] });
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/30 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[92vh] flex flex-col relative z-10 animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">Invoice {draft.number}</h3>
+            <p className="text-xs text-gray-400">Taxes are calculated by the GST engine as you edit.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex bg-gray-100 rounded-lg p-0.5 text-xs font-medium">
+              {(['edit', 'preview'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setView(mode)}
+                  className={`px-3 py-1.5 rounded-md capitalize transition-colors ${view === mode ? 'bg-white text-sky-600 shadow-sm' : 'text-gray-500'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">{Icons.X}</button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Template picker is shared by both views */}
+          <div className="grid grid-cols-3 gap-3">
+            {Object.values(INVOICE_TEMPLATES).map(template => (
+              <button
+                key={template.id}
+                onClick={() => update({ template: template.id as InvoiceTemplateId })}
+                className={`text-left p-3 rounded-xl border transition-all ${draft.template === template.id ? 'border-sky-400 ring-2 ring-sky-100' : 'border-gray-200 hover:border-sky-200'}`}
+              >
+                <div className="h-2 rounded-full mb-2" style={{ backgroundColor: template.accent }}></div>
+                <div className="text-sm font-medium text-gray-800">{template.label}</div>
+                <div className="text-[11px] text-gray-400">{template.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {view === 'preview' ? (
+            <InvoicePreview invoice={draft} totals={totals} />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div>
+                  <label className={labelClass}>Issue date</label>
+                  <input type="date" value={draft.issueDate} onChange={(e) => update({ issueDate: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Due date</label>
+                  <input type="date" value={draft.dueDate} onChange={(e) => update({ dueDate: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Status</label>
+                  <select value={draft.status} onChange={(e) => update({ status: e.target.value as Invoice['status'] })} className={inputClass}>
+                    <option value="draft">Draft</option>
+                    <option value="issued">Issued</option>
+                    <option value="paid">Paid</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Supply</label>
+                  <select value={draft.supplyType} onChange={(e) => update({ supplyType: e.target.value as Invoice['supplyType'] })} className={inputClass}>
+                    <option value="intra">Intra-state (CGST + SGST)</option>
+                    <option value="inter">Inter-state (IGST)</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <PartyFields title="Seller" party={draft.seller} onChange={(party) => updateParty('seller', party)} />
+                <PartyFields title="Buyer" party={draft.buyer} onChange={(party) => updateParty('buyer', party)} />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-xs font-semibold uppercase tracking-wider text-gray-400">Items</div>
+                  <div className="flex items-center gap-4 text-xs text-gray-600">
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={draft.pricing === 'inclusive'}
+                        onChange={(e) => update({ pricing: e.target.checked ? 'inclusive' : 'exclusive' })}
+                        className="accent-sky-500"
+                      />
+                      Prices include GST
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={draft.reverseCharge}
+                        onChange={(e) => update({ reverseCharge: e.target.checked })}
+                        className="accent-sky-500"
+                      />
+                      Reverse charge
+                    </label>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {draft.items.map(item => (
+                    <div key={item.id} className="grid grid-cols-12 gap-2 items-center">
+                      <input value={item.description} onChange={(e) => updateItem(item.id, { description: e.target.value })} placeholder="Description" className={`${inputClass} col-span-12 md:col-span-4`} />
+                      <input value={item.hsn || ''} onChange={(e) => updateItem(item.id, { hsn: e.target.value || undefined })} placeholder="HSN/SAC" className={`${inputClass} col-span-3 md:col-span-2`} />
+                      <input type="number" min="0" step="any" value={item.quantity} onChange={(e) => updateItem(item.id, { quantity: Math.max(0, Number(e.target.value)) })} className={`${inputClass} col-span-2 md:col-span-1 text-right`} title="Quantity" />
+                      <input type="number" min="0" step="0.01" value={item.unitPrice} onChange={(e) => updateItem(item.id, { unitPrice: Math.max(0, Number(e.target.value)) })} className={`${inputClass} col-span-3 md:col-span-2 text-right`} title="Unit price" />
+                      <select value={item.taxRate} onChange={(e) => updateItem(item.id, { taxRate: Number(e.target.value) })} className={`${inputClass} col-span-3 md:col-span-2`}>
+                        {GST_RATE_SLABS.map(rate => <option key={rate} value={rate}>{rate}% GST</option>)}
+                      </select>
+                      <button onClick={() => removeItem(item.id)} className="col-span-1 flex justify-center text-gray-300 hover:text-red-500 transition-colors" title="Remove item">
+                        {Icons.Trash2}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => update({ items: [...draft.items, createLineItem()] })}
+                  className="mt-2 flex items-center gap-1.5 text-xs font-medium text-sky-500 hover:text-sky-600"
+                >
+                  {React.cloneElement(Icons.Plus, { width: 14, height: 14 })} Add item
+                </button>
+              </div>
+
+              <div>
+                <label className={labelClass}>Notes</label>
+                <textarea
+                  value={draft.notes || ''}
+                  onChange={(e) => update({ notes: e.target.value || undefined })}
+                  placeholder="Payment terms, bank details..."
+                  rows={2}
+                  className={`${inputClass} resize-none`}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-gray-100">
+          <div className="text-sm text-gray-600">
+            {totals ? (
+              <>Total <span className="font-semibold text-gray-900 tabular-nums">{formatInr(totals.invoiceTotal)}</span> <span className="text-xs text-gray-400">({formatInr(totals.totalTax)} GST)</span></>
+            ) : (
+              <span className="text-gray-400">Add an item to see totals</span>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={() => downloadFile(invoiceToPdf(draft))} disabled={!totals} className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50">
+              Download PDF
+            </button>
+            <button onClick={handleSave} className="px-6 py-2 bg-sky-500 text-white font-medium rounded-lg hover:bg-sky-600 shadow-sm transition-all">
+              Save Invoice
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceEditor;
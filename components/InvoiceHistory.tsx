@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Invoice } from '../types';
+import { Icons } from '../constants';
+import { calculateInvoiceTotals } from '../services/invoiceService';
+import { invoiceToPdf, formatInvoiceDate } from '../services/invoiceExport';
+import { formatInr } from '../services/gstEngine';
+import { downloadFile } from '../utils/download';
+
+interface InvoiceHistoryProps {
+  isOpen: boolean;
+  invoices: Invoice[];
+  onClose: () => void;
+  onOpenInvoice: (invoice: Invoice) => void;
+  onNewInvoice: () => void;
+  onDeleteInvoice: (invoiceId: string) => void;
+}
+
+const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ isOpen, invoices, onClose, onOpenInvoice, onNewInvoice, onDeleteInvoice }) => {
+  const [query, setQuery] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const needle = query.trim().toLowerCase();
+  const visible = needle
+    ? invoices.filter(inv => `${inv.number} ${inv.buyer.name} ${inv.seller.name}`.toLowerCase().includes(needle))
+    : invoices;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/30 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col relative z-10 animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center px-6 pt-6 pb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Your Invoices</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">{Icons.X}</button>
+        </div>
+
+        <div className="flex gap-3 px-6 pb-4">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by number or customer"
+            className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-sky-200 focus:outline-none text-sm"
+          />
+          <button
+            onClick={onNewInvoice}
+            className="flex items-center gap-2 px-4 py-2 bg-sky-500 text-white text-sm font-medium rounded-lg hover:bg-sky-600 shadow-sm transition-all"
+          >
+            {Icons.Plus} New
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6">
+          {visible.length === 0 ? (
+            <div className="text-center py-10 text-sm text-gray-400">
+              {invoices.length === 0 ? 'No invoices yet. Ask the Invoice module to draft one, or start a new one here.' : 'No invoices match your search.'}
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+              {visible.map(invoice => {
+                const totals = calculateInvoiceTotals(invoice);
+                return (
+                  <div key={invoice.id} className="flex items-center gap-4 px-4 py-3 hover:bg-gray-50 group">
+                    <button onClick={() => onOpenInvoice(invoice)} className="flex-1 min-w-0 text-left">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-800">{invoice.number}</span>
+                        <span className="text-[10px] font-semibold uppercase tracking-wider text-gray-400">{invoice.status}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {invoice.buyer.name || 'Buyer not set'} · {formatInvoiceDate(invoice.issueDate)}
+                      </div>
+                    </button>
+                    <div className="text-sm font-medium text-gray-800 tabular-nums">{totals ? formatInr(totals.invoiceTotal) : '—'}</div>
+                    {confirmDeleteId === invoice.id ? (
+                      <div className="flex items-center gap-2 text-xs">
+                        <button onClick={() => { onDeleteInvoice(invoice.id); setConfirmDeleteId(null); }} className="text-red-500 font-medium">Delete</button>
+                        <button onClick={() => setConfirmDeleteId(null)} className="text-gray-400">Cancel</button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2 text-gray-300">
+                        <button onClick={() => downloadFile(invoiceToPdf(invoice))} disabled={!totals} className="text-xs font-medium hover:text-sky-500 disabled:opacity-40" title="Download PDF">PDF</button>
+                        <button onClick={() => setConfirmDeleteId(invoice.id)} className="hover:text-red-500" title="Delete invoice">{Icons.Trash2}</button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceHistory;
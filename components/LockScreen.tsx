@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+import { unlockAccount, secureAccount, needsPassphraseSetup } from '../services/userService';
+import { MIN_PASSPHRASE_LENGTH } from '../services/authService';
+
+interface LockScreenProps {
+  user: UserProfile;
+  onUnlock: (user: UserProfile) => void;
+  onSignOut: () => void;
+  onBack?: () => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ user, onUnlock, onSignOut, onBack }) => {
+  // Accounts from before passphrases existed set one here instead of entering it
+  const [isSetup] = useState(() => needsPassphraseSetup(user.id));
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const canSubmit = isSetup
+    ? passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmPassphrase
+    : passphrase.length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit || isWorking) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const unlocked = isSetup ? await secureAccount(user.id, passphrase) : await unlockAccount(user.id, passphrase);
+      onUnlock(unlocked);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+      setPassphrase('');
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4 font-sans">
+      <form onSubmit={handleSubmit} className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100 text-center animate-in fade-in zoom-in-95 duration-300 relative">
+        {onBack && (
+          <button
+            type="button"
+            onClick={onBack}
+            className="absolute top-4 left-4 p-2 text-gray-400 hover:text-gray-600"
+          >
+            ← Back
+          </button>
+        )}
+
+        <img src={user.avatar} alt={user.name} className="mx-auto w-16 h-16 rounded-full mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900">{user.name}</h2>
+        <p className="text-sm text-gray-500 mb-6">{user.email}</p>
+
+        <p className="text-sm text-gray-500 mb-4">
+          {isSetup
+            ? 'Choose a passphrase for this account. Your chats will be encrypted with it on this device, and it cannot be recovered if you forget it.'
+            : 'Enter your passphrase to unlock your chats.'}
+        </p>
+
+        <div className="space-y-3 text-left">
+          <div>
+            <input
+              type="password"
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete={isSetup ? 'new-password' : 'current-password'}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-all placeholder:text-gray-400"
+              autoFocus
+            />
+            {isSetup && (
+              <p className="text-[10px] text-gray-400 mt-1">At least {MIN_PASSPHRASE_LENGTH} characters.</p>
+            )}
+          </div>
+
+          {isSetup && (
+            <div>
+              <input
+                type="password"
+                placeholder="Confirm passphrase"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                autoComplete="new-password"
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-all placeholder:text-gray-400"
+              />
+              {confirmPassphrase && passphrase !== confirmPassphrase && (
+                <p className="text-[10px] text-red-500 mt-1">Passphrases don't match.</p>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-sm text-red-500 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</div>}
+        </div>
+
+        <button
+          type="submit"
+          disabled={!canSubmit || isWorking}
+          className="w-full mt-6 py-3 bg-sky-500 text-white font-medium rounded-lg hover:bg-sky-600 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {isWorking ? (isSetup ? 'Encrypting…' : 'Unlocking…') : (isSetup ? 'Set passphrase' : 'Unlock')}
+        </button>
+
+        <button
+          type="button"
+          onClick={onSignOut}
+          disabled={isWorking}
+          className="mt-4 text-sm text-gray-500 hover:text-gray-700 font-medium"
+        >
+          Use another account
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
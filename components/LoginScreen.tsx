@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Icons } from '../constants';
 import { UserProfile } from '../types';
-import { login, switchAccount, getAvailableAccounts } from '../services/userService';
+import { register, getAvailableAccounts, restoreAccount, findAccountForIdentity } from '../services/userService';
+import { MIN_PASSPHRASE_LENGTH, linkIdentity } from '../services/authService';
+import { IdentityAssertion, getIdentityProviders } from '../services/identityProvider';
+import { readAccountBackup, RestoreStrategy } from '../services/backupService';
+import BackupModal from './BackupModal';
+import LockScreen from './LockScreen';
 
 interface LoginScreenProps {
   onLoginSuccess: (user: UserProfile) => void;
@@ -11,38 +16,91 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
   const [view, setView] = useState<'welcome' | 'form' | 'accounts'>('welcome');
   const [email, setEmail] = useState('');
   const [name, setName] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const accounts = getAvailableAccounts();
+  const [accounts, setAccounts] = useState<UserProfile[]>([]);
+  const [selectedAccount, setSelectedAccount] = useState<UserProfile | null>(null);
+  // Set after an external sign-in; linked to whichever account is opened or created next
+  const [identity, setIdentity] = useState<IdentityAssertion | null>(null);
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+  const providers = getIdentityProviders();
 
-  const handleCreateAccount = (e: React.FormEvent) => {
+  useEffect(() => {
+    getAvailableAccounts().then(setAccounts).catch(error => console.error("Failed to load accounts:", error));
+  }, []);
+
+  const openForm = (prefill?: IdentityAssertion) => {
+    setEmail(prefill?.email || '');
+    setName(prefill?.name || '');
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+    setView('form');
+  };
+
+  const handleCreateAccount = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!email || !name) return;
+    if (!email || !name || passphrase !== confirmPassphrase) return;
     setIsLoading(true);
-    
-    // Simulate network delay
-    setTimeout(() => {
-      const user = login(email, name);
+    setError(null);
+    try {
+      const user = await register(email, name, passphrase, identity || undefined);
       onLoginSuccess(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
       setIsLoading(false);
-    }, 1000);
+    }
   };
 
-  const handleAccountSelect = (userId: string) => {
-    setIsLoading(true);
-    setTimeout(() => {
-        const user = switchAccount(userId);
-        if (user) onLoginSuccess(user);
-        setIsLoading(false);
-    }, 500);
+  const handleUnlocked = (user: UserProfile) => {
+    if (identity) linkIdentity(user.id, identity);
+    onLoginSuccess(user);
+  };
+
+  // The provider only proves who is signing in; the account's passphrase still opens its data
+  const handleProviderSignIn = async (providerId: string) => {
+    const provider = providers.find(p => p.id === providerId);
+    if (!provider) return;
+    setError(null);
+    try {
+      const assertion = await provider.signIn();
+      setIdentity(assertion);
+      const account = await findAccountForIdentity(assertion);
+      if (account) setSelectedAccount(account);
+      else openForm(assertion);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed.');
+    }
   };
 
+  // Brings an account over from another browser and signs straight into it
+  const handleRestore = async (file: File, password: string, strategy: RestoreStrategy, passphrase: string) => {
+    const backup = await readAccountBackup(await file.text(), password);
+    const { user } = await restoreAccount(backup, strategy, passphrase);
+    onLoginSuccess(user);
+  };
+
+  // View: Unlock a chosen account
+  if (selectedAccount) {
+      return (
+        <LockScreen
+          user={selectedAccount}
+          onUnlock={handleUnlocked}
+          onSignOut={() => { setSelectedAccount(null); setIdentity(null); setView('accounts'); }}
+          onBack={() => { setSelectedAccount(null); setIdentity(null); }}
+        />
+      );
+  }
+
   // View: Welcome / Landing
   if (view === 'welcome') {
       return (
         <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4 font-sans">
           <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100 text-center animate-in fade-in zoom-in-95 duration-300">
             <div className="mx-auto w-16 h-16 bg-sky-50 text-sky-500 rounded-2xl flex items-center justify-center mb-6">
-              {React.cloneElement(Icons.Robot as React.ReactElement, { width: 32, height: 32 })}
+              {React.cloneElement(Icons.Robot, { width: 32, height: 32 })}
             </div>
             
             <h1 className="text-2xl font-semibold text-gray-900 mb-2">Welcome to SwiftMind</h1>
@@ -50,23 +108,49 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
     
             <div className="space-y-3">
               <button 
-                onClick={() => accounts.length > 0 ? setView('accounts') : setView('form')}
+                onClick={() => { setIdentity(null); accounts.length > 0 ? setView('accounts') : openForm(); }}
                 className="w-full flex items-center justify-center gap-3 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-medium py-3 px-4 rounded-lg transition-all shadow-sm group"
               >
-                {Icons.Google}
-                <span>Sign in with Google</span>
+                {Icons.User}
+                <span>Sign in with a passphrase</span>
               </button>
+              {providers.map(provider => (
+                <button
+                  key={provider.id}
+                  onClick={() => handleProviderSignIn(provider.id)}
+                  className="w-full flex items-center justify-center gap-3 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-medium py-3 px-4 rounded-lg transition-all shadow-sm group"
+                >
+                  {Icons.Link}
+                  <span>Sign in with {provider.label}</span>
+                </button>
+              ))}
             </div>
+
+            {error && <div className="mt-4 text-sm text-red-500 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</div>}
             
+            <button
+              onClick={() => setIsRestoreOpen(true)}
+              className="mt-4 text-sm text-sky-500 hover:text-sky-600 font-medium"
+            >
+              Restore from a backup
+            </button>
+
             <p className="mt-8 text-xs text-gray-400">
-                This is a demo application. Authentication is simulated locally.
+                Accounts live in this browser. Chats are encrypted with your passphrase, which cannot be recovered.
             </p>
           </div>
+
+          <BackupModal
+            mode={isRestoreOpen ? 'restore' : null}
+            onClose={() => setIsRestoreOpen(false)}
+            onRestore={handleRestore}
+            requirePassphrase
+          />
         </div>
       );
   }
 
-  // View: Account Selector (Simulates "Choose an account")
+  // View: Account Selector
   if (view === 'accounts') {
       return (
         <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4 font-sans">
@@ -80,7 +164,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
                  {accounts.map(acc => (
                      <button 
                         key={acc.id}
-                        onClick={() => handleAccountSelect(acc.id)}
+                        onClick={() => setSelectedAccount(acc)}
                         className="w-full flex items-center gap-4 p-4 hover:bg-gray-50 transition-colors text-left border-b border-gray-50 last:border-0"
                      >
                          <img src={acc.avatar} alt={acc.name} className="w-10 h-10 rounded-full" />
@@ -92,7 +176,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
                  ))}
                  
                  <button 
-                    onClick={() => setView('form')}
+                    onClick={() => openForm()}
                     className="w-full flex items-center gap-4 p-4 hover:bg-gray-50 transition-colors text-left text-gray-600"
                  >
                      <div className="w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center text-gray-500">
@@ -106,23 +190,23 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
       );
   }
 
-  // View: Login Form (Simulates "Sign in with Google" popup)
+  // View: Create Account
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4 font-sans">
       <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100 animate-in slide-in-from-right-8 duration-300 relative">
         <button 
-            onClick={() => accounts.length > 0 ? setView('accounts') : setView('welcome')}
+            onClick={() => { setIdentity(null); accounts.length > 0 ? setView('accounts') : setView('welcome'); }}
             className="absolute top-4 left-4 p-2 text-gray-400 hover:text-gray-600"
         >
             ← Back
         </button>
 
         <div className="text-center mb-8 mt-4">
-            <div className="mx-auto w-12 h-12 mb-4 flex items-center justify-center">
-                {Icons.Google}
+            <div className="mx-auto w-12 h-12 mb-4 flex items-center justify-center text-sky-500">
+                {Icons.User}
             </div>
-            <h2 className="text-xl font-semibold text-gray-900">Sign in</h2>
-            <p className="text-sm text-gray-500">Use your Google Account</p>
+            <h2 className="text-xl font-semibold text-gray-900">Create an account</h2>
+            <p className="text-sm text-gray-500">{identity ? `Signed in as ${identity.email}` : 'Stored only in this browser'}</p>
         </div>
 
         <form onSubmit={handleCreateAccount} className="space-y-4">
@@ -147,24 +231,49 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
             />
           </div>
 
-          <div className="text-sm text-blue-600 hover:underline cursor-pointer">
-            Forgot email?
+          <div>
+            <input
+              type="password"
+              required
+              minLength={MIN_PASSPHRASE_LENGTH}
+              placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete="new-password"
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-gray-400"
+            />
           </div>
+          <div>
+            <input
+              type="password"
+              required
+              placeholder="Confirm passphrase"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              autoComplete="new-password"
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-gray-400"
+            />
+            {confirmPassphrase && passphrase !== confirmPassphrase && (
+              <p className="text-xs text-red-500 mt-1">Passphrases don't match.</p>
+            )}
+          </div>
+
+          {error && <div className="text-sm text-red-500 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</div>}
 
           <div className="pt-4 flex justify-end gap-3">
              <button
                type="button"
-               onClick={() => setView('welcome')}
+               onClick={() => { setIdentity(null); setView('welcome'); }}
                className="px-6 py-2 text-blue-600 font-medium hover:bg-blue-50 rounded-full transition-colors"
              >
                Cancel
              </button>
              <button
                type="submit"
-               disabled={isLoading}
+               disabled={isLoading || passphrase !== confirmPassphrase}
                className="px-6 py-2 bg-blue-600 text-white font-medium rounded-full hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-70"
              >
-               {isLoading ? 'Signing in...' : 'Next'}
+               {isLoading ? 'Creating account...' : 'Create account'}
              </button>
           </div>
         </form>
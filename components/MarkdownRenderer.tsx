@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from 'react';
+import { parseMarkdown, BlockNode, InlineNode, ListItemNode, TableAlign } from '../utils/markdown';
+import { highlightCode, TokenType } from '../utils/highlight';
+
+interface MarkdownRendererProps {
+  content: string;
+  taskState?: Record<number, boolean>; // Overrides the [ ]/[x] written in the markdown
+  onToggleTask?: (taskIndex: number, checked: boolean) => void;
+}
+
+interface RenderOptions {
+  taskState?: Record<number, boolean>;
+  onToggleTask?: (taskIndex: number, checked: boolean) => void;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-purple-300',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  comment: 'text-gray-500 italic',
+  tag: 'text-sky-300',
+  attr: 'text-amber-200',
+  literal: 'text-orange-300'
+};
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-bold text-gray-800 mt-6 mb-3',
+  2: 'text-xl font-bold text-gray-800 mt-6 mb-3',
+  3: 'text-lg font-bold text-gray-800 mt-5 mb-2',
+  4: 'text-base font-bold text-gray-800 mt-4 mb-2',
+  5: 'text-sm font-bold text-gray-800 mt-3 mb-1',
+  6: 'text-sm font-semibold text-gray-500 mt-3 mb-1'
+};
+
+const alignClass = (align: TableAlign) =>
+  align === 'center' ? 'text-center' : align === 'right' ? 'text-right' : 'text-left';
+
+// --- Code Block ---
+
+const CodeBlock: React.FC<{ lang: string; value: string }> = ({ lang, value }) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(value, lang), [value, lang]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(value).then(() => {
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="my-4 rounded-lg overflow-hidden border border-gray-800 shadow-sm">
+      <div className="flex items-center justify-between px-4 py-1.5 bg-gray-800 text-gray-400 text-xs">
+        <span className="font-mono uppercase tracking-wider">{lang || 'text'}</span>
+        <button
+          onClick={handleCopy}
+          className={`flex items-center gap-1 hover:text-white transition-colors ${isCopied ? 'text-green-400' : ''}`}
+          title="Copy code"
+        >
+          {isCopied ? 'Copied!' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-4 bg-gray-900 text-gray-100 text-sm font-mono overflow-x-auto leading-relaxed">
+        <code>
+          {tokens.map((token, i) => (
+            token.type === 'plain'
+              ? <React.Fragment key={i}>{token.value}</React.Fragment>
+              : <span key={i} className={TOKEN_CLASSES[token.type]}>{token.value}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+// --- Inline ---
+
+const renderInline = (nodes: InlineNode[], keyPrefix: string): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    const key = `${keyPrefix}-${i}`;
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={key}>{node.value}</React.Fragment>;
+      case 'strong':
+        return <strong key={key} className="text-gray-900 font-semibold">{renderInline(node.children, key)}</strong>;
+      case 'em':
+        return <em key={key}>{renderInline(node.children, key)}</em>;
+      case 'del':
+        return <del key={key} className="text-gray-400">{renderInline(node.children, key)}</del>;
+      case 'code':
+        return <code key={key} className="px-1.5 py-0.5 rounded bg-gray-100 text-pink-600 font-mono text-[0.9em]">{node.value}</code>;
+      case 'link':
+        return (
+          <a key={key} href={node.href} target="_blank" rel="noopener noreferrer" className="text-sky-500 hover:text-sky-600 underline underline-offset-2">
+            {renderInline(node.children, key)}
+          </a>
+        );
+      case 'image':
+        return <img key={key} src={node.src} alt={node.alt} className="inline-block max-w-full rounded-lg border border-gray-100" />;
+      case 'break':
+        return <br key={key} />;
+    }
+  });
+
+// --- Blocks ---
+
+const renderListItem = (item: ListItemNode, ordered: boolean, key: string, options: RenderOptions) => {
+  // Tight items hold a single paragraph; render it inline so markers line up with text
+  const [first, ...rest] = item.children;
+  const lead = first && first.type === 'paragraph' ? renderInline(first.children, `${key}-p`) : null;
+  const body = lead ? rest : item.children;
+  const taskIndex = item.taskIndex;
+  const checked = item.checked !== null && taskIndex !== undefined
+    ? options.taskState?.[taskIndex] ?? item.checked
+    : null;
+  const textClass = checked ? 'text-gray-400 line-through' : 'text-gray-600';
+  const onToggle = options.onToggleTask;
+
+  const checkbox = checked !== null && (
+    <input
+      type="checkbox"
+      checked={checked}
+      readOnly={!onToggle}
+      onChange={onToggle && taskIndex !== undefined ? (e) => onToggle(taskIndex, e.target.checked) : undefined}
+      className={`mt-1.5 mr-2 h-4 w-4 shrink-0 rounded border-gray-300 accent-sky-500 align-[-2px] ${onToggle ? 'cursor-pointer' : ''}`}
+    />
+  );
+
+  if (ordered) {
+    return (
+      <li key={key} className={`pl-1 my-1.5 leading-relaxed ${textClass}`}>
+        {checkbox}
+        {lead}
+        {renderBlocks(body, key, options)}
+      </li>
+    );
+  }
+
+  return (
+    <li key={key} className="flex gap-2.5 my-1.5">
+      {checkbox || <span className="mt-2.5 w-1.5 h-1.5 rounded-full bg-gray-500 shrink-0 block" />}
+      <div className={`min-w-0 flex-1 leading-relaxed ${textClass}`}>
+        {lead}
+        {renderBlocks(body, key, options)}
+      </div>
+    </li>
+  );
+};
+
+const renderBlocks = (blocks: BlockNode[], keyPrefix: string, options: RenderOptions): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    const key = `${keyPrefix}-${i}`;
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={key} className={HEADING_CLASSES[block.level]}>{renderInline(block.children, key)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={key} className="mb-2 leading-relaxed text-gray-600">{renderInline(block.children, key)}</p>;
+      case 'code':
+        return <CodeBlock key={key} lang={block.lang} value={block.value} />;
+      case 'hr':
+        return <hr key={key} className="my-4 border-gray-200" />;
+      case 'blockquote':
+        return (
+          <blockquote key={key} className="my-3 pl-4 border-l-4 border-sky-200 text-gray-500 italic">
+            {renderBlocks(block.children, key, options)}
+          </blockquote>
+        );
+      case 'list':
+        return block.ordered ? (
+          <ol key={key} start={block.start} className="ml-5 my-2 list-decimal marker:text-gray-400 marker:font-medium">
+            {block.items.map((item, j) => renderListItem(item, true, `${key}-${j}`, options))}
+          </ol>
+        ) : (
+          <ul key={key} className="ml-1 my-2">
+            {block.items.map((item, j) => renderListItem(item, false, `${key}-${j}`, options))}
+          </ul>
+        );
+      case 'table':
+        return (
+          <div key={key} className="my-4 overflow-x-auto border border-gray-200 rounded-lg shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200">
+              {block.header && (
+                <thead className="bg-gray-50">
+                  <tr>
+                    {block.header.map((cell, j) => (
+                      <th key={j} className={`px-6 py-3 text-xs font-bold text-gray-500 uppercase tracking-wider ${alignClass(block.align[j] ?? null)}`}>
+                        {renderInline(cell, `${key}-h${j}`)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+              )}
+              <tbody className="bg-white divide-y divide-gray-200">
+                {block.rows.map((row, r) => (
+                  <tr key={r} className={r % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                    {row.map((cell, j) => (
+                      <td key={j} className={`px-6 py-4 text-sm text-gray-700 whitespace-nowrap ${alignClass(block.align[j] ?? null)}`}>
+                        {renderInline(cell, `${key}-${r}-${j}`)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, taskState, onToggleTask }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <>{renderBlocks(blocks, 'md', { taskState, onToggleTask })}</>;
+};
+
+export default MarkdownRenderer;
@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from '../constants';
+import { FileAttachment } from '../types';
+import { COMPRESSION_LEVELS, CompressionLevel, PdfTool, PdfToolOptions, validatePdfTask } from '../services/ilovepdfService';
+
+export const PDF_TOOLS: { id: PdfTool; label: string; icon: React.ReactNode; description: string }[] = [
+  { id: 'merge', label: 'Merge', icon: Icons.Layers, description: 'Combines the PDFs into one file, in the order below.' },
+  { id: 'split', label: 'Split', icon: Icons.Scissors, description: 'Splits each PDF into separate files by page range. Several files download as a ZIP.' },
+  { id: 'compress', label: 'Compress', icon: Icons.Minimize2, description: 'Makes PDFs smaller. Higher compression lowers image quality.' },
+  { id: 'pdfocr', label: 'OCR', icon: Icons.Scan, description: 'Adds a searchable, selectable text layer to scanned PDFs.' },
+  { id: 'protect', label: 'Protect', icon: Icons.Lock, description: 'Encrypts the PDFs so they need a password to open.' }
+];
+
+const COMPRESSION_LABELS: Record<CompressionLevel, string> = {
+  low: 'Low – best quality',
+  recommended: 'Recommended',
+  extreme: 'Extreme – smallest file'
+};
+
+// iLovePDF OCR language codes
+const OCR_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'eng', label: 'English' },
+  { code: 'hin', label: 'Hindi' },
+  { code: 'ben', label: 'Bengali' },
+  { code: 'tam', label: 'Tamil' },
+  { code: 'tel', label: 'Telugu' },
+  { code: 'mar', label: 'Marathi' },
+  { code: 'guj', label: 'Gujarati' },
+  { code: 'kan', label: 'Kannada' },
+  { code: 'mal', label: 'Malayalam' },
+  { code: 'urd', label: 'Urdu' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'fra', label: 'French' },
+  { code: 'deu', label: 'German' },
+  { code: 'ara', label: 'Arabic' }
+];
+
+export const isPdfFile = (file: FileAttachment) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+interface PdfToolModalProps {
+  tool: PdfTool | null;
+  files: FileAttachment[];
+  onClose: () => void;
+  onRun: (tool: PdfTool, files: FileAttachment[], options: PdfToolOptions) => void;
+}
+
+const PdfToolModal: React.FC<PdfToolModalProps> = ({ tool, files, onClose, onRun }) => {
+  const [order, setOrder] = useState<FileAttachment[]>([]);
+  const [ranges, setRanges] = useState('');
+  const [compressionLevel, setCompressionLevel] = useState<CompressionLevel>('recommended');
+  const [languages, setLanguages] = useState<string[]>(['eng']);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (tool) {
+      setOrder(files.filter(isPdfFile));
+      setPassword('');
+      setConfirmPassword('');
+      setError(null);
+    }
+  }, [tool, files]);
+
+  if (!tool) return null;
+
+  const info = PDF_TOOLS.find(t => t.id === tool)!;
+  const skipped = files.length - order.length;
+
+  const move = (index: number, offset: number) => {
+    setOrder(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const toggleLanguage = (code: string) => {
+    setLanguages(prev => (prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (tool === 'protect' && password !== confirmPassword) {
+      setError("Passwords don't match.");
+      return;
+    }
+    const options: PdfToolOptions = {
+      ranges: tool === 'split' ? ranges.trim() || undefined : undefined,
+      compressionLevel: tool === 'compress' ? compressionLevel : undefined,
+      ocrLanguages: tool === 'pdfocr' ? languages : undefined,
+      password: tool === 'protect' ? password : undefined
+    };
+    try {
+      validatePdfTask(tool, order, options);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Check the options and try again.');
+      return;
+    }
+    onRun(tool, order, options);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/30 backdrop-blur-sm" onClick={onClose}></div>
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 relative z-10 animate-in zoom-in-95 duration-200 text-left">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">{info.icon} {info.label} PDF</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">{Icons.X}</button>
+        </div>
+        <p className="text-sm text-gray-500 mb-5">{info.description}</p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Files</label>
+            {order.length === 0 ? (
+              <p className="text-sm text-gray-400">Attach PDF files to the message first.</p>
+            ) : (
+              <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-40 overflow-y-auto">
+                {order.map((file, i) => (
+                  <li key={`${file.name}-${i}`} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-gray-700">
+                    <span className="truncate">{file.name}</span>
+                    {tool === 'merge' && (
+                      <span className="flex gap-1 shrink-0">
+                        <button type="button" onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-gray-400 hover:text-sky-600 disabled:opacity-30" aria-label={`Move ${file.name} up`}>{Icons.ChevronUp}</button>
+                        <button type="button" onClick={() => move(i, 1)} disabled={i === order.length - 1} className="p-1 text-gray-400 hover:text-sky-600 disabled:opacity-30" aria-label={`Move ${file.name} down`}>{Icons.ChevronDown}</button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {skipped > 0 && (
+              <p className="text-[10px] text-gray-400 mt-1">{skipped} attached file{skipped === 1 ? ' is' : 's are'} not a PDF and will be left out.</p>
+            )}
+          </div>
+
+          {tool === 'split' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Page ranges</label>
+              <input
+                type="text"
+                value={ranges}
+                onChange={(e) => setRanges(e.target.value)}
+                placeholder="e.g. 1-3,5,8-10"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+                autoFocus
+              />
+              <p className="text-[10px] text-gray-400 mt-1">Each range becomes its own file. Leave empty to split every page.</p>
+            </div>
+          )}
+
+          {tool === 'compress' && (
+            <div className="space-y-2">
+              {COMPRESSION_LEVELS.map(level => (
+                <label key={level} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${compressionLevel === level ? 'border-sky-300 bg-sky-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+                  <input
+                    type="radio"
+                    name="compression-level"
+                    checked={compressionLevel === level}
+                    onChange={() => setCompressionLevel(level)}
+                    className="accent-sky-500"
+                  />
+                  <span className="text-sm text-gray-800">{COMPRESSION_LABELS[level]}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {tool === 'pdfocr' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-2">Document languages</label>
+              <div className="flex flex-wrap gap-2">
+                {OCR_LANGUAGES.map(language => (
+                  <button
+                    key={language.code}
+                    type="button"
+                    onClick={() => toggleLanguage(language.code)}
+                    className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${languages.includes(language.code) ? 'border-sky-300 bg-sky-50 text-sky-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    {language.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {tool === 'protect' && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Password</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Confirm password</label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+                />
+                <p className="text-[10px] text-gray-400 mt-1">The password is sent to iLovePDF to encrypt the files and is not stored.</p>
+              </div>
+            </>
+          )}
+
+          {error && <div className="text-sm text-red-500 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-50 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={order.length === 0}
+            className="px-6 py-2 bg-sky-500 text-white font-medium rounded-lg hover:bg-sky-600 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {info.label}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PdfToolModal;
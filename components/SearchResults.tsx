@@ -0,0 +1,58 @@
+import React from 'react';
+import { Role } from '../types';
+import { MODULES } from '../constants';
+import { SearchResult } from '../services/searchIndex';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  onOpenResult: (result: SearchResult) => void;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wraps every matched term in the snippet with <mark>
+const highlightTerms = (text: string, terms: string[]): React.ReactNode => {
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-amber-100 text-gray-800 rounded px-0.5">{part}</mark> : part
+  );
+};
+
+const SearchResults: React.FC<SearchResultsProps> = ({ results, onOpenResult }) => {
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-4 px-2">
+        <p className="text-xs text-gray-300">No matches</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {results.map(result => {
+        const moduleLabel = MODULES.find(m => m.id === result.module)?.label || result.module;
+        return (
+          <button
+            key={`${result.sessionId}:${result.messageId || 'title'}`}
+            onClick={() => onOpenResult(result)}
+            className="w-full text-left px-3 py-2.5 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+              <span className="truncate font-medium text-gray-500">{result.sessionTitle || 'Untitled Session'}</span>
+              <span className="shrink-0">{new Date(result.timestamp).toLocaleDateString()}</span>
+            </div>
+            <div className="text-xs text-gray-600 mt-0.5 line-clamp-2">
+              {highlightTerms(result.snippet, result.terms)}
+            </div>
+            <div className="text-[10px] uppercase tracking-wider text-gray-300 mt-1">
+              {result.messageId ? (result.role === Role.USER ? 'You' : 'SwiftMind') : 'Title'} · {moduleLabel}
+            </div>
+          </button>
+        );
+      })}
+    </>
+  );
+};
+
+export default SearchResults;
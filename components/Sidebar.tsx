@@ -1,6 +1,9 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Icons } from '../constants';
-import { Session } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Icons, MODULES } from '../constants';
+import { Session, StorageUsage, Role, TaskModule } from '../types';
+import { SearchFilters, SearchResult } from '../services/searchIndex';
+import { SessionExportFormat } from '../services/sessionExport';
+import SearchResults from './SearchResults';
 
 interface SidebarProps {
   sessions: Session[];
@@ -13,8 +16,47 @@ interface SidebarProps {
   onRenameSession: (id: string, newTitle: string) => void;
   onDeleteSession: (id: string) => void;
   onOpenConnections: () => void; // New prop for modal
+  onOpenInvoices: () => void;
+  storageUsage?: StorageUsage | null;
+  trashedSessions: Session[];
+  trashRetentionDays: number;
+  onRestoreSession: (id: string) => void;
+  onPurgeSession: (id: string) => void;
+  onEmptyTrash: () => void;
+  onChangeTrashRetention: (days: number) => void;
+  onSearch: (query: string, filters: SearchFilters) => SearchResult[];
+  onOpenSearchResult: (result: SearchResult) => void;
+  onExportSession: (id: string, format: SessionExportFormat) => void;
+  onImportSessions: (file: File) => void;
 }
 
+// Date inputs give local YYYY-MM-DD; the range covers whole days
+const dayStart = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const dayEnd = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_OPTIONS = [7, 30, 90, 0];
+
+const EXPORT_OPTIONS: { format: SessionExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON (re-importable)' }
+];
+
+const formatDeletedAt = (timestamp: number): string => {
+  const days = Math.floor((Date.now() - timestamp) / DAY_MS);
+  if (days <= 0) return 'Deleted today';
+  if (days === 1) return 'Deleted yesterday';
+  if (days < 30) return `Deleted ${days} days ago`;
+  return `Deleted ${new Date(timestamp).toLocaleDateString()}`;
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
 const Sidebar: React.FC<SidebarProps> = ({ 
   sessions,
   currentSessionId,
@@ -25,14 +67,55 @@ const Sidebar: React.FC<SidebarProps> = ({
   onClearAll,
   onRenameSession,
   onDeleteSession,
-  onOpenConnections
+  onOpenConnections,
+  onOpenInvoices,
+  storageUsage,
+  trashedSessions,
+  trashRetentionDays,
+  onRestoreSession,
+  onPurgeSession,
+  onEmptyTrash,
+  onChangeTrashRetention,
+  onSearch,
+  onOpenSearchResult,
+  onExportSession,
+  onImportSessions
 }) => {
   const [menuOpenId, setMenuOpenId] = useState<string | null>(null);
   const [renameModalSession, setRenameModalSession] = useState<Session | null>(null);
   const [deleteModalSession, setDeleteModalSession] = useState<Session | null>(null);
   const [renameValue, setRenameValue] = useState('');
+  const [view, setView] = useState<'sessions' | 'trash'>('sessions');
+  const [confirmPurgeId, setConfirmPurgeId] = useState<string | null>(null);
+  const [confirmEmptyTrash, setConfirmEmptyTrash] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [moduleFilter, setModuleFilter] = useState<TaskModule | ''>('');
+  const [roleFilter, setRoleFilter] = useState<Role | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const activeFilterCount = [moduleFilter, roleFilter, fromDate, toDate].filter(Boolean).length;
+
+  // Sessions is a dependency so results follow messages as they stream in
+  const searchResults = useMemo(() => searchQuery.trim()
+    ? onSearch(searchQuery, {
+        module: moduleFilter || undefined,
+        role: roleFilter || undefined,
+        from: dayStart(fromDate),
+        to: dayEnd(toDate)
+      })
+    : [],
+  [searchQuery, moduleFilter, roleFilter, fromDate, toDate, sessions, onSearch]);
   
   const menuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportSessions(file);
+    e.target.value = ''; // Allow picking the same file again
+  };
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -118,15 +201,158 @@ const Sidebar: React.FC<SidebarProps> = ({
             {Icons.Link}
             Connect Apps
           </button>
+
+          <button
+            onClick={() => {
+              onOpenInvoices();
+              setIsMobileOpen(false);
+            }}
+            className="w-full flex items-center gap-3 bg-white border border-sky-200 text-gray-600 hover:bg-sky-50 px-4 py-3 rounded-md transition-all duration-200 font-medium text-sm"
+          >
+            {Icons.DollarSign}
+            Invoices
+          </button>
         </div>
 
-        <div className="px-6 mt-8 mb-2">
-          <p className="text-sm font-medium text-gray-500">Your Sessions</p>
+        {view === 'trash' ? (
+        <>
+        <div className="px-6 mt-8 mb-2 flex items-center justify-between">
+          <button onClick={() => setView('sessions')} className="text-sm font-medium text-gray-500 hover:text-sky-500">
+            ← Trash
+          </button>
+          {trashedSessions.length > 0 && (
+            confirmEmptyTrash ? (
+              <div className="flex items-center gap-2 text-xs">
+                <button onClick={() => { onEmptyTrash(); setConfirmEmptyTrash(false); }} className="text-red-500 font-medium">Empty</button>
+                <button onClick={() => setConfirmEmptyTrash(false)} className="text-gray-400">Cancel</button>
+              </div>
+            ) : (
+              <button onClick={() => setConfirmEmptyTrash(true)} className="text-xs text-gray-400 hover:text-red-500">Empty trash</button>
+            )
+          )}
+        </div>
+
+        <div className="px-6 mb-3 flex items-center gap-2 text-[11px] text-gray-400">
+          <span>Auto-delete after</span>
+          <select
+            value={trashRetentionDays}
+            onChange={(e) => onChangeTrashRetention(Number(e.target.value))}
+            className="bg-transparent border-b border-gray-200 text-gray-500 focus:outline-none"
+          >
+            {RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days}>{days === 0 ? 'never' : `${days} days`}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Trashed Sessions */}
+        <nav className="flex-1 overflow-y-auto px-4 space-y-1">
+          {trashedSessions.length === 0 ? (
+            <div className="text-center py-4 px-2">
+              <p className="text-xs text-gray-300">Trash is empty</p>
+            </div>
+          ) : (
+            trashedSessions.map((session) => {
+              const deletedAt = session.deletedAt ?? session.lastModified;
+              return (
+                <div key={session.id} className="px-3 py-2.5 rounded-md hover:bg-gray-50 group">
+                  <div className="flex items-center gap-3 text-sm text-gray-500">
+                    <span className="shrink-0 text-gray-300">{Icons.MessageSquare}</span>
+                    <span className="truncate">{session.title || 'Untitled Session'}</span>
+                  </div>
+                  <div className="flex items-center justify-between mt-1 pl-8 text-[11px]">
+                    <span className="text-gray-400" title={new Date(deletedAt).toLocaleString()}>{formatDeletedAt(deletedAt)}</span>
+                    {confirmPurgeId === session.id ? (
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => { onPurgeSession(session.id); setConfirmPurgeId(null); }} className="text-red-500 font-medium">Delete forever</button>
+                        <button onClick={() => setConfirmPurgeId(null)} className="text-gray-400">Cancel</button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => onRestoreSession(session.id)} className="text-sky-500 font-medium">Restore</button>
+                        <button onClick={() => setConfirmPurgeId(session.id)} className="text-gray-400 hover:text-red-500">Delete</button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </nav>
+        </>
+        ) : (
+        <>
+        <div className="px-5 mt-6">
+          <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border border-gray-100 rounded-md focus-within:ring-2 focus-within:ring-sky-100">
+            <span className="text-gray-300">{Icons.Search}</span>
+            <input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') setSearchQuery(''); }}
+              placeholder="Search chats"
+              className="flex-1 min-w-0 bg-transparent text-sm text-gray-700 placeholder-gray-300 focus:outline-none"
+            />
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`relative ${showFilters || activeFilterCount > 0 ? 'text-sky-500' : 'text-gray-300 hover:text-gray-500'}`}
+              title="Filters"
+            >
+              {Icons.Filter}
+              {activeFilterCount > 0 && <span className="absolute -top-1.5 -right-1.5 w-3 h-3 bg-sky-500 text-white text-[8px] rounded-full flex items-center justify-center">{activeFilterCount}</span>}
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="mt-2 p-3 bg-gray-50 border border-gray-100 rounded-md space-y-2 text-xs text-gray-500 animate-in fade-in duration-100">
+              <select
+                value={moduleFilter}
+                onChange={(e) => setModuleFilter(e.target.value as TaskModule | '')}
+                className="w-full px-2 py-1.5 bg-white border border-gray-200 rounded focus:outline-none"
+              >
+                <option value="">All modules</option>
+                {MODULES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+              <select
+                value={roleFilter}
+                onChange={(e) => setRoleFilter(e.target.value as Role | '')}
+                className="w-full px-2 py-1.5 bg-white border border-gray-200 rounded focus:outline-none"
+              >
+                <option value="">Anyone</option>
+                <option value={Role.USER}>You</option>
+                <option value={Role.MODEL}>SwiftMind</option>
+              </select>
+              <div className="flex items-center gap-1.5">
+                <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="flex-1 min-w-0 px-1.5 py-1 bg-white border border-gray-200 rounded focus:outline-none" />
+                <span>–</span>
+                <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="flex-1 min-w-0 px-1.5 py-1 bg-white border border-gray-200 rounded focus:outline-none" />
+              </div>
+              {activeFilterCount > 0 && (
+                <button
+                  onClick={() => { setModuleFilter(''); setRoleFilter(''); setFromDate(''); setToDate(''); }}
+                  className="text-sky-500 hover:text-sky-600"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 mt-4 mb-2">
+          <p className="text-sm font-medium text-gray-500">{searchQuery.trim() ? 'Search Results' : 'Your Sessions'}</p>
         </div>
 
         {/* Session List */}
         <nav className="flex-1 overflow-y-auto px-4 space-y-1">
-          {sessions.length === 0 ? (
+          {searchQuery.trim() ? (
+            <SearchResults
+              results={searchResults}
+              onOpenResult={(result) => {
+                onOpenSearchResult(result);
+                setIsMobileOpen(false);
+              }}
+            />
+          ) : sessions.length === 0 ? (
             <div className="text-center py-4 px-2">
               <p className="text-xs text-gray-300">No recent sessions</p>
             </div>
@@ -168,13 +394,25 @@ const Sidebar: React.FC<SidebarProps> = ({
 
                 {/* Dropdown Menu */}
                 {menuOpenId === session.id && (
-                    <div ref={menuRef} className="absolute right-0 top-full mt-1 w-36 bg-white rounded-lg shadow-lg border border-gray-100 z-50 animate-in fade-in zoom-in-95 duration-100 overflow-hidden">
+                    <div ref={menuRef} className="absolute right-0 top-full mt-1 w-48 bg-white rounded-lg shadow-lg border border-gray-100 z-50 animate-in fade-in zoom-in-95 duration-100 overflow-hidden">
                         <button 
                             onClick={(e) => { e.stopPropagation(); handleOpenRename(session); }}
                             className="w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-gray-50 flex items-center gap-2"
                         >
                             {Icons.Edit2} Rename
                         </button>
+                        <div className="border-t border-gray-50 py-1">
+                          <div className="px-4 pt-1 pb-0.5 text-[10px] font-semibold uppercase tracking-wider text-gray-300">Export as</div>
+                          {EXPORT_OPTIONS.map(option => (
+                            <button
+                                key={option.format}
+                                onClick={(e) => { e.stopPropagation(); setMenuOpenId(null); onExportSession(session.id, option.format); }}
+                                className="w-full text-left px-4 py-1.5 text-xs text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                            >
+                                {Icons.Download} {option.label}
+                            </button>
+                          ))}
+                        </div>
                         <button 
                             onClick={(e) => { e.stopPropagation(); handleOpenDelete(session); }}
                             className="w-full text-left px-4 py-2 text-xs text-red-500 hover:bg-red-50 flex items-center gap-2"
@@ -187,16 +425,51 @@ const Sidebar: React.FC<SidebarProps> = ({
             ))
           )}
         </nav>
+        </>
+        )}
 
         {/* Footer Actions */}
         <div className="p-4 border-t border-gray-100">
-           <button
-            onClick={onClearAll}
-            className="w-full flex items-center justify-center gap-2 px-4 py-2 text-xs font-medium text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
-          >
-             {Icons.Trash2}
-             Clear History
-          </button>
+           {storageUsage && storageUsage.quota > 0 && (() => {
+             const percent = Math.min(100, (storageUsage.usage / storageUsage.quota) * 100);
+             return (
+               <div className="px-1 mb-3" title={`${percent.toFixed(1)}% of available browser storage`}>
+                 <div className="flex justify-between text-[11px] text-gray-400 mb-1">
+                   <span>Storage</span>
+                   <span>{formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)}</span>
+                 </div>
+                 <div className="h-1 bg-gray-100 rounded-full overflow-hidden">
+                   <div
+                     className={`h-full rounded-full ${percent > 90 ? 'bg-red-400' : percent > 70 ? 'bg-amber-400' : 'bg-sky-400'}`}
+                     style={{ width: `${Math.max(percent, 1)}%` }}
+                   ></div>
+                 </div>
+               </div>
+             );
+           })()}
+           <div className="flex gap-2">
+             <button
+              onClick={() => setView(view === 'trash' ? 'sessions' : 'trash')}
+              className={`flex-1 flex items-center justify-center gap-2 px-2 py-2 text-xs font-medium rounded transition-colors ${view === 'trash' ? 'text-sky-500 bg-sky-50' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-50'}`}
+            >
+               Trash{trashedSessions.length > 0 ? ` (${trashedSessions.length})` : ''}
+            </button>
+             <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-2 px-2 py-2 text-xs font-medium text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded transition-colors"
+              title="Import conversations from a JSON export"
+            >
+               Import
+            </button>
+             <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportChange} />
+             <button
+              onClick={onClearAll}
+              className="flex-1 flex items-center justify-center gap-2 px-2 py-2 text-xs font-medium text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+            >
+               {Icons.Trash2}
+               Clear History
+            </button>
+           </div>
         </div>
       </aside>
 
@@ -242,7 +515,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             <div className="bg-white rounded-xl shadow-xl w-full max-w-sm p-6 relative z-10 animate-in fade-in zoom-in-95">
                 <h3 className="text-lg font-medium text-gray-900 mb-2">Delete Session?</h3>
                 <p className="text-sm text-gray-500 mb-6">
-                    "{deleteModalSession.title}" will be moved to trash. You can restore it later from settings.
+                    "{deleteModalSession.title}" will be moved to trash. You can restore it later from Trash.
                 </p>
                 <div className="flex justify-end gap-2">
                     <button 
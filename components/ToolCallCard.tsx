@@ -0,0 +1,80 @@
+import React from 'react';
+import { ToolCallRecord } from '../types';
+
+interface ToolCallCardProps {
+  call: ToolCallRecord;
+}
+
+const STATUS_STYLES: Record<ToolCallRecord['status'], { border: string; text: string; note: string }> = {
+  running: { border: 'border-sky-100 bg-sky-50/40', text: 'text-sky-600', note: 'Working...' },
+  success: { border: 'border-gray-100 bg-gray-50/60', text: 'text-emerald-600', note: 'Done' },
+  error: { border: 'border-red-100 bg-red-50/40', text: 'text-red-500', note: 'Failed' },
+  cancelled: { border: 'border-gray-100 bg-gray-50/60', text: 'text-gray-400', note: 'Cancelled' }
+};
+
+const StatusIcon: React.FC<{ status: ToolCallRecord['status'] }> = ({ status }) => {
+  if (status === 'running') {
+    return <div className="w-3.5 h-3.5 rounded-full border-2 border-sky-200 border-t-sky-500 animate-spin"></div>;
+  }
+  if (status === 'success') {
+    return <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>;
+  }
+  if (status === 'error') {
+    return <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="8" x2="12" y2="12"></line><line x1="12" y1="16" x2="12.01" y2="16"></line></svg>;
+  }
+  return <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>;
+};
+
+// The prompt or text the model passed, when the tool has one
+const describeArgs = (args: Record<string, unknown>): string | null => {
+  const value = args.prompt ?? args.text;
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call }) => {
+  const style = STATUS_STYLES[call.status];
+  const detail = describeArgs(call.args);
+  const seconds = call.finishedAt ? Math.max(1, Math.round((call.finishedAt - call.startedAt) / 1000)) : null;
+
+  return (
+    <div className={`my-3 border rounded-xl overflow-hidden ${style.border}`}>
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5">
+        <div className={`flex items-center gap-2 text-sm font-medium ${style.text}`}>
+          <StatusIcon status={call.status} />
+          <span className="text-gray-700">{call.label}</span>
+        </div>
+        <div className={`text-[11px] uppercase tracking-wider ${style.text}`}>
+          {style.note}{seconds && call.status === 'success' ? ` · ${seconds}s` : ''}
+        </div>
+      </div>
+
+      {(detail || call.summary || call.error) && (
+        <div className="px-4 pb-3 space-y-1 text-xs">
+          {detail && <div className="text-gray-500 italic line-clamp-2">"{detail}"</div>}
+          {call.summary && <div className="text-gray-600">{call.summary}</div>}
+          {call.error && <div className="text-red-500">{call.error}</div>}
+        </div>
+      )}
+
+      {call.media?.type === 'image' && (
+        <div className="px-4 pb-4">
+          <img src={call.media.url} alt={detail || 'Generated'} className="rounded-lg shadow-sm border border-gray-100 max-w-full" />
+        </div>
+      )}
+
+      {call.media?.type === 'video' && (
+        <div className="px-4 pb-4">
+          <video src={call.media.url} controls className="rounded-lg shadow-sm border border-gray-100 max-w-full w-full bg-black" />
+        </div>
+      )}
+
+      {call.media?.type === 'audio' && (
+        <div className="px-4 pb-4">
+          <audio src={call.media.url} controls className="w-full h-10" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { VideoJob } from '../types';
+import { getQueuePosition, getVideoJobProgress } from '../services/videoJobs';
+
+interface VideoJobCardProps {
+  job: VideoJob;
+  onCancel?: (jobId: string) => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const VideoJobCard: React.FC<VideoJobCardProps> = ({ job, onCancel }) => {
+  const isActive = job.status === 'queued' || job.status === 'running';
+  const [now, setNow] = useState(Date.now());
+
+  // Progress is an estimate from elapsed time, so it only needs a clock
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isActive]);
+
+  if (!isActive) return null;
+
+  const { progress, remainingMs } = getVideoJobProgress(job, now);
+  const position = getQueuePosition(job.id);
+  const elapsedMs = job.startedAt ? now - job.startedAt : 0;
+  const note = job.status === 'queued'
+    ? `Waiting for a free slot${position > 1 ? ` (${position - 1} ahead)` : ''}`
+    : remainingMs > 0
+        ? `About ${formatDuration(remainingMs)} left`
+        : 'Taking longer than usual...';
+
+  return (
+    <div className="my-3 border border-sky-100 bg-sky-50/40 rounded-xl px-4 py-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <div className="w-3.5 h-3.5 rounded-full border-2 border-sky-200 border-t-sky-500 animate-spin"></div>
+          {job.status === 'queued' ? 'Video queued' : 'Rendering video'}
+        </div>
+        {onCancel && (
+          <button
+            onClick={() => onCancel(job.id)}
+            className="text-xs font-medium text-gray-400 hover:text-red-500 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      <div className="mt-3 h-1.5 rounded-full bg-sky-100 overflow-hidden">
+        <div className="h-full bg-sky-500 rounded-full transition-all duration-1000" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+      </div>
+      <div className="mt-2 flex items-center justify-between text-[11px] uppercase tracking-wider text-sky-600">
+        <span>{note}</span>
+        {job.status === 'running' && <span className="text-gray-400">{formatDuration(elapsedMs)} elapsed</span>}
+      </div>
+    </div>
+  );
+};
+
+export default VideoJobCard;
@@ -1,8 +1,8 @@
 import React from 'react';
-import { TaskModule, ModuleConfig } from './types';
+import { TaskModule, ModuleConfig, IconElement } from './types';
 
 // Icons using simple SVG strings for zero-dependency
-export const Icons = {
+const icons = {
   Cpu: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="4" y="4" width="16" height="16" rx="2" ry="2"></rect><rect x="9" y="9" width="6" height="6"></rect><line x1="9" y1="1" x2="9" y2="4"></line><line x1="15" y1="1" x2="15" y2="4"></line><line x1="9" y1="20" x2="9" y2="23"></line><line x1="15" y1="20" x2="15" y2="23"></line><line x1="20" y1="9" x2="23" y2="9"></line><line x1="20" y1="14" x2="23" y2="14"></line><line x1="1" y1="9" x2="4" y2="9"></line><line x1="1" y1="14" x2="4" y2="14"></line></svg>,
   FileText: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>,
   PenTool: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 19l7-7 3 3-7 7-3-3z"></path><path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z"></path><path d="M2 2l7.586 7.586"></path><circle cx="11" cy="11" r="2"></circle></svg>,
@@ -28,6 +28,7 @@ export const Icons = {
   User: <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path><circle cx="12" cy="7" r="4"></circle></svg>,
   Link: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path></svg>,
   Google: <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 48" width="20" height="20"><path fill="#FFC107" d="M43.611,20.083H42V20H24v8h11.303c-1.649,4.657-6.08,8-11.303,8c-6.627,0-12-5.373-12-12c0-6.627,5.373-12,12-12c3.059,0,5.842,1.154,7.961,3.039l5.657-5.657C34.046,6.053,29.268,4,24,4C12.955,4,4,12.955,4,24c0,11.045,8.955,20,20,20c11.045,0,20-8.955,20-20C44,22.659,43.862,21.35,43.611,20.083z"/><path fill="#FF3D00" d="M6.306,14.691l6.571,4.819C14.655,15.108,18.961,12,24,12c3.059,0,5.842,1.154,7.961,3.039l5.657-5.657C34.046,6.053,29.268,4,24,4C16.318,4,9.656,8.337,6.306,14.691z"/><path fill="#4CAF50" d="M24,44c5.166,0,9.86-1.977,13.409-5.192l-6.19-5.238C29.211,35.091,26.715,36,24,36c-5.202,0-9.619-3.317-11.283-7.946l-6.522,5.025C9.505,39.556,16.227,44,24,44z"/><path fill="#1976D2" d="M43.611,20.083H42V20H24v8h11.303c-0.792,2.237-2.231,4.166-4.087,5.571c0.001-0.001,0.002-0.001,0.003-0.002l6.19,5.238C36.971,39.205,44,34,44,24C44,22.659,43.862,21.35,43.611,20.083z"/></svg>,
+  Lock: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect><path d="M7 11V7a5 5 0 0 1 10 0v4"></path></svg>,
   LogOut: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path><polyline points="16 17 21 12 16 7"></polyline><line x1="21" y1="12" x2="9" y2="12"></line></svg>,
   MoreHorizontal: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="1"></circle><circle cx="19" cy="12" r="1"></circle><circle cx="5" cy="12" r="1"></circle></svg>,
   Edit2: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"></path></svg>,
@@ -40,10 +41,19 @@ export const Icons = {
   FileTypeDoc: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><polyline points="14 2 14 8 20 8"/><line x1="16" y1="13" x2="8" y2="13"/><line x1="16" y1="17" x2="8" y2="17"/><polyline points="10 9 9 9 8 9"/></svg>,
   FileTypePdf: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><polyline points="14 2 14 8 20 8"/><line x1="16" y1="13" x2="8" y2="13"/><line x1="16" y1="17" x2="8" y2="17"/><polyline points="10 9 9 9 8 9"/></svg>,
   Presentation: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 6h16a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2z"/><path d="M12 4v2"/><path d="M8 18l2 4"/><path d="M16 18l-2 4"/></svg>,
+  CheckSquare: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="9 11 12 14 22 4"/><path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"/></svg>,
   RefreshCw: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="23 4 23 10 17 10"/><polyline points="1 20 1 14 7 14"/><path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"/></svg>,
+  Search: <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>,
+  Download: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>,
+  Filter: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="22 3 2 3 10 12.46 10 19 14 21 14 12.46 22 3"></polygon></svg>,
+  Layers: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="12 2 2 7 12 12 22 7 12 2"></polygon><polyline points="2 17 12 22 22 17"></polyline><polyline points="2 12 12 17 22 12"></polyline></svg>,
+  Scissors: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="6" cy="6" r="3"></circle><circle cx="6" cy="18" r="3"></circle><line x1="20" y1="4" x2="8.12" y2="15.88"></line><line x1="14.47" y1="14.48" x2="20" y2="20"></line><line x1="8.12" y1="8.12" x2="12" y2="12"></line></svg>,
+  Minimize2: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="4 14 10 14 10 20"></polyline><polyline points="20 10 14 10 14 4"></polyline><line x1="14" y1="10" x2="21" y2="3"></line><line x1="3" y1="21" x2="10" y2="14"></line></svg>,
+  ChevronUp: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="18 15 12 9 6 15"></polyline></svg>,
+  ChevronDown: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="6 9 12 15 18 9"></polyline></svg>,
 };
 
-export const ILOVEPDF_SECRET_KEY = 'secret_key_8ab93c71db8ae382d851a4960074274b_2Qycu58f196b0f666d56cee91fb467f97084b';
+export const Icons: Record<keyof typeof icons, IconElement> = icons;
 
 export const SYSTEM_INSTRUCTION = `You are **SwiftMind Copilot** — a polite and efficient AI assistant designed to execute tasks with precision while maintaining a helpful and engaging tone.
 
@@ -118,6 +128,11 @@ Analyze uploaded images and answer questions about them.
 ### 🛡 SAFETY & STABILITY
 Never hallucinate data. If something is unclear, politely ask for clarification.
 
+### FINAL RULE
+Be polite, use emojis in headings (except for invoices), and **always end with a follow-up offer** to create, summarize, or explain.`;
+
+// Appended by geminiService for providers without native function calling
+export const MEDIA_TAG_PROTOCOL = `
 ### 🤖 PROTOCOL FOR MEDIA GENERATION
 You MUST use these specific tool tags when the user asks for media:
 * For Images: {{IMAGE: [detailed prompt]}}
@@ -132,10 +147,17 @@ Would you like me to create a video of the cat or write a story about it?"
 
 ### 🔧 STATELESS MEDIA GENERATION RULES
 1. Treat every media request as fresh. Do not rely on past state.
-2. If user says "Make another", "Change style", "Try again" -> GENERATE NEW TAG.
+2. If user says "Make another", "Change style", "Try again" -> GENERATE NEW TAG.`;
 
-### FINAL RULE
-Be polite, use emojis in headings (except for invoices), and **always end with a follow-up offer** to create, summarize, or explain.`;
+export const MEDIA_TOOL_PROTOCOL = `
+### 🤖 PROTOCOL FOR MEDIA GENERATION
+When the user asks for media, call the matching tool instead of describing it:
+* For Images: generate_image with a detailed prompt
+* For Videos: generate_video with a detailed prompt
+* For Audio: generate_speech with the exact text to speak
+
+The app shows the result under your reply, so do not paste links or placeholders. Videos and audio keep rendering after your reply ends; just tell the user it is on its way.
+If the user says "Make another", "Change style" or "Try again", call the tool again with a fresh prompt.`;
 
 export const MODULES: ModuleConfig[] = [
   {
@@ -167,7 +189,7 @@ export const MODULES: ModuleConfig[] = [
     icon: Icons.DollarSign,
     label: "Invoice",
     description: "Generate bill structures",
-    contextParams: "FORCE MODE: INVOICE. Generate a professional invoice. Use Markdown tables for items. NO EMOJIS in headings or text. Separate Customer Details from Invoice Metadata.",
+    contextParams: "FORCE MODE: INVOICE. Call the create_invoice tool with every seller, buyer, item, date and payment detail the user gave; the app numbers the invoice, calculates GST and renders it. Then reply with a short professional confirmation of the invoice number and total, and list any details still missing. Do not redraw the invoice as a table. NO EMOJIS in headings or text.",
     modelPreference: 'gemini-2.5-flash'
   },
   {
@@ -175,7 +197,7 @@ export const MODULES: ModuleConfig[] = [
     icon: Icons.RefreshCw,
     label: "File Converter",
     description: "Convert PDFs & Docs",
-    contextParams: "FORCE MODE: CONVERTER. STRICTLY FOLLOW OUTPUT FORMAT REQUESTS (CSV for Excel, HTML for PDF, Markdown for Word).",
+    contextParams: "FORCE MODE: CONVERTER. STRICTLY FOLLOW OUTPUT FORMAT REQUESTS (CSV for Excel, Markdown for Word and PDF, a Markdown outline for PowerPoint). Output only the converted content.",
     modelPreference: 'gemini-2.5-flash'
   },
   {
@@ -191,7 +213,7 @@ export const MODULES: ModuleConfig[] = [
     icon: Icons.List,
     label: "Lists",
     description: "Organize tasks & items",
-    contextParams: "FORCE MODE: LIST MAKER. Use markdown checkboxes or bullets.",
+    contextParams: "FORCE MODE: LIST MAKER. Write actionable items as markdown task checkboxes (- [ ] item) so the user can tick them off. Use plain bullets only for non-actionable notes.",
     modelPreference: 'gemini-2.5-flash'
   },
   {
@@ -199,7 +221,7 @@ export const MODULES: ModuleConfig[] = [
     icon: Icons.Calculator,
     label: "Business Calc",
     description: "GST & Tax breakdown",
-    contextParams: "FORCE MODE: BUSINESS CALC. Show step-by-step math. Double check calculations.",
+    contextParams: "FORCE MODE: BUSINESS CALC. For any GST or tax amount, call the calculate_gst tool and quote its figures exactly; never compute tax yourself. Explain the result step by step.",
     modelPreference: 'gemini-2.5-flash'
   },
   {
@@ -0,0 +1,123 @@
+// Thin local proxy that holds the API keys, so the browser bundle never carries them.
+// Run with `npm run proxy` and set API_PROXY_URL=http://localhost:8787 in .env.local.
+//
+//   /gemini/<path>           -> https://generativelanguage.googleapis.com/<path>, with GEMINI_API_KEY
+//   /ilovepdf/<host>/<path>  -> https://<host>/<path> for *.ilovepdf.com; /v1/auth gets ILOVEPDF_PUBLIC_KEY
+//
+// Keys the browser sends are dropped. Only requests from PROXY_ALLOWED_ORIGIN are answered.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN || 'http://localhost:3000';
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+const ILOVEPDF_PUBLIC_KEY = process.env.ILOVEPDF_PUBLIC_KEY || '';
+
+const GEMINI_HOST = 'generativelanguage.googleapis.com';
+const ILOVEPDF_HOST = /^([a-z0-9-]+\.)*ilovepdf\.com$/;
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+// Request headers passed upstream; everything else (cookies, keys, origin) stays here
+const FORWARDED_REQUEST_HEADERS = ['content-type', 'authorization', 'accept', 'x-goog-api-client', 'x-goog-upload-protocol', 'x-goog-upload-command', 'x-goog-upload-offset', 'x-goog-upload-header-content-type', 'x-goog-upload-header-content-length'];
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'content-disposition', 'x-goog-upload-url', 'x-goog-upload-status'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': [...FORWARDED_REQUEST_HEADERS, 'x-goog-api-key'].join(', '),
+  'Access-Control-Expose-Headers': FORWARDED_RESPONSE_HEADERS.join(', '),
+  'Vary': 'Origin'
+};
+
+const sendError = (res, status, message) => {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { message } }));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body is too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// Maps a proxy path to the upstream URL and the headers that authenticate it, or null if not allowed
+const resolveUpstream = (url) => {
+  const [, service, ...rest] = url.pathname.split('/');
+  const query = new URLSearchParams(url.search);
+  query.delete('key');
+  const search = query.toString() ? `?${query}` : '';
+
+  if (service === 'gemini') {
+    if (!GEMINI_API_KEY) return { error: 'The proxy has no GEMINI_API_KEY.' };
+    return { target: `https://${GEMINI_HOST}/${rest.join('/')}${search}`, headers: { 'x-goog-api-key': GEMINI_API_KEY } };
+  }
+  if (service === 'ilovepdf') {
+    const [host, ...path] = rest;
+    if (!host || !ILOVEPDF_HOST.test(host)) return null;
+    const target = `https://${host}/${path.join('/')}${search}`;
+    if (path.join('/') === 'v1/auth') {
+      if (!ILOVEPDF_PUBLIC_KEY) return { error: 'The proxy has no ILOVEPDF_PUBLIC_KEY.' };
+      return { target, headers: {}, body: JSON.stringify({ public_key: ILOVEPDF_PUBLIC_KEY }) };
+    }
+    return { target, headers: {} };
+  }
+  return null;
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.headers.origin && req.headers.origin !== ALLOWED_ORIGIN) return sendError(res, 403, 'Origin not allowed.');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    return res.end();
+  }
+
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const upstream = resolveUpstream(url);
+  if (!upstream) return sendError(res, 404, 'Unknown route.');
+  if (upstream.error) return sendError(res, 503, upstream.error);
+
+  try {
+    const headers = { ...upstream.headers };
+    FORWARDED_REQUEST_HEADERS.forEach(name => {
+      const value = req.headers[name];
+      if (typeof value === 'string') headers[name] = value;
+    });
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    const body = upstream.body ?? (hasBody ? await readBody(req) : undefined);
+    if (upstream.body) headers['content-type'] = 'application/json';
+
+    const response = await fetch(upstream.target, { method: req.method, headers, body });
+    const responseHeaders = { ...corsHeaders };
+    FORWARDED_RESPONSE_HEADERS.forEach(name => {
+      const value = response.headers.get(name);
+      if (value) responseHeaders[name] = value;
+    });
+    res.writeHead(response.status, responseHeaders);
+
+    // Streamed so chat replies (SSE) arrive as they are generated
+    if (response.body) {
+      for await (const chunk of response.body) res.write(chunk);
+    }
+    res.end();
+  } catch (error) {
+    console.error(`[proxy] ${req.method} ${url.pathname} failed:`, error.message);
+    if (!res.headersSent) sendError(res, 502, 'Upstream request failed.');
+    else res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`SwiftMind key proxy on http://localhost:${PORT} (allowing ${ALLOWED_ORIGIN})`);
+  if (!GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set; /gemini requests will fail.');
+  if (!ILOVEPDF_PUBLIC_KEY) console.warn('ILOVEPDF_PUBLIC_KEY is not set; /ilovepdf requests will fail.');
+});
@@ -0,0 +1,50 @@
+// Server settings, read once from the environment. `.env.local` in the app root (or the server
+// folder) is loaded first when present, so the server and the web app can share one file.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const serverDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+[path.join(serverDir, '.env.local'), path.join(serverDir, '..', '.env.local')].forEach(file => {
+  // Values already in the environment win over the file
+  if (fs.existsSync(file)) process.loadEnvFile(file);
+});
+
+const number = (value, fallback) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const config = {
+  port: number(process.env.SERVER_PORT, 8790),
+  allowedOrigins: (process.env.SERVER_ALLOWED_ORIGINS || 'http://localhost:3000').split(',').map(origin => origin.trim()).filter(Boolean),
+  maxBodyBytes: number(process.env.SERVER_MAX_BODY_MB, 64) * 1024 * 1024,
+  logFile: process.env.SERVER_LOG_FILE || '',
+
+  // 'gemini' talks to the real APIs; 'mock' answers in-process without network access
+  upstream: process.env.UPSTREAM === 'mock' ? 'mock' : 'gemini',
+  gemini: {
+    apiKey: process.env.GEMINI_API_KEY || '',
+    // Point at a local stand-in (any server speaking the Gemini REST API) instead of Google
+    baseUrl: process.env.GEMINI_BASE_URL || ''
+  },
+  ilovePdf: {
+    publicKey: process.env.ILOVEPDF_PUBLIC_KEY || '',
+    baseUrl: process.env.ILOVEPDF_BASE_URL || 'https://api.ilovepdf.com'
+  },
+
+  // Quotas are counted per client address. X-SwiftMind-User is sent by the browser but any caller
+  // can set it, so it only takes over when a proxy in front authenticates users and sets it itself.
+  trustUserHeader: process.env.SERVER_TRUST_USER_HEADER === 'true',
+
+  // Per user. Minute limits smooth out bursts; daily limits cap cost. 0 disables a limit.
+  quotas: {
+    chat: { perMinute: number(process.env.QUOTA_CHAT_PER_MINUTE, 20), perDay: number(process.env.QUOTA_CHAT_PER_DAY, 500) },
+    image: { perMinute: number(process.env.QUOTA_IMAGE_PER_MINUTE, 5), perDay: number(process.env.QUOTA_IMAGE_PER_DAY, 50) },
+    video: { perMinute: number(process.env.QUOTA_VIDEO_PER_MINUTE, 1), perDay: number(process.env.QUOTA_VIDEO_PER_DAY, 10) },
+    speech: { perMinute: number(process.env.QUOTA_SPEECH_PER_MINUTE, 10), perDay: number(process.env.QUOTA_SPEECH_PER_DAY, 200) },
+    convert: { perMinute: number(process.env.QUOTA_CONVERT_PER_MINUTE, 10), perDay: number(process.env.QUOTA_CONVERT_PER_DAY, 100) }
+  }
+};
@@ -0,0 +1,341 @@
+// SwiftMind API server: model and conversion calls on behalf of the browser, so keys stay here.
+// Routes mirror the app's service functions (services/geminiService.ts, services/ilovepdfService.ts):
+//
+//   POST /chat/stream  one model turn as Server-Sent Events (chunk, tool_calls, error, done)
+//   POST /title        { message } -> { title }
+//   POST /image        { prompt, size } or { prompt, image } to edit -> { imageUrl, mimeType }
+//   POST /video        { prompt, aspectRatio, image? } -> video bytes
+//   POST /video/start  { prompt, aspectRatio, image? } -> { operation }
+//   GET  /video/status?operation=    -> { done }
+//   GET  /video/download?operation=  -> video bytes
+//   POST /speech       { text } -> WAV bytes
+//   POST /convert      { tool, files: [{ name, data }], options? } -> { data, filename, mimeType, fileCount }
+//   GET  /quota        remaining requests for the caller
+//   GET  /health
+//
+// Callers are told apart by their address, or by the X-SwiftMind-User header with
+// SERVER_TRUST_USER_HEADER=true. Neither is authentication: run the server for yourself or behind
+// something that authenticates users.
+
+import http from 'node:http';
+import { config } from './config.mjs';
+import { createQuotaTracker, QuotaExceededError } from './quota.mjs';
+import { createRequestLogger } from './logger.mjs';
+import { createUpstream } from './upstream/index.mjs';
+
+class BadRequestError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'BadRequestError';
+  }
+}
+
+const upstream = createUpstream(config);
+const quotas = createQuotaTracker(config.quotas);
+const logger = createRequestLogger(config.logFile);
+
+const IMAGE_SIZES = ['1K', '2K', '4K'];
+const ASPECT_RATIOS = ['16:9', '9:16'];
+const CONVERT_TOOLS = ['pdfexcel', 'pdfword', 'officepdf', 'pdfpowerpoint', 'merge', 'split', 'compress', 'pdfocr', 'protect'];
+const COMPRESSION_LEVELS = ['low', 'recommended', 'extreme'];
+const SPLIT_RANGES = /^\d+(-\d+)?(,\d+(-\d+)?)*$/;
+const MAX_CONVERT_FILES = 20;
+
+// --- HTTP helpers ---
+
+const corsHeaders = (origin) => ({
+  'Access-Control-Allow-Origin': origin,
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-SwiftMind-User',
+  'Access-Control-Expose-Headers': 'Retry-After',
+  'Vary': 'Origin'
+});
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > config.maxBodyBytes) {
+      reject(new BadRequestError('Request body is too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(new BadRequestError('Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const requireString = (body, field) => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw new BadRequestError(`"${field}" is required.`);
+  return value;
+};
+
+const requireOneOf = (body, field, allowed, fallback) => {
+  const value = body[field] ?? fallback;
+  if (!allowed.includes(value)) throw new BadRequestError(`"${field}" must be one of ${allowed.join(', ')}.`);
+  return value;
+};
+
+const requireQuery = (req, field) => {
+  const value = new URL(req.url || '/', 'http://localhost').searchParams.get(field);
+  if (!value) throw new BadRequestError(`"${field}" query parameter is required.`);
+  return value;
+};
+
+const stripDataUrl = (value) => value.split(',')[1] || value;
+
+const readConvertFiles = (body, tool) => {
+  const files = Array.isArray(body.files) ? body.files : [];
+  const minFiles = tool === 'merge' ? 2 : 1;
+  if (files.length < minFiles || files.length > MAX_CONVERT_FILES) {
+    throw new BadRequestError(`"files" must hold ${minFiles} to ${MAX_CONVERT_FILES} files for ${tool}.`);
+  }
+  return files.map(file => {
+    const data = requireString(file, 'data');
+    return {
+      fileName: requireString(file, 'name'),
+      bytes: Buffer.from(stripDataUrl(data), 'base64'),
+      mimeType: data.match(/^data:([^;,]*)/)?.[1] || 'application/octet-stream'
+    };
+  });
+};
+
+// Only the options the tool uses are passed on
+const readConvertOptions = (body, tool) => {
+  const options = body.options && typeof body.options === 'object' ? body.options : {};
+  switch (tool) {
+    case 'split': {
+      const ranges = typeof options.ranges === 'string' ? options.ranges.replace(/\s+/g, '') : '';
+      if (ranges && !SPLIT_RANGES.test(ranges)) throw new BadRequestError('"options.ranges" must look like 1-3,5.');
+      return { ranges };
+    }
+    case 'compress':
+      return { compressionLevel: requireOneOf(options, 'compressionLevel', COMPRESSION_LEVELS, 'recommended') };
+    case 'pdfocr': {
+      const languages = Array.isArray(options.ocrLanguages) ? options.ocrLanguages : [];
+      if (!languages.every(code => typeof code === 'string' && /^[a-z_]{3,8}$/.test(code))) {
+        throw new BadRequestError('"options.ocrLanguages" must be language codes such as eng.');
+      }
+      return { ocrLanguages: languages };
+    }
+    case 'protect':
+      return { password: requireString(options, 'password') };
+    default:
+      return {};
+  }
+};
+
+// Upstream API errors keep their status where the browser can act on it (bad key, rate limit, ...)
+const statusFor = (error) => {
+  if (error instanceof BadRequestError) return 400;
+  if (error instanceof QuotaExceededError) return 429;
+  const upstreamStatus = Number(error?.status);
+  return [400, 401, 403, 404, 429].includes(upstreamStatus) ? upstreamStatus : 502;
+};
+
+// --- Routes ---
+
+const sendJson = (res, status, headers, body) => {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendBytes = (res, headers, { bytes, mimeType }) => {
+  res.writeHead(200, { ...headers, 'Content-Type': mimeType, 'Content-Length': bytes.length });
+  res.end(bytes);
+};
+
+const readChatRequest = async (req) => {
+  const body = await readJson(req);
+  const request = {
+    model: requireString(body, 'model'),
+    systemInstruction: typeof body.systemInstruction === 'string' ? body.systemInstruction : undefined,
+    contents: Array.isArray(body.contents) ? body.contents : [],
+    temperature: body.temperature,
+    topP: body.topP,
+    topK: body.topK,
+    tools: Array.isArray(body.tools) ? body.tools : undefined
+  };
+  if (request.contents.length === 0) throw new BadRequestError('"contents" must not be empty.');
+  return request;
+};
+
+const handleChatStream = async ({ input: request, res, headers, signal }) => {
+  res.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' });
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  let chunks = 0;
+  try {
+    await upstream.streamChat(request, event => {
+      if (event.type === 'chunk') {
+        chunks++;
+        send('chunk', { text: event.text });
+      } else {
+        send('tool_calls', { parts: event.parts });
+      }
+    }, signal);
+    send('done', {});
+  } catch (error) {
+    // Headers are out already, so failures travel as an event
+    if (!signal.aborted) send('error', { message: error.message || 'The model request failed.', status: statusFor(error) });
+  }
+  res.end();
+  return { chunks };
+};
+
+const readVideoRequest = async (req) => {
+  const body = await readJson(req);
+  return {
+    prompt: requireString(body, 'prompt'),
+    aspectRatio: requireOneOf(body, 'aspectRatio', ASPECT_RATIOS, '16:9'),
+    image: typeof body.image === 'string' && body.image ? stripDataUrl(body.image) : undefined
+  };
+};
+
+// Routes with a quota read and validate their input in `read`; the quota is only charged once
+// that succeeds, so a malformed or oversized request costs nothing.
+const routes = {
+  'POST /chat/stream': { quota: 'chat', read: readChatRequest, handle: handleChatStream },
+
+  'POST /title': {
+    quota: 'chat',
+    read: async (req) => requireString(await readJson(req), 'message'),
+    handle: async ({ input: message, res, headers }) => {
+      sendJson(res, 200, headers, { title: await upstream.generateTitle(message) });
+    }
+  },
+
+  'POST /image': {
+    quota: 'image',
+    read: async (req) => {
+      const body = await readJson(req);
+      const prompt = requireString(body, 'prompt');
+      return typeof body.image === 'string' && body.image
+        ? { prompt, image: stripDataUrl(body.image) }
+        : { prompt, size: requireOneOf(body, 'size', IMAGE_SIZES, '1K') };
+    },
+    handle: async ({ input: { prompt, image, size }, res, headers }) => {
+      const result = image ? await upstream.editImage(prompt, image) : await upstream.generateImage(prompt, size);
+      sendJson(res, 200, headers, { imageUrl: `data:${result.mimeType};base64,${result.data}`, mimeType: result.mimeType });
+    }
+  },
+
+  'POST /video': {
+    quota: 'video',
+    read: readVideoRequest,
+    handle: async ({ input: { prompt, aspectRatio, image }, res, headers, signal }) => {
+      sendBytes(res, headers, await upstream.generateVideo(prompt, aspectRatio, image, signal));
+    }
+  },
+
+  // Started videos are polled without touching the quota; only starting one counts.
+  // Operation names are unguessable but not tied to the caller.
+  'POST /video/start': {
+    quota: 'video',
+    read: readVideoRequest,
+    handle: async ({ input: { prompt, aspectRatio, image }, res, headers }) => {
+      sendJson(res, 200, headers, { operation: await upstream.startVideo(prompt, aspectRatio, image) });
+    }
+  },
+
+  'GET /video/status': {
+    handle: async ({ req, res, headers }) => sendJson(res, 200, headers, await upstream.checkVideo(requireQuery(req, 'operation')))
+  },
+
+  'GET /video/download': {
+    handle: async ({ req, res, headers, signal }) => sendBytes(res, headers, await upstream.downloadVideo(requireQuery(req, 'operation'), signal))
+  },
+
+  'POST /speech': {
+    quota: 'speech',
+    read: async (req) => requireString(await readJson(req), 'text'),
+    handle: async ({ input: text, res, headers }) => {
+      sendBytes(res, headers, await upstream.generateSpeech(text));
+    }
+  },
+
+  'POST /convert': {
+    quota: 'convert',
+    read: async (req) => {
+      const body = await readJson(req);
+      const tool = requireOneOf(body, 'tool', CONVERT_TOOLS);
+      return { files: readConvertFiles(body, tool), tool, options: readConvertOptions(body, tool) };
+    },
+    handle: async ({ input, res, headers, signal }) => {
+      const result = await upstream.convert({ ...input, signal });
+      sendJson(res, 200, headers, {
+        data: `data:${result.mimeType};base64,${result.bytes.toString('base64')}`,
+        filename: result.filename,
+        mimeType: result.mimeType,
+        fileCount: result.fileCount
+      });
+    }
+  },
+
+  'GET /quota': {
+    handle: async ({ res, headers, user }) => sendJson(res, 200, headers, quotas.remaining(user))
+  },
+
+  'GET /health': {
+    handle: async ({ res, headers }) => sendJson(res, 200, headers, { ok: true, upstream: upstream.id })
+  }
+};
+
+// --- Server ---
+
+const server = http.createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  if (origin && !config.allowedOrigins.includes(origin)) {
+    sendJson(res, 403, {}, { error: { message: 'Origin not allowed.' } });
+    return;
+  }
+  const headers = corsHeaders(origin || config.allowedOrigins[0] || '*');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, headers);
+    res.end();
+    return;
+  }
+
+  const claimedUser = config.trustUserHeader ? req.headers['x-swiftmind-user'] : undefined;
+  const user = String(claimedUser || req.socket.remoteAddress || 'anonymous').slice(0, 128);
+  const done = logger.start(req, user);
+  const route = routes[`${req.method} ${new URL(req.url || '/', 'http://localhost').pathname}`];
+  if (!route) {
+    sendJson(res, 404, headers, { error: { message: 'Unknown route.' } });
+    done(404);
+    return;
+  }
+
+  // Aborted when the browser goes away (e.g. the user presses Stop)
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+  try {
+    const input = route.read ? await route.read(req) : undefined;
+    if (route.quota) quotas.consume(user, route.quota);
+    const extra = await route.handle({ input, req, res, headers, signal: controller.signal, user });
+    done(res.statusCode, { ...extra, ...(controller.signal.aborted ? { aborted: true } : {}) });
+  } catch (error) {
+    const status = statusFor(error);
+    if (status >= 500) console.error(`[server] ${req.method} ${req.url} failed:`, error);
+    if (!res.headersSent) {
+      const retryHeaders = error instanceof QuotaExceededError ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) } : {};
+      sendJson(res, status, { ...headers, ...retryHeaders }, { error: { message: error.message || 'Request failed.' } });
+    } else {
+      res.end();
+    }
+    done(status, { error: error.message });
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`SwiftMind server on http://localhost:${config.port} (upstream: ${upstream.id}, allowing ${config.allowedOrigins.join(', ')})`);
+});
@@ -0,0 +1,209 @@
+// Request-level tests: starts the real server with the mock upstream and talks to it over HTTP.
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import net from 'node:net';
+import { fileURLToPath } from 'node:url';
+
+const ORIGIN = 'http://localhost:3000';
+const CHAT_PER_MINUTE = 2;
+
+const freePort = () => new Promise((resolve, reject) => {
+  const probe = net.createServer();
+  probe.once('error', reject);
+  probe.listen(0, () => {
+    const { port } = probe.address();
+    probe.close(() => resolve(port));
+  });
+});
+
+// Resolves once the server prints its startup line
+const startServer = (env) => new Promise((resolve, reject) => {
+  const child = spawn(process.execPath, [fileURLToPath(new URL('./index.mjs', import.meta.url))], {
+    env: { ...process.env, ...env },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+  let output = '';
+  const onData = (data) => {
+    output += data;
+    if (output.includes('SwiftMind server on')) {
+      child.stdout.off('data', onData);
+      child.stdout.resume();
+      resolve(child);
+    }
+  };
+  child.stdout.on('data', onData);
+  child.stderr.on('data', data => { output += data; });
+  child.once('exit', code => reject(new Error(`Server exited with ${code}:\n${output}`)));
+});
+
+// Splits a Server-Sent Events body into { event, data } records
+const parseEvents = (body) => body.split('\n\n').filter(Boolean).map(block => {
+  const event = block.match(/^event: (.*)$/m)?.[1];
+  const data = block.match(/^data: (.*)$/m)?.[1];
+  return { event, data: data ? JSON.parse(data) : undefined };
+});
+
+describe('server', () => {
+  let server;
+  let baseUrl;
+
+  const post = (path, user, body) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Origin': ORIGIN, 'X-SwiftMind-User': user },
+    body: JSON.stringify(body)
+  });
+
+  const chatBody = (text) => ({
+    model: 'gemini-test',
+    contents: [{ role: 'user', parts: [{ text }] }]
+  });
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://localhost:${port}`;
+    server = await startServer({
+      SERVER_PORT: String(port),
+      SERVER_ALLOWED_ORIGINS: ORIGIN,
+      SERVER_LOG_FILE: '',
+      UPSTREAM: 'mock',
+      SERVER_TRUST_USER_HEADER: 'true',
+      QUOTA_CHAT_PER_MINUTE: String(CHAT_PER_MINUTE),
+      QUOTA_CHAT_PER_DAY: '100'
+    });
+  });
+
+  after(() => {
+    server?.kill();
+  });
+
+  describe('POST /chat/stream', () => {
+    it('streams chunks and ends with a done event', async () => {
+      const response = await post('/chat/stream', 'stream-user', chatBody('hello there'));
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get('content-type'), 'text/event-stream');
+      assert.equal(response.headers.get('access-control-allow-origin'), ORIGIN);
+
+      const events = parseEvents(await response.text());
+      assert.ok(events.length > 1);
+      assert.equal(events.at(-1).event, 'done');
+      assert.ok(events.slice(0, -1).every(({ event }) => event === 'chunk'));
+
+      const text = events.filter(({ event }) => event === 'chunk').map(({ data }) => data.text).join('');
+      assert.match(text, /Mock Server Response #1/);
+      assert.match(text, /\*\*Model:\*\* gemini-test/);
+      assert.match(text, /\*\*Request:\*\* hello there/);
+    });
+
+    it('rejects a turn without contents before streaming', async () => {
+      const response = await post('/chat/stream', 'empty-user', { model: 'gemini-test', contents: [] });
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), { error: { message: '"contents" must not be empty.' } });
+    });
+
+    it('rejects a body that is not JSON', async () => {
+      const response = await fetch(`${baseUrl}/chat/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Origin': ORIGIN, 'X-SwiftMind-User': 'json-user' },
+        body: '{"model":'
+      });
+      assert.equal(response.status, 400);
+      assert.equal((await response.json()).error.message, 'Request body is not valid JSON.');
+    });
+
+    it('refuses origins that are not allowed', async () => {
+      const response = await fetch(`${baseUrl}/chat/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Origin': 'http://evil.example' },
+        body: JSON.stringify(chatBody('hi'))
+      });
+      assert.equal(response.status, 403);
+    });
+  });
+
+  describe('quotas', () => {
+    it('answers 429 with Retry-After once a user runs out of chat requests', async () => {
+      for (let i = 0; i < CHAT_PER_MINUTE; i++) {
+        const response = await post('/chat/stream', 'quota-user', chatBody(`turn ${i}`));
+        assert.equal(response.status, 200);
+        await response.text();
+      }
+
+      const quota = await fetch(`${baseUrl}/quota`, { headers: { 'Origin': ORIGIN, 'X-SwiftMind-User': 'quota-user' } });
+      assert.deepEqual((await quota.json()).chat, { minute: 0, day: 100 - CHAT_PER_MINUTE });
+
+      const limited = await post('/chat/stream', 'quota-user', chatBody('one more'));
+      assert.equal(limited.status, 429);
+      const retryAfter = Number(limited.headers.get('retry-after'));
+      assert.ok(retryAfter > 0 && retryAfter <= 60, `Retry-After was ${retryAfter}`);
+      assert.match((await limited.json()).error.message, /^Too many chat requests\. Try again in \d+s\.$/);
+
+      // Titles share the chat quota
+      const title = await post('/title', 'quota-user', { message: 'A new chat' });
+      assert.equal(title.status, 429);
+      await title.text();
+    });
+
+    it('does not charge requests that fail validation', async () => {
+      for (let i = 0; i <= CHAT_PER_MINUTE; i++) {
+        const response = await post('/chat/stream', 'invalid-user', { model: 'gemini-test', contents: [] });
+        assert.equal(response.status, 400);
+        await response.text();
+      }
+      const title = await post('/title', 'invalid-user', {});
+      assert.equal(title.status, 400);
+      await title.text();
+
+      const quota = await fetch(`${baseUrl}/quota`, { headers: { 'Origin': ORIGIN, 'X-SwiftMind-User': 'invalid-user' } });
+      assert.deepEqual((await quota.json()).chat, { minute: CHAT_PER_MINUTE, day: 100 });
+
+      const response = await post('/chat/stream', 'invalid-user', chatBody('finally valid'));
+      assert.equal(response.status, 200);
+      await response.text();
+    });
+
+    it('counts each user separately', async () => {
+      const response = await post('/title', 'other-user', { message: 'Quarterly report summary' });
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { title: 'Mock: Quarterly report summary' });
+    });
+  });
+});
+
+describe('server without a trusted user header', () => {
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://localhost:${port}`;
+    server = await startServer({
+      SERVER_PORT: String(port),
+      SERVER_ALLOWED_ORIGINS: ORIGIN,
+      SERVER_LOG_FILE: '',
+      UPSTREAM: 'mock',
+      SERVER_TRUST_USER_HEADER: '',
+      QUOTA_CHAT_PER_MINUTE: '1'
+    });
+  });
+
+  after(() => {
+    server?.kill();
+  });
+
+  it('counts quotas per address, whatever user the caller claims', async () => {
+    const title = (user) => fetch(`${baseUrl}/title`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Origin': ORIGIN, 'X-SwiftMind-User': user },
+      body: JSON.stringify({ message: 'hello' })
+    });
+    const first = await title('ann');
+    assert.equal(first.status, 200);
+    await first.text();
+
+    const spoofed = await title('someone-else');
+    assert.equal(spoofed.status, 429);
+    await spoofed.text();
+  });
+});
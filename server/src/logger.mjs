@@ -0,0 +1,29 @@
+// Request log: one JSON line per finished request, to stdout and optionally a file.
+// Only metadata is logged, never prompts, files or keys.
+
+import fs from 'node:fs';
+
+export const createRequestLogger = (logFile) => {
+  const stream = logFile ? fs.createWriteStream(logFile, { flags: 'a' }) : null;
+
+  const write = (entry) => {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+    console.log(line);
+    stream?.write(`${line}\n`);
+  };
+
+  // Call when the request starts; the returned function logs it once the response is done
+  const start = (req, user) => {
+    const startedAt = Date.now();
+    return (status, extra = {}) => write({
+      method: req.method,
+      path: new URL(req.url || '/', 'http://localhost').pathname,
+      user,
+      status,
+      ms: Date.now() - startedAt,
+      ...extra
+    });
+  };
+
+  return { start, write };
+};
@@ -0,0 +1,68 @@
+// Per-user request quotas with fixed minute and day windows, kept in memory.
+// Counters reset when the server restarts, which is fine for a single local instance.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export class QuotaExceededError extends Error {
+  constructor(route, retryAfterMs) {
+    super(`Too many ${route} requests. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`);
+    this.name = 'QuotaExceededError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * @param {Record<string, { perMinute: number, perDay: number }>} limits Keyed by route name
+ */
+export const createQuotaTracker = (limits, now = () => Date.now()) => {
+  // `${user}:${route}` -> window counters
+  const usage = new Map();
+
+  const windowsFor = (key, time) => {
+    let entry = usage.get(key);
+    if (!entry) {
+      entry = { minuteStart: time, minuteCount: 0, dayStart: time, dayCount: 0 };
+      usage.set(key, entry);
+    }
+    if (time - entry.minuteStart >= MINUTE_MS) {
+      entry.minuteStart = time;
+      entry.minuteCount = 0;
+    }
+    if (time - entry.dayStart >= DAY_MS) {
+      entry.dayStart = time;
+      entry.dayCount = 0;
+    }
+    return entry;
+  };
+
+  // Counts one request, or throws QuotaExceededError without counting it
+  const consume = (user, route) => {
+    const limit = limits[route];
+    if (!limit) return;
+    const time = now();
+    const entry = windowsFor(`${user}:${route}`, time);
+    if (limit.perDay && entry.dayCount >= limit.perDay) {
+      throw new QuotaExceededError(route, entry.dayStart + DAY_MS - time);
+    }
+    if (limit.perMinute && entry.minuteCount >= limit.perMinute) {
+      throw new QuotaExceededError(route, entry.minuteStart + MINUTE_MS - time);
+    }
+    entry.minuteCount++;
+    entry.dayCount++;
+  };
+
+  // Remaining requests per route for one user, for GET /quota
+  const remaining = (user) => {
+    const time = now();
+    return Object.fromEntries(Object.entries(limits).map(([route, limit]) => {
+      const entry = windowsFor(`${user}:${route}`, time);
+      return [route, {
+        minute: limit.perMinute ? Math.max(0, limit.perMinute - entry.minuteCount) : null,
+        day: limit.perDay ? Math.max(0, limit.perDay - entry.dayCount) : null
+      }];
+    }));
+  };
+
+  return { consume, remaining };
+};
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createQuotaTracker, QuotaExceededError } from './quota.mjs';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const trackerAt = (limits) => {
+  const clock = { time: 0 };
+  return { clock, quotas: createQuotaTracker(limits, () => clock.time) };
+};
+
+describe('createQuotaTracker', () => {
+  it('allows requests up to the minute limit, then reports when the window resets', () => {
+    const { clock, quotas } = trackerAt({ chat: { perMinute: 2, perDay: 0 } });
+    quotas.consume('ann', 'chat');
+    clock.time = 20_000;
+    quotas.consume('ann', 'chat');
+
+    clock.time = 45_500;
+    assert.throws(() => quotas.consume('ann', 'chat'), error => {
+      assert.ok(error instanceof QuotaExceededError);
+      assert.equal(error.retryAfterMs, 14_500);
+      assert.equal(error.message, 'Too many chat requests. Try again in 15s.');
+      return true;
+    });
+
+    clock.time = MINUTE_MS;
+    assert.doesNotThrow(() => quotas.consume('ann', 'chat'));
+  });
+
+  it('does not count a rejected request', () => {
+    const { clock, quotas } = trackerAt({ image: { perMinute: 1, perDay: 2 } });
+    quotas.consume('ann', 'image');
+    assert.throws(() => quotas.consume('ann', 'image'), QuotaExceededError);
+    assert.deepEqual(quotas.remaining('ann').image, { minute: 0, day: 1 });
+
+    clock.time = MINUTE_MS;
+    quotas.consume('ann', 'image');
+    assert.deepEqual(quotas.remaining('ann').image, { minute: 0, day: 0 });
+  });
+
+  it('checks the day limit before the minute limit', () => {
+    const { clock, quotas } = trackerAt({ video: { perMinute: 1, perDay: 1 } });
+    quotas.consume('ann', 'video');
+    clock.time = 1000;
+    assert.throws(() => quotas.consume('ann', 'video'), { retryAfterMs: DAY_MS - 1000 });
+
+    clock.time = DAY_MS;
+    assert.doesNotThrow(() => quotas.consume('ann', 'video'));
+  });
+
+  it('keeps users and routes apart and ignores routes without limits', () => {
+    const { quotas } = trackerAt({ chat: { perMinute: 1, perDay: 0 }, speech: { perMinute: 1, perDay: 0 } });
+    quotas.consume('ann', 'chat');
+    quotas.consume('bob', 'chat');
+    quotas.consume('ann', 'speech');
+    quotas.consume('ann', 'health');
+    quotas.consume('ann', 'health');
+    assert.deepEqual(quotas.remaining('ann'), {
+      chat: { minute: 0, day: null },
+      speech: { minute: 0, day: null }
+    });
+  });
+});
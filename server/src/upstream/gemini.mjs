@@ -0,0 +1,133 @@
+// Gemini upstream, mirroring services/providers/geminiProvider.ts on the browser side.
+// The key stays on the server; GEMINI_BASE_URL can point the SDK at a local stand-in.
+
+import { GoogleGenAI, GenerateVideosOperation, Modality } from '@google/genai';
+import { wavFromPcm } from '../audio.mjs';
+
+const VIDEO_POLL_MS = 5000;
+const GEMINI_API = 'https://generativelanguage.googleapis.com';
+
+export const createGeminiUpstream = ({ apiKey, baseUrl }) => {
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set. Set it, or run with UPSTREAM=mock.');
+  const ai = new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+
+  const extractImage = (response) => {
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data && part.inlineData.mimeType) {
+        return { data: part.inlineData.data, mimeType: part.inlineData.mimeType };
+      }
+    }
+    throw new Error('No image generated');
+  };
+
+  // One model turn. Tool calls are handed back to the browser, which runs the tools and sends the
+  // results in a follow-up request, so the server never executes app code.
+  const streamChat = async (request, onEvent, signal) => {
+    const tools = request.tools?.length
+      ? [{ functionDeclarations: request.tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })) }]
+      : undefined;
+    const stream = await ai.models.generateContentStream({
+      model: request.model,
+      contents: request.contents,
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        topP: request.topP,
+        topK: request.topK,
+        abortSignal: signal,
+        tools
+      }
+    });
+
+    // Raw call parts are returned as-is: they may carry thought signatures the model expects back
+    const callParts = [];
+    for await (const chunk of stream) {
+      if (signal.aborted) break;
+      if (chunk.text) onEvent({ type: 'chunk', text: chunk.text });
+      chunk.candidates?.[0]?.content?.parts?.forEach(part => {
+        if (part.functionCall) callParts.push(part);
+      });
+    }
+    if (callParts.length > 0) onEvent({ type: 'tool_calls', parts: callParts });
+  };
+
+  const generateTitle = async (message) => {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: `Generate a very short, memorable 3-5 word title for a chat that starts with this user message: "${message}". Do not use quotes. Just the title.`
+    });
+    return response.text?.trim() || 'New Session';
+  };
+
+  const generateImage = async (prompt, size) => extractImage(await ai.models.generateContent({
+    model: 'gemini-3-pro-image-preview',
+    contents: { parts: [{ text: prompt }] },
+    config: { imageConfig: { imageSize: size } }
+  }));
+
+  const editImage = async (prompt, imageBase64) => extractImage(await ai.models.generateContent({
+    model: 'gemini-2.5-flash-image',
+    contents: { parts: [{ inlineData: { data: imageBase64, mimeType: 'image/png' } }, { text: prompt }] }
+  }));
+
+  const startVideo = async (prompt, aspectRatio, imageBase64) => {
+    const operation = await ai.models.generateVideos({
+      model: 'veo-3.1-fast-generate-preview',
+      prompt,
+      ...(imageBase64 ? { image: { imageBytes: imageBase64, mimeType: 'image/png' } } : {}),
+      config: { numberOfVideos: 1, resolution: '720p', aspectRatio }
+    });
+    if (!operation.name) throw new Error('Video generation failed: No operation returned.');
+    return operation.name;
+  };
+
+  // Operations are looked up by name alone, so a handle stays valid across server restarts
+  const getOperation = (name) => {
+    const handle = new GenerateVideosOperation();
+    handle.name = name;
+    return ai.operations.getVideosOperation({ operation: handle });
+  };
+
+  const checkVideo = async (name) => {
+    const operation = await getOperation(name);
+    if (operation.done && operation.error) throw new Error(`Video generation failed: ${operation.error.message || 'unknown error'}`);
+    return { done: !!operation.done };
+  };
+
+  const downloadVideo = async (name, signal) => {
+    const operation = await getOperation(name);
+    const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!videoUri) throw new Error('Video generation failed: No URI returned.');
+    const response = await fetch(baseUrl ? videoUri.replace(GEMINI_API, baseUrl.replace(/\/$/, '')) : videoUri, {
+      headers: { 'x-goog-api-key': apiKey },
+      signal
+    });
+    if (!response.ok) throw new Error(`Failed to download generated video. Status: ${response.status}`);
+    return { bytes: Buffer.from(await response.arrayBuffer()), mimeType: response.headers.get('content-type') || 'video/mp4' };
+  };
+
+  const generateVideo = async (prompt, aspectRatio, imageBase64, signal) => {
+    const name = await startVideo(prompt, aspectRatio, imageBase64);
+    while (!(await checkVideo(name)).done) {
+      if (signal.aborted) throw new Error('Video generation was cancelled.');
+      await new Promise(resolve => setTimeout(resolve, VIDEO_POLL_MS));
+    }
+    return downloadVideo(name, signal);
+  };
+
+  const generateSpeech = async (text) => {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-preview-tts',
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
+      }
+    });
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error('No audio generated');
+    return { bytes: wavFromPcm(Buffer.from(base64Audio, 'base64'), 24000, 1), mimeType: 'audio/wav' };
+  };
+
+  return { id: 'gemini', streamChat, generateTitle, generateImage, editImage, generateVideo, startVideo, checkVideo, downloadVideo, generateSpeech };
+};
@@ -0,0 +1,94 @@
+// iLovePDF tasks on the server, mirroring services/ilovepdfService.ts.
+// API reference: https://developer.ilovepdf.com/docs/api-reference
+
+const STATUS_POLL_MS = 2000;
+const STATUS_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Process parameters for each tool; options are validated by the route
+const toolParameters = (tool, options) => {
+  switch (tool) {
+    case 'split':
+      return options.ranges
+        ? { split_mode: 'ranges', ranges: options.ranges, merge_after: false }
+        : { split_mode: 'fixed_range', fixed_range: 1 };
+    case 'compress':
+      return { compression_level: options.compressionLevel || 'recommended' };
+    case 'pdfocr':
+      return { ocr_languages: options.ocrLanguages?.length ? options.ocrLanguages : ['eng'] };
+    case 'protect':
+      return { password: options.password };
+    default:
+      return {};
+  }
+};
+
+const sleep = (ms, signal) => new Promise((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+export const createIlovePdfConverter = ({ publicKey, baseUrl }) => {
+  const apiBase = baseUrl.replace(/\/$/, '');
+  // Task servers are returned by /start; a local stand-in keeps everything on its own host
+  const serverBase = (server) => (apiBase.startsWith('https://api.ilovepdf.com') ? `https://${server}` : apiBase);
+
+  const call = async (url, init, step) => {
+    const response = await fetch(url, init);
+    if (!response.ok) throw Object.assign(new Error(`iLovePDF ${step} failed (${response.status}).`), { status: response.status });
+    return response;
+  };
+
+  return async ({ files, tool, options = {}, signal }) => {
+    if (!publicKey) throw new Error('ILOVEPDF_PUBLIC_KEY is not set on the server.');
+
+    const { token } = await (await call(`${apiBase}/v1/auth`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ public_key: publicKey }),
+      signal
+    }, 'auth')).json();
+    const auth = { Authorization: `Bearer ${token}` };
+
+    const { server, task } = await (await call(`${apiBase}/v1/start/${tool}`, { headers: auth, signal }, 'start')).json();
+    const base = serverBase(server);
+
+    // Uploaded in order, which merge keeps
+    const uploaded = [];
+    for (const file of files) {
+      const form = new FormData();
+      form.append('task', task);
+      form.append('file', new Blob([file.bytes], { type: file.mimeType }), file.fileName);
+      const { server_filename } = await (await call(`${base}/v1/upload`, { method: 'POST', headers: auth, body: form, signal }, 'upload')).json();
+      uploaded.push({ server_filename, filename: file.fileName });
+    }
+
+    let status = await (await call(`${base}/v1/process`, {
+      method: 'POST',
+      headers: { ...auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ task, tool, files: uploaded, ...toolParameters(tool, options) }),
+      signal
+    }, 'process')).json();
+
+    // Large tasks may still be running when /process answers
+    const deadline = Date.now() + STATUS_TIMEOUT_MS;
+    while (!String(status.status).startsWith('TaskSuccess')) {
+      if (status.status !== 'TaskWaiting' && status.status !== 'TaskProcessing') {
+        throw new Error(`iLovePDF could not finish the task: ${status.status_message || status.status}.`);
+      }
+      if (Date.now() > deadline) throw new Error('iLovePDF task timed out.');
+      await sleep(STATUS_POLL_MS, signal);
+      status = await (await call(`${base}/v1/task/${task}`, { headers: auth, signal }, 'status')).json();
+    }
+
+    const download = await call(`${base}/v1/download/${task}`, { headers: auth, signal }, 'download');
+    return {
+      bytes: Buffer.from(await download.arrayBuffer()),
+      filename: status.download_filename || `${tool}_${files[0].fileName}`,
+      mimeType: download.headers.get('content-type') || 'application/octet-stream',
+      fileCount: status.output_filenumber || 1
+    };
+  };
+};
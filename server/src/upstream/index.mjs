@@ -0,0 +1,24 @@
+// Upstream adapter selection. Every adapter exposes the same functions as the browser's ModelProvider
+// (services/modelProvider.ts) plus `convert`, but returns raw base64/bytes instead of object URLs:
+//
+//   streamChat(request, onEvent, signal)            events: { type: 'chunk', text } | { type: 'tool_calls', parts }
+//   generateTitle(message)                          -> string
+//   generateImage(prompt, size) / editImage(prompt, imageBase64) -> { data: base64, mimeType }
+//   generateVideo(prompt, aspectRatio, imageBase64?, signal)     -> { bytes, mimeType }
+//   startVideo(prompt, aspectRatio, imageBase64?)   -> operation name
+//   checkVideo(operation)                           -> { done }
+//   downloadVideo(operation, signal)                -> { bytes, mimeType }
+//   generateSpeech(text)                            -> { bytes, mimeType }
+//   convert({ files: [{ fileName, bytes, mimeType }], tool, options, signal }) -> { bytes, filename, mimeType, fileCount }
+
+import { createGeminiUpstream } from './gemini.mjs';
+import { createMockUpstream } from './mock.mjs';
+import { createIlovePdfConverter } from './ilovepdf.mjs';
+
+export const createUpstream = (config) => {
+  if (config.upstream === 'mock') return createMockUpstream();
+  return {
+    ...createGeminiUpstream(config.gemini),
+    convert: createIlovePdfConverter(config.ilovePdf)
+  };
+};
@@ -0,0 +1,130 @@
+// Deterministic in-process upstream (UPSTREAM=mock), mirroring services/providers/mockProvider.ts.
+// Lets the server and the app's server mode run end to end without keys or network access.
+
+import { wavFromPcm } from '../audio.mjs';
+
+const CHUNK_DELAY_MS = 15;
+
+const hashString = (value) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const escapeXml = (value) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const lastUserText = (contents) => {
+  for (let i = contents.length - 1; i >= 0; i--) {
+    if (contents[i].role !== 'user') continue;
+    return contents[i].parts.map(part => part.text || '').join(' ').trim();
+  }
+  return '';
+};
+
+const streamChat = async (request, onEvent, signal) => {
+  const userText = lastUserText(request.contents);
+  const turn = request.contents.filter(content => content.role === 'user').length;
+  const reply = [
+    `### 🧪 Mock Server Response #${turn}`,
+    '',
+    `**Model:** ${request.model}`,
+    `**Request:** ${userText || '(empty)'}`,
+    '',
+    '- This reply comes from the SwiftMind server\'s mock upstream.',
+    `- Fingerprint: \`${hashString(userText).toString(16)}\``
+  ].join('\n');
+
+  for (const token of reply.split(/(\s+)/)) {
+    if (!token) continue;
+    await wait(CHUNK_DELAY_MS);
+    if (signal.aborted) break;
+    onEvent({ type: 'chunk', text: token });
+  }
+};
+
+const generateTitle = async (message) => {
+  const words = message.trim().split(/\s+/).slice(0, 4).join(' ');
+  return words ? `Mock: ${words}` : 'New Session';
+};
+
+const sizeToPixels = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+const generateImage = async (prompt, size) => {
+  const px = (sizeToPixels[size] || 1024) / 4;
+  const hue = hashString(prompt) % 360;
+  const label = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${px}" height="${px}" viewBox="0 0 ${px} ${px}">` +
+    `<rect width="100%" height="100%" fill="hsl(${hue},70%,85%)"/>` +
+    `<text x="50%" y="50%" font-family="sans-serif" font-size="20" text-anchor="middle" fill="#1f2937">${label}</text>` +
+    `</svg>`;
+  return { data: Buffer.from(svg).toString('base64'), mimeType: 'image/svg+xml' };
+};
+
+const editImage = (prompt) => generateImage(`Edited: ${prompt}`, '1K');
+
+// No real encoder here either: an empty clip of the right type
+const generateVideo = async (prompt) => {
+  await wait(1000);
+  return { bytes: Buffer.from(prompt), mimeType: 'video/mp4' };
+};
+
+// Started videos finish after MOCK_VIDEO_MS; the handle carries everything, so restarts keep them
+const MOCK_VIDEO_MS = 8000;
+
+const startVideo = async (prompt) => `mock-video/${Date.now()}/${encodeURIComponent(prompt)}`;
+
+const parseOperation = (operation) => {
+  const [kind, startedAt, prompt] = operation.split('/');
+  if (kind !== 'mock-video' || !Number(startedAt)) throw Object.assign(new Error('Unknown video operation.'), { status: 404 });
+  return { startedAt: Number(startedAt), prompt: decodeURIComponent(prompt || '') };
+};
+
+const checkVideo = async (operation) => ({ done: Date.now() - parseOperation(operation).startedAt >= MOCK_VIDEO_MS });
+
+const downloadVideo = async (operation) => ({ bytes: Buffer.from(parseOperation(operation).prompt), mimeType: 'video/mp4' });
+
+const generateSpeech = async (text) => {
+  const sampleRate = 24000;
+  const seconds = Math.min(5, Math.max(1, text.length / 40));
+  const frequency = 220 + (hashString(text) % 440);
+  const sampleCount = Math.floor(sampleRate * seconds);
+  const samples = Buffer.alloc(sampleCount * 2);
+  for (let i = 0; i < sampleCount; i++) {
+    samples.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.2 * 32767), i * 2);
+  }
+  return { bytes: wavFromPcm(samples, sampleRate, 1), mimeType: 'audio/wav' };
+};
+
+const CONVERTED_EXTENSIONS = { pdfexcel: 'xlsx', pdfword: 'docx', pdfpowerpoint: 'pptx' };
+
+// Hands the first file back under the name iLovePDF would use, so the download path can be exercised
+const convert = async ({ files, tool }) => {
+  const [first] = files;
+  const baseName = first.fileName.replace(/\.[^.]+$/, '');
+  return {
+    bytes: first.bytes,
+    filename: tool === 'merge' ? 'merged.pdf' : `${baseName}.${CONVERTED_EXTENSIONS[tool] || 'pdf'}`,
+    mimeType: 'application/octet-stream',
+    fileCount: 1
+  };
+};
+
+export const createMockUpstream = () => ({
+  id: 'mock',
+  streamChat,
+  generateTitle,
+  generateImage,
+  editImage,
+  generateVideo,
+  startVideo,
+  checkVideo,
+  downloadVideo,
+  generateSpeech,
+  convert
+});
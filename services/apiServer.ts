@@ -0,0 +1,84 @@
+// Client for the SwiftMind API server (server/), used instead of calling Gemini and iLovePDF from the
+// browser when API_SERVER_URL is set. The server holds the keys and applies per-user quotas.
+
+export const API_SERVER_URL = (process.env.API_SERVER_URL || '').replace(/\/$/, '');
+
+export const isApiServerEnabled = (): boolean => !!API_SERVER_URL;
+
+// Sent as X-SwiftMind-User; the server only counts quotas per account when it trusts that header.
+// Set by App when an account is opened
+let serverUserId: string | null = null;
+
+export const setApiServerUser = (userId: string | null) => {
+  serverUserId = userId;
+};
+
+export class ApiServerError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiServerError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const userHeaders = (): Record<string, string> => (serverUserId ? { 'X-SwiftMind-User': serverUserId } : {});
+
+const throwIfFailed = async (response: Response): Promise<Response> => {
+  if (response.ok) return response;
+
+  const payload = await response.json().catch(() => null);
+  const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+  throw new ApiServerError(payload?.error?.message || `The SwiftMind server answered ${response.status}.`, response.status, retryAfter);
+};
+
+// POSTs JSON and returns the response, throwing the server's error message for non-2xx replies
+export const postToServer = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> =>
+  throwIfFailed(await fetch(`${API_SERVER_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...userHeaders() },
+    body: JSON.stringify(body),
+    signal
+  }));
+
+export const getFromServer = async (path: string, signal?: AbortSignal): Promise<Response> =>
+  throwIfFailed(await fetch(`${API_SERVER_URL}${path}`, { headers: userHeaders(), signal }));
+
+// `data` is whatever JSON the server sent; narrow it per event before use
+export interface ServerEvent {
+  event: string;
+  data: unknown;
+}
+
+// Reads a text/event-stream body, calling onEvent for each complete event
+export const readEventStream = async (response: Response, onEvent: (event: ServerEvent) => void) => {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        let event = 'message';
+        const data: string[] = [];
+        block.split('\n').forEach(line => {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        });
+        if (data.length > 0) onEvent({ event, data: JSON.parse(data.join('\n')) });
+      }
+    }
+  } catch (error) {
+    // onEvent may throw (e.g. on an error event); stop the download too
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+};
@@ -0,0 +1,127 @@
+// Local passphrase authentication.
+// A passphrase is stretched with PBKDF2 into two halves: one is hashed and stored as the verifier,
+// the other wraps the account's random data key (AES-GCM) that seals its records in storage.
+// Neither the passphrase nor the unwrapped key is ever stored.
+
+import { IdentityAssertion, registerIdentityProvider } from './identityProvider';
+import { createOidcProvider } from './identity/oidcProvider';
+
+const CREDENTIAL_PREFIX = 'swiftmind_credential_';
+const CREDENTIAL_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_MS = 15 * 60 * 1000; // Lock after this long without input
+
+interface StoredCredential {
+  version: number;
+  salt: string;
+  iterations: number;
+  verifier: string; // SHA-256 of the first half of the stretched passphrase
+  wrappedKey: string; // Data key, wrapped with the second half
+  wrapIv: string;
+  identities?: string[]; // Linked external sign-ins as "issuer subject"
+}
+
+// --- Encoding ---
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), ch => ch.charCodeAt(0));
+
+const readCredential = (userId: string): StoredCredential | null => {
+  const stored = localStorage.getItem(`${CREDENTIAL_PREFIX}${userId}`);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const writeCredential = (userId: string, credential: StoredCredential) => {
+  localStorage.setItem(`${CREDENTIAL_PREFIX}${userId}`, JSON.stringify(credential));
+};
+
+// --- Key derivation ---
+
+const stretch = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 512));
+  const verifier = toBase64(await crypto.subtle.digest('SHA-256', bits.slice(0, 32)));
+  const wrappingKey = await crypto.subtle.importKey('raw', bits.slice(32), 'AES-GCM', false, ['wrapKey', 'unwrapKey']);
+  return { verifier, wrappingKey };
+};
+
+// Same-length comparison that doesn't stop at the first difference
+const verifierMatches = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+// --- Credentials ---
+
+export const hasCredential = (userId: string): boolean => readCredential(userId) !== null;
+
+export const validatePassphrase = (passphrase: string): string | null =>
+  passphrase.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.` : null;
+
+// Sets the account's passphrase and returns its new data key
+export const createCredential = async (userId: string, passphrase: string): Promise<CryptoKey> => {
+  const problem = validatePassphrase(passphrase);
+  if (problem) throw new Error(problem);
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const wrapIv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const { verifier, wrappingKey } = await stretch(passphrase, salt, PBKDF2_ITERATIONS);
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv: wrapIv });
+
+  writeCredential(userId, {
+    version: CREDENTIAL_VERSION,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier,
+    wrappedKey: toBase64(wrappedKey),
+    wrapIv: toBase64(wrapIv),
+    identities: readCredential(userId)?.identities
+  });
+  return dataKey;
+};
+
+// Checks the passphrase and returns the account's data key
+export const unlockCredential = async (userId: string, passphrase: string): Promise<CryptoKey> => {
+  const credential = readCredential(userId);
+  if (!credential) throw new Error('This account has no passphrase yet.');
+
+  const { verifier, wrappingKey } = await stretch(passphrase, fromBase64(credential.salt), credential.iterations);
+  if (!verifierMatches(verifier, credential.verifier)) throw new Error('Incorrect passphrase.');
+  return crypto.subtle.unwrapKey(
+    'raw', fromBase64(credential.wrappedKey), wrappingKey, { name: 'AES-GCM', iv: fromBase64(credential.wrapIv) },
+    { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']
+  );
+};
+
+// --- External identities ---
+
+const identityKey = (assertion: IdentityAssertion) => `${assertion.issuer} ${assertion.subject}`;
+
+export const linkIdentity = (userId: string, assertion: IdentityAssertion) => {
+  const credential = readCredential(userId);
+  if (!credential) return;
+  const key = identityKey(assertion);
+  if (credential.identities?.includes(key)) return;
+  writeCredential(userId, { ...credential, identities: [...(credential.identities || []), key] });
+};
+
+export const isIdentityLinked = (userId: string, assertion: IdentityAssertion): boolean =>
+  !!readCredential(userId)?.identities?.includes(identityKey(assertion));
+
+// A local identity provider (e.g. Keycloak or Dex in docker) is enabled with OIDC_ISSUER and
+// OIDC_CLIENT_ID in .env.local. Other adapters can call registerIdentityProvider themselves.
+if (process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID) {
+  registerIdentityProvider(createOidcProvider({
+    issuer: process.env.OIDC_ISSUER,
+    clientId: process.env.OIDC_CLIENT_ID,
+    label: process.env.OIDC_LABEL || 'Single sign-on'
+  }));
+}
@@ -0,0 +1,289 @@
+// Encrypted account backups.
+// A backup holds the profile, every session (trash included, media inlined), invoices, settings and
+// connection keys. It is encrypted with AES-GCM under a key derived from the user's password (PBKDF2), so the file
+// can move between browsers without exposing chats or keys. Nothing about the password is stored.
+
+import { ConnectionKeys, DownloadData, Invoice, InvoiceLineItem, InvoiceParty, Session, UserProfile } from '../types';
+import { inlineSessionMedia, parseSessionList, prepareImportedSessions } from './sessionExport';
+import { InvoiceBackup } from './invoiceService';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/dataUrl';
+
+const BACKUP_FORMAT = 'swiftmind-backup';
+const BACKUP_VERSION = 1;
+const PAYLOAD_FORMAT = 'swiftmind-account';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+export type RestoreStrategy = 'keep-both' | 'newest-wins';
+
+export interface AccountBackup {
+  profile: UserProfile;
+  sessions: Session[];
+  invoices: InvoiceBackup;
+  settings: { trashRetentionDays: number };
+  connections: ConnectionKeys;
+  createdAt: string; // ISO timestamp
+}
+
+export interface RestoreSummary {
+  added: number; // Sessions new to this account, including "keep both" copies
+  updated: number; // Local sessions replaced by a newer backup copy
+}
+
+// What lands on disk. Only kdf/cipher parameters are readable; everything else is in `data`.
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+// --- Encoding ---
+
+// Goes through FileReader / Blob so large backups don't hit call-stack limits in String.fromCharCode
+const bytesToBase64 = async (bytes: Uint8Array): Promise<string> =>
+  (await blobToDataUrl(new Blob([bytes]))).split(',')[1] || '';
+
+const base64ToBytes = async (base64: string): Promise<Uint8Array> =>
+  new Uint8Array(await dataUrlToBlob(`data:application/octet-stream;base64,${base64}`).arrayBuffer());
+
+const deriveKey = async (password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// --- Backup ---
+
+export const createAccountBackup = async (
+  backup: Omit<AccountBackup, 'createdAt'>,
+  password: string
+): Promise<DownloadData> => {
+  if (password.length < MIN_BACKUP_PASSWORD_LENGTH) {
+    throw new Error(`Use a password of at least ${MIN_BACKUP_PASSWORD_LENGTH} characters.`);
+  }
+  const createdAt = new Date().toISOString();
+  const payload = {
+    format: PAYLOAD_FORMAT,
+    version: BACKUP_VERSION,
+    ...backup,
+    sessions: await Promise.all(backup.sessions.map(inlineSessionMedia)),
+    createdAt
+  };
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(payload)));
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: await bytesToBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: await bytesToBase64(iv) },
+    data: await bytesToBase64(new Uint8Array(encrypted))
+  };
+  const safeName = backup.profile.name.replace(/[^\p{L}\p{N}_-]+/gu, '_') || 'account';
+  return {
+    fileName: `swiftmind-backup-${safeName}-${createdAt.slice(0, 10)}.json`,
+    data: JSON.stringify(file),
+    mimeType: 'application/json'
+  };
+};
+
+// --- Restore ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const readBackupFile = (text: string): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not a SwiftMind backup.');
+  }
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT || typeof data.data !== 'string') {
+    throw new Error('The file is not a SwiftMind backup.');
+  }
+  const { version, kdf, cipher } = data;
+  if (typeof version !== 'number' || version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of SwiftMind.');
+  }
+  if (!isRecord(kdf) || !isRecord(cipher) || kdf.name !== 'PBKDF2' || cipher.name !== 'AES-GCM' ||
+    !isFiniteNumber(kdf.iterations) || typeof kdf.salt !== 'string' || typeof cipher.iv !== 'string') {
+    throw new Error('This backup uses an unsupported encryption scheme.');
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: kdf.iterations, salt: kdf.salt },
+    cipher: { name: 'AES-GCM', iv: cipher.iv },
+    data: data.data
+  };
+};
+
+const readProfile = (value: unknown): UserProfile => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.email !== 'string' || typeof value.name !== 'string') {
+    throw new Error('The backup has no valid account profile.');
+  }
+  return { id: value.id, name: value.name, email: value.email, avatar: typeof value.avatar === 'string' ? value.avatar : '' };
+};
+
+const readConnections = (value: unknown): ConnectionKeys => {
+  const keys: ConnectionKeys = {};
+  const gemini = isRecord(value) && isRecord(value.gemini) ? value.gemini : null;
+  if (gemini && typeof gemini.apiKey === 'string') keys.gemini = { apiKey: gemini.apiKey };
+  const ilovePdf = isRecord(value) && isRecord(value.ilovePdf) ? value.ilovePdf : null;
+  if (ilovePdf && typeof ilovePdf.public === 'string' && typeof ilovePdf.secret === 'string') {
+    keys.ilovePdf = { public: ilovePdf.public, secret: ilovePdf.secret };
+  }
+  return keys;
+};
+
+const readParty = (value: unknown): InvoiceParty | null => {
+  if (!isRecord(value) || typeof value.name !== 'string' || typeof value.address !== 'string') return null;
+  return {
+    name: value.name,
+    address: value.address,
+    state: optionalString(value.state),
+    gstin: optionalString(value.gstin),
+    email: optionalString(value.email),
+    phone: optionalString(value.phone)
+  };
+};
+
+const readLineItem = (value: unknown): InvoiceLineItem | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.description !== 'string') return null;
+  if (!isFiniteNumber(value.quantity) || !isFiniteNumber(value.unitPrice) || !isFiniteNumber(value.taxRate)) return null;
+  return {
+    id: value.id,
+    description: value.description,
+    hsn: optionalString(value.hsn),
+    quantity: value.quantity,
+    unitPrice: value.unitPrice,
+    taxRate: value.taxRate
+  };
+};
+
+// Invoices that don't hold together are left out rather than failing the whole restore
+const readInvoice = (value: unknown): Invoice | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.number !== 'string' || typeof value.userId !== 'string' ||
+    typeof value.issueDate !== 'string' || typeof value.dueDate !== 'string' || typeof value.reverseCharge !== 'boolean' ||
+    !isFiniteNumber(value.createdAt) || !isFiniteNumber(value.updatedAt) || !Array.isArray(value.items)) {
+    return null;
+  }
+  const { status, template, pricing, supplyType } = value;
+  if (!isOneOf(status, ['draft', 'issued', 'paid'] as const) || !isOneOf(template, ['classic', 'modern', 'minimal'] as const) ||
+    !isOneOf(pricing, ['exclusive', 'inclusive'] as const) || !isOneOf(supplyType, ['intra', 'inter'] as const)) {
+    return null;
+  }
+  const seller = readParty(value.seller);
+  const buyer = readParty(value.buyer);
+  const items = value.items.map(readLineItem);
+  if (!seller || !buyer || items.some(item => !item)) return null;
+  return {
+    id: value.id,
+    number: value.number,
+    userId: value.userId,
+    sessionId: optionalString(value.sessionId),
+    status,
+    template,
+    issueDate: value.issueDate,
+    dueDate: value.dueDate,
+    seller,
+    buyer,
+    items: items as InvoiceLineItem[],
+    pricing,
+    supplyType,
+    reverseCharge: value.reverseCharge,
+    notes: optionalString(value.notes),
+    createdAt: value.createdAt,
+    updatedAt: value.updatedAt
+  };
+};
+
+// Backups made before invoices were included restore none
+const readInvoiceBackup = (value: unknown): InvoiceBackup => {
+  if (!isRecord(value)) return { invoices: [], sequence: 0, seller: null };
+  const invoices = Array.isArray(value.invoices) ? value.invoices.map(readInvoice) : [];
+  return {
+    invoices: invoices.filter((invoice): invoice is Invoice => invoice !== null),
+    sequence: isFiniteNumber(value.sequence) && value.sequence > 0 ? Math.floor(value.sequence) : 0,
+    seller: readParty(value.seller)
+  };
+};
+
+// Decrypts and validates a backup file. A wrong password and a damaged file look the same to AES-GCM.
+export const readAccountBackup = async (text: string, password: string): Promise<AccountBackup> => {
+  const file = readBackupFile(text);
+  let plain: ArrayBuffer;
+  try {
+    const key = await deriveKey(password, await base64ToBytes(file.kdf.salt), file.kdf.iterations);
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: await base64ToBytes(file.cipher.iv) }, key, await base64ToBytes(file.data));
+  } catch {
+    throw new Error('Wrong password, or the backup file is damaged.');
+  }
+
+  const payload = JSON.parse(new TextDecoder().decode(plain));
+  if (!isRecord(payload) || payload.format !== PAYLOAD_FORMAT) throw new Error('The backup contents are not recognised.');
+  const retention = isRecord(payload.settings) ? payload.settings.trashRetentionDays : undefined;
+  return {
+    profile: readProfile(payload.profile),
+    sessions: parseSessionList(payload.sessions),
+    invoices: readInvoiceBackup(payload.invoices),
+    settings: { trashRetentionDays: typeof retention === 'number' && retention >= 0 ? retention : 30 },
+    connections: readConnections(payload.connections),
+    createdAt: typeof payload.createdAt === 'string' ? payload.createdAt : ''
+  };
+};
+
+export const isSameAccount = (a: UserProfile, b: UserProfile) =>
+  a.id === b.id || a.email.toLowerCase() === b.email.toLowerCase();
+
+// Combines restored sessions with the ones already in the account. Sessions match by id.
+// keep-both: a local session that differs from its backup copy stays, and the backup copy is added
+//   alongside it under fresh ids. Identical copies are not duplicated.
+// newest-wins: whichever copy was modified last is kept.
+export const mergeRestoredSessions = (
+  existing: Session[],
+  restored: Session[],
+  strategy: RestoreStrategy
+): { sessions: Session[]; summary: RestoreSummary } => {
+  const local = new Map(existing.map(session => [session.id, session]));
+  const replacements = new Map<string, Session>();
+  const added: Session[] = [];
+
+  restored.forEach(session => {
+    const current = local.get(session.id);
+    if (!current) {
+      added.push(session);
+    } else if (strategy === 'newest-wins') {
+      if (session.lastModified > current.lastModified) replacements.set(session.id, session);
+    } else if (session.lastModified !== current.lastModified) {
+      const [copy] = prepareImportedSessions([session]);
+      added.push({ ...copy, title: `${session.title} (restored)` });
+    }
+  });
+
+  const sessions = [...added, ...existing.map(session => replacements.get(session.id) || session)]
+    .sort((a, b) => b.lastModified - a.lastModified);
+  return { sessions, summary: { added: added.length, updated: replacements.size } };
+};
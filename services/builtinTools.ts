@@ -0,0 +1,150 @@
+// Tools every SwiftMind chat can call: media generation plus the GST and invoice engines.
+// geminiService registers them on load, the same way it registers providers.
+
+import { TaskModule } from '../types';
+import { getProvider, ImageSize, VideoAspectRatio } from './modelProvider';
+import { RegisteredTool } from './toolRegistry';
+import { calculateGst, validateGstInput, formatInr, GST_TOOL_DECLARATION } from './gstEngine';
+import { createInvoiceFromArgs, summarizeInvoiceForModel, INVOICE_TOOL_DECLARATION } from './invoiceService';
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+const ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16'];
+
+const readText = (value: unknown, field: string): string => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) {
+    throw new Error(`"${field}" is required.`);
+  }
+  return text;
+};
+
+// Providers do not take abort signals yet, so a stopped request only drops the result
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) {
+    throw new Error('Cancelled');
+  }
+};
+
+const generateImageTool: RegisteredTool = {
+  label: 'Generating image',
+  modules: 'all',
+  tag: { name: 'IMAGE', toArgs: (body) => ({ prompt: body }) },
+  declaration: {
+    name: 'generate_image',
+    description: 'Generates an image from a detailed text prompt and shows it under the reply.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Detailed description of the image: subject, style, lighting, composition.' },
+        size: { type: 'string', enum: IMAGE_SIZES, description: 'Resolution. Defaults to 1K.' }
+      },
+      required: ['prompt']
+    }
+  },
+  execute: async (args, ctx) => {
+    const prompt = readText(args.prompt, 'prompt');
+    const size = IMAGE_SIZES.includes(args.size as ImageSize) ? args.size as ImageSize : '1K';
+    const result = await getProvider(ctx.provider).generateImage(prompt, size);
+    throwIfAborted(ctx.signal);
+    return {
+      response: { status: 'done', shownToUser: true },
+      media: { url: result.imageUrl, type: 'image' }
+    };
+  }
+};
+
+const generateVideoTool: RegisteredTool = {
+  label: 'Generating video',
+  modules: 'all',
+  deferred: true,
+  tag: { name: 'VIDEO', toArgs: (body) => ({ prompt: body }) },
+  declaration: {
+    name: 'generate_video',
+    description: 'Starts rendering a short video from a detailed prompt. It takes a few minutes and appears under the reply when ready.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Detailed description of the scene, motion and style.' },
+        aspectRatio: { type: 'string', enum: ASPECT_RATIOS, description: 'Landscape 16:9 (default) or portrait 9:16.' }
+      },
+      required: ['prompt']
+    }
+  },
+  execute: async (args, ctx) => {
+    const prompt = readText(args.prompt, 'prompt');
+    const aspectRatio = ASPECT_RATIOS.includes(args.aspectRatio as VideoAspectRatio) ? args.aspectRatio as VideoAspectRatio : '16:9';
+    const result = await getProvider(ctx.provider).generateVideo(prompt, aspectRatio);
+    throwIfAborted(ctx.signal);
+    return {
+      response: { status: 'done' },
+      media: { url: result.videoUrl, type: 'video' }
+    };
+  }
+};
+
+const generateSpeechTool: RegisteredTool = {
+  label: 'Generating speech',
+  modules: 'all',
+  deferred: true,
+  tag: { name: 'AUDIO', toArgs: (body) => ({ text: body }) },
+  declaration: {
+    name: 'generate_speech',
+    description: 'Reads the given text aloud and attaches the audio under the reply.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Exact text to speak.' }
+      },
+      required: ['text']
+    }
+  },
+  execute: async (args, ctx) => {
+    const text = readText(args.text, 'text');
+    const result = await getProvider(ctx.provider).generateSpeech(text);
+    throwIfAborted(ctx.signal);
+    return {
+      response: { status: 'done' },
+      media: { url: result.audioUrl, type: 'audio' }
+    };
+  }
+};
+
+// Modules that quote tax figures get the local GST engine; each result is attached to the reply
+const calculateGstTool: RegisteredTool = {
+  label: 'Calculating GST',
+  modules: [TaskModule.GENERAL, TaskModule.BUSINESS_CALC, TaskModule.INVOICE],
+  declaration: GST_TOOL_DECLARATION,
+  execute: async (args, ctx) => {
+    const result = calculateGst(validateGstInput(args));
+    ctx.patchMessage(msg => ({ gstCalculations: [...(msg.gstCalculations || []), result] }));
+    return {
+      response: { ...result },
+      summary: `Invoice total ${formatInr(result.invoiceTotal)}`
+    };
+  }
+};
+
+const createInvoiceTool: RegisteredTool = {
+  label: 'Creating invoice',
+  modules: [TaskModule.INVOICE],
+  declaration: INVOICE_TOOL_DECLARATION,
+  execute: async (args, ctx) => {
+    if (!ctx.userId) {
+      throw new Error('Sign in to create invoices.');
+    }
+    const invoice = createInvoiceFromArgs(ctx.userId, args, ctx.sessionId);
+    ctx.patchMessage(() => ({ invoiceId: invoice.id }));
+    return {
+      response: summarizeInvoiceForModel(invoice),
+      summary: `Draft ${invoice.number} saved`
+    };
+  }
+};
+
+export const BUILTIN_TOOLS: RegisteredTool[] = [
+  generateImageTool,
+  generateVideoTool,
+  generateSpeechTool,
+  calculateGstTool,
+  createInvoiceTool
+];
@@ -0,0 +1,180 @@
+// Converter batches.
+// Files convert in parallel up to a concurrency limit shared by all batches; the rest wait in order.
+// Each item reports the stage it is in (upload, process, download) so the chat can show progress, and
+// failed items can be retried on their own. Batches live in memory only: the input files are too big to
+// keep around, and the finished batch is summarised into its message.
+
+import { v4 as uuidv4 } from 'uuid';
+import { ConversionBatch, ConversionItem, ConversionMethod, ConversionStage, ConvertTarget, DownloadData, FileAttachment } from '../types';
+import { toMessageError } from './serviceErrors';
+
+const CONCURRENCY_KEY = 'swiftmind_converter_concurrency';
+const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 4;
+// Byte-level progress arrives often; smaller steps than this aren't worth a redraw
+const PROGRESS_STEP = 0.05;
+
+export type ConversionReporter = (stage: ConversionStage, progress?: number) => void;
+
+export interface ConversionOutcome {
+  result: DownloadData;
+  method: ConversionMethod;
+}
+
+// Converts one file, reporting stages as it goes; rejects with the reason it failed
+export type ConversionRunner = (file: FileAttachment, report: ConversionReporter, signal: AbortSignal) => Promise<ConversionOutcome>;
+
+type BatchListener = (batch: ConversionBatch) => void;
+
+const batches = new Map<string, ConversionBatch>();
+const inputs = new Map<string, FileAttachment>(); // By item id
+const runners = new Map<string, ConversionRunner>(); // By batch id
+const controllers = new Map<string, AbortController>(); // By item id, while running
+const listeners = new Set<BatchListener>();
+
+export const isItemFinished = (item: ConversionItem) => item.status === 'done' || item.status === 'failed' || item.status === 'cancelled';
+
+export const isBatchSettled = (batch: ConversionBatch) => batch.items.every(isItemFinished);
+
+// --- Scheduling ---
+
+const updateItem = (batchId: string, itemId: string, patch: Partial<ConversionItem>) => {
+  const batch = batches.get(batchId);
+  if (!batch) return;
+  const next = { ...batch, items: batch.items.map(item => (item.id === itemId ? { ...item, ...patch } : item)) };
+  batches.set(batchId, next);
+  listeners.forEach(listener => listener(next));
+  const item = next.items.find(i => i.id === itemId);
+  if (item && isItemFinished(item) && controllers.has(itemId)) {
+    controllers.delete(itemId);
+    pump();
+  }
+};
+
+const run = async (batchId: string, itemId: string) => {
+  const file = inputs.get(itemId);
+  const runner = runners.get(batchId);
+  if (!file || !runner) return;
+
+  const controller = new AbortController();
+  controllers.set(itemId, controller);
+  updateItem(batchId, itemId, { status: 'running', stage: 'upload', progress: undefined, method: undefined, result: undefined, error: undefined });
+
+  let last: { stage: ConversionStage; progress?: number } = { stage: 'upload' };
+  const report: ConversionReporter = (stage, progress) => {
+    if (controller.signal.aborted) return;
+    if (stage === last.stage && progress !== undefined && last.progress !== undefined && progress < 1 && Math.abs(progress - last.progress) < PROGRESS_STEP) return;
+    last = { stage, progress };
+    updateItem(batchId, itemId, { stage, progress });
+  };
+
+  try {
+    const { result, method } = await runner(file, report, controller.signal);
+    // Cancelled items were already marked; a late result is dropped
+    if (controller.signal.aborted) return;
+    updateItem(batchId, itemId, { status: 'done', stage: 'download', progress: 1, method, result });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    updateItem(batchId, itemId, { status: 'failed', error: toMessageError(error) });
+  }
+};
+
+// Starts queued items, oldest batch first, while there is room
+const pump = () => {
+  const limit = getConversionConcurrency();
+  let running = controllers.size;
+  Array.from(batches.values())
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(batch => batch.items.forEach(item => {
+      if (running >= limit || item.status !== 'queued') return;
+      running++;
+      run(batch.id, item.id);
+    }));
+};
+
+// --- Public API ---
+
+export const getConversionConcurrency = (): number => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return stored >= 1 && stored <= MAX_CONCURRENCY ? stored : DEFAULT_CONCURRENCY;
+};
+
+export const setConversionConcurrency = (value: number) => {
+  localStorage.setItem(CONCURRENCY_KEY, String(Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)))));
+  pump();
+};
+
+export interface ConversionBatchInput {
+  sessionId: string;
+  messageId: string;
+  target: ConvertTarget;
+  files: FileAttachment[];
+}
+
+export const enqueueConversionBatch = (input: ConversionBatchInput, runner: ConversionRunner): ConversionBatch => {
+  const items: ConversionItem[] = input.files.map(file => {
+    const item: ConversionItem = { id: uuidv4(), fileName: file.name, status: 'queued' };
+    inputs.set(item.id, file);
+    return item;
+  });
+  const batch: ConversionBatch = {
+    id: uuidv4(),
+    sessionId: input.sessionId,
+    messageId: input.messageId,
+    target: input.target,
+    createdAt: Date.now(),
+    items
+  };
+  batches.set(batch.id, batch);
+  runners.set(batch.id, runner);
+  listeners.forEach(listener => listener(batch));
+  pump();
+  return batches.get(batch.id) || batch;
+};
+
+// Puts a failed or cancelled item back in the queue
+export const retryConversionItem = (batchId: string, itemId: string) => {
+  const item = batches.get(batchId)?.items.find(i => i.id === itemId);
+  if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+  updateItem(batchId, itemId, { status: 'queued', stage: undefined, progress: undefined, error: undefined });
+  pump();
+};
+
+export const cancelConversionBatch = (batchId: string) => {
+  const batch = batches.get(batchId);
+  if (!batch) return;
+  batch.items.filter(item => !isItemFinished(item)).forEach(item => {
+    const controller = controllers.get(item.id);
+    updateItem(batchId, item.id, { status: 'cancelled' });
+    controller?.abort();
+  });
+};
+
+// Used when a session is deleted for good, so nothing lands in it afterwards
+export const cancelSessionConversions = (sessionId: string) => {
+  Array.from(batches.values()).filter(batch => batch.sessionId === sessionId).forEach(batch => cancelConversionBatch(batch.id));
+};
+
+export const getConversionBatch = (id: string): ConversionBatch | undefined => batches.get(id);
+
+// Position among waiting items (1-based), or 0 when the item isn't waiting
+export const getConversionQueuePosition = (itemId: string): number => {
+  const queued = Array.from(batches.values())
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .flatMap(batch => batch.items.filter(item => item.status === 'queued'));
+  return queued.findIndex(item => item.id === itemId) + 1;
+};
+
+export const subscribeToConversions = (listener: BatchListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Stops everything when the account locks or signs out; files and results are dropped from memory
+export const clearConversions = () => {
+  controllers.forEach(controller => controller.abort());
+  controllers.clear();
+  batches.clear();
+  inputs.clear();
+  runners.clear();
+};
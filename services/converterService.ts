@@ -0,0 +1,481 @@
+// In-browser File Converter engine. The model only extracts content (CSV, Markdown or an outline);
+// this module turns that into genuine XLSX, DOCX, PDF and PPTX files, so no conversion service is required.
+
+import { ConvertTarget, DownloadData, FileAttachment, TaskModule } from '../types';
+import { BlockNode, InlineNode, ListItemNode, inlineToText, parseMarkdown } from '../utils/markdown';
+import { createPdfDocument, wrapText, PdfDocument } from '../utils/pdfWriter';
+import { createXlsx, XlsxSheet } from '../utils/xlsxWriter';
+import { createDocx } from '../utils/docxWriter';
+import { createPptx, PptxBullet, PptxSlide } from '../utils/pptxWriter';
+import { createZip } from '../utils/zipWriter';
+import { bytesToDataUrl, dataUrlToBytes } from '../utils/dataUrl';
+import { sendMessageStream, resetSession } from './geminiService';
+import { runILovePdfTask, ConvertTool } from './ilovepdfService';
+import { ConversionOutcome, ConversionReporter } from './conversionQueue';
+import { MODULES } from '../constants';
+import { chunkDocument, detectDocumentKind, documentMarkdown, ingestDocument, sendsAsText } from './documentIngestion';
+import { ServiceError } from './serviceErrors';
+
+interface TargetFormat {
+  label: string;
+  extension: string;
+  mimeType: string;
+  ilovePdfTool: ConvertTool;
+}
+
+export const CONVERT_TARGETS: Record<ConvertTarget, TargetFormat> = {
+  PDF: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf', ilovePdfTool: 'officepdf' },
+  EXCEL: { label: 'Excel', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', ilovePdfTool: 'pdfexcel' },
+  WORD: { label: 'Word', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', ilovePdfTool: 'pdfword' },
+  PPT: { label: 'PowerPoint', extension: 'pptx', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', ilovePdfTool: 'pdfpowerpoint' }
+};
+
+// --- Extraction prompts ---
+
+const SHEET_MARKER_RE = /^===\s*Sheet:\s*(.*?)\s*===$/;
+
+const EXTRACTION_INSTRUCTIONS: Record<ConvertTarget, string> = {
+  EXCEL: 'Output strictly as CSV with a header row, quoting cells that contain commas. ' +
+    'If there are several tables, put a line "=== Sheet: <short name> ===" before each one. No commentary.',
+  WORD: 'Output strictly as Markdown: # headings, paragraphs, - or 1. lists, | tables | and **bold** where the source uses them. No commentary.',
+  PDF: 'Output strictly as Markdown: # headings, paragraphs, - or 1. lists and | tables |, keeping the original order. No commentary.',
+  PPT: 'Output strictly as a Markdown outline: "# Deck title", a one-line subtitle, then one "## Slide title" per slide ' +
+    'with 3-6 concise "- " bullet points (indent sub-points by two spaces). No commentary.'
+};
+
+export const extractionPrompt = (target: ConvertTarget, source: 'file' | 'text'): string => {
+  const task = source === 'file'
+    ? target === 'EXCEL' ? 'Extract all tabular data from the attached file.'
+      : target === 'PPT' ? 'Summarise the attached file as a presentation.'
+      : 'Extract the full content of the attached file.'
+    : target === 'EXCEL' ? 'Convert the following text data into tables.'
+      : target === 'PPT' ? 'Turn the following text into a presentation.'
+      : 'Structure the following text as a document.';
+  return `${task} ${EXTRACTION_INSTRUCTIONS[target]}`;
+};
+
+// Models often wrap the whole answer in a fence despite being asked not to
+const stripOuterFence = (text: string): string => {
+  const match = text.trim().match(/^(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n?\1\s*$/);
+  return (match ? match[2] : text).trim();
+};
+
+// --- CSV ---
+
+// RFC 4180 parser: quoted cells may contain commas, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(Boolean));
+};
+
+// CSV with optional sheet markers, or Markdown tables when the model answers with those instead
+const extractSheets = (text: string): XlsxSheet[] => {
+  // A heading right before a table names its sheet
+  const tables: XlsxSheet[] = [];
+  let heading = '';
+  parseMarkdown(text).forEach(block => {
+    if (block.type === 'heading') heading = inlineToText(block.children);
+    else if (block.type === 'table') {
+      tables.push({
+        name: heading || `Table ${tables.length + 1}`,
+        rows: [...(block.header ? [block.header] : []), ...block.rows].map(row => row.map(inlineToText))
+      });
+      heading = '';
+    } else heading = '';
+  });
+  if (tables.length > 0) return tables;
+
+  const sheets: { name: string; lines: string[] }[] = [];
+  text.replace(/^`{3,}.*$/gm, '').split('\n').forEach(line => {
+    const marker = line.trim().match(SHEET_MARKER_RE);
+    if (marker) sheets.push({ name: marker[1], lines: [] });
+    else {
+      if (sheets.length === 0) sheets.push({ name: 'Sheet1', lines: [] });
+      sheets[sheets.length - 1].lines.push(line);
+    }
+  });
+  return sheets
+    .map(sheet => ({ name: sheet.name, rows: parseCsv(sheet.lines.join('\n')) }))
+    .filter(sheet => sheet.rows.length > 0);
+};
+
+// --- PDF layout ---
+
+const PDF_MARGIN = 50;
+const BODY_SIZE = 10.5;
+const HEADING_SIZES = [20, 16, 13.5, 12, 11, 10.5];
+const MUTED = '#4b5563';
+
+interface PdfCursor {
+  pdf: PdfDocument;
+  y: number;
+}
+
+const ensureSpace = (cursor: PdfCursor, height: number) => {
+  if (cursor.y + height > cursor.pdf.height - PDF_MARGIN) {
+    cursor.pdf.addPage();
+    cursor.y = PDF_MARGIN;
+  }
+};
+
+const writeLines = (cursor: PdfCursor, text: string, x: number, width: number, options: { size?: number; bold?: boolean; color?: string } = {}) => {
+  const size = options.size ?? BODY_SIZE;
+  const lineHeight = size * 1.45;
+  wrapText(text, width, size, options.bold).forEach(line => {
+    ensureSpace(cursor, lineHeight);
+    cursor.pdf.text(line, x, cursor.y, { size, bold: options.bold, color: options.color });
+    cursor.y += lineHeight;
+  });
+};
+
+const drawTable = (cursor: PdfCursor, header: InlineNode[][] | null, rows: InlineNode[][][], x: number, width: number) => {
+  const columnCount = Math.max(header?.length ?? 0, ...rows.map(row => row.length), 1);
+  const columnWidth = width / columnCount;
+  const size = 9;
+  const lineHeight = size * 1.35;
+  const padding = 4;
+
+  const drawRow = (cells: InlineNode[][], bold: boolean) => {
+    const wrapped = Array.from({ length: columnCount }, (_, i) => wrapText(inlineToText(cells[i] ?? []), columnWidth - padding * 2, size, bold));
+    const rowHeight = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + padding * 2;
+    const page = cursor.pdf.pageCount;
+    ensureSpace(cursor, rowHeight);
+    // Repeat the header when the table continues on a new page
+    if (!bold && header && cursor.pdf.pageCount !== page) drawRow(header, true);
+    wrapped.forEach((lines, i) => {
+      const left = x + i * columnWidth;
+      cursor.pdf.rect(left, cursor.y, columnWidth, rowHeight, { fill: bold ? '#f3f4f6' : undefined, stroke: '#d1d5db', lineWidth: 0.5 });
+      lines.forEach((line, l) => cursor.pdf.text(line, left + padding, cursor.y + padding + l * lineHeight, { size, bold }));
+    });
+    cursor.y += rowHeight;
+  };
+
+  if (header) drawRow(header, true);
+  rows.forEach(row => drawRow(row, false));
+  cursor.y += 8;
+};
+
+const drawListItems = (cursor: PdfCursor, list: Extract<BlockNode, { type: 'list' }>, x: number, width: number) => {
+  list.items.forEach((item: ListItemNode, i) => {
+    const marker = item.checked !== null ? (item.checked ? '[x]' : '[ ]') : list.ordered ? `${list.start + i}.` : '•';
+    const indent = list.ordered || item.checked !== null ? 20 : 14;
+    ensureSpace(cursor, BODY_SIZE * 1.45);
+    cursor.pdf.text(marker, x, cursor.y, { size: BODY_SIZE });
+    const top = cursor.y;
+    drawBlocks(cursor, item.children, x + indent, width - indent, true);
+    // Items that start with a nested list still need the marker on its own line
+    if (cursor.y === top) cursor.y += BODY_SIZE * 1.45;
+  });
+};
+
+const drawBlocks = (cursor: PdfCursor, blocks: BlockNode[], x: number, width: number, tight = false) => {
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[block.level - 1] ?? BODY_SIZE;
+        cursor.y += size * 0.6;
+        ensureSpace(cursor, size * 3); // Keep a heading with the line that follows it
+        writeLines(cursor, inlineToText(block.children), x, width, { size, bold: true });
+        cursor.y += 2;
+        break;
+      }
+      case 'paragraph':
+        writeLines(cursor, inlineToText(block.children), x, width);
+        cursor.y += tight ? 0 : 6;
+        break;
+      case 'list':
+        drawListItems(cursor, block, x, width);
+        cursor.y += tight ? 0 : 6;
+        break;
+      case 'blockquote': {
+        const page = cursor.pdf.pageCount;
+        const top = cursor.y;
+        drawBlocks(cursor, block.children, x + 12, width - 12, true);
+        cursor.pdf.line(x + 2, cursor.pdf.pageCount === page ? top : PDF_MARGIN, x + 2, cursor.y, { stroke: '#d1d5db', lineWidth: 2 });
+        cursor.y += 6;
+        break;
+      }
+      case 'code': {
+        const size = 9;
+        const lineHeight = size * 1.4;
+        block.value.split('\n').flatMap(line => wrapText(line, width - 16, size)).forEach(line => {
+          ensureSpace(cursor, lineHeight);
+          cursor.pdf.rect(x, cursor.y, width, lineHeight, { fill: '#f3f4f6' });
+          cursor.pdf.text(line, x + 8, cursor.y + 2, { size, color: MUTED });
+          cursor.y += lineHeight;
+        });
+        cursor.y += 8;
+        break;
+      }
+      case 'table':
+        drawTable(cursor, block.header, block.rows, x, width);
+        break;
+      case 'hr':
+        ensureSpace(cursor, 12);
+        cursor.pdf.line(x, cursor.y + 6, x + width, cursor.y + 6);
+        cursor.y += 12;
+        break;
+    }
+  });
+};
+
+export const markdownToPdf = (markdown: string): Uint8Array => {
+  const pdf = createPdfDocument();
+  pdf.addPage();
+  const cursor: PdfCursor = { pdf, y: PDF_MARGIN };
+  drawBlocks(cursor, parseMarkdown(markdown), PDF_MARGIN, pdf.width - PDF_MARGIN * 2);
+  return pdf.toBytes();
+};
+
+// --- Slides ---
+
+const listBullets = (list: Extract<BlockNode, { type: 'list' }>, level: number): PptxBullet[] =>
+  list.items.flatMap(item => [
+    ...item.children.filter(child => child.type === 'paragraph').map(child => ({ text: inlineToText(child.children), level })),
+    ...item.children.filter(child => child.type === 'list').flatMap(child => listBullets(child, level + 1))
+  ]);
+
+// "# Title" and "## Title" start slides; everything else becomes bullets of the current slide
+export const markdownToSlides = (markdown: string, fallbackTitle: string): PptxSlide[] => {
+  const slides: PptxSlide[] = [];
+  const current = () => {
+    if (slides.length === 0) slides.push({ title: fallbackTitle, bullets: [] });
+    return slides[slides.length - 1];
+  };
+
+  parseMarkdown(markdown).forEach(block => {
+    if (block.type === 'heading' && block.level <= 2) {
+      slides.push({ title: inlineToText(block.children), bullets: [] });
+      return;
+    }
+    const slide = current();
+    if (block.type === 'paragraph') {
+      const text = inlineToText(block.children);
+      // A line right under the deck title is its subtitle
+      if (slides.length === 1 && slide.bullets.length === 0 && !slide.subtitle) slide.subtitle = text;
+      else slide.bullets.push({ text, level: 0 });
+    } else if (block.type === 'heading') {
+      slide.bullets.push({ text: inlineToText(block.children), level: 0 });
+    } else if (block.type === 'list') {
+      slide.bullets.push(...listBullets(block, 0));
+    } else if (block.type === 'table') {
+      [...(block.header ? [block.header] : []), ...block.rows].forEach(row =>
+        slide.bullets.push({ text: row.map(inlineToText).join(' | '), level: 0 })
+      );
+    } else if (block.type === 'blockquote') {
+      slide.bullets.push(...block.children.filter(child => child.type === 'paragraph').map(child => ({ text: inlineToText(child.children), level: 0 })));
+    }
+  });
+
+  // A subtitle only makes sense on a title slide
+  return slides.map(slide => (slide.subtitle && slide.bullets.length > 0
+    ? { title: slide.title, bullets: [{ text: slide.subtitle, level: 0 }, ...slide.bullets] }
+    : slide));
+};
+
+// --- Output ---
+
+// Builds the file from extracted text; throws if the extraction came back empty
+export const buildConvertedFile = (target: ConvertTarget, extracted: string, baseName: string): DownloadData => {
+  const content = stripOuterFence(extracted);
+  if (!content) throw new Error("The model didn't return any content to convert");
+
+  const { extension, mimeType } = CONVERT_TARGETS[target];
+  let bytes: Uint8Array;
+  switch (target) {
+    case 'EXCEL': {
+      const sheets = extractSheets(content);
+      if (sheets.length === 0) throw new Error('No table data was found to put in a spreadsheet');
+      bytes = createXlsx(sheets);
+      break;
+    }
+    case 'WORD':
+      bytes = createDocx(parseMarkdown(content), baseName);
+      break;
+    case 'PDF':
+      bytes = markdownToPdf(content);
+      break;
+    case 'PPT':
+      bytes = createPptx(markdownToSlides(content, baseName), baseName);
+      break;
+  }
+  return { fileName: `${baseName}.${extension}`, data: bytesToDataUrl(bytes, mimeType), mimeType };
+};
+
+// --- Direct conversion ---
+
+const TEXT_EXTENSIONS = /\.(csv|md|markdown|txt)$/i;
+
+export const baseNameOf = (fileName: string): string => fileName.replace(/\.[^/.]+$/, '') || 'converted';
+
+// CSV, Markdown and plain-text uploads are already in the extracted shape, so they skip the model.
+// Returns null for anything that needs extraction first.
+export const readDirectInput = async (file: FileAttachment, target: ConvertTarget): Promise<string | null> => {
+  const isText = file.type.startsWith('text/') || TEXT_EXTENSIONS.test(file.name);
+  if (!isText || file.type === 'text/html') return null;
+  const isCsv = file.type === 'text/csv' || /\.csv$/i.test(file.name);
+  // Plain text has no tables to find and a CSV is not a document outline
+  if ((target === 'EXCEL') !== isCsv) return null;
+  return new TextDecoder().decode(dataUrlToBytes(file.data));
+};
+
+// --- Pipeline ---
+
+// Text per extraction call; the model's answer is about as long, so this stays well under its output limit
+const CONVERT_CHUNK_CHARS = 12_000;
+
+// Runs the extraction on a throwaway engine so the session's chat history stays clean
+// and files never leak into each other's context
+export const extractContent = async (
+  engineId: string,
+  prompt: string,
+  attachments?: { data: string; mimeType: string }[],
+  signal?: AbortSignal,
+  onChunk?: (text: string) => void
+): Promise<string> => {
+  let gathered = '';
+  try {
+    await sendMessageStream(
+      engineId,
+      prompt,
+      MODULES.find(m => m.id === TaskModule.CONVERTER)?.contextParams,
+      chunk => {
+        gathered += chunk;
+        onChunk?.(chunk);
+      },
+      attachments,
+      signal
+    );
+  } finally {
+    resetSession(engineId);
+  }
+  return gathered;
+};
+
+export interface ConvertFileOptions {
+  engineId: string; // Chat engine for the model extraction
+  ilovePdfKey: string;
+  useILovePdf: boolean; // A key, the key proxy or the API server is available
+}
+
+// One file through the converter: CSV/Markdown/text directly, else iLovePDF when connected,
+// else Word and Excel content read locally, else model extraction plus a local writer. "upload" covers sending the file, "process" the
+// conversion or extraction and "download" fetching or writing the result.
+export const convertFile = async (
+  file: FileAttachment,
+  target: ConvertTarget,
+  options: ConvertFileOptions,
+  report: ConversionReporter,
+  signal: AbortSignal
+): Promise<ConversionOutcome> => {
+  const baseName = baseNameOf(file.name);
+
+  try {
+    const directInput = await readDirectInput(file, target);
+    if (directInput !== null) {
+      report('process');
+      return { result: buildConvertedFile(target, directInput, baseName), method: 'direct' };
+    }
+  } catch (error) {
+    console.warn(`Direct conversion failed for ${file.name}`, error);
+  }
+
+  if (options.useILovePdf) {
+    try {
+      const result = await runILovePdfTask(CONVERT_TARGETS[target].ilovePdfTool, [{ name: file.name, data: file.data }], {}, options.ilovePdfKey, signal, report);
+      return { result: { fileName: result.filename, data: result.data, mimeType: result.mimeType }, method: 'ilovepdf' };
+    } catch (error) {
+      if (signal.aborted) throw error;
+      console.warn(`iLovePDF failed for ${file.name}`, error);
+    }
+  }
+
+  // Word and Excel files are read locally and their Markdown goes straight to the writers,
+  // unless a spreadsheet is wanted from a file without tables
+  const kind = detectDocumentKind(file);
+  if (kind === 'docx' || kind === 'xlsx') {
+    report('process');
+    const markdown = documentMarkdown(await ingestDocument(file));
+    if (markdown && (target !== 'EXCEL' || /^\|/m.test(markdown))) {
+      return { result: buildConvertedFile(target, markdown, baseName), method: 'direct' };
+    }
+  }
+
+  // Documents too big to send (or not accepted) as files are extracted from their text, part by part
+  if (sendsAsText(file)) {
+    const document = await ingestDocument(file);
+    const chunks = document ? chunkDocument(document, CONVERT_CHUNK_CHARS) : [];
+    if (chunks.length === 0) throw new ServiceError('invalid_input', `${file.name} is too large to send and has no text to read`);
+    const outputs: string[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      report('process', i / chunks.length);
+      const engineId = `${options.engineId}:${i}`;
+      outputs.push(stripOuterFence(await extractContent(engineId, `${extractionPrompt(target, 'text')}\n\n${chunk.text}`, undefined, signal)));
+      if (signal.aborted) throw signal.reason;
+    }
+    report('download');
+    return { result: buildConvertedFile(target, outputs.join('\n\n'), baseName), method: 'ai' };
+  }
+
+  report('upload');
+  let received = false;
+  const extracted = await extractContent(options.engineId, extractionPrompt(target, 'file'), [{ data: file.data, mimeType: file.type }], signal, () => {
+    if (!received) report('process');
+    received = true;
+  });
+  // A half-extracted file is not a usable conversion
+  if (signal.aborted) throw signal.reason;
+  report('download');
+  return { result: buildConvertedFile(target, extracted, baseName), method: 'ai' };
+};
+
+// --- Batch archive ---
+
+// Bundles converted files into one ZIP; repeated names get a counter so nothing is overwritten
+export const archiveConvertedFiles = (files: DownloadData[], fileName: string): DownloadData => {
+  const used = new Set<string>();
+  const entries = files.map(file => {
+    const dot = file.fileName.lastIndexOf('.');
+    const [stem, extension] = dot > 0 ? [file.fileName.slice(0, dot), file.fileName.slice(dot)] : [file.fileName, ''];
+    let name = file.fileName;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${stem} (${n})${extension}`;
+    used.add(name.toLowerCase());
+    return { name, data: dataUrlToBytes(file.data) };
+  });
+  return { fileName, data: bytesToDataUrl(createZip(entries), 'application/zip'), mimeType: 'application/zip' };
+};
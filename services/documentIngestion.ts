@@ -0,0 +1,233 @@
+// Document ingestion.
+// PDF, Word, Excel, CSV and text attachments are read in the browser and sent to the model as text
+// with page references, instead of as raw base64: Office files aren't accepted inline, and large PDFs
+// go over the request limit. Documents are split into chunks with page references: the session's
+// document index searches them (see services/documentStore.ts), and the Summarizer and Converter
+// work through long documents part by part.
+
+import { DocumentChunk, DocumentKind, DocumentPage, FileAttachment, IngestedDocument } from '../types';
+import { dataUrlToBytes } from '../utils/dataUrl';
+import { extractPdfText } from '../utils/pdfReader';
+import { markdownTable, readDocx, readXlsx } from '../utils/officeReader';
+import { ServiceError } from './serviceErrors';
+import { sendMessageStream, resetSession } from './geminiService';
+import { parseCsv } from './converterService';
+
+// PDFs up to this size still go inline, where the model also sees their layout and images
+const INLINE_PDF_BYTES = 8 * 1024 * 1024;
+// Most document text placed in one prompt; longer documents are searched or condensed
+export const DOCUMENT_CONTEXT_CHARS = 120_000;
+export const CHUNK_CHARS = 4000;
+const CONDENSE_CHUNK_CHARS = 40_000;
+const CACHE_SIZE = 20;
+
+const CONDENSE_PROMPT = 'Write detailed notes on this part of a longer document. Keep every key fact, figure, name, date and decision, ' +
+  'and mark where each comes from with its page reference in brackets, e.g. [p. 4]. Output only the notes.';
+
+// --- Detection ---
+
+const KIND_PATTERNS: { kind: DocumentKind; mimeType: RegExp; extension: RegExp }[] = [
+  { kind: 'pdf', mimeType: /^application\/pdf$/, extension: /\.pdf$/i },
+  { kind: 'docx', mimeType: /wordprocessingml\.document$/, extension: /\.docx$/i },
+  { kind: 'xlsx', mimeType: /spreadsheetml\.sheet$/, extension: /\.xlsx$/i },
+  { kind: 'csv', mimeType: /^text\/csv$/, extension: /\.csv$/i },
+  { kind: 'text', mimeType: /^text\/(plain|markdown)$/, extension: /\.(txt|md|markdown)$/i }
+];
+
+export const detectDocumentKind = (file: FileAttachment): DocumentKind | null =>
+  KIND_PATTERNS.find(pattern => pattern.mimeType.test(file.type) || pattern.extension.test(file.name))?.kind ?? null;
+
+// Decoded size of a base64 data URL, without decoding it
+const attachmentBytes = (file: FileAttachment): number => Math.floor((file.data.length - file.data.indexOf(',') - 1) * 3 / 4);
+
+// Whether the file goes to the model as extracted text rather than inline
+export const sendsAsText = (file: FileAttachment): boolean => {
+  const kind = detectDocumentKind(file);
+  return kind !== null && (kind !== 'pdf' || attachmentBytes(file) > INLINE_PDF_BYTES);
+};
+
+// --- Reading ---
+
+// Documents already read, so indexing and converting don't parse them again
+const cache = new Map<string, IngestedDocument>();
+
+// Identifies an attachment's content cheaply, e.g. the same file carried by an edited message
+export const documentKey = (file: FileAttachment): string => `${file.name}:${file.data.length}:${file.data.slice(-48)}`;
+
+const readPages = async (file: FileAttachment, kind: DocumentKind): Promise<Pick<IngestedDocument, 'pages' | 'paginated'>> => {
+  const bytes = dataUrlToBytes(file.data);
+  switch (kind) {
+    case 'pdf': {
+      const texts = await extractPdfText(bytes);
+      return { pages: texts.map((text, i) => ({ number: i + 1, text })), paginated: true };
+    }
+    case 'docx': {
+      const pages = await readDocx(bytes);
+      return {
+        pages: pages.map(page => ({ number: page.number, text: page.blocks.join('\n\n') })),
+        paginated: pages.some(page => page.number > 1)
+      };
+    }
+    case 'xlsx': {
+      const sheets = await readXlsx(bytes);
+      return { pages: sheets.map((sheet, i) => ({ number: i + 1, label: sheet.name, text: markdownTable(sheet.rows) })), paginated: false };
+    }
+    case 'csv': {
+      const rows = parseCsv(new TextDecoder().decode(bytes));
+      return { pages: rows.length > 0 ? [{ number: 1, text: markdownTable(rows) }] : [], paginated: false };
+    }
+    case 'text':
+      return { pages: [{ number: 1, text: new TextDecoder().decode(bytes) }], paginated: false };
+  }
+};
+
+// Reads the text of a supported document; null for other files (images, audio...)
+export const ingestDocument = async (file: FileAttachment): Promise<IngestedDocument | null> => {
+  const kind = detectDocumentKind(file);
+  if (!kind) return null;
+  const key = documentKey(file);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  let read: Pick<IngestedDocument, 'pages' | 'paginated'>;
+  try {
+    read = await readPages(file, kind);
+  } catch (error) {
+    throw new ServiceError('invalid_input', `Couldn't read ${file.name}: ${error instanceof Error ? error.message : 'the file is damaged'}`, { detail: String(error) });
+  }
+  const document: IngestedDocument = {
+    fileName: file.name,
+    kind,
+    pages: read.pages.filter(page => page.text.trim() !== ''),
+    paginated: read.paginated
+  };
+  cache.set(key, document);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+  return document;
+};
+
+// The whole document as Markdown, each sheet under its name
+export const documentMarkdown = (document: IngestedDocument | null): string =>
+  (document?.pages || []).map(page => (page.label ? `## ${page.label}\n\n${page.text}` : page.text)).join('\n\n');
+
+export const documentLength = (document: IngestedDocument): number =>
+  document.pages.reduce((sum, page) => sum + page.text.length, 0);
+
+// --- Chunking ---
+
+const locate = (document: IngestedDocument, first: DocumentPage, last: DocumentPage, index: number): string => {
+  if (first.label) return `sheet ${first.label}`;
+  if (!document.paginated) return `part ${index + 1}`;
+  return first.number === last.number ? `p. ${first.number}` : `pp. ${first.number}–${last.number}`;
+};
+
+// Splits a page into pieces no longer than maxChars: paragraphs first, then lines, then hard cuts.
+// Long Markdown tables are split by rows and keep their header on every piece.
+const splitText = (text: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  text.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean).forEach(block => {
+    if (block.length <= maxChars) {
+      pieces.push(block);
+      return;
+    }
+    const lines = block.split('\n');
+    const isTable = lines.length > 2 && lines[0].startsWith('|') && /^\|[\s|:-]+\|$/.test(lines[1]);
+    const header = isTable ? lines.slice(0, 2).join('\n') + '\n' : '';
+    let current = '';
+    (isTable ? lines.slice(2) : lines).forEach(line => {
+      for (let rest = line; rest; ) {
+        const room = Math.max(1, maxChars - header.length);
+        const part = rest.slice(0, room);
+        rest = rest.slice(part.length);
+        if (current && current.length + part.length + 1 > room) {
+          pieces.push(header + current);
+          current = '';
+        }
+        current = current ? `${current}\n${part}` : part;
+      }
+    });
+    if (current) pieces.push(header + current);
+  });
+  return pieces;
+};
+
+// Consecutive pieces of text up to maxChars each, tagged with the pages they come from.
+// A sheet always starts a new chunk so each citation names one sheet.
+export const chunkDocument = (document: IngestedDocument, maxChars = CHUNK_CHARS): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let parts: string[] = [];
+  let size = 0;
+  let first: DocumentPage | null = null;
+  let last: DocumentPage | null = null;
+
+  const flush = () => {
+    if (!first || !last || parts.length === 0) return;
+    chunks.push({ index: chunks.length, location: locate(document, first, last, chunks.length), page: first.number, text: parts.join('\n\n') });
+    parts = [];
+    size = 0;
+    first = null;
+  };
+
+  document.pages.forEach(page => {
+    if (page.label) flush();
+    splitText(page.text, maxChars).forEach(piece => {
+      if (size > 0 && size + piece.length > maxChars) flush();
+      if (!first) first = page;
+      last = page;
+      parts.push(piece);
+      size += piece.length + 2;
+    });
+  });
+  flush();
+  return chunks;
+};
+
+// --- Prompts ---
+
+export interface PreparedAttachments {
+  inline: FileAttachment[]; // Sent to the model as files
+  documents: IngestedDocument[]; // Sent as text
+}
+
+// Splits a turn's attachments into files the model reads itself and documents read here
+export const prepareAttachments = async (files: FileAttachment[]): Promise<PreparedAttachments> => {
+  const prepared: PreparedAttachments = { inline: [], documents: [] };
+  for (const file of files) {
+    if (!sendsAsText(file)) {
+      prepared.inline.push(file);
+      continue;
+    }
+    const document = await ingestDocument(file);
+    if (document && document.pages.length > 0) prepared.documents.push(document);
+    else if (document?.kind === 'pdf') {
+      throw new ServiceError('invalid_input', `${file.name} is too large to send and has no text to read. Run OCR on it with the Converter's PDF tools first`);
+    }
+  }
+  return prepared;
+};
+
+// Documents too long for one prompt are read part by part on throwaway engines; the notes,
+// with their page references, stand in for the full text
+export const condenseDocuments = async (
+  documents: IngestedDocument[],
+  engineId: string,
+  signal?: AbortSignal,
+  onProgress?: (done: number, total: number) => void
+): Promise<string> => {
+  const parts = documents.flatMap(document => chunkDocument(document, CONDENSE_CHUNK_CHARS).map(chunk => ({ document, chunk })));
+  const notes: string[] = [];
+  for (const [i, { document, chunk }] of parts.entries()) {
+    onProgress?.(i, parts.length);
+    const partEngineId = `${engineId}:${i}`;
+    let text: string;
+    try {
+      text = await sendMessageStream(partEngineId, `${CONDENSE_PROMPT}\n\n[${document.fileName}, ${chunk.location}]\n${chunk.text}`, undefined, undefined, undefined, signal);
+    } finally {
+      resetSession(partEngineId);
+    }
+    if (signal?.aborted) throw signal.reason;
+    notes.push(`[${document.fileName}, ${chunk.location}]\n${text.trim()}`);
+  }
+  onProgress?.(parts.length, parts.length);
+  return `[Notes on the attached documents, written part by part because they are too long to include in full]\n\n${notes.join('\n\n')}`;
+};
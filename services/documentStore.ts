@@ -0,0 +1,304 @@
+// Per-session document retrieval.
+// Every document attached in a chat is read, split into chunks (see services/documentIngestion.ts) and
+// kept in the session's index, which is stored next to its messages. Each turn, the chunks that best
+// match the request go into the prompt as numbered passages and the reply cites them by number, so
+// follow-up questions don't send whole documents again. Chunks are embedded with the provider's
+// embedding model when it has one; without it, or when embedding fails, passages are ranked by
+// keyword (BM25) alone.
+
+import { DocumentChunk, DocumentCitation, FileAttachment, ProviderId, Session, SessionDocument } from '../types';
+import { DEFAULT_PROVIDER } from './modelProvider';
+import { chunkDocument, detectDocumentKind, documentKey, ingestDocument, sendsAsText, DOCUMENT_CONTEXT_CHARS } from './documentIngestion';
+import { embedTexts } from './geminiService';
+import { loadSessionDocuments, saveSessionDocuments } from './storageService';
+import { tokenize } from './searchIndex';
+
+// Passages searched out per turn, on top of documents attached with the turn itself
+const RETRIEVED_PASSAGES = 6;
+const EXCERPT_CHARS = 300;
+// Reciprocal rank fusion: how strongly the top of each ranking counts when keyword and vector ranks are merged
+const RRF_K = 60;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const PASSAGES_NOTE = 'Passages from the documents in this chat, numbered for citation. Use them where they bear on the request, ' +
+  'and cite each one you rely on by its number in square brackets right after the statement, e.g. [2]. ' +
+  "If they don't answer the question, say so instead of guessing.";
+
+type IndexedChunk = SessionDocument['chunks'][number];
+
+interface Candidate {
+  document: SessionDocument;
+  chunk: IndexedChunk;
+}
+
+// The signed-in user's indexes, by session id
+const indexes = new Map<string, SessionDocument[]>();
+// Documents with indexed text, by documentKey; history leaves these files out
+const readableKeys = new Set<string>();
+// Syncs run one at a time per session, so a document is never indexed twice
+const syncQueues = new Map<string, Promise<void>>();
+// Bumped when the index is cleared, so work started for the previous account is dropped
+let generation = 0;
+
+const addDocuments = (sessionId: string, documents: SessionDocument[]) => {
+  indexes.set(sessionId, [...(indexes.get(sessionId) || []), ...documents]);
+  documents.forEach(document => {
+    if (document.chunks.length > 0) readableKeys.add(document.key);
+  });
+};
+
+// Loaded with the sessions, before any chat history is rebuilt
+export const loadDocumentIndex = async (userId: string): Promise<void> => {
+  const documents = await loadSessionDocuments(userId);
+  clearDocumentIndex();
+  documents.forEach(document => addDocuments(document.sessionId, [document]));
+};
+
+export const clearDocumentIndex = () => {
+  generation++;
+  indexes.clear();
+  readableKeys.clear();
+  syncQueues.clear();
+};
+
+// The stored index is deleted with the session on its next save
+export const forgetSessionDocuments = (sessionId: string) => {
+  indexes.delete(sessionId);
+};
+
+const documentNote = (fileName: string) =>
+  `[Attached document: ${fileName}. Passages relevant to each request are retrieved from it.]`;
+
+// What a rebuilt history carries for an attachment. Null for files that go to the model again:
+// images, and PDFs small enough to send whose text hasn't been indexed (e.g. scans).
+export const documentHistoryText = (file: FileAttachment): string | null => {
+  if (!detectDocumentKind(file)) return null;
+  if (!sendsAsText(file) && !readableKeys.has(documentKey(file))) return null;
+  return documentNote(file.name);
+};
+
+// --- Indexing ---
+
+const indexDocument = async (sessionId: string, key: string, file: FileAttachment, provider?: ProviderId): Promise<SessionDocument> => {
+  // A file that can't be read is still recorded, so it isn't read again every turn
+  const document = await ingestDocument(file).catch(error => {
+    console.warn(`Couldn't index ${file.name}:`, error);
+    return null;
+  });
+  const chunks: DocumentChunk[] = document ? chunkDocument(document) : [];
+  const entry: SessionDocument = {
+    id: `${sessionId}:${key}`,
+    sessionId,
+    key,
+    fileName: file.name,
+    kind: detectDocumentKind(file)!,
+    paginated: document?.paginated ?? false,
+    chunks,
+    createdAt: Date.now()
+  };
+  if (chunks.length === 0) return entry;
+
+  try {
+    const vectors = await embedTexts(chunks.map(chunk => chunk.text), 'document', provider);
+    if (vectors) {
+      return { ...entry, chunks: chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] })), embedder: provider ?? DEFAULT_PROVIDER };
+    }
+  } catch (error) {
+    console.warn(`Couldn't embed ${file.name}; its passages are found by keyword instead:`, error);
+  }
+  return entry;
+};
+
+const syncDocuments = async (userId: string, sessionId: string, files: FileAttachment[], provider?: ProviderId): Promise<void> => {
+  const started = generation;
+  const attached = new Map<string, FileAttachment>();
+  files.forEach(file => {
+    if (detectDocumentKind(file)) attached.set(documentKey(file), file);
+  });
+  const current = indexes.get(sessionId) || [];
+  const removed = current.filter(document => !attached.has(document.key));
+  const added: SessionDocument[] = [];
+  for (const [key, file] of attached) {
+    if (!current.some(document => document.key === key)) added.push(await indexDocument(sessionId, key, file, provider));
+  }
+  if (started !== generation || (added.length === 0 && removed.length === 0)) return;
+
+  indexes.set(sessionId, current.filter(document => attached.has(document.key)));
+  addDocuments(sessionId, added);
+  await saveSessionDocuments(userId, added, removed.map(document => document.id));
+};
+
+// Brings a session's index in line with the files attached in it: new documents are read, chunked and
+// embedded, and documents no longer attached to any message are dropped
+export const syncSessionDocuments = (
+  userId: string,
+  sessionId: string,
+  files: FileAttachment[],
+  provider?: ProviderId
+): Promise<void> => {
+  const sync = (syncQueues.get(sessionId) || Promise.resolve()).then(() => syncDocuments(userId, sessionId, files, provider));
+  syncQueues.set(sessionId, sync.catch(() => undefined));
+  return sync;
+};
+
+// Indexes the documents of sessions that arrived without an index, e.g. from a backup or an import.
+// One session at a time; sessions whose documents are already indexed cost nothing.
+export const indexSessions = async (
+  userId: string,
+  sessions: Session[],
+  providerFor: (session: Session) => ProviderId | undefined
+): Promise<void> => {
+  for (const session of sessions.filter(s => !s.isDeleted)) {
+    const files = session.messages.flatMap(message => message.attachments || []);
+    await syncSessionDocuments(userId, session.id, files, providerFor(session))
+      .catch(error => console.error(`Failed to index the documents of "${session.title}":`, error));
+  }
+};
+
+// --- Search ---
+
+// Token counts per chunk, kept while the chunk is in memory
+const termCounts = new WeakMap<IndexedChunk, { counts: Map<string, number>; length: number }>();
+
+const chunkTerms = (chunk: IndexedChunk) => {
+  let terms = termCounts.get(chunk);
+  if (!terms) {
+    const tokens = tokenize(chunk.text);
+    const counts = new Map<string, number>();
+    tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    terms = { counts, length: tokens.length };
+    termCounts.set(chunk, terms);
+  }
+  return terms;
+};
+
+// BM25 over the candidates themselves; chunks sharing no term with the request are left out
+const keywordRank = (candidates: Candidate[], request: string): Candidate[] => {
+  const queryTerms = Array.from(new Set(tokenize(request)));
+  const terms = candidates.map(candidate => chunkTerms(candidate.chunk));
+  const averageLength = terms.reduce((sum, t) => sum + t.length, 0) / Math.max(1, terms.length) || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const frequency = terms.filter(t => t.counts.has(term)).length;
+    return [term, Math.log(1 + (terms.length - frequency + 0.5) / (frequency + 0.5))];
+  }));
+  return candidates
+    .map((candidate, i) => {
+      const { counts, length } = terms[i];
+      const score = queryTerms.reduce((sum, term) => {
+        const tf = counts.get(term) || 0;
+        return sum + idf.get(term)! * tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+      }, 0);
+      return { candidate, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ candidate }) => candidate);
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Null unless every candidate has a vector from this provider's model and the request embeds too
+const vectorRank = async (candidates: Candidate[], request: string, provider?: ProviderId): Promise<Candidate[] | null> => {
+  const embedder = provider ?? DEFAULT_PROVIDER;
+  if (!candidates.every(({ document, chunk }) => document.embedder === embedder && chunk.vector)) return null;
+  let query: number[] | undefined;
+  try {
+    query = (await embedTexts([request], 'query', provider))?.[0];
+  } catch (error) {
+    console.warn("Couldn't embed the request; searching documents by keyword:", error);
+  }
+  if (!query || candidates.some(({ chunk }) => chunk.vector!.length !== query!.length)) return null;
+  return candidates
+    .map(candidate => ({ candidate, score: cosine(query!, candidate.chunk.vector!) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ candidate }) => candidate);
+};
+
+const rankPassages = async (candidates: Candidate[], request: string, provider?: ProviderId): Promise<Candidate[]> => {
+  if (candidates.length === 0 || tokenize(request).length === 0) return [];
+  const byKeyword = keywordRank(candidates, request);
+  const byVector = await vectorRank(candidates, request, provider);
+  if (!byVector) return byKeyword;
+
+  // Vectors catch paraphrases, keywords catch exact names and figures; both rankings count
+  const scores = new Map<Candidate, number>();
+  [byKeyword, byVector].forEach(ranking => ranking.forEach((candidate, rank) => {
+    scores.set(candidate, (scores.get(candidate) || 0) + 1 / (RRF_K + rank + 1));
+  }));
+  return Array.from(scores.entries()).sort((a, b) => b[1] - a[1]).map(([candidate]) => candidate);
+};
+
+export interface RetrievedPassages {
+  text: string; // For the prompt: how to cite, then the numbered passages
+  citations: DocumentCitation[]; // One per passage, by marker
+}
+
+const toCitation = ({ document, chunk }: Candidate, marker: number): DocumentCitation => {
+  const text = chunk.text.replace(/\s+/g, ' ').trim();
+  return {
+    marker,
+    documentKey: document.key,
+    fileName: document.fileName,
+    location: chunk.location,
+    page: document.paginated ? chunk.page : undefined,
+    chunkIndex: chunk.index,
+    excerpt: text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS)}…` : text
+  };
+};
+
+// Passages for one turn. Documents sent as text with this turn go in whole when they fit; the rest of
+// the session's documents are searched for the request. Files sent inline this turn are skipped,
+// the model already has them. Null when there is nothing to add.
+export const retrievePassages = async (
+  sessionId: string,
+  request: string,
+  turnFiles: FileAttachment[],
+  provider?: ProviderId
+): Promise<RetrievedPassages | null> => {
+  const documents = (indexes.get(sessionId) || []).filter(document => document.chunks.length > 0);
+  if (documents.length === 0) return null;
+  const turnKeys = new Map(turnFiles.map(file => [documentKey(file), sendsAsText(file)]));
+
+  const whole = documents.filter(document => turnKeys.get(document.key) === true);
+  const wholeLength = whole.reduce((sum, document) => sum + document.chunks.reduce((n, chunk) => n + chunk.text.length, 0), 0);
+  const selected: Candidate[] = wholeLength <= DOCUMENT_CONTEXT_CHARS
+    ? whole.flatMap(document => document.chunks.map(chunk => ({ document, chunk })))
+    : [];
+  const included = new Set(selected.map(candidate => candidate.chunk));
+  const candidates = documents
+    .filter(document => turnKeys.get(document.key) !== false)
+    .flatMap(document => document.chunks.map(chunk => ({ document, chunk })))
+    .filter(candidate => !included.has(candidate.chunk));
+  selected.push(...(await rankPassages(candidates, request, provider)).slice(0, RETRIEVED_PASSAGES));
+  if (selected.length === 0) return null;
+
+  const passages = selected.map(({ document, chunk }, i) =>
+    `[${i + 1}] ${document.fileName}, ${chunk.location}, chunk ${chunk.index + 1}\n${chunk.text}`);
+  return {
+    text: [PASSAGES_NOTE, ...passages].join('\n\n'),
+    citations: selected.map((candidate, i) => toCitation(candidate, i + 1))
+  };
+};
+
+// The passages a reply actually cites: [2], [1, 3] and [2-4] all count
+export const citedPassages = (reply: string, citations: DocumentCitation[]): DocumentCitation[] => {
+  const markers = new Set<number>();
+  for (const match of reply.matchAll(/\[(\d+(?:\s*(?:,|-|–)\s*\d+)*)\]/g)) {
+    match[1].split(/\s*,\s*/).forEach(part => {
+      const [from, to = from] = part.split(/\s*[-–]\s*/).map(Number);
+      for (let marker = from; marker <= Math.min(to, from + citations.length); marker++) markers.add(marker);
+    });
+  }
+  return citations.filter(citation => markers.has(citation.marker));
+};
@@ -1,132 +1,206 @@
-import { GoogleGenAI, Chat, GenerateContentResponse, Content, Modality } from "@google/genai";
-import { SYSTEM_INSTRUCTION } from '../constants';
-import { Message, Role } from '../types';
-
-let client: GoogleGenAI | null = null;
-let chatSession: Chat | null = null;
-let currentModel: string = 'gemini-2.5-flash';
-
-const getClient = (): GoogleGenAI => {
-  if (!client) {
-    if (!process.env.API_KEY) {
-      console.error("API_KEY is missing from environment variables.");
-    }
-    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  }
-  return client;
-};
+import { SYSTEM_INSTRUCTION, MEDIA_TAG_PROTOCOL, MEDIA_TOOL_PROTOCOL } from '../constants';
+import { Message, Role, ProviderId } from '../types';
+import {
+  ChatContent,
+  ChatPart,
+  ToolHandler,
+  getProvider,
+  registerProvider,
+  DEFAULT_PROVIDER,
+  ImageGenerationResult,
+  VideoGenerationResult,
+  SpeechGenerationResult,
+  EmbeddingTask
+} from './modelProvider';
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+import { serverProvider } from './providers/serverProvider';
+import { isApiServerEnabled } from './apiServer';
+import { withRetry } from './serviceErrors';
+import { registerTool } from './toolRegistry';
+import { BUILTIN_TOOLS } from './builtinTools';
+import { documentHistoryText } from './documentStore';
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+if (isApiServerEnabled()) registerProvider(serverProvider);
+BUILTIN_TOOLS.forEach(registerTool);
+
+// Each app Session owns its own chat engine, so streams in different sessions never share history
+interface ChatState {
+  history: ChatContent[];
+  model: string;
+  provider: ProviderId;
+}
 
-export const initializeChat = (history?: Message[], modelName: string = 'gemini-2.5-flash') => {
-  const ai = getClient();
-  currentModel = modelName;
-  
-  // Convert internal Message type to Gemini Content type
-  let historyContent: Content[] | undefined = undefined;
-  if (history && history.length > 0) {
-    // Filter out messages that are completely empty (no text, no attachments) to avoid 400 errors
-    historyContent = history
-      .filter(msg => (msg.content && msg.content.trim() !== '') || (msg.attachments && msg.attachments.length > 0) || msg.mediaUrl)
-      .map(msg => {
-        // Fallback for empty text content in history (Gemini requires non-empty text parts usually)
-        const textContent = msg.content || (msg.attachments?.length ? "Sent attachments" : (msg.mediaUrl ? "Generated media" : "..."));
-        
-        const parts: any[] = [{ text: textContent }];
-
-        if (msg.attachments) {
-            msg.attachments.forEach(att => {
-                parts.push({
-                    inlineData: {
-                        mimeType: att.type,
-                        data: att.data.split(',')[1] || att.data
-                    }
-                });
-            });
-        }
+const chatSessions = new Map<string, ChatState>();
+
+// Convert internal Message type to provider-neutral content
+const toChatContents = (history: Message[]): ChatContent[] => {
+  // Filter out messages that are completely empty (no text, no attachments) to avoid 400 errors
+  return history
+    .filter(msg => (msg.content && msg.content.trim() !== '') || (msg.attachments && msg.attachments.length > 0) || msg.mediaUrl)
+    .map(msg => {
+      // Fallback for empty text content in history (Gemini requires non-empty text parts usually)
+      const textContent = msg.content || (msg.attachments?.length ? "Sent attachments" : (msg.mediaUrl ? "Generated media" : "..."));
+
+      const parts: ChatPart[] = [{ text: textContent }];
+
+      if (msg.attachments) {
+        msg.attachments.forEach(att => {
+          // Documents with readable text are searched each turn instead of sent again (see services/documentStore.ts)
+          const documentText = documentHistoryText(att);
+          if (documentText !== null) {
+            parts.push({ text: documentText });
+            return;
+          }
+          parts.push({
+            inlineData: {
+              mimeType: att.type,
+              data: att.data.split(',')[1] || att.data
+            }
+          });
+        });
+      }
 
-        return {
-          role: msg.role === Role.USER ? 'user' : 'model',
-          parts: parts
-        };
-      });
-  }
+      return {
+        role: msg.role === Role.USER ? 'user' : 'model',
+        parts: parts
+      };
+    });
+};
 
-  chatSession = ai.chats.create({
+export const initializeChat = (
+  sessionId: string,
+  history?: Message[],
+  modelName: string = 'gemini-2.5-flash',
+  provider: ProviderId = DEFAULT_PROVIDER
+) => {
+  chatSessions.set(sessionId, {
+    history: history && history.length > 0 ? toChatContents(history) : [],
     model: modelName,
-    history: historyContent,
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      temperature: 0.7,
-      topP: 0.95,
-      topK: 64,
-    }
+    provider: provider
   });
 };
 
+export const hasChatSession = (sessionId: string): boolean => chatSessions.has(sessionId);
+
+// Switch model/provider for a session without dropping its history (or a turn still streaming)
+export const configureChat = (
+  sessionId: string,
+  history: Message[],
+  modelName: string,
+  provider: ProviderId = DEFAULT_PROVIDER
+) => {
+  const session = chatSessions.get(sessionId);
+  if (!session) {
+    initializeChat(sessionId, history, modelName, provider);
+    return;
+  }
+  session.model = modelName;
+  session.provider = provider;
+};
+
 export const sendMessageStream = async (
-  message: string, 
+  sessionId: string,
+  message: string,
   context?: string,
   onChunk?: (text: string) => void,
-  attachments?: { data: string, mimeType: string }[]
+  attachments?: { data: string, mimeType: string, historyText?: string }[],
+  signal?: AbortSignal,
+  tools?: ToolHandler[],
+  passages?: string
 ): Promise<string> => {
-  if (!chatSession) {
-    initializeChat(undefined, currentModel);
+  if (!chatSessions.has(sessionId)) {
+    initializeChat(sessionId);
   }
 
-  if (!chatSession) {
+  const session = chatSessions.get(sessionId);
+  if (!session) {
     throw new Error("Failed to initialize chat session");
   }
 
   // Construct message parts
-  let messageParts: any[] = [];
-  
+  let messageParts: ChatPart[] = [];
+
   // Add system note if context exists
   if (context) {
     messageParts.push({ text: `[SYSTEM NOTE: ${context}]\n\nUser Request: ${message}` });
   } else {
     // Only push text part if it's not empty, OR if there are no attachments.
     if (message.trim() !== '') {
-        messageParts.push({ text: message });
+      messageParts.push({ text: message });
     }
   }
 
+  // Retrieved document passages and files with a historyText go with this turn only; the history
+  // keeps the request and a short note, so later turns don't send them again
+  let historyParts = [...messageParts];
+  if (passages) {
+    messageParts.push({ text: passages });
+  }
+
   // Add attachments if provided
   if (attachments && attachments.length > 0) {
     attachments.forEach(att => {
-        const base64Data = att.data.split(',')[1] || att.data;
-        messageParts.push({
-          inlineData: {
-            mimeType: att.mimeType,
-            data: base64Data
-          }
-        });
+      const base64Data = att.data.split(',')[1] || att.data;
+      const part: ChatPart = {
+        inlineData: {
+          mimeType: att.mimeType,
+          data: base64Data
+        }
+      };
+      messageParts.push(part);
+      historyParts.push(att.historyText ? { text: att.historyText } : part);
     });
   }
 
   // Fallback: If absolutely no parts, send a space
   if (messageParts.length === 0) {
-      messageParts.push({ text: " " });
+    messageParts.push({ text: " " });
+  }
+  if (historyParts.length === 0) {
+    historyParts = [{ text: " " }];
   }
 
-  try {
-    // Correct API Usage: 'message' expects string | Part[]
-    const resultStream = await chatSession.sendMessageStream({ 
-      message: messageParts.length === 1 && typeof messageParts[0].text === 'string' 
-        ? messageParts[0].text 
-        : messageParts 
-    });
-    
-    let fullResponse = "";
-    
-    for await (const chunk of resultStream) {
-      const c = chunk as GenerateContentResponse;
-      if (c.text) {
-        fullResponse += c.text;
-        if (onChunk) {
-          onChunk(c.text);
-        }
+  const userContent: ChatContent = { role: 'user', parts: messageParts };
+
+  // Native function calling where the provider has it; otherwise the model writes {{TAG: ...}} markers
+  const chatProvider = getProvider(session.provider);
+  const useTools = chatProvider.supportsTools && !!tools && tools.length > 0;
+
+  // Transient failures are retried until the first chunk or tool call; after that a retry would repeat them
+  let started = false;
+  const request = () => chatProvider.streamChat({
+    model: session.model,
+    systemInstruction: SYSTEM_INSTRUCTION + '\n' + (useTools ? MEDIA_TOOL_PROTOCOL : MEDIA_TAG_PROTOCOL),
+    contents: [...session.history, userContent],
+    temperature: 0.7,
+    topP: 0.95,
+    topK: 64,
+    signal,
+    tools: useTools ? tools.map(tool => tool.declaration) : undefined,
+    onToolCall: async (call) => {
+      started = true;
+      const tool = tools?.find(t => t.declaration.name === call.name);
+      if (!tool) {
+        throw new Error(`Unknown tool "${call.name}".`);
       }
-    }
-    
+      return tool.execute(call.args);
+    },
+  }, (text) => {
+    started = true;
+    if (onChunk) onChunk(text);
+  });
+
+  try {
+    const fullResponse = await withRetry(request, { signal, canRetry: () => !started });
+
+    // Record the turn once it ends (completed or stopped), keeping history alternating user/model.
+    // A stopped turn keeps its partial text so the next request sees what the user saw.
+    const recordedText = fullResponse.trim() !== '' ? fullResponse : (signal?.aborted ? "(Response stopped by user)" : fullResponse);
+    session.history.push({ role: 'user', parts: historyParts }, { role: 'model', parts: [{ text: recordedText }] });
+
     return fullResponse;
   } catch (error) {
     console.error("Error in sendMessageStream:", error);
@@ -134,275 +208,76 @@ export const sendMessageStream = async (
   }
 };
 
-export const resetSession = () => {
-  chatSession = null;
+// Drops one session's chat engine, or every engine when no id is given
+export const resetSession = (sessionId?: string) => {
+  if (sessionId) {
+    chatSessions.delete(sessionId);
+  } else {
+    chatSessions.clear();
+  }
 };
 
-export const generateChatTitle = async (message: string): Promise<string> => {
-  const ai = getClient();
+export const generateChatTitle = async (message: string, provider: ProviderId = DEFAULT_PROVIDER): Promise<string> => {
   try {
     const prompt = message.trim() || "New Session";
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Generate a very short, memorable 3-5 word title for a chat that starts with this user message: "${prompt}". Do not use quotes. Just the title.`,
-    });
-    return response.text?.trim() || "New Session";
+    return await getProvider(provider).generateTitle(prompt);
   } catch (error) {
     console.warn("Failed to generate chat title:", error);
     return message.slice(0, 30) || "New Session";
   }
 };
 
-// --- Helper for API Key Recovery ---
-
-const handleAuthError = async (error: any, retryAction: () => Promise<any>) => {
-  const isAuthError = error.message?.includes("Requested entity was not found") || 
-                      error.toString().includes("Requested entity was not found") ||
-                      error.status === 404 || error.status === 403;
-
-  if (isAuthError && (window as any).aistudio?.openSelectKey) {
-    console.warn("Authentication/Entity error detected. Prompting for key selection...");
-    try {
-      await (window as any).aistudio.openSelectKey();
-      return await retryAction();
-    } catch (retryError) {
-      console.error("Retry failed after key selection:", retryError);
-      throw retryError;
-    }
-  }
-  throw error;
-};
-
 // --- Image Generation ---
 
-export interface ImageGenerationResult {
-  imageUrl: string;
-  mimeType: string;
-}
-
 export const generateImage = async (
   prompt: string,
-  size: '1K' | '2K' | '4K' = '1K'
+  size: '1K' | '2K' | '4K' = '1K',
+  provider: ProviderId = DEFAULT_PROVIDER
 ): Promise<ImageGenerationResult> => {
-  
-  const attemptGeneration = async (): Promise<ImageGenerationResult> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        imageConfig: {
-          imageSize: size
-        }
-      }
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        const base64EncodeString: string = part.inlineData.data;
-        return {
-          imageUrl: `data:${part.inlineData.mimeType};base64,${base64EncodeString}`,
-          mimeType: part.inlineData.mimeType
-        };
-      }
-    }
-    throw new Error("No image generated");
-  };
-
-  try {
-    return await attemptGeneration();
-  } catch (error) {
-    return handleAuthError(error, attemptGeneration);
-  }
+  return withRetry(() => getProvider(provider).generateImage(prompt, size));
 };
 
 export const editImage = async (
-    prompt: string,
-    imageBase64: string
+  prompt: string,
+  imageBase64: string,
+  provider: ProviderId = DEFAULT_PROVIDER
 ): Promise<ImageGenerationResult> => {
-
-    const attemptEdit = async (): Promise<ImageGenerationResult> => {
-         const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-         const base64Data = imageBase64.split(',')[1] || imageBase64;
-
-         const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image', 
-            contents: {
-              parts: [
-                {
-                  inlineData: {
-                    data: base64Data,
-                    mimeType: 'image/png', 
-                  },
-                },
-                {
-                  text: prompt,
-                },
-              ],
-            },
-          });
-
-          for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-              const base64EncodeString: string = part.inlineData.data;
-              return {
-                imageUrl: `data:${part.inlineData.mimeType};base64,${base64EncodeString}`,
-                mimeType: part.inlineData.mimeType
-              };
-            }
-          }
-          throw new Error("No edited image generated");
-    }
-
-    try {
-        return await attemptEdit();
-    } catch (error) {
-        return handleAuthError(error, attemptEdit);
-    }
-}
-
+  return withRetry(() => getProvider(provider).editImage(prompt, imageBase64));
+};
 
 // --- Video Generation ---
 
-export interface VideoGenerationResult {
-  videoUrl: string;
-}
-
 export const generateVideo = async (
   prompt: string,
   aspectRatio: '16:9' | '9:16',
-  inputImageBase64?: string
+  inputImageBase64?: string,
+  provider: ProviderId = DEFAULT_PROVIDER
 ): Promise<VideoGenerationResult> => {
-
-  const attemptGeneration = async (): Promise<VideoGenerationResult> => {
-    const currentKey = process.env.API_KEY || '';
-    const ai = new GoogleGenAI({ apiKey: currentKey });
-    
-    const requestOptions: any = {
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt,
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: aspectRatio
-      }
-    };
-
-    if (inputImageBase64) {
-      const base64Data = inputImageBase64.split(',')[1] || inputImageBase64;
-      requestOptions.image = {
-        imageBytes: base64Data,
-        mimeType: 'image/png'
-      };
-    }
-
-    let operation = await ai.models.generateVideos(requestOptions);
-
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
-
-    const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-    
-    if (!videoUri) {
-      throw new Error("Video generation failed: No URI returned.");
-    }
-
-    const authenticatedUri = `${videoUri}&key=${currentKey}`;
-    const response = await fetch(authenticatedUri);
-    if (!response.ok) {
-        throw new Error(`Failed to download generated video. Status: ${response.status}`);
-    }
-    const blob = await response.blob();
-    const videoUrl = URL.createObjectURL(blob);
-    
-    return { videoUrl };
-  };
-
-  try {
-    return await attemptGeneration();
-  } catch (error) {
-    return handleAuthError(error, attemptGeneration);
-  }
+  return getProvider(provider).generateVideo(prompt, aspectRatio, inputImageBase64);
 };
 
 // --- Text to Speech ---
 
-export interface SpeechGenerationResult {
-  audioUrl: string;
-}
-
 export const generateSpeech = async (
-  text: string
+  text: string,
+  provider: ProviderId = DEFAULT_PROVIDER
 ): Promise<SpeechGenerationResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Kore' },
-            },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-      throw new Error("No audio generated");
-    }
-
-    const binaryString = atob(base64Audio);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    
-    const wavBytes = addWavHeader(bytes, 24000, 1);
-    const wavBlob = new Blob([wavBytes], { type: 'audio/wav' });
-    const audioUrl = URL.createObjectURL(wavBlob);
-
-    return { audioUrl };
-
+    return await withRetry(() => getProvider(provider).generateSpeech(text));
   } catch (error) {
     console.error("Error generating speech:", error);
     throw error;
   }
 };
 
-function addWavHeader(samples: Uint8Array, sampleRate: number, numChannels: number) {
-  const buffer = new ArrayBuffer(44 + samples.length);
-  const view = new DataView(buffer);
+// --- Embeddings ---
 
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
-    }
-  };
-
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + samples.length, true);
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * 2, true);
-  view.setUint16(32, numChannels * 2, true);
-  view.setUint16(34, 16, true);
-  writeString(view, 36, 'data');
-  view.setUint32(40, samples.length, true);
-
-  const dataView = new Uint8Array(buffer, 44);
-  dataView.set(samples);
-
-  return buffer;
-}
\ No newline at end of file
+// Null when the provider has no embedding model
+export const embedTexts = async (
+  texts: string[],
+  task: EmbeddingTask,
+  provider: ProviderId = DEFAULT_PROVIDER
+): Promise<number[][] | null> => {
+  const embed = getProvider(provider).embedTexts;
+  return embed ? withRetry(() => embed(texts, task)) : null;
+};
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGst, formatInr, validateGstInput } from './gstEngine';
+import { GstRounding } from '../types';
+
+describe('calculateGst', () => {
+  describe('supply type', () => {
+    it('splits intra-state GST equally into CGST and SGST', () => {
+      const result = calculateGst({ items: [{ amount: 1000, rate: 18 }], supplyType: 'intra' });
+      expect(result).toMatchObject({ taxableValue: 1000, cgst: 90, sgst: 90, igst: 0, totalTax: 180, invoiceTotal: 1180 });
+      expect(result.lines[0]).toMatchObject({ cgst: 90, sgst: 90, igst: 0, lineTotal: 1180 });
+    });
+
+    it('charges inter-state GST as IGST', () => {
+      const result = calculateGst({ items: [{ amount: 1000, rate: 18 }], supplyType: 'inter' });
+      expect(result).toMatchObject({ taxableValue: 1000, cgst: 0, sgst: 0, igst: 180, totalTax: 180, invoiceTotal: 1180 });
+    });
+
+    it('rounds each half of an intra-state split separately', () => {
+      const intra = calculateGst({ items: [{ amount: 10.05, rate: 5 }], supplyType: 'intra', rounding: 'none' });
+      expect(intra).toMatchObject({ cgst: 0.25, sgst: 0.25, totalTax: 0.5 });
+      const inter = calculateGst({ items: [{ amount: 10.05, rate: 5 }], supplyType: 'inter', rounding: 'none' });
+      expect(inter).toMatchObject({ igst: 0.5, totalTax: 0.5 });
+    });
+
+    it('summarises tax per rate, lowest rate first', () => {
+      const result = calculateGst({
+        items: [{ amount: 200, rate: 18 }, { amount: 100, rate: 5, quantity: 3 }, { amount: 50, rate: 18 }],
+        supplyType: 'inter'
+      });
+      expect(result.rateSummary).toEqual([
+        { rate: 5, taxableValue: 300, cgst: 0, sgst: 0, igst: 15, cess: 0 },
+        { rate: 18, taxableValue: 250, cgst: 0, sgst: 0, igst: 45, cess: 0 }
+      ]);
+      expect(result.invoiceTotal).toBe(610);
+    });
+  });
+
+  describe('tax-inclusive prices', () => {
+    it('backs the tax out of the entered price', () => {
+      const result = calculateGst({ items: [{ amount: 1180, rate: 18 }], pricing: 'inclusive' });
+      expect(result).toMatchObject({ taxableValue: 1000, cgst: 90, sgst: 90, invoiceTotal: 1180 });
+      expect(result.steps.some(step => step.includes('adjusted'))).toBe(false);
+    });
+
+    it('moves the leftover paisa into the taxable value so the line keeps its price', () => {
+      const result = calculateGst({ items: [{ amount: 100, rate: 18 }], pricing: 'inclusive', rounding: 'none' });
+      // 100 × 100 / 118 = 84.75, but 84.75 + 2 × 7.63 would be 100.01
+      expect(result.lines[0]).toMatchObject({ taxableValue: 84.74, cgst: 7.63, sgst: 7.63, lineTotal: 100 });
+      expect(result.invoiceTotal).toBe(100);
+      expect(result.steps).toContain('1. Item 1: taxable value adjusted by -₹0.01 so the line matches the quoted price');
+    });
+
+    it('keeps every inclusive line at its quoted price', () => {
+      const amounts = [0.99, 1, 9.99, 49.5, 99.99, 333.33, 1234.56];
+      for (const rate of [3, 5, 12, 18, 28]) {
+        for (const amount of amounts) {
+          const result = calculateGst({ items: [{ amount, rate, cessRate: rate === 28 ? 12 : 0 }], pricing: 'inclusive', rounding: 'none' });
+          expect(result.lines[0].lineTotal).toBe(amount);
+        }
+      }
+    });
+  });
+
+  describe('cess', () => {
+    it('adds cess on the taxable value', () => {
+      const result = calculateGst({ items: [{ amount: 1000, rate: 28, cessRate: 12 }], supplyType: 'inter' });
+      expect(result).toMatchObject({ igst: 280, cess: 120, totalTax: 400, invoiceTotal: 1400 });
+      expect(result.rateSummary).toEqual([{ rate: 28, taxableValue: 1000, cgst: 0, sgst: 0, igst: 280, cess: 120 }]);
+      expect(result.steps).toContain('Total GST = IGST ₹280.00 + Cess ₹120.00 = ₹400.00');
+    });
+
+    it('includes cess when backing tax out of an inclusive price', () => {
+      const result = calculateGst({ items: [{ amount: 1400, rate: 28, cessRate: 12 }], pricing: 'inclusive' });
+      expect(result).toMatchObject({ taxableValue: 1000, cgst: 140, sgst: 140, cess: 120, invoiceTotal: 1400 });
+    });
+  });
+
+  describe('reverse charge', () => {
+    it('bills only the taxable value and leaves the tax to the recipient', () => {
+      const result = calculateGst({ items: [{ amount: 1000, rate: 18 }], reverseCharge: true });
+      expect(result).toMatchObject({
+        reverseCharge: true,
+        taxableValue: 1000,
+        totalTax: 180,
+        invoiceTotal: 1000,
+        taxPayableByRecipient: 180
+      });
+      expect(result.lines[0].lineTotal).toBe(1000);
+    });
+
+    it('owes the recipient nothing without reverse charge', () => {
+      expect(calculateGst({ items: [{ amount: 1000, rate: 18 }] }).taxPayableByRecipient).toBe(0);
+    });
+  });
+
+  describe('rounding', () => {
+    // 100.40 at 5% intra-state: 100.40 + 2.51 + 2.51 = 105.42
+    const totalFor = (rounding?: GstRounding) => {
+      const { invoiceTotal, roundOff } = calculateGst({ items: [{ amount: 100.4, rate: 5 }], rounding });
+      return { invoiceTotal, roundOff };
+    };
+
+    it.each([
+      ['none', 105.42, 0],
+      ['nearest', 105, -0.42],
+      ['up', 106, 0.58],
+      ['down', 105, -0.42]
+    ] as const)('rounds the total with %s', (rounding, invoiceTotal, roundOff) => {
+      expect(totalFor(rounding)).toEqual({ invoiceTotal, roundOff });
+    });
+
+    it('rounds to the nearest rupee by default, halves up', () => {
+      expect(totalFor()).toEqual({ invoiceTotal: 105, roundOff: -0.42 });
+      expect(calculateGst({ items: [{ amount: 10.5, rate: 0 }] })).toMatchObject({ invoiceTotal: 11, roundOff: 0.5 });
+    });
+
+    it('rounds the billed amount under reverse charge', () => {
+      const result = calculateGst({ items: [{ amount: 99.6, rate: 18 }], reverseCharge: true, rounding: 'up' });
+      expect(result).toMatchObject({ invoiceTotal: 100, roundOff: 0.4 });
+    });
+  });
+});
+
+describe('validateGstInput', () => {
+  const withAmount = (amount: unknown) => validateGstInput({ items: [{ amount, rate: 18 }] });
+
+  it('rejects blank amounts instead of reading them as zero', () => {
+    expect(() => withAmount('')).toThrow('Item 1 amount must be a number.');
+    expect(() => withAmount('  ')).toThrow('Item 1 amount must be a number.');
+    expect(() => withAmount('₹')).toThrow('Item 1 amount must be a number.');
+    expect(() => validateGstInput({ items: [{ amount: 10, rate: 18, quantity: '' }] })).toThrow('Item 1 quantity must be a number.');
+  });
+
+  it('reads formatted rupee strings', () => {
+    expect(withAmount('₹1,180.50').items[0].amount).toBe(1180.5);
+    expect(withAmount('0').items[0].amount).toBe(0);
+  });
+
+  it('rejects items that are not objects, unknown slabs and negative values', () => {
+    expect(() => validateGstInput({ items: [null] })).toThrow('Item 1 must be an object.');
+    expect(() => validateGstInput({ items: [{ amount: 10, rate: 7 }] })).toThrow('rate 7% is not a GST slab');
+    expect(() => withAmount(-1)).toThrow('amount cannot be negative');
+    expect(() => validateGstInput({ items: [] })).toThrow('At least one line item is required.');
+    expect(() => validateGstInput({ items: [{ amount: 10, rate: 5 }], rounding: 'sideways' })).toThrow('rounding must be one of');
+  });
+
+  it('fills in defaults', () => {
+    expect(validateGstInput({ items: [{ amount: 10, rate: 5, description: '  Tea  ' }] })).toEqual({
+      items: [{ description: 'Tea', amount: 10, quantity: 1, rate: 5, cessRate: 0 }],
+      pricing: 'exclusive',
+      supplyType: 'intra',
+      reverseCharge: false,
+      rounding: 'nearest'
+    });
+  });
+});
+
+describe('formatInr', () => {
+  it('groups digits the Indian way', () => {
+    expect(formatInr(1234567.5)).toBe('₹12,34,567.50');
+    expect(formatInr(-0.01)).toBe('-₹0.01');
+  });
+});
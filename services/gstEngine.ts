@@ -0,0 +1,277 @@
+// Deterministic GST calculator for the Business Calc module.
+// All arithmetic runs in integer paise so totals never drift from float rounding.
+// The model reaches it through the calculate_gst tool instead of doing the math itself.
+
+import {
+  GstCalculationInput,
+  GstCalculationResult,
+  GstLineInput,
+  GstLineResult,
+  GstRateSummary,
+  GstPricing,
+  GstSupplyType,
+  GstRounding
+} from '../types';
+import { ToolDeclaration } from './modelProvider';
+
+export const GST_RATE_SLABS = [0, 0.25, 3, 5, 12, 18, 28, 40];
+
+const PRICING_VALUES: GstPricing[] = ['exclusive', 'inclusive'];
+const SUPPLY_VALUES: GstSupplyType[] = ['intra', 'inter'];
+const ROUNDING_VALUES: GstRounding[] = ['none', 'nearest', 'up', 'down'];
+
+// --- Money helpers ---
+
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+const toRupees = (paise: number) => paise / 100;
+
+// Half-up rounding of a percentage of an amount in paise
+const percentOf = (paise: number, ratePercent: number) => Math.round(paise * ratePercent / 100);
+
+export const formatInr = (rupees: number): string => {
+  const sign = rupees < 0 ? '-' : '';
+  return `${sign}₹${Math.abs(rupees).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const inr = (paise: number) => formatInr(toRupees(paise));
+
+const roundTotal = (paise: number, rounding: GstRounding): number => {
+  switch (rounding) {
+    case 'nearest': return Math.round(paise / 100) * 100;
+    case 'up': return Math.ceil(paise / 100) * 100;
+    case 'down': return Math.floor(paise / 100) * 100;
+    default: return paise;
+  }
+};
+
+// --- Input validation ---
+
+const readNumber = (value: unknown, field: string): number => {
+  // Number('') is 0, so a blank string has to be caught before converting
+  const cleaned = typeof value === 'string' ? value.replace(/[₹,\s]/g, '') : value;
+  const num = typeof cleaned === 'string' && cleaned !== '' ? Number(cleaned) : cleaned;
+  if (typeof num !== 'number' || !Number.isFinite(num)) {
+    throw new Error(`${field} must be a number.`);
+  }
+  return num;
+};
+
+const readEnum = <T extends string>(value: unknown, allowed: T[], fallback: T, field: string): T => {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (typeof value === 'string' && (allowed as string[]).includes(value)) return value as T;
+  throw new Error(`${field} must be one of: ${allowed.join(', ')}.`);
+};
+
+// Normalises loosely-typed input (e.g. tool arguments from the model) and rejects anything the engine can't price
+export const validateGstInput = (input: unknown): Required<GstCalculationInput> => {
+  const raw = (input || {}) as Record<string, unknown>;
+  if (!Array.isArray(raw.items) || raw.items.length === 0) {
+    throw new Error('At least one line item is required.');
+  }
+
+  const items: GstLineInput[] = raw.items.map((value: unknown, index: number) => {
+    const label = `Item ${index + 1}`;
+    if (!value || typeof value !== 'object') throw new Error(`${label} must be an object.`);
+    const item = value as Record<string, unknown>;
+    const amount = readNumber(item.amount, `${label} amount`);
+    const quantity = item.quantity === undefined || item.quantity === null ? 1 : readNumber(item.quantity, `${label} quantity`);
+    const rate = readNumber(item.rate, `${label} rate`);
+    const cessRate = item.cessRate === undefined || item.cessRate === null ? 0 : readNumber(item.cessRate, `${label} cess rate`);
+
+    if (amount < 0) throw new Error(`${label} amount cannot be negative.`);
+    if (quantity <= 0) throw new Error(`${label} quantity must be greater than zero.`);
+    if (!GST_RATE_SLABS.includes(rate)) {
+      throw new Error(`${label} rate ${rate}% is not a GST slab. Use one of: ${GST_RATE_SLABS.join(', ')}.`);
+    }
+    if (cessRate < 0) throw new Error(`${label} cess rate cannot be negative.`);
+
+    return {
+      description: typeof item.description === 'string' && item.description.trim() ? item.description.trim() : label,
+      amount,
+      quantity,
+      rate,
+      cessRate
+    };
+  });
+
+  return {
+    items,
+    pricing: readEnum(raw.pricing, PRICING_VALUES, 'exclusive', 'pricing'),
+    supplyType: readEnum(raw.supplyType, SUPPLY_VALUES, 'intra', 'supplyType'),
+    reverseCharge: raw.reverseCharge === true || raw.reverseCharge === 'true',
+    rounding: readEnum(raw.rounding, ROUNDING_VALUES, 'nearest', 'rounding')
+  };
+};
+
+// --- Engine ---
+
+export const calculateGst = (input: GstCalculationInput): GstCalculationResult => {
+  const { items, pricing, supplyType, reverseCharge, rounding } = validateGstInput(input);
+  const isIntra = supplyType === 'intra';
+  const steps: string[] = [];
+  const summaryByRate = new Map<number, { taxable: number; cgst: number; sgst: number; igst: number; cess: number }>();
+
+  steps.push(
+    `${isIntra ? 'Intra-state supply: GST splits equally into CGST and SGST' : 'Inter-state supply: GST is charged as IGST'}; ` +
+    `amounts are ${pricing === 'inclusive' ? 'inclusive of' : 'exclusive of'} tax.`
+  );
+
+  const lines: GstLineResult[] = items.map((item, index) => {
+    const quantity = item.quantity ?? 1;
+    const cessRate = item.cessRate ?? 0;
+    const grossOrTaxable = Math.round(toPaise(item.amount) * quantity);
+    const prefix = `${index + 1}. ${item.description}:`;
+    const base = quantity === 1 ? inr(grossOrTaxable) : `${inr(toPaise(item.amount))} × ${quantity} = ${inr(grossOrTaxable)}`;
+
+    let taxable: number;
+    let cgst = 0, sgst = 0, igst = 0;
+
+    if (pricing === 'exclusive') {
+      taxable = grossOrTaxable;
+      steps.push(`${prefix} taxable value ${base}`);
+    } else {
+      // Back out the tax, then let the taxable value absorb the last paisa so the line still totals the entered price
+      const divisor = 100 + item.rate + cessRate;
+      taxable = Math.round(grossOrTaxable * 100 / divisor);
+      steps.push(`${prefix} price ${base} includes ${item.rate + cessRate}% tax → taxable value ${inr(grossOrTaxable)} × 100 / ${divisor} = ${inr(taxable)}`);
+    }
+
+    if (isIntra) {
+      cgst = percentOf(taxable, item.rate / 2);
+      sgst = cgst;
+    } else {
+      igst = percentOf(taxable, item.rate);
+    }
+    const cess = percentOf(taxable, cessRate);
+
+    if (pricing === 'inclusive') {
+      const adjusted = grossOrTaxable - cgst - sgst - igst - cess;
+      if (adjusted !== taxable) {
+        steps.push(`${prefix} taxable value adjusted by ${inr(adjusted - taxable)} so the line matches the quoted price`);
+        taxable = adjusted;
+      }
+    }
+
+    const half = item.rate / 2;
+    steps.push(isIntra
+      ? `${prefix} CGST @ ${half}% = ${inr(cgst)}, SGST @ ${half}% = ${inr(sgst)}`
+      : `${prefix} IGST @ ${item.rate}% = ${inr(igst)}`);
+    if (cess > 0) steps.push(`${prefix} Cess @ ${cessRate}% = ${inr(cess)}`);
+
+    const totalTax = cgst + sgst + igst + cess;
+    const bucket = summaryByRate.get(item.rate) || { taxable: 0, cgst: 0, sgst: 0, igst: 0, cess: 0 };
+    bucket.taxable += taxable;
+    bucket.cgst += cgst;
+    bucket.sgst += sgst;
+    bucket.igst += igst;
+    bucket.cess += cess;
+    summaryByRate.set(item.rate, bucket);
+
+    return {
+      description: item.description || `Item ${index + 1}`,
+      quantity,
+      unitPrice: item.amount,
+      rate: item.rate,
+      taxableValue: toRupees(taxable),
+      cgst: toRupees(cgst),
+      sgst: toRupees(sgst),
+      igst: toRupees(igst),
+      cess: toRupees(cess),
+      totalTax: toRupees(totalTax),
+      // Under reverse charge the supplier bills only the taxable value
+      lineTotal: toRupees(reverseCharge ? taxable : taxable + totalTax)
+    };
+  });
+
+  const rateSummary: GstRateSummary[] = Array.from(summaryByRate.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([rate, bucket]) => ({
+      rate,
+      taxableValue: toRupees(bucket.taxable),
+      cgst: toRupees(bucket.cgst),
+      sgst: toRupees(bucket.sgst),
+      igst: toRupees(bucket.igst),
+      cess: toRupees(bucket.cess)
+    }));
+
+  const sum = (pick: (b: { taxable: number; cgst: number; sgst: number; igst: number; cess: number }) => number) =>
+    Array.from(summaryByRate.values()).reduce((acc, b) => acc + pick(b), 0);
+  const taxable = sum(b => b.taxable);
+  const cgst = sum(b => b.cgst);
+  const sgst = sum(b => b.sgst);
+  const igst = sum(b => b.igst);
+  const cess = sum(b => b.cess);
+  const totalTax = cgst + sgst + igst + cess;
+
+  steps.push(`Total taxable value = ${inr(taxable)}`);
+  steps.push(isIntra
+    ? `Total GST = CGST ${inr(cgst)} + SGST ${inr(sgst)}${cess > 0 ? ` + Cess ${inr(cess)}` : ''} = ${inr(totalTax)}`
+    : `Total GST = IGST ${inr(igst)}${cess > 0 ? ` + Cess ${inr(cess)}` : ''} = ${inr(totalTax)}`);
+
+  const billed = reverseCharge ? taxable : taxable + totalTax;
+  const invoiceTotal = roundTotal(billed, rounding);
+  const roundOff = invoiceTotal - billed;
+
+  if (reverseCharge) {
+    steps.push(`Reverse charge applies: the supplier bills ${inr(billed)} without GST and the recipient pays ${inr(totalTax)} directly to the government`);
+  } else {
+    steps.push(`Invoice value = ${inr(taxable)} + ${inr(totalTax)} = ${inr(billed)}`);
+  }
+  if (roundOff !== 0) {
+    steps.push(`Round-off (${rounding}) = ${roundOff > 0 ? '+' : ''}${inr(roundOff)}`);
+  }
+  steps.push(`Invoice total = ${inr(invoiceTotal)}`);
+
+  return {
+    pricing,
+    supplyType,
+    reverseCharge,
+    rounding,
+    lines,
+    rateSummary,
+    taxableValue: toRupees(taxable),
+    cgst: toRupees(cgst),
+    sgst: toRupees(sgst),
+    igst: toRupees(igst),
+    cess: toRupees(cess),
+    totalTax: toRupees(totalTax),
+    roundOff: toRupees(roundOff),
+    invoiceTotal: toRupees(invoiceTotal),
+    taxPayableByRecipient: reverseCharge ? toRupees(totalTax) : 0,
+    steps
+  };
+};
+
+// --- Model tool ---
+
+export const GST_TOOL_NAME = 'calculate_gst';
+
+export const GST_TOOL_DECLARATION: ToolDeclaration = {
+  name: GST_TOOL_NAME,
+  description: 'Calculates Indian GST exactly: taxable value, CGST/SGST or IGST, cess, reverse charge and round-off. Use it for every GST or tax figure instead of doing the arithmetic yourself.',
+  parameters: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        description: 'Line items being billed.',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string', description: 'Item or service name.' },
+            amount: { type: 'number', description: 'Unit price in rupees.' },
+            quantity: { type: 'number', description: 'Quantity, defaults to 1.' },
+            rate: { type: 'number', description: `GST rate in percent. One of ${GST_RATE_SLABS.join(', ')}.` },
+            cessRate: { type: 'number', description: 'Compensation cess in percent, if any.' }
+          },
+          required: ['amount', 'rate']
+        }
+      },
+      pricing: { type: 'string', enum: PRICING_VALUES, description: 'exclusive: amounts are before GST. inclusive: amounts already contain GST.' },
+      supplyType: { type: 'string', enum: SUPPLY_VALUES, description: 'intra: same state (CGST + SGST). inter: different states (IGST).' },
+      reverseCharge: { type: 'boolean', description: 'True when the recipient pays GST under reverse charge.' },
+      rounding: { type: 'string', enum: ROUNDING_VALUES, description: 'How to round the invoice total to whole rupees. Defaults to nearest.' }
+    },
+    required: ['items']
+  }
+};
@@ -0,0 +1,148 @@
+// OpenID Connect adapter: authorization code flow with PKCE in a popup, for a public client.
+// The popup is sent back to the app's own origin, where this window reads the code from its URL.
+// The ID token comes straight from the token endpoint over TLS, which OIDC Core (3.1.3.7) accepts
+// in place of checking its signature; issuer, audience, nonce and expiry are still verified.
+
+import { IdentityAssertion, IdentityProvider } from '../identityProvider';
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  label: string;
+  redirectUri?: string; // Must be registered with the provider; defaults to the app's origin
+  scope?: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+const POPUP_POLL_MS = 300;
+const POPUP_TIMEOUT_MS = 5 * 60 * 1000;
+
+const base64Url = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomToken = () => base64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const decodeJwtPayload = (token: string): Record<string, any> => {
+  const payload = token.split('.')[1];
+  if (!payload) throw new Error('The sign-in provider returned a malformed ID token.');
+  const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '='));
+  return JSON.parse(decodeURIComponent(Array.from(json, ch => `%${ch.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')));
+};
+
+// Resolves with the query of the redirect once the popup is back on our origin
+const waitForRedirect = (popup: Window, redirectUri: string): Promise<URLSearchParams> => new Promise((resolve, reject) => {
+  const startedAt = Date.now();
+  const timer = setInterval(() => {
+    if (popup.closed) {
+      clearInterval(timer);
+      reject(new Error('The sign-in window was closed.'));
+      return;
+    }
+    if (Date.now() - startedAt > POPUP_TIMEOUT_MS) {
+      clearInterval(timer);
+      popup.close();
+      reject(new Error('Sign-in timed out.'));
+      return;
+    }
+    try {
+      // Throws while the popup is on the provider's origin
+      const href = popup.location.href;
+      if (!href.startsWith(redirectUri)) return;
+      clearInterval(timer);
+      popup.close();
+      resolve(new URL(href).searchParams);
+    } catch {
+      // Still at the provider
+    }
+  }, POPUP_POLL_MS);
+});
+
+export const createOidcProvider = (config: OidcConfig): IdentityProvider => {
+  const issuer = config.issuer.replace(/\/$/, '');
+  let discovery: Promise<DiscoveryDocument> | null = null;
+
+  const discover = (): Promise<DiscoveryDocument> => {
+    if (!discovery) {
+      discovery = fetch(`${issuer}/.well-known/openid-configuration`).then(response => {
+        if (!response.ok) throw new Error(`Couldn't reach the sign-in provider (${response.status}).`);
+        return response.json();
+      });
+      discovery.catch(() => { discovery = null; });
+    }
+    return discovery;
+  };
+
+  const signIn = async (): Promise<IdentityAssertion> => {
+    const redirectUri = config.redirectUri || `${window.location.origin}/`;
+    // Opened before any await so popup blockers still see the click
+    const popup = window.open('', 'swiftmind-oidc', 'width=480,height=640');
+    if (!popup) throw new Error('Allow pop-ups for this site to sign in.');
+
+    try {
+      const doc = await discover();
+      const state = randomToken();
+      const nonce = randomToken();
+      const verifier = randomToken();
+      const challenge = base64Url(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier)));
+
+      const authorizeUrl = new URL(doc.authorization_endpoint);
+      Object.entries({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: redirectUri,
+        scope: config.scope || 'openid email profile',
+        state,
+        nonce,
+        code_challenge: challenge,
+        code_challenge_method: 'S256'
+      }).forEach(([key, value]) => authorizeUrl.searchParams.set(key, value));
+      popup.location.href = authorizeUrl.toString();
+
+      const params = await waitForRedirect(popup, redirectUri);
+      if (params.get('error')) throw new Error(params.get('error_description') || `Sign-in failed: ${params.get('error')}`);
+      if (params.get('state') !== state) throw new Error('Sign-in response did not match this request.');
+      const code = params.get('code');
+      if (!code) throw new Error('The sign-in provider returned no authorization code.');
+
+      const response = await fetch(doc.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          client_id: config.clientId,
+          code_verifier: verifier
+        })
+      });
+      if (!response.ok) throw new Error(`The sign-in provider rejected the login (${response.status}).`);
+      const { id_token: idToken } = await response.json();
+      if (typeof idToken !== 'string') throw new Error('The sign-in provider returned no ID token.');
+
+      const claims = decodeJwtPayload(idToken);
+      const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (claims.iss !== doc.issuer) throw new Error('The ID token was issued by someone else.');
+      if (!audience.includes(config.clientId)) throw new Error('The ID token is not meant for this app.');
+      if (claims.nonce !== nonce) throw new Error('The ID token does not belong to this sign-in.');
+      if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) throw new Error('The ID token has expired.');
+      if (typeof claims.email !== 'string' || !claims.email) throw new Error('The sign-in provider did not share an email address.');
+
+      return {
+        issuer: claims.iss,
+        subject: String(claims.sub),
+        email: claims.email,
+        name: typeof claims.name === 'string' && claims.name ? claims.name : claims.email.split('@')[0],
+        picture: typeof claims.picture === 'string' ? claims.picture : undefined
+      };
+    } finally {
+      if (!popup.closed) popup.close();
+    }
+  };
+
+  return { id: `oidc:${issuer}`, label: config.label, signIn };
+};
@@ -0,0 +1,27 @@
+// External sign-in abstraction used by the login screen.
+// An adapter (OIDC today, anything that can vouch for an email tomorrow) proves who the user is.
+// It does not replace the passphrase: that still unlocks the account's encrypted storage.
+
+export interface IdentityAssertion {
+  issuer: string;
+  subject: string; // Stable id at the issuer
+  email: string;
+  name: string;
+  picture?: string;
+}
+
+export interface IdentityProvider {
+  id: string;
+  label: string; // Button text, e.g. "Company SSO"
+  signIn: () => Promise<IdentityAssertion>;
+}
+
+// --- Registry ---
+
+const identityProviders = new Map<string, IdentityProvider>();
+
+export const registerIdentityProvider = (provider: IdentityProvider) => {
+  identityProviders.set(provider.id, provider);
+};
+
+export const getIdentityProviders = (): IdentityProvider[] => Array.from(identityProviders.values());
@@ -1,5 +1,49 @@
 // This service handles interactions with the iLovePDF API
 // API Config: https://developer.ilovepdf.com/docs/api-reference
+// Without a public key, tasks go to the SwiftMind server when configured, else through the
+// local key proxy, which adds the project's key.
+
+import { API_PROXY_URL } from './keyVault';
+import { isApiServerEnabled, postToServer } from './apiServer';
+import { errorFromResponse, withRetry, ServiceError } from './serviceErrors';
+import { dataUrlToBlob, blobToDataUrl } from '../utils/dataUrl';
+import { ConversionStage } from '../types';
+
+const API_HOST = 'api.ilovepdf.com';
+const STATUS_POLL_MS = 2000;
+const STATUS_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Conversions to and from Office formats
+export type ConvertTool = 'pdfexcel' | 'pdfword' | 'officepdf' | 'pdfpowerpoint';
+// Tools that work on PDFs themselves
+export type PdfTool = 'merge' | 'split' | 'compress' | 'pdfocr' | 'protect';
+export type ILovePdfTool = ConvertTool | PdfTool;
+
+export type CompressionLevel = 'low' | 'recommended' | 'extreme';
+
+export interface PdfToolOptions {
+    ranges?: string; // split: e.g. "1-3,5"; every page on its own when empty
+    compressionLevel?: CompressionLevel; // compress
+    ocrLanguages?: string[]; // pdfocr: ISO 639-2 codes, e.g. ['eng', 'hin']
+    password?: string; // protect
+}
+
+export interface ILovePdfFile {
+    name: string;
+    data: string; // base64 data URL
+}
+
+export interface ILovePdfResult {
+    data: string; // base64 data URL
+    filename: string;
+    mimeType: string;
+    fileCount: number; // Several output files arrive as one ZIP
+}
+
+export const COMPRESSION_LEVELS: CompressionLevel[] = ['low', 'recommended', 'extreme'];
+export const SPLIT_RANGES_RE = /^\s*\d+(\s*-\s*\d+)?(\s*,\s*\d+(\s*-\s*\d+)?)*\s*$/;
+
+const MIN_FILES: Partial<Record<ILovePdfTool, number>> = { merge: 2 };
 
 interface AuthResponse {
     token: string;
@@ -14,124 +58,216 @@ interface UploadResponse {
     server_filename: string;
 }
 
-interface ProcessResponse {
+interface TaskStatusResponse {
     download_filename: string;
     filesize: number;
     output_filesize: number;
     output_filenumber: number;
-    output_extensions: string[];
+    output_extensions: string[] | string;
     timer: string;
     status: string;
+    status_message?: string;
 }
 
-export const convertWithILovePDF = async (
-    fileDataUrl: string,
-    fileName: string,
-    tool: string, // e.g., 'pdfexcel', 'pdfword', 'officepdf'
-    publicKey: string,
-    secretKey: string
-): Promise<{ data: string, filename: string, mimeType: string }> => {
-    
-    // Helper to convert dataURL to Blob
-    const dataURLtoBlob = (dataurl: string) => {
-        const arr = dataurl.split(',');
-        const mime = arr[0].match(/:(.*?);/)![1];
-        const bstr = atob(arr[1]);
-        let n = bstr.length;
-        const u8arr = new Uint8Array(n);
-        while (n--) {
-            u8arr[n] = bstr.charCodeAt(n);
-        }
-        return new Blob([u8arr], { type: mime });
+const apiUrl = (host: string, path: string, viaProxy: boolean) =>
+    viaProxy ? `${API_PROXY_URL}/ilovepdf/${host}${path}` : `https://${host}${path}`;
+
+const invalidInput = (message: string) => new ServiceError('invalid_input', message);
+
+// Checks files and options before anything is uploaded, so mistakes fail fast instead of after retries
+export const validatePdfTask = (tool: ILovePdfTool, files: ILovePdfFile[], options: PdfToolOptions = {}) => {
+    const minFiles = MIN_FILES[tool] ?? 1;
+    if (files.length < minFiles) {
+        throw invalidInput(minFiles > 1 ? `Select at least ${minFiles} PDF files to ${tool}.` : 'Select a file first.');
+    }
+    if (tool === 'split' && options.ranges && !SPLIT_RANGES_RE.test(options.ranges)) {
+        throw invalidInput('Page ranges look like "1-3,5,8-10".');
+    }
+    if (tool === 'protect' && !options.password) throw invalidInput('Enter a password to protect the PDF with.');
+};
+
+// Process parameters for each tool; conversions take none
+const toolParameters = (tool: ILovePdfTool, options: PdfToolOptions): Record<string, unknown> => {
+    switch (tool) {
+        case 'split':
+            return options.ranges
+                ? { split_mode: 'ranges', ranges: options.ranges.replace(/\s+/g, ''), merge_after: false }
+                : { split_mode: 'fixed_range', fixed_range: 1 };
+        case 'compress':
+            return { compression_level: options.compressionLevel ?? 'recommended' };
+        case 'pdfocr':
+            return { ocr_languages: options.ocrLanguages?.length ? options.ocrLanguages : ['eng'] };
+        case 'protect':
+            return { password: options.password };
+        default:
+            return {};
+    }
+};
+
+// iLovePDF names the output itself; blobs from it and the proxy don't always carry a useful type
+const mimeTypeFor = (filename: string, fallback: string): string => {
+    const extension = filename.split('.').pop()?.toLowerCase();
+    const known: Record<string, string> = {
+        pdf: 'application/pdf',
+        zip: 'application/zip',
+        docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
     };
+    return (extension && known[extension]) || fallback || 'application/octet-stream';
+};
 
-    const fileBlob = dataURLtoBlob(fileDataUrl);
+// Stage updates for progress bars; progress is 0-1 within the stage when it can be measured
+export type ILovePdfProgress = (stage: ConversionStage, progress?: number) => void;
+
+// Reads a response body while reporting how much of it has arrived
+const readBody = async (response: Response, onProgress?: (progress: number) => void): Promise<Blob> => {
+    const total = Number(response.headers.get('Content-Length'));
+    if (!onProgress || !total || !response.body) return response.blob();
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        received += value.length;
+        onProgress(Math.min(1, received / total));
+    }
+    return new Blob(chunks, { type: response.headers.get('Content-Type') || '' });
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+export const runILovePdfTask = async (
+    tool: ILovePdfTool,
+    files: ILovePdfFile[],
+    options: PdfToolOptions,
+    publicKey: string,
+    signal?: AbortSignal,
+    onProgress?: ILovePdfProgress
+): Promise<ILovePdfResult> => {
+    validatePdfTask(tool, files, options);
+
+    // The SwiftMind server runs the whole task with its own key
+    if (isApiServerEnabled() && !publicKey) {
+        // The server uploads and processes in one request, so only the download can be measured
+        const result: ILovePdfResult = await withRetry(async () => {
+            onProgress?.('process');
+            const response = await postToServer('/convert', { tool, files, options }, signal);
+            onProgress?.('download', 0);
+            return JSON.parse(await (await readBody(response, progress => onProgress?.('download', progress))).text());
+        }, { signal });
+        return { ...result, mimeType: mimeTypeFor(result.filename, result.mimeType) };
+    }
+
+    const viaProxy = !publicKey;
+    const blobs = files.map(file => dataUrlToBlob(file.data));
+
+    // A failed step restarts the whole task: iLovePDF tasks can't be resumed halfway
+    const runTask = async (): Promise<ILovePdfResult> => {
+        onProgress?.('upload', 0);
 
-    try {
         // 1. Auth - Get Token
-        const authRes = await fetch('https://api.ilovepdf.com/v1/auth', {
+        const authRes = await fetch(apiUrl(API_HOST, '/v1/auth', viaProxy), {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ public_key: publicKey })
+            body: JSON.stringify(viaProxy ? {} : { public_key: publicKey }),
+            signal
         });
-        
-        if (!authRes.ok) throw new Error('Auth failed. Check Public Key.');
+
+        if (!authRes.ok) throw errorFromResponse(authRes, 'iLovePDF sign-in failed');
         const authData: AuthResponse = await authRes.json();
-        const token = authData.token;
+        const auth = { 'Authorization': `Bearer ${authData.token}` };
 
         // 2. Start Task
-        const startRes = await fetch(`https://api.ilovepdf.com/v1/start/${tool}`, {
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${token}` }
-        });
-
-        if (!startRes.ok) throw new Error('Start task failed.');
-        const startData: StartResponse = await startRes.json();
-        const { server, task } = startData;
+        const startRes = await fetch(apiUrl(API_HOST, `/v1/start/${tool}`, viaProxy), { headers: auth, signal });
 
-        // 3. Upload File
-        const formData = new FormData();
-        formData.append('task', task);
-        formData.append('file', fileBlob, fileName);
+        if (!startRes.ok) throw errorFromResponse(startRes, 'iLovePDF could not start the task');
+        const { server, task }: StartResponse = await startRes.json();
 
-        const uploadRes = await fetch(`https://${server}/v1/upload`, {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${token}` },
-            body: formData
-        });
+        // 3. Upload Files, in order (merge keeps it)
+        const uploaded: { server_filename: string; filename: string }[] = [];
+        for (const [i, file] of files.entries()) {
+            const formData = new FormData();
+            formData.append('task', task);
+            formData.append('file', blobs[i], file.name);
 
-        if (!uploadRes.ok) throw new Error('Upload failed.');
-        const uploadData: UploadResponse = await uploadRes.json();
-        const { server_filename } = uploadData;
+            const uploadRes = await fetch(apiUrl(server, '/v1/upload', viaProxy), {
+                method: 'POST',
+                headers: auth,
+                body: formData,
+                signal
+            });
 
-        // 4. Process File
-        const processBody = {
-            task: task,
-            tool: tool,
-            files: [{ server_filename: server_filename, filename: fileName }],
-            // Add other parameters if needed based on tool
-        };
+            if (!uploadRes.ok) throw errorFromResponse(uploadRes, `iLovePDF upload of ${file.name} failed`);
+            const uploadData: UploadResponse = await uploadRes.json();
+            uploaded.push({ server_filename: uploadData.server_filename, filename: file.name });
+            onProgress?.('upload', (i + 1) / files.length);
+        }
+        onProgress?.('process');
 
-        const processRes = await fetch(`https://${server}/v1/process`, {
+        // 4. Process Files
+        const processRes = await fetch(apiUrl(server, '/v1/process', viaProxy), {
             method: 'POST',
-            headers: { 
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(processBody)
+            headers: { ...auth, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ task, tool, files: uploaded, ...toolParameters(tool, options) }),
+            signal
         });
 
-        if (!processRes.ok) throw new Error('Process failed.');
-        const processData: ProcessResponse = await processRes.json();
-        // iLovePDF processing is async but the process endpoint often waits? 
-        // Docs say process returns info, then we download.
+        if (!processRes.ok) throw errorFromResponse(processRes, 'iLovePDF could not process the files');
+        let status: TaskStatusResponse = await processRes.json();
+
+        // Processing normally finishes within the request; large tasks report progress via the task status
+        const deadline = Date.now() + STATUS_TIMEOUT_MS;
+        while (!status.status.startsWith('TaskSuccess')) {
+            if (status.status !== 'TaskWaiting' && status.status !== 'TaskProcessing') {
+                throw new ServiceError('server', `iLovePDF could not finish the task: ${status.status_message || status.status}.`, { detail: status.status });
+            }
+            if (Date.now() > deadline) throw new ServiceError('server', 'iLovePDF is taking too long. Try again later.', { retryable: false });
+            await sleep(STATUS_POLL_MS, signal);
+            const statusRes = await fetch(apiUrl(server, `/v1/task/${task}`, viaProxy), { headers: auth, signal });
+            if (!statusRes.ok) throw errorFromResponse(statusRes, 'iLovePDF task status failed');
+            status = await statusRes.json();
+        }
 
         // 5. Download File
-        const downloadRes = await fetch(`https://${server}/v1/download/${task}`, {
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${token}` }
-        });
+        const downloadRes = await fetch(apiUrl(server, `/v1/download/${task}`, viaProxy), { headers: auth, signal });
 
-        if (!downloadRes.ok) throw new Error('Download failed.');
-        const downloadBlob = await downloadRes.blob();
-        
-        // Convert Blob to Base64/DataURL for our app to handle
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64data = reader.result as string;
-                resolve({
-                    data: base64data,
-                    filename: `converted_${fileName.split('.')[0]}.${tool === 'pdfexcel' ? 'xlsx' : tool === 'pdfword' ? 'docx' : 'pdf'}`, // Simple extension guess
-                    mimeType: downloadBlob.type
-                });
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(downloadBlob);
-        });
+        if (!downloadRes.ok) throw errorFromResponse(downloadRes, 'iLovePDF download failed');
+        onProgress?.('download', 0);
+        const downloadBlob = await readBody(downloadRes, progress => onProgress?.('download', progress));
+        const filename = status.download_filename || `${tool}_${files[0].name}`;
+        const mimeType = mimeTypeFor(filename, downloadBlob.type);
 
+        return {
+            data: await blobToDataUrl(new Blob([downloadBlob], { type: mimeType })),
+            filename,
+            mimeType,
+            fileCount: status.output_filenumber || 1
+        };
+    };
+
+    try {
+        return await withRetry(runTask, { signal });
     } catch (error) {
-        console.error("iLovePDF Service Error:", error);
+        if (!signal?.aborted) console.error("iLovePDF Service Error:", error);
         throw error;
     }
-};
\ No newline at end of file
+};
+
+// Single-file conversion for the Converter's format buttons
+export const convertWithILovePDF = (
+    fileDataUrl: string,
+    fileName: string,
+    tool: ConvertTool,
+    publicKey: string,
+    signal?: AbortSignal,
+    onProgress?: ILovePdfProgress
+): Promise<ILovePdfResult> => runILovePdfTask(tool, [{ name: fileName, data: fileDataUrl }], {}, publicKey, signal, onProgress);
@@ -0,0 +1,298 @@
+// Invoice exports. Each returns DownloadData so the chat card and the invoice list
+// share the same download path as converter output.
+
+import { Invoice, DownloadData, GstCalculationResult } from '../types';
+import { calculateInvoiceTotals, getBilledItems } from './invoiceService';
+import { getInvoiceTemplate } from './invoiceTemplates';
+import { createPdfDocument, wrapText, PdfDocument } from '../utils/pdfWriter';
+
+// --- Formatting ---
+
+const money = (value: number) =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatInvoiceDate = (isoDate: string): string => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  if (!year || !month || !day) return isoDate;
+  return new Date(year, month - 1, day).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+};
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number) => (n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ''}`);
+
+const belowThousand = (n: number) => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? belowHundred(rest) : ''].filter(Boolean).join(' ');
+};
+
+// Indian numbering: crore, lakh, thousand
+export const amountInWords = (amount: number): string => {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+  if (rupees === 0 && paise === 0) return 'Rupees Zero Only';
+
+  const parts: string[] = [];
+  const crore = Math.floor(rupees / 10000000);
+  const lakh = Math.floor((rupees % 10000000) / 100000);
+  const thousand = Math.floor((rupees % 100000) / 1000);
+  const rest = rupees % 1000;
+  if (crore) parts.push(`${crore >= 1000 ? amountInWords(crore).replace(/^Rupees | Only$/g, '') : belowThousand(crore)} Crore`);
+  if (lakh) parts.push(`${belowHundred(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowHundred(thousand)} Thousand`);
+  if (rest) parts.push(belowThousand(rest));
+
+  const words = parts.length ? `Rupees ${parts.join(' ')}` : 'Rupees Zero';
+  return `${words}${paise ? ` and ${belowHundred(paise)} Paise` : ''} Only`;
+};
+
+const baseFileName = (invoice: Invoice) => invoice.number.replace(/[^\w-]+/g, '_');
+
+// --- JSON ---
+
+export const invoiceToJson = (invoice: Invoice): DownloadData => {
+  const totals = calculateInvoiceTotals(invoice);
+  const payload = {
+    version: 1,
+    invoice,
+    totals: totals && {
+      taxableValue: totals.taxableValue,
+      cgst: totals.cgst,
+      sgst: totals.sgst,
+      igst: totals.igst,
+      totalTax: totals.totalTax,
+      roundOff: totals.roundOff,
+      invoiceTotal: totals.invoiceTotal,
+      taxPayableByRecipient: totals.taxPayableByRecipient
+    }
+  };
+  return {
+    fileName: `${baseFileName(invoice)}.json`,
+    data: JSON.stringify(payload, null, 2),
+    mimeType: 'application/json'
+  };
+};
+
+// --- CSV ---
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const invoiceToCsv = (invoice: Invoice): DownloadData => {
+  const totals = calculateInvoiceTotals(invoice);
+  const header = ['Invoice Number', 'Issue Date', 'Due Date', 'Buyer', 'Description', 'HSN/SAC', 'Quantity', 'Unit Price',
+    'GST Rate', 'Taxable Value', 'CGST', 'SGST', 'IGST', 'Line Total'];
+  const rows: (string | number)[][] = [header];
+  const billedItems = getBilledItems(invoice);
+
+  totals?.lines.forEach((line, i) => {
+    rows.push([
+      invoice.number, invoice.issueDate, invoice.dueDate, invoice.buyer.name,
+      line.description, billedItems[i]?.hsn || '', line.quantity, line.unitPrice.toFixed(2),
+      `${line.rate}%`, line.taxableValue.toFixed(2), line.cgst.toFixed(2), line.sgst.toFixed(2), line.igst.toFixed(2),
+      line.lineTotal.toFixed(2)
+    ]);
+  });
+
+  if (totals) {
+    rows.push(['', '', '', '', 'Round-off', '', '', '', '', '', '', '', '', totals.roundOff.toFixed(2)]);
+    rows.push(['', '', '', '', 'Invoice Total', '', '', '', '', totals.taxableValue.toFixed(2), totals.cgst.toFixed(2),
+      totals.sgst.toFixed(2), totals.igst.toFixed(2), totals.invoiceTotal.toFixed(2)]);
+  }
+
+  return {
+    fileName: `${baseFileName(invoice)}.csv`,
+    data: rows.map(row => row.map(csvCell).join(',')).join('\n'),
+    mimeType: 'text/csv'
+  };
+};
+
+// --- PDF ---
+
+const MARGIN = 40;
+const FOOTER_SPACE = 60;
+
+interface Column {
+  label: string;
+  width: number;
+  align: 'left' | 'right';
+}
+
+const COLUMNS: Column[] = [
+  { label: '#', width: 22, align: 'left' },
+  { label: 'Description', width: 165, align: 'left' },
+  { label: 'HSN/SAC', width: 52, align: 'left' },
+  { label: 'Qty', width: 36, align: 'right' },
+  { label: 'Rate', width: 62, align: 'right' },
+  { label: 'Taxable', width: 68, align: 'right' },
+  { label: 'GST', width: 40, align: 'right' },
+  { label: 'Amount', width: 70, align: 'right' }
+];
+
+const drawParty = (pdf: PdfDocument, title: string, party: Invoice['seller'], x: number, y: number, width: number): number => {
+  pdf.text(title.toUpperCase(), x, y, { size: 8, bold: true, color: '#6b7280' });
+  let cursor = y + 14;
+  pdf.text(party.name || '-', x, cursor, { size: 11, bold: true });
+  cursor += 15;
+  const details = [
+    ...wrapText(party.address || '', width, 9),
+    party.state ? `State: ${party.state}` : '',
+    party.gstin ? `GSTIN: ${party.gstin}` : '',
+    [party.email, party.phone].filter(Boolean).join('  |  ')
+  ].filter(Boolean);
+  details.forEach(detail => {
+    pdf.text(detail, x, cursor, { size: 9, color: '#4b5563' });
+    cursor += 12;
+  });
+  return cursor;
+};
+
+const drawTableHeader = (pdf: PdfDocument, y: number, fill?: string): number => {
+  const tableWidth = pdf.width - MARGIN * 2;
+  if (fill) pdf.rect(MARGIN, y, tableWidth, 20, { fill });
+  else pdf.line(MARGIN, y + 20, MARGIN + tableWidth, y + 20, { stroke: '#111827' });
+  let x = MARGIN;
+  COLUMNS.forEach(col => {
+    const textX = col.align === 'right' ? x + col.width - 6 : x + 6;
+    pdf.text(col.label, textX, y + 6, { size: 8, bold: true, color: '#374151', align: col.align });
+    x += col.width;
+  });
+  return y + 20;
+};
+
+const drawTotals = (pdf: PdfDocument, invoice: Invoice, totals: GstCalculationResult, y: number, highlight: string): number => {
+  const labelX = pdf.width - MARGIN - 200;
+  const valueX = pdf.width - MARGIN - 6;
+  const rows: [string, number][] = [['Taxable value', totals.taxableValue]];
+  if (invoice.supplyType === 'intra') {
+    rows.push(['CGST', totals.cgst], ['SGST', totals.sgst]);
+  } else {
+    rows.push(['IGST', totals.igst]);
+  }
+  if (totals.roundOff !== 0) rows.push(['Round-off', totals.roundOff]);
+
+  let cursor = y;
+  rows.forEach(([label, value]) => {
+    pdf.text(label, labelX, cursor, { size: 9, color: '#4b5563' });
+    pdf.text(money(value), valueX, cursor, { size: 9, align: 'right' });
+    cursor += 14;
+  });
+  pdf.line(labelX, cursor, valueX + 6, cursor, { stroke: '#d1d5db' });
+  cursor += 6;
+  pdf.text('Total (INR)', labelX, cursor, { size: 11, bold: true, color: highlight });
+  pdf.text(money(totals.invoiceTotal), valueX, cursor, { size: 11, bold: true, color: highlight, align: 'right' });
+  return cursor + 20;
+};
+
+export const renderInvoicePdf = (invoice: Invoice): PdfDocument => {
+  const template = getInvoiceTemplate(invoice.template);
+  const totals = calculateInvoiceTotals(invoice);
+  const pdf = createPdfDocument();
+  const right = pdf.width - MARGIN;
+  const isTaxInvoice = invoice.items.some(item => item.taxRate > 0);
+
+  // Title block
+  const titleColor = template.headerBand ? '#ffffff' : template.accent;
+  const metaColor = template.headerBand ? '#e5e7eb' : '#4b5563';
+  if (template.headerBand) pdf.rect(0, 0, pdf.width, 96, { fill: template.accent });
+  pdf.text(isTaxInvoice ? 'TAX INVOICE' : 'INVOICE', MARGIN, 30, { size: 22, bold: true, color: titleColor });
+  pdf.text(invoice.seller.name || '', MARGIN, 60, { size: 11, color: metaColor });
+  pdf.text(`No. ${invoice.number}`, right, 28, { size: 11, bold: true, color: titleColor, align: 'right' });
+  pdf.text(`Issued ${formatInvoiceDate(invoice.issueDate)}`, right, 46, { size: 9, color: metaColor, align: 'right' });
+  pdf.text(`Due ${formatInvoiceDate(invoice.dueDate)}`, right, 60, { size: 9, color: metaColor, align: 'right' });
+  if (!template.headerBand) pdf.line(MARGIN, 88, right, 88, { stroke: template.accent, lineWidth: 1.5 });
+
+  // Parties
+  const columnWidth = (right - MARGIN - 30) / 2;
+  const sellerEnd = drawParty(pdf, 'From', invoice.seller, MARGIN, 120, columnWidth);
+  const buyerEnd = drawParty(pdf, 'Bill To', invoice.buyer, MARGIN + columnWidth + 30, 120, columnWidth);
+  let y = Math.max(sellerEnd, buyerEnd) + 8;
+
+  pdf.text(
+    `${invoice.supplyType === 'intra' ? 'Intra-state supply (CGST + SGST)' : 'Inter-state supply (IGST)'}  |  Prices ${invoice.pricing} of GST`,
+    MARGIN, y, { size: 8, color: '#6b7280' }
+  );
+  y += 18;
+
+  // Line items
+  y = drawTableHeader(pdf, y, template.tableHeaderFill);
+  const billedItems = getBilledItems(invoice);
+  (totals?.lines || []).forEach((line, i) => {
+    const item = billedItems[i];
+    const descriptionLines = wrapText(line.description, COLUMNS[1].width - 12, 9);
+    const rowHeight = Math.max(20, descriptionLines.length * 11 + 9);
+
+    if (y + rowHeight > pdf.height - FOOTER_SPACE) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, MARGIN, template.tableHeaderFill);
+    }
+    if (template.zebraFill && i % 2 === 1) {
+      pdf.rect(MARGIN, y, right - MARGIN, rowHeight, { fill: template.zebraFill });
+    }
+
+    const cells = [
+      String(i + 1),
+      '',
+      item?.hsn || '',
+      String(line.quantity),
+      money(line.unitPrice),
+      money(line.taxableValue),
+      `${line.rate}%`,
+      money(line.lineTotal)
+    ];
+    let x = MARGIN;
+    COLUMNS.forEach((col, c) => {
+      if (c === 1) {
+        descriptionLines.forEach((text, l) => pdf.text(text, x + 6, y + 6 + l * 11, { size: 9 }));
+      } else {
+        const textX = col.align === 'right' ? x + col.width - 6 : x + 6;
+        pdf.text(cells[c], textX, y + 6, { size: 9, align: col.align });
+      }
+      x += col.width;
+    });
+    y += rowHeight;
+    pdf.line(MARGIN, y, right, y, { stroke: '#e5e7eb', lineWidth: 0.5 });
+  });
+
+  // Totals, amount in words and notes
+  const notes = invoice.notes ? wrapText(invoice.notes, right - MARGIN, 9) : [];
+  if (y + 140 + notes.length * 12 > pdf.height - FOOTER_SPACE) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  y += 14;
+  if (totals) {
+    y = drawTotals(pdf, invoice, totals, y, template.highlight);
+    wrapText(`Amount in words: ${amountInWords(totals.invoiceTotal)}`, right - MARGIN, 9).forEach(text => {
+      pdf.text(text, MARGIN, y, { size: 9, color: '#374151' });
+      y += 12;
+    });
+    if (invoice.reverseCharge) {
+      pdf.text(`Tax payable on reverse charge basis: Yes (Rs. ${money(totals.taxPayableByRecipient)} payable by the recipient)`, MARGIN, y + 4, { size: 9, bold: true });
+      y += 16;
+    }
+  }
+  if (notes.length > 0) {
+    y += 12;
+    pdf.text('NOTES', MARGIN, y, { size: 8, bold: true, color: '#6b7280' });
+    y += 13;
+    notes.forEach(text => {
+      pdf.text(text, MARGIN, y, { size: 9, color: '#4b5563' });
+      y += 12;
+    });
+  }
+
+  pdf.text('This is a computer-generated invoice.', pdf.width / 2, pdf.height - 36, { size: 8, color: '#9ca3af', align: 'center' });
+  return pdf;
+};
+
+export const invoiceToPdf = (invoice: Invoice): DownloadData => ({
+  fileName: `${baseFileName(invoice)}.pdf`,
+  data: renderInvoicePdf(invoice).toDataUrl(),
+  mimeType: 'application/pdf'
+});
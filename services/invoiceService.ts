@@ -0,0 +1,359 @@
+import { Invoice, InvoiceLineItem, InvoiceParty, GstCalculationResult, GstSupplyType } from '../types';
+import { calculateGst, GST_RATE_SLABS } from './gstEngine';
+import { ToolDeclaration } from './modelProvider';
+import { openText, sealText } from './storageService';
+import { v4 as uuidv4 } from 'uuid';
+
+const INVOICES_PREFIX = 'swiftmind_invoices_';
+const INVOICE_SEQ_PREFIX = 'swiftmind_invoice_seq_';
+const SELLER_PREFIX = 'swiftmind_invoice_seller_';
+
+const DEFAULT_DUE_DAYS = 15;
+
+// --- Dates ---
+
+// Local calendar date as YYYY-MM-DD (toISOString would shift to UTC)
+export const toDateInputValue = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const addDays = (isoDate: string, days: number): string => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return toDateInputValue(new Date(year, month - 1, day + days));
+};
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+// --- Storage ---
+
+// Invoices carry names, addresses and GSTINs, so they and the saved seller are sealed with the account's
+// data key. The unsealed copy lives in memory while the account is unlocked (see loadInvoices).
+let activeUserId: string | null = null;
+let invoices: Invoice[] = [];
+let savedSeller: InvoiceParty | null = null;
+// Writes are chained so an older snapshot never lands after a newer one
+let saving: Promise<void> = Promise.resolve();
+
+// Earlier versions kept plain JSON; sealed values are base64 and never start with a bracket
+const isPlainJson = (stored: string) => stored.startsWith('[') || stored.startsWith('{');
+
+const readStored = async <T>(userId: string, key: string): Promise<{ value: T | null; plain: boolean }> => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return { value: null, plain: false };
+  if (isPlainJson(stored)) return { value: JSON.parse(stored), plain: true };
+  return { value: await openText<T>(userId, stored), plain: false };
+};
+
+const persist = (userId: string) => {
+  const snapshot = invoices;
+  const seller = savedSeller;
+  saving = saving.then(async () => {
+    localStorage.setItem(`${INVOICES_PREFIX}${userId}`, await sealText(userId, snapshot));
+    if (seller) localStorage.setItem(`${SELLER_PREFIX}${userId}`, await sealText(userId, seller));
+  }).catch(error => console.warn("Failed to save invoices:", error));
+};
+
+// Opens the account's invoices once it is unlocked; plaintext ones from earlier versions are sealed
+export const loadInvoices = async (userId: string): Promise<Invoice[]> => {
+  clearInvoices();
+  const [stored, seller] = await Promise.all([
+    readStored<Invoice[]>(userId, `${INVOICES_PREFIX}${userId}`),
+    readStored<InvoiceParty>(userId, `${SELLER_PREFIX}${userId}`)
+  ]);
+  activeUserId = userId;
+  invoices = stored.value || [];
+  savedSeller = seller.value;
+  if (stored.plain || seller.plain) persist(userId);
+  return getUserInvoices(userId);
+};
+
+// Resolves once every save so far is written. Call before the account locks.
+export const flushInvoices = (): Promise<void> => saving;
+
+export const clearInvoices = () => {
+  activeUserId = null;
+  invoices = [];
+  savedSeller = null;
+};
+
+export const getUserInvoices = (userId: string): Invoice[] =>
+  userId === activeUserId ? [...invoices].sort((a, b) => b.createdAt - a.createdAt) : [];
+
+const saveUserInvoices = (userId: string, next: Invoice[]) => {
+  // Saving before the list is open would replace everything stored with just this change
+  if (userId !== activeUserId) throw new Error('Invoices are not open for this account yet.');
+  invoices = next;
+  persist(userId);
+};
+
+export const saveInvoice = (invoice: Invoice): Invoice => {
+  const saved = { ...invoice, updatedAt: Date.now() };
+  const others = getUserInvoices(invoice.userId).filter(i => i.id !== invoice.id);
+  // Remember the seller so the next invoice starts pre-filled
+  if (saved.seller.name.trim()) savedSeller = saved.seller;
+  saveUserInvoices(invoice.userId, [saved, ...others]);
+  return saved;
+};
+
+export const deleteInvoice = (userId: string, invoiceId: string) => {
+  saveUserInvoices(userId, getUserInvoices(userId).filter(i => i.id !== invoiceId));
+};
+
+const getSavedSeller = (userId: string): InvoiceParty | null => (userId === activeUserId ? savedSeller : null);
+
+// Numbers only ever move forward, so a deleted invoice never frees its number for reuse
+export const nextInvoiceNumber = (userId: string, issueDate: string): string => {
+  const key = `${INVOICE_SEQ_PREFIX}${userId}`;
+  const next = (parseInt(localStorage.getItem(key) || '0', 10) || 0) + 1;
+  localStorage.setItem(key, String(next));
+  return `INV-${issueDate.slice(0, 4)}-${String(next).padStart(4, '0')}`;
+};
+
+// --- Backup ---
+
+export interface InvoiceBackup {
+  invoices: Invoice[];
+  sequence: number; // Last number handed out, so restored numbering carries on
+  seller: InvoiceParty | null;
+}
+
+export const getInvoiceBackup = (userId: string): InvoiceBackup => ({
+  invoices: getUserInvoices(userId),
+  sequence: parseInt(localStorage.getItem(`${INVOICE_SEQ_PREFIX}${userId}`) || '0', 10) || 0,
+  seller: getSavedSeller(userId)
+});
+
+// Adds a backup's invoices to the open account. An invoice on both sides keeps whichever copy was
+// saved last, the sequence never moves back and a seller already saved here wins. Returns how many
+// invoices were added or updated.
+export const restoreInvoices = (userId: string, backup: InvoiceBackup): number => {
+  const local = new Map(getUserInvoices(userId).map(invoice => [invoice.id, invoice]));
+  let changed = 0;
+  backup.invoices.forEach(invoice => {
+    const current = local.get(invoice.id);
+    if (current && current.updatedAt >= invoice.updatedAt) return;
+    local.set(invoice.id, { ...invoice, userId });
+    changed++;
+  });
+
+  const key = `${INVOICE_SEQ_PREFIX}${userId}`;
+  const sequence = parseInt(localStorage.getItem(key) || '0', 10) || 0;
+  if (backup.sequence > sequence) localStorage.setItem(key, String(backup.sequence));
+  if (!getSavedSeller(userId) && backup.seller) savedSeller = backup.seller;
+
+  saveUserInvoices(userId, Array.from(local.values()));
+  return changed;
+};
+
+// --- Construction ---
+
+const emptyParty = (): InvoiceParty => ({ name: '', address: '' });
+
+export const createLineItem = (item: Partial<InvoiceLineItem> = {}): InvoiceLineItem => ({
+  id: uuidv4(),
+  description: item.description || '',
+  hsn: item.hsn,
+  quantity: item.quantity ?? 1,
+  unitPrice: item.unitPrice ?? 0,
+  taxRate: item.taxRate ?? 18
+});
+
+// Same state means CGST + SGST; different states means IGST. Unknown states keep the current choice.
+export const inferSupplyType = (seller: InvoiceParty, buyer: InvoiceParty, fallback: GstSupplyType = 'intra'): GstSupplyType => {
+  const from = seller.state?.trim().toLowerCase();
+  const to = buyer.state?.trim().toLowerCase();
+  if (!from || !to) return fallback;
+  return from === to ? 'intra' : 'inter';
+};
+
+export const createInvoice = (userId: string, draft: Partial<Invoice> = {}, sessionId?: string): Invoice => {
+  const issueDate = isIsoDate(draft.issueDate) ? draft.issueDate : toDateInputValue(new Date());
+  const seller = { ...(getSavedSeller(userId) || emptyParty()), ...draft.seller };
+  const buyer = { ...emptyParty(), ...draft.buyer };
+  const now = Date.now();
+
+  const invoice: Invoice = {
+    id: uuidv4(),
+    number: nextInvoiceNumber(userId, issueDate),
+    userId,
+    sessionId,
+    status: 'draft',
+    template: draft.template || 'classic',
+    issueDate,
+    dueDate: isIsoDate(draft.dueDate) ? draft.dueDate : addDays(issueDate, DEFAULT_DUE_DAYS),
+    seller,
+    buyer,
+    items: draft.items && draft.items.length > 0 ? draft.items : [createLineItem()],
+    pricing: draft.pricing || 'exclusive',
+    supplyType: draft.supplyType || inferSupplyType(seller, buyer),
+    reverseCharge: draft.reverseCharge ?? false,
+    notes: draft.notes,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  return saveInvoice(invoice);
+};
+
+// --- Totals ---
+
+// Blank rows left in the editor are not billed
+export const getBilledItems = (invoice: Invoice): InvoiceLineItem[] =>
+  invoice.items.filter(item => item.description.trim() || item.unitPrice > 0);
+
+// Taxes always come from the GST engine so the invoice, its PDF and the chat agree to the paisa
+export const calculateInvoiceTotals = (invoice: Invoice): GstCalculationResult | null => {
+  const items = getBilledItems(invoice);
+  if (items.length === 0) return null;
+  try {
+    return calculateGst({
+      items: items.map(item => ({
+        description: item.description || 'Item',
+        amount: item.unitPrice,
+        quantity: item.quantity,
+        rate: item.taxRate
+      })),
+      pricing: invoice.pricing,
+      supplyType: invoice.supplyType,
+      reverseCharge: invoice.reverseCharge,
+      rounding: 'nearest'
+    });
+  } catch (error) {
+    console.warn("Invoice totals could not be calculated:", error);
+    return null;
+  }
+};
+
+// --- Model tool ---
+
+const readParty = (value: unknown): Partial<InvoiceParty> => {
+  if (!value || typeof value !== 'object') return {};
+  const raw = value as Record<string, unknown>;
+  const party: Partial<InvoiceParty> = {};
+  (['name', 'address', 'state', 'gstin', 'email', 'phone'] as const).forEach(field => {
+    if (typeof raw[field] === 'string' && (raw[field] as string).trim()) {
+      party[field] = (raw[field] as string).trim();
+    }
+  });
+  return party;
+};
+
+const readItems = (value: unknown): InvoiceLineItem[] => {
+  if (!Array.isArray(value)) return [];
+  return value.map((item: unknown, index: number) => {
+    const raw: Record<string, unknown> = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+    const quantity = Number(raw.quantity ?? 1);
+    const unitPrice = Number(raw.unitPrice);
+    const taxRate = Number(raw.taxRate ?? 18);
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw new Error(`Item ${index + 1} needs a non-negative unitPrice.`);
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new Error(`Item ${index + 1} quantity must be greater than zero.`);
+    }
+    if (!GST_RATE_SLABS.includes(taxRate)) {
+      throw new Error(`Item ${index + 1} taxRate ${taxRate}% is not a GST slab. Use one of: ${GST_RATE_SLABS.join(', ')}.`);
+    }
+    return createLineItem({
+      description: typeof raw.description === 'string' ? raw.description.trim() : '',
+      hsn: typeof raw.hsn === 'string' && raw.hsn.trim() ? raw.hsn.trim() : undefined,
+      quantity,
+      unitPrice,
+      taxRate
+    });
+  });
+};
+
+const partySchema = (who: string) => ({
+  type: 'object',
+  description: `${who} details.`,
+  properties: {
+    name: { type: 'string' },
+    address: { type: 'string' },
+    state: { type: 'string', description: 'Indian state, used to decide CGST/SGST vs IGST.' },
+    gstin: { type: 'string' },
+    email: { type: 'string' },
+    phone: { type: 'string' }
+  }
+});
+
+export const INVOICE_TOOL_NAME = 'create_invoice';
+
+export const INVOICE_TOOL_DECLARATION: ToolDeclaration = {
+  name: INVOICE_TOOL_NAME,
+  description: 'Creates a GST invoice draft from the details the user gave. The app numbers it, calculates all taxes and lets the user edit and export it. Leave out anything the user did not mention.',
+  parameters: {
+    type: 'object',
+    properties: {
+      seller: partySchema('Seller (the business issuing the invoice)'),
+      buyer: partySchema('Buyer (the customer being billed)'),
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string' },
+            hsn: { type: 'string', description: 'HSN or SAC code.' },
+            quantity: { type: 'number' },
+            unitPrice: { type: 'number', description: 'Price per unit in rupees.' },
+            taxRate: { type: 'number', description: `GST rate in percent. One of ${GST_RATE_SLABS.join(', ')}.` }
+          },
+          required: ['description', 'unitPrice']
+        }
+      },
+      issueDate: { type: 'string', description: 'YYYY-MM-DD. Defaults to today.' },
+      dueDate: { type: 'string', description: 'YYYY-MM-DD.' },
+      dueInDays: { type: 'number', description: 'Payment terms in days, used when no dueDate is given.' },
+      pricing: { type: 'string', enum: ['exclusive', 'inclusive'], description: 'Whether unit prices already include GST.' },
+      reverseCharge: { type: 'boolean' },
+      notes: { type: 'string', description: 'Payment terms, bank details or other remarks.' }
+    },
+    required: ['items']
+  }
+};
+
+// Builds and saves a draft from create_invoice arguments
+export const createInvoiceFromArgs = (userId: string, args: Record<string, unknown>, sessionId?: string): Invoice => {
+  const items = readItems(args.items);
+  if (items.length === 0) {
+    throw new Error('An invoice needs at least one item.');
+  }
+  const issueDate = isIsoDate(args.issueDate) ? args.issueDate : toDateInputValue(new Date());
+  const dueInDays = Number(args.dueInDays);
+  const dueDate = isIsoDate(args.dueDate)
+    ? args.dueDate
+    : addDays(issueDate, Number.isFinite(dueInDays) && dueInDays >= 0 ? dueInDays : DEFAULT_DUE_DAYS);
+
+  return createInvoice(userId, {
+    seller: readParty(args.seller) as InvoiceParty,
+    buyer: readParty(args.buyer) as InvoiceParty,
+    items,
+    issueDate,
+    dueDate,
+    pricing: args.pricing === 'inclusive' ? 'inclusive' : 'exclusive',
+    reverseCharge: args.reverseCharge === true,
+    notes: typeof args.notes === 'string' ? args.notes : undefined
+  }, sessionId);
+};
+
+// What the model is told about a draft it created
+export const summarizeInvoiceForModel = (invoice: Invoice): Record<string, unknown> => {
+  const totals = calculateInvoiceTotals(invoice);
+  return {
+    invoiceNumber: invoice.number,
+    issueDate: invoice.issueDate,
+    dueDate: invoice.dueDate,
+    supplyType: invoice.supplyType,
+    taxableValue: totals?.taxableValue ?? 0,
+    totalTax: totals?.totalTax ?? 0,
+    invoiceTotal: totals?.invoiceTotal ?? 0,
+    missingDetails: [
+      !invoice.seller.name && 'seller name',
+      !invoice.buyer.name && 'buyer name',
+      !invoice.buyer.address && 'buyer address'
+    ].filter(Boolean)
+  };
+};
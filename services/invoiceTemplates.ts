@@ -0,0 +1,46 @@
+import { InvoiceTemplateId } from '../types';
+
+// Visual themes shared by the on-screen preview and the PDF export
+export interface InvoiceTemplate {
+  id: InvoiceTemplateId;
+  label: string;
+  description: string;
+  accent: string; // Title and header band colour
+  highlight: string; // Totals and emphasis
+  headerBand: boolean; // Solid band behind the title
+  tableHeaderFill?: string;
+  zebraFill?: string;
+}
+
+export const INVOICE_TEMPLATES: Record<InvoiceTemplateId, InvoiceTemplate> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Sky header band with shaded rows',
+    accent: '#0ea5e9',
+    highlight: '#0369a1',
+    headerBand: true,
+    tableHeaderFill: '#e0f2fe',
+    zebraFill: '#f8fafc'
+  },
+  modern: {
+    id: 'modern',
+    label: 'Modern',
+    description: 'Dark header with emerald totals',
+    accent: '#111827',
+    highlight: '#059669',
+    headerBand: true,
+    tableHeaderFill: '#f3f4f6'
+  },
+  minimal: {
+    id: 'minimal',
+    label: 'Minimal',
+    description: 'Plain black on white, ink friendly',
+    accent: '#374151',
+    highlight: '#111827',
+    headerBand: false
+  }
+};
+
+export const getInvoiceTemplate = (id: InvoiceTemplateId): InvoiceTemplate =>
+  INVOICE_TEMPLATES[id] || INVOICE_TEMPLATES.classic;
@@ -0,0 +1,81 @@
+// Per-user API credentials.
+// Keys typed into Connect Apps are sealed with the account's data key and kept in localStorage; the
+// unsealed copy lives in memory only while the account is unlocked. Production builds carry no keys:
+// without a user key, calls go through the local key proxy (proxy/keyProxy.mjs) when API_PROXY_URL is set.
+
+import { ConnectionKeys } from '../types';
+import { openText, sealText } from './storageService';
+
+const KEYS_PREFIX = 'swiftmind_keys_';
+const LEGACY_CONNECTIONS_PREFIX = 'swiftmind_connections_'; // Plaintext keys from earlier versions
+
+const GEMINI_API = 'https://generativelanguage.googleapis.com';
+const ILOVEPDF_API = 'https://api.ilovepdf.com';
+
+export const API_PROXY_URL = (process.env.API_PROXY_URL || '').replace(/\/$/, '');
+
+let activeKeys: ConnectionKeys = {};
+
+// --- Storage ---
+
+export const loadConnectionKeys = async (userId: string): Promise<ConnectionKeys> => {
+  const sealed = localStorage.getItem(`${KEYS_PREFIX}${userId}`);
+  if (sealed) return openText<ConnectionKeys>(userId, sealed);
+
+  const legacy = localStorage.getItem(`${LEGACY_CONNECTIONS_PREFIX}${userId}`);
+  if (!legacy) return {};
+  const keys: ConnectionKeys = JSON.parse(legacy);
+  await saveConnectionKeys(userId, keys);
+  localStorage.removeItem(`${LEGACY_CONNECTIONS_PREFIX}${userId}`);
+  return keys;
+};
+
+export const saveConnectionKeys = async (userId: string, keys: ConnectionKeys) => {
+  localStorage.setItem(`${KEYS_PREFIX}${userId}`, await sealText(userId, keys));
+};
+
+// The keys service calls use. Set when an account is unlocked, cleared when it locks.
+export const setActiveConnectionKeys = (keys: ConnectionKeys) => {
+  activeKeys = keys;
+};
+
+export const clearActiveConnectionKeys = () => {
+  activeKeys = {};
+};
+
+// A key from the environment is only compiled in by the dev server (see vite.config.ts)
+export const getGeminiApiKey = (): string | undefined =>
+  activeKeys.gemini?.apiKey || process.env.API_KEY || undefined;
+
+export const getIlovePdfKeys = (): ConnectionKeys['ilovePdf'] =>
+  activeKeys.ilovePdf?.public ? activeKeys.ilovePdf : undefined;
+
+export const isProxyEnabled = (): boolean => !!API_PROXY_URL;
+
+// --- Validation ---
+
+export const validateGeminiKey = (apiKey: string): string | null =>
+  /^AIza[0-9A-Za-z_-]{35}$/.test(apiKey) ? null : 'Gemini API keys start with "AIza" and are 39 characters long.';
+
+export const validateIlovePdfKeys = (keys: { public: string; secret: string }): string | null => {
+  if (!keys.public.startsWith('project_public_')) return 'The public key starts with "project_public_".';
+  if (keys.secret && !keys.secret.startsWith('secret_key_')) return 'The secret key starts with "secret_key_".';
+  return null;
+};
+
+// Live checks against the providers, used by the Test buttons in Connect Apps
+export const testGeminiKey = async (apiKey: string) => {
+  const response = await fetch(`${GEMINI_API}/v1beta/models?pageSize=1`, { headers: { 'x-goog-api-key': apiKey } });
+  if (response.status === 400 || response.status === 401 || response.status === 403) throw new Error('Gemini rejected this key.');
+  if (!response.ok) throw new Error(`Gemini could not be reached (${response.status}).`);
+};
+
+export const testIlovePdfKeys = async (keys: { public: string; secret: string }) => {
+  const response = await fetch(`${ILOVEPDF_API}/v1/auth`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ public_key: keys.public })
+  });
+  if (response.status === 401 || response.status === 403 || response.status === 400) throw new Error('iLovePDF rejected this public key.');
+  if (!response.ok) throw new Error(`iLovePDF could not be reached (${response.status}).`);
+};
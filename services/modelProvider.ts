@@ -0,0 +1,132 @@
+// Provider abstraction used by geminiService.
+// Each backend (Gemini, offline mock, future vendors) implements ModelProvider
+// and registers itself here so modules can pick one through ModuleConfig.provider.
+
+import { ProviderId } from '../types';
+import { isApiServerEnabled } from './apiServer';
+
+// --- Provider-neutral content shapes ---
+
+export type ChatPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { id?: string; name: string; args: Record<string, unknown> } }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> } };
+
+export interface ChatContent {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+// --- Tools (function calling) ---
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// A declaration plus the local code that answers it
+export interface ToolHandler {
+  declaration: ToolDeclaration;
+  execute: (args: Record<string, unknown>) => Promise<Record<string, unknown>> | Record<string, unknown>;
+}
+
+export interface ChatRequest {
+  model: string;
+  systemInstruction: string;
+  contents: ChatContent[];
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  // Aborting stops the stream early; providers resolve with the text received so far
+  signal?: AbortSignal;
+  // Providers with native function calling pass calls to onToolCall and feed the result back
+  tools?: ToolDeclaration[];
+  onToolCall?: (call: ToolCall) => Promise<Record<string, unknown>>;
+}
+
+// --- Generation results ---
+
+export interface ImageGenerationResult {
+  imageUrl: string;
+  mimeType: string;
+}
+
+export interface VideoGenerationResult {
+  videoUrl: string;
+}
+
+export interface SpeechGenerationResult {
+  audioUrl: string;
+}
+
+// Progress of a started video. `operation` handles are plain strings so jobs can be stored and
+// polled again after a reload (see services/videoJobs.ts).
+export type VideoOperationStatus = { done: false } | { done: true; videoUrl: string };
+
+// Documents and queries are embedded differently by models that distinguish them
+export type EmbeddingTask = 'document' | 'query';
+
+export type ImageSize = '1K' | '2K' | '4K';
+export type VideoAspectRatio = '16:9' | '9:16';
+
+// --- Provider contract ---
+
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  // False for backends without native function calling; they get the inline tag protocol instead
+  supportsTools: boolean;
+  // Streams one model turn for the given contents. Resolves with the full text.
+  streamChat: (request: ChatRequest, onChunk?: (text: string) => void) => Promise<string>;
+  generateTitle: (message: string) => Promise<string>;
+  generateImage: (prompt: string, size: ImageSize) => Promise<ImageGenerationResult>;
+  editImage: (prompt: string, imageBase64: string) => Promise<ImageGenerationResult>;
+  generateVideo: (prompt: string, aspectRatio: VideoAspectRatio, inputImageBase64?: string) => Promise<VideoGenerationResult>;
+  // Long-running form of generateVideo: start returns an operation handle, check polls it once
+  startVideo: (prompt: string, aspectRatio: VideoAspectRatio, inputImageBase64?: string) => Promise<string>;
+  checkVideo: (operation: string) => Promise<VideoOperationStatus>;
+  generateSpeech: (text: string) => Promise<SpeechGenerationResult>;
+  // One vector per text, for document retrieval. Providers without an embedding model leave it out.
+  embedTexts?: (texts: string[], task: EmbeddingTask) => Promise<number[][]>;
+}
+
+// --- Registry ---
+
+const providers = new Map<ProviderId, ModelProvider>();
+
+export const registerProvider = (provider: ModelProvider) => {
+  providers.set(provider.id, provider);
+};
+
+// Build-time default, e.g. MODEL_PROVIDER=mock in .env.local for offline work.
+// With API_SERVER_URL set, calls go through the SwiftMind server unless a provider is named.
+// The server provider is only registered when API_SERVER_URL is set, so naming it without one falls back to Gemini.
+const chooseDefaultProvider = (): ProviderId => {
+  const named = process.env.MODEL_PROVIDER;
+  if (named === 'mock' || named === 'gemini') return named;
+  if (named === 'server' && !isApiServerEnabled()) {
+    console.warn('MODEL_PROVIDER=server needs API_SERVER_URL; using Gemini instead.');
+    return 'gemini';
+  }
+  return isApiServerEnabled() ? 'server' : 'gemini';
+};
+
+export const DEFAULT_PROVIDER: ProviderId = chooseDefaultProvider();
+
+export const getProvider = (id: ProviderId = DEFAULT_PROVIDER): ModelProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Model provider "${id}" is not registered.`);
+  }
+  return provider;
+};
+
+export const getAvailableProviders = (): ModelProvider[] => Array.from(providers.values());
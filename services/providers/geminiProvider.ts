@@ -0,0 +1,396 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateVideosOperation, Modality, Content, Part } from "@google/genai";
+import {
+  ModelProvider,
+  ChatRequest,
+  ImageGenerationResult,
+  VideoGenerationResult,
+  VideoOperationStatus,
+  SpeechGenerationResult,
+  ImageSize,
+  VideoAspectRatio,
+  EmbeddingTask
+} from '../modelProvider';
+import { addWavHeader, base64ToBytes } from '../audioUtils';
+import { API_PROXY_URL, getGeminiApiKey, isProxyEnabled } from '../keyVault';
+import { classifyError, safetyError } from '../serviceErrors';
+
+const GEMINI_API = 'https://generativelanguage.googleapis.com';
+// Placeholder the key proxy replaces with its own key
+const PROXY_API_KEY = 'proxy';
+
+let client: { apiKey: string; ai: GoogleGenAI } | null = null;
+
+// The signed-in user's key is used directly; without one, requests go through the local key proxy
+const getClient = (): GoogleGenAI => {
+  const apiKey = getGeminiApiKey();
+  if (!apiKey && !isProxyEnabled()) {
+    throw new Error("No Gemini API key. Add one in Connect Apps.");
+  }
+  const clientKey = apiKey || PROXY_API_KEY;
+  if (!client || client.apiKey !== clientKey) {
+    client = {
+      apiKey: clientKey,
+      ai: apiKey
+        ? new GoogleGenAI({ apiKey })
+        : new GoogleGenAI({ apiKey: clientKey, httpOptions: { baseUrl: `${API_PROXY_URL}/gemini` } })
+    };
+  }
+  return client.ai;
+};
+
+// Generated files are fetched outside the SDK, so the key (or the proxy) is applied here
+const authenticatedFileUrl = (uri: string): string => {
+  const apiKey = getGeminiApiKey();
+  if (apiKey) return `${uri}${uri.includes('?') ? '&' : '?'}key=${apiKey}`;
+  return uri.replace(GEMINI_API, `${API_PROXY_URL}/gemini`);
+};
+
+// --- Helper for API Key Recovery ---
+
+const handleAuthError = async (error: any, retryAction: () => Promise<any>) => {
+  const isAuthError = classifyError(error).kind === 'auth';
+
+  if (isAuthError && (window as any).aistudio?.openSelectKey) {
+    console.warn("Authentication/Entity error detected. Prompting for key selection...");
+    try {
+      await (window as any).aistudio.openSelectKey();
+      return await retryAction();
+    } catch (retryError) {
+      console.error("Retry failed after key selection:", retryError);
+      throw retryError;
+    }
+  }
+  throw error;
+};
+
+// Finish reasons that mean the output was withheld rather than finished
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+const blockReason = (response: GenerateContentResponse): string | undefined => {
+  const promptBlock = response.promptFeedback?.blockReason;
+  if (promptBlock) return promptBlock;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return finishReason && BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : undefined;
+};
+
+// --- Chat ---
+
+// Upper bound on model -> tool -> model round trips within one turn
+const MAX_TOOL_ROUNDS = 4;
+
+const streamChat = async (request: ChatRequest, onChunk?: (text: string) => void): Promise<string> => {
+  const ai = getClient();
+  let fullResponse = "";
+  const contents: Content[] = [...request.contents];
+  const tools = request.tools && request.tools.length > 0
+    ? [{ functionDeclarations: request.tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })) }]
+    : undefined;
+
+  try {
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const resultStream = await ai.models.generateContentStream({
+        model: request.model,
+        contents,
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          topP: request.topP,
+          topK: request.topK,
+          abortSignal: request.signal,
+          // Stop offering tools on the last round so the model has to answer in text
+          tools: round < MAX_TOOL_ROUNDS ? tools : undefined,
+        }
+      });
+
+      // Keep the raw call parts: they may carry thought signatures the model expects back
+      const callParts: Part[] = [];
+      let blocked: string | undefined;
+      for await (const chunk of resultStream) {
+        if (request.signal?.aborted) break;
+        const c = chunk as GenerateContentResponse;
+        blocked = blockReason(c) || blocked;
+        if (c.text) {
+          fullResponse += c.text;
+          if (onChunk) {
+            onChunk(c.text);
+          }
+        }
+        c.candidates?.[0]?.content?.parts?.forEach(part => {
+          if (part.functionCall) callParts.push(part);
+        });
+      }
+
+      // A blocked answer streams nothing, which would otherwise look like an empty reply
+      if (blocked && !fullResponse) throw safetyError(blocked);
+
+      if (callParts.length === 0 || !request.onToolCall || request.signal?.aborted) break;
+
+      const onToolCall = request.onToolCall;
+      const responses = await Promise.all(callParts.map(async ({ functionCall }) => {
+        const call = { id: functionCall?.id, name: functionCall?.name || '', args: functionCall?.args || {} };
+        let response: Record<string, unknown>;
+        try {
+          response = await onToolCall(call);
+        } catch (error: any) {
+          // Let the model see the failure and correct its arguments
+          response = { error: error?.message || String(error) };
+        }
+        return { functionResponse: { id: call.id, name: call.name, response } };
+      }));
+
+      contents.push({ role: 'model', parts: callParts }, { role: 'user', parts: responses });
+    }
+  } catch (error) {
+    // An aborted fetch rejects mid-stream; keep whatever already arrived
+    if (!request.signal?.aborted) throw error;
+  }
+
+  return fullResponse;
+};
+
+const generateTitle = async (message: string): Promise<string> => {
+  const ai = getClient();
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: `Generate a very short, memorable 3-5 word title for a chat that starts with this user message: "${message}". Do not use quotes. Just the title.`,
+  });
+  return response.text?.trim() || "New Session";
+};
+
+// --- Image Generation ---
+
+const extractImage = (response: GenerateContentResponse): ImageGenerationResult | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data && part.inlineData.mimeType) {
+      return {
+        imageUrl: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+        mimeType: part.inlineData.mimeType
+      };
+    }
+  }
+  return null;
+};
+
+const generateImage = async (prompt: string, size: ImageSize): Promise<ImageGenerationResult> => {
+
+  const attemptGeneration = async (): Promise<ImageGenerationResult> => {
+    const ai = getClient();
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-pro-image-preview',
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        imageConfig: {
+          imageSize: size
+        }
+      }
+    });
+
+    const image = extractImage(response);
+    const blocked = blockReason(response);
+    if (!image && blocked) throw safetyError(blocked);
+    if (!image) throw new Error("No image generated");
+    return image;
+  };
+
+  try {
+    return await attemptGeneration();
+  } catch (error) {
+    return handleAuthError(error, attemptGeneration);
+  }
+};
+
+const editImage = async (prompt: string, imageBase64: string): Promise<ImageGenerationResult> => {
+
+  const attemptEdit = async (): Promise<ImageGenerationResult> => {
+    const ai = getClient();
+    const base64Data = imageBase64.split(',')[1] || imageBase64;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              data: base64Data,
+              mimeType: 'image/png',
+            },
+          },
+          {
+            text: prompt,
+          },
+        ],
+      },
+    });
+
+    const image = extractImage(response);
+    const blocked = blockReason(response);
+    if (!image && blocked) throw safetyError(blocked);
+    if (!image) throw new Error("No edited image generated");
+    return image;
+  };
+
+  try {
+    return await attemptEdit();
+  } catch (error) {
+    return handleAuthError(error, attemptEdit);
+  }
+};
+
+// --- Video Generation ---
+
+const VIDEO_POLL_MS = 5000;
+
+const startVideo = async (
+  prompt: string,
+  aspectRatio: VideoAspectRatio,
+  inputImageBase64?: string
+): Promise<string> => {
+
+  const attemptStart = async (): Promise<string> => {
+    const ai = getClient();
+
+    const requestOptions: any = {
+      model: 'veo-3.1-fast-generate-preview',
+      prompt: prompt,
+      config: {
+        numberOfVideos: 1,
+        resolution: '720p',
+        aspectRatio: aspectRatio
+      }
+    };
+
+    if (inputImageBase64) {
+      const base64Data = inputImageBase64.split(',')[1] || inputImageBase64;
+      requestOptions.image = {
+        imageBytes: base64Data,
+        mimeType: 'image/png'
+      };
+    }
+
+    const operation = await ai.models.generateVideos(requestOptions);
+    if (!operation.name) {
+      throw new Error("Video generation failed: No operation returned.");
+    }
+    return operation.name;
+  };
+
+  try {
+    return await attemptStart();
+  } catch (error) {
+    return handleAuthError(error, attemptStart);
+  }
+};
+
+// Polling only needs the operation name, so a stored handle can be picked up after a reload
+const checkVideo = async (operationName: string): Promise<VideoOperationStatus> => {
+  const ai = getClient();
+  const handle = new GenerateVideosOperation();
+  handle.name = operationName;
+  const operation = await ai.operations.getVideosOperation({ operation: handle });
+  if (!operation.done) return { done: false };
+
+  if (operation.error) {
+    throw new Error(`Video generation failed: ${operation.error.message || 'unknown error'}`);
+  }
+  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (!videoUri && operation.response?.raiMediaFilteredCount) {
+    throw safetyError(operation.response.raiMediaFilteredReasons?.join(' ') || 'SAFETY');
+  }
+  if (!videoUri) {
+    throw new Error("Video generation failed: No URI returned.");
+  }
+
+  const response = await fetch(authenticatedFileUrl(videoUri));
+  if (!response.ok) {
+    throw new Error(`Failed to download generated video. Status: ${response.status}`);
+  }
+  const blob = await response.blob();
+  return { done: true, videoUrl: URL.createObjectURL(blob) };
+};
+
+const generateVideo = async (
+  prompt: string,
+  aspectRatio: VideoAspectRatio,
+  inputImageBase64?: string
+): Promise<VideoGenerationResult> => {
+  const operation = await startVideo(prompt, aspectRatio, inputImageBase64);
+  while (true) {
+    await new Promise(resolve => setTimeout(resolve, VIDEO_POLL_MS));
+    const status = await checkVideo(operation);
+    if (status.done) return { videoUrl: status.videoUrl };
+  }
+};
+
+// --- Text to Speech ---
+
+const generateSpeech = async (text: string): Promise<SpeechGenerationResult> => {
+  const ai = getClient();
+
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash-preview-tts",
+    contents: [{ parts: [{ text: text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: 'Kore' },
+        },
+      },
+    },
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new Error("No audio generated");
+  }
+
+  const wavBytes = addWavHeader(base64ToBytes(base64Audio), 24000, 1);
+  const wavBlob = new Blob([wavBytes], { type: 'audio/wav' });
+  const audioUrl = URL.createObjectURL(wavBlob);
+
+  return { audioUrl };
+};
+
+// --- Embeddings ---
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+const EMBEDDING_DIMENSIONS = 768;
+const EMBEDDING_BATCH = 100; // Most texts the API takes in one request
+
+const embedTexts = async (texts: string[], task: EmbeddingTask): Promise<number[][]> => {
+  const ai = getClient();
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH);
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: batch,
+      config: {
+        taskType: task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+        outputDimensionality: EMBEDDING_DIMENSIONS
+      }
+    });
+    const values = (response.embeddings || []).map(embedding => embedding.values || []);
+    if (values.length !== batch.length || values.some(vector => vector.length === 0)) {
+      throw new Error("The embedding response is incomplete.");
+    }
+    vectors.push(...values);
+  }
+  return vectors;
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  supportsTools: true,
+  streamChat,
+  generateTitle,
+  generateImage,
+  editImage,
+  generateVideo,
+  startVideo,
+  checkVideo,
+  generateSpeech,
+  embedTexts
+};
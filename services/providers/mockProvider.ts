@@ -0,0 +1,158 @@
+// Deterministic offline provider for UI development and tests.
+// Same input always yields the same output; nothing touches the network.
+
+import {
+  ModelProvider,
+  ChatRequest,
+  ImageGenerationResult,
+  VideoGenerationResult,
+  VideoOperationStatus,
+  SpeechGenerationResult,
+  ImageSize,
+  VideoAspectRatio
+} from '../modelProvider';
+import { addWavHeader } from '../audioUtils';
+
+const CHUNK_DELAY_MS = 15;
+// How long a started mock video takes to finish, long enough to see progress and cancel it
+const MOCK_VIDEO_MS = 8000;
+
+// Small stable string hash (FNV-1a) used to derive colours and ids
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const lastUserText = (request: ChatRequest): string => {
+  for (let i = request.contents.length - 1; i >= 0; i--) {
+    const content = request.contents[i];
+    if (content.role !== 'user') continue;
+    const text = content.parts.map(p => ('text' in p ? p.text : '')).join(' ').trim();
+    return text;
+  }
+  return '';
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const streamChat = async (request: ChatRequest, onChunk?: (text: string) => void): Promise<string> => {
+  const userText = lastUserText(request);
+  const attachmentCount = request.contents[request.contents.length - 1]?.parts.filter(p => 'inlineData' in p).length || 0;
+  const turn = request.contents.filter(c => c.role === 'user').length;
+
+  const reply = [
+    `### 🧪 Mock Response #${turn}`,
+    '',
+    `**Model:** ${request.model}`,
+    `**Request:** ${userText || '(empty)'}`,
+    attachmentCount > 0 ? `**Attachments:** ${attachmentCount}` : '',
+    '',
+    '- This reply comes from the offline mock provider.',
+    `- Fingerprint: \`${hashString(userText).toString(16)}\``,
+    '',
+    // No function calling here, so image requests go through the fallback tag parser
+    /\b(image|picture|photo)\b/i.test(userText) ? `{{IMAGE: ${userText}}}` : '',
+    '',
+    'Would you like me to summarize or expand on this?'
+  ].filter((line, i, arr) => line !== '' || arr[i - 1] !== '').join('\n');
+
+  // Stream word by word so the UI exercises the same code path as a real model
+  const tokens = reply.split(/(\s+)/);
+  let fullResponse = '';
+  for (const token of tokens) {
+    if (!token) continue;
+    await wait(CHUNK_DELAY_MS);
+    if (request.signal?.aborted) break;
+    fullResponse += token;
+    if (onChunk) onChunk(token);
+  }
+  return fullResponse;
+};
+
+const generateTitle = async (message: string): Promise<string> => {
+  const words = message.trim().split(/\s+/).slice(0, 4).join(' ');
+  return words ? `Mock: ${words}` : 'New Session';
+};
+
+const renderSvg = (prompt: string, width: number, height: number): string => {
+  const hue = hashString(prompt) % 360;
+  const label = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="100%" height="100%" fill="hsl(${hue},70%,85%)"/>` +
+    `<circle cx="${width / 2}" cy="${height / 2 - 40}" r="${Math.min(width, height) / 6}" fill="hsl(${(hue + 180) % 360},60%,60%)"/>` +
+    `<text x="50%" y="${height - 60}" font-family="sans-serif" font-size="24" text-anchor="middle" fill="#1f2937">${label}</text>` +
+    `</svg>`;
+};
+
+const sizeToPixels: Record<ImageSize, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+const generateImage = async (prompt: string, size: ImageSize): Promise<ImageGenerationResult> => {
+  await wait(300);
+  const px = sizeToPixels[size] / 4;
+  const svg = renderSvg(prompt, px, px);
+  return {
+    imageUrl: `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`,
+    mimeType: 'image/svg+xml'
+  };
+};
+
+const editImage = async (prompt: string, _imageBase64: string): Promise<ImageGenerationResult> => {
+  return generateImage(`Edited: ${prompt}`, '1K');
+};
+
+// The mock cannot encode real video, so it returns an empty clip of the right type.
+const generateVideo = async (prompt: string, _aspectRatio: VideoAspectRatio, _inputImageBase64?: string): Promise<VideoGenerationResult> => {
+  await wait(1000);
+  const blob = new Blob([prompt], { type: 'video/mp4' });
+  return { videoUrl: URL.createObjectURL(blob) };
+};
+
+// The handle carries the start time and prompt, so polling works across reloads like a real one
+const startVideo = async (prompt: string, _aspectRatio: VideoAspectRatio, _inputImageBase64?: string): Promise<string> => {
+  await wait(200);
+  return `mock-video/${Date.now()}/${encodeURIComponent(prompt)}`;
+};
+
+const checkVideo = async (operation: string): Promise<VideoOperationStatus> => {
+  const [, startedAt, prompt] = operation.split('/');
+  if (Date.now() - Number(startedAt) < MOCK_VIDEO_MS) return { done: false };
+  const blob = new Blob([decodeURIComponent(prompt || '')], { type: 'video/mp4' });
+  return { done: true, videoUrl: URL.createObjectURL(blob) };
+};
+
+// A short sine tone whose pitch and length depend on the text
+const generateSpeech = async (text: string): Promise<SpeechGenerationResult> => {
+  const sampleRate = 24000;
+  const seconds = Math.min(5, Math.max(1, text.length / 40));
+  const frequency = 220 + (hashString(text) % 440);
+  const sampleCount = Math.floor(sampleRate * seconds);
+  const samples = new Uint8Array(sampleCount * 2);
+  const view = new DataView(samples.buffer);
+  for (let i = 0; i < sampleCount; i++) {
+    const value = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.2;
+    view.setInt16(i * 2, Math.round(value * 32767), true);
+  }
+  const wavBlob = new Blob([addWavHeader(samples, sampleRate, 1)], { type: 'audio/wav' });
+  return { audioUrl: URL.createObjectURL(wavBlob) };
+};
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  supportsTools: false,
+  streamChat,
+  generateTitle,
+  generateImage,
+  editImage,
+  generateVideo,
+  startVideo,
+  checkVideo,
+  generateSpeech
+};
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { serverProvider } from './serverProvider';
+import { ApiServerError } from '../apiServer';
+import { ChatRequest } from '../modelProvider';
+
+// Answers every request with the next body as a Server-Sent Events stream
+const serveEvents = (...bodies: string[]) => {
+  const fetchMock = vi.fn(async () => new Response(bodies.shift() ?? 'event: done\ndata: {}\n\n', { headers: { 'Content-Type': 'text/event-stream' } }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const event = (name: string, data: unknown) => `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+
+const turn: ChatRequest = { model: 'gemini-test', systemInstruction: '', contents: [{ role: 'user', parts: [{ text: 'hi' }] }] };
+
+describe('serverProvider.streamChat', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('skips chunks without text', async () => {
+    serveEvents(event('chunk', { text: 'Hel' }) + event('chunk', { text: 5 }) + event('chunk', null) + event('chunk', { text: 'lo' }) + event('done', {}));
+    const chunks: string[] = [];
+    expect(await serverProvider.streamChat(turn, text => chunks.push(text))).toBe('Hello');
+    expect(chunks).toEqual(['Hel', 'lo']);
+  });
+
+  it('runs only well-formed tool calls', async () => {
+    const fetchMock = serveEvents(event('tool_calls', {
+      parts: [
+        { functionCall: { id: 'c1', name: 'get_time', args: 'now' } },
+        { functionCall: { args: {} } },
+        { text: 'not a call' },
+        'junk'
+      ]
+    }) + event('done', {}), event('chunk', { text: 'Noon' }) + event('done', {}));
+    const onToolCall = vi.fn(async () => ({ time: '12:00' }));
+
+    expect(await serverProvider.streamChat({ ...turn, onToolCall })).toBe('Noon');
+    expect(onToolCall).toHaveBeenCalledTimes(1);
+    expect(onToolCall).toHaveBeenCalledWith({ id: 'c1', name: 'get_time', args: {} });
+
+    const [, init] = fetchMock.mock.calls[1] as unknown as [string, RequestInit];
+    const followUp = JSON.parse(String(init.body));
+    expect(followUp.contents.slice(1)).toEqual([
+      { role: 'model', parts: [{ functionCall: { id: 'c1', name: 'get_time', args: {} } }] },
+      { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'get_time', response: { time: '12:00' } } }] }
+    ]);
+  });
+
+  it('turns error events into ApiServerError, with defaults for missing fields', async () => {
+    serveEvents(event('error', { message: 'Quota gone', status: 429 }));
+    await expect(serverProvider.streamChat(turn)).rejects.toMatchObject({ name: 'ApiServerError', message: 'Quota gone', status: 429 });
+
+    serveEvents(event('error', { message: { nested: true } }));
+    const error = await serverProvider.streamChat(turn).catch(e => e);
+    expect(error).toBeInstanceOf(ApiServerError);
+    expect(error).toMatchObject({ message: 'The model request failed.', status: 502 });
+  });
+});
@@ -0,0 +1,145 @@
+// Provider backed by the SwiftMind API server (server/). The server runs one model turn per request;
+// tool calls come back as events, run here, and their results go out with the next request.
+
+import {
+  ModelProvider,
+  ChatRequest,
+  ChatContent,
+  ChatPart,
+  ImageGenerationResult,
+  VideoGenerationResult,
+  VideoOperationStatus,
+  SpeechGenerationResult,
+  ImageSize,
+  VideoAspectRatio
+} from '../modelProvider';
+import { postToServer, getFromServer, readEventStream, ApiServerError } from '../apiServer';
+
+// Upper bound on model -> tool -> model round trips within one turn
+const MAX_TOOL_ROUNDS = 4;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only function calls are expected in a tool_calls event; anything else is dropped
+const readCallParts = (parts: unknown): ChatPart[] => {
+  if (!Array.isArray(parts)) return [];
+  return parts.flatMap((part): ChatPart[] => {
+    const call = isRecord(part) ? part.functionCall : undefined;
+    if (!isRecord(call) || typeof call.name !== 'string') return [];
+    return [{
+      functionCall: {
+        id: typeof call.id === 'string' ? call.id : undefined,
+        name: call.name,
+        args: isRecord(call.args) ? call.args : {}
+      }
+    }];
+  });
+};
+
+const streamChat = async (request: ChatRequest, onChunk?: (text: string) => void): Promise<string> => {
+  let fullResponse = "";
+  const contents: ChatContent[] = [...request.contents];
+
+  try {
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const response = await postToServer('/chat/stream', {
+        model: request.model,
+        systemInstruction: request.systemInstruction,
+        contents,
+        temperature: request.temperature,
+        topP: request.topP,
+        topK: request.topK,
+        // Stop offering tools on the last round so the model has to answer in text
+        tools: round < MAX_TOOL_ROUNDS ? request.tools : undefined
+      }, request.signal);
+
+      let callParts: ChatPart[] = [];
+      await readEventStream(response, ({ event, data }) => {
+        const payload = isRecord(data) ? data : {};
+        if (event === 'chunk') {
+          if (typeof payload.text !== 'string') return;
+          fullResponse += payload.text;
+          if (onChunk) onChunk(payload.text);
+        } else if (event === 'tool_calls') {
+          callParts = readCallParts(payload.parts);
+        } else if (event === 'error') {
+          throw new ApiServerError(
+            typeof payload.message === 'string' ? payload.message : 'The model request failed.',
+            typeof payload.status === 'number' ? payload.status : 502
+          );
+        }
+      });
+
+      if (callParts.length === 0 || !request.onToolCall || request.signal?.aborted) break;
+
+      const onToolCall = request.onToolCall;
+      const responses: ChatPart[] = await Promise.all(callParts.map(async (part) => {
+        const functionCall = 'functionCall' in part ? part.functionCall : { name: '', args: {} };
+        let result: Record<string, unknown>;
+        try {
+          result = await onToolCall(functionCall);
+        } catch (error: any) {
+          // Let the model see the failure and correct its arguments
+          result = { error: error?.message || String(error) };
+        }
+        return { functionResponse: { id: functionCall.id, name: functionCall.name, response: result } };
+      }));
+
+      contents.push({ role: 'model', parts: callParts }, { role: 'user', parts: responses });
+    }
+  } catch (error) {
+    // An aborted fetch rejects mid-stream; keep whatever already arrived
+    if (!request.signal?.aborted) throw error;
+  }
+
+  return fullResponse;
+};
+
+const generateTitle = async (message: string): Promise<string> => {
+  const { title } = await (await postToServer('/title', { message })).json();
+  return title || "New Session";
+};
+
+const generateImage = async (prompt: string, size: ImageSize): Promise<ImageGenerationResult> =>
+  (await postToServer('/image', { prompt, size })).json();
+
+const editImage = async (prompt: string, imageBase64: string): Promise<ImageGenerationResult> =>
+  (await postToServer('/image', { prompt, image: imageBase64 })).json();
+
+const generateVideo = async (prompt: string, aspectRatio: VideoAspectRatio, inputImageBase64?: string): Promise<VideoGenerationResult> => {
+  const response = await postToServer('/video', { prompt, aspectRatio, image: inputImageBase64 });
+  return { videoUrl: URL.createObjectURL(await response.blob()) };
+};
+
+const startVideo = async (prompt: string, aspectRatio: VideoAspectRatio, inputImageBase64?: string): Promise<string> => {
+  const { operation } = await (await postToServer('/video/start', { prompt, aspectRatio, image: inputImageBase64 })).json();
+  return operation;
+};
+
+const checkVideo = async (operation: string): Promise<VideoOperationStatus> => {
+  const query = `operation=${encodeURIComponent(operation)}`;
+  const { done } = await (await getFromServer(`/video/status?${query}`)).json();
+  if (!done) return { done: false };
+  const response = await getFromServer(`/video/download?${query}`);
+  return { done: true, videoUrl: URL.createObjectURL(await response.blob()) };
+};
+
+const generateSpeech = async (text: string): Promise<SpeechGenerationResult> => {
+  const response = await postToServer('/speech', { text });
+  return { audioUrl: URL.createObjectURL(await response.blob()) };
+};
+
+export const serverProvider: ModelProvider = {
+  id: 'server',
+  label: 'SwiftMind Server',
+  supportsTools: true,
+  streamChat,
+  generateTitle,
+  generateImage,
+  editImage,
+  generateVideo,
+  startVideo,
+  checkVideo,
+  generateSpeech
+};
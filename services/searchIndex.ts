@@ -0,0 +1,186 @@
+// Client-side full-text search over every session.
+// An inverted index maps each token to the documents containing it: one document per message
+// (content plus attachment names) and one per session title. sync() diffs sessions by reference,
+// so a streaming reply only re-indexes the message that changed.
+
+import { Message, Role, Session, TaskModule } from '../types';
+
+export interface SearchFilters {
+  module?: TaskModule;
+  role?: Role;
+  from?: number; // Inclusive timestamps
+  to?: number;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId?: string; // Missing when only the session title matched
+  role?: Role;
+  module: TaskModule;
+  timestamp: number;
+  snippet: string;
+  terms: string[]; // Indexed words that matched, for highlighting
+}
+
+export interface SearchIndex {
+  sync: (sessions: Session[]) => void;
+  search: (query: string, filters?: SearchFilters, limit?: number) => SearchResult[];
+}
+
+interface IndexedDoc {
+  sessionId: string;
+  messageId?: string;
+  role?: Role;
+  timestamp: number;
+  text: string;
+  counts: Map<string, number>;
+}
+
+// Letters keep their combining marks so scripts like Devanagari tokenize into whole words
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+const SNIPPET_RADIUS = 60;
+const TITLE_BOOST = 3;
+
+export const tokenize = (text: string): string[] => text.toLowerCase().match(TOKEN_PATTERN) || [];
+
+const messageText = (message: Message): string =>
+  [message.content, ...(message.attachments || []).map(att => att.name), message.downloadData?.fileName]
+    .filter(Boolean)
+    .join('\n');
+
+const buildSnippet = (text: string, terms: string[]): string => {
+  const lower = text.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(pos => pos >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  const body = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+};
+
+export const createSearchIndex = (): SearchIndex => {
+  const postings = new Map<string, Set<string>>(); // token -> doc keys
+  const docs = new Map<string, IndexedDoc>();
+  const sessionsById = new Map<string, Session>(); // Last synced object, for reference diffing
+
+  const removeDoc = (key: string) => {
+    const doc = docs.get(key);
+    if (!doc) return;
+    doc.counts.forEach((_, token) => {
+      const keys = postings.get(token);
+      keys?.delete(key);
+      if (keys && keys.size === 0) postings.delete(token);
+    });
+    docs.delete(key);
+  };
+
+  const putDoc = (key: string, doc: Omit<IndexedDoc, 'counts'>) => {
+    const existing = docs.get(key);
+    if (existing && existing.text === doc.text) {
+      docs.set(key, { ...existing, ...doc, counts: existing.counts });
+      return;
+    }
+    removeDoc(key);
+    const counts = new Map<string, number>();
+    tokenize(doc.text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    counts.forEach((_, token) => {
+      if (!postings.has(token)) postings.set(token, new Set());
+      postings.get(token)!.add(key);
+    });
+    docs.set(key, { ...doc, counts });
+  };
+
+  const indexSession = (session: Session, previous?: Session) => {
+    putDoc(`${session.id}:title`, { sessionId: session.id, timestamp: session.lastModified, text: session.title });
+    if (previous?.messages === session.messages) return;
+
+    const previousMessages = new Map((previous?.messages || []).map(msg => [msg.id, msg]));
+    session.messages.forEach(message => {
+      const prev = previousMessages.get(message.id);
+      previousMessages.delete(message.id);
+      if (prev === message) return;
+      putDoc(`${session.id}:${message.id}`, {
+        sessionId: session.id,
+        messageId: message.id,
+        role: message.role,
+        timestamp: message.timestamp,
+        text: messageText(message)
+      });
+    });
+    previousMessages.forEach((_, id) => removeDoc(`${session.id}:${id}`));
+  };
+
+  const removeSession = (session: Session) => {
+    removeDoc(`${session.id}:title`);
+    session.messages.forEach(message => removeDoc(`${session.id}:${message.id}`));
+  };
+
+  const sync = (sessions: Session[]) => {
+    const seen = new Set<string>();
+    sessions.forEach(session => {
+      seen.add(session.id);
+      const previous = sessionsById.get(session.id);
+      if (previous !== session) indexSession(session, previous);
+      sessionsById.set(session.id, session);
+    });
+    sessionsById.forEach((session, id) => {
+      if (!seen.has(id)) {
+        removeSession(session);
+        sessionsById.delete(id);
+      }
+    });
+  };
+
+  // Every query word must match; the last one also matches as a prefix so results update while typing
+  const search = (query: string, filters: SearchFilters = {}, limit = 50): SearchResult[] => {
+    const words = tokenize(query);
+    if (words.length === 0) return [];
+
+    let candidates: Map<string, Set<string>> | null = null; // doc key -> matched tokens
+    words.forEach((word, i) => {
+      const matches = new Map<string, Set<string>>();
+      const tokens = i === words.length - 1
+        ? Array.from(postings.keys()).filter(token => token.startsWith(word))
+        : (postings.has(word) ? [word] : []);
+      tokens.forEach(token => postings.get(token)!.forEach(key => {
+        if (candidates && !candidates.has(key)) return;
+        if (!matches.has(key)) matches.set(key, new Set(candidates?.get(key)));
+        matches.get(key)!.add(token);
+      }));
+      candidates = matches;
+    });
+
+    const results: (SearchResult & { score: number })[] = [];
+    (candidates as Map<string, Set<string>> | null)?.forEach((terms, key) => {
+      const doc = docs.get(key)!;
+      const session = sessionsById.get(doc.sessionId);
+      if (!session || session.isDeleted) return;
+      if (filters.module && session.activeModule !== filters.module) return;
+      if (filters.role && doc.role !== filters.role) return;
+      if (filters.from !== undefined && doc.timestamp < filters.from) return;
+      if (filters.to !== undefined && doc.timestamp > filters.to) return;
+
+      const matched = Array.from(terms);
+      const frequency = matched.reduce((sum, term) => sum + (doc.counts.get(term) || 0), 0);
+      results.push({
+        sessionId: session.id,
+        sessionTitle: session.title,
+        messageId: doc.messageId,
+        role: doc.role,
+        module: session.activeModule,
+        timestamp: doc.timestamp,
+        snippet: buildSnippet(doc.text, matched),
+        terms: matched,
+        score: doc.messageId ? frequency : frequency * TITLE_BOOST
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+      .slice(0, limit)
+      .map(({ score, ...result }) => result);
+  };
+
+  return { sync, search };
+};
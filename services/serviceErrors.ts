@@ -0,0 +1,151 @@
+// Shared error taxonomy for model and conversion calls.
+// SDKs, fetch and the SwiftMind server all fail differently; classifyError maps any of them to a
+// ServiceError whose kind the UI can act on, and withRetry retries the transient ones with backoff.
+
+import { MessageError, ServiceErrorKind } from '../types';
+import { ApiServerError } from './apiServer';
+
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+// Rate limits that clear sooner than this are waited out; longer ones (e.g. daily quotas) are reported
+const MAX_RETRY_WAIT_MS = 30000;
+
+export class ServiceError extends Error {
+  kind: ServiceErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+  retryable: boolean;
+  detail?: string; // The original message, for logs
+
+  constructor(kind: ServiceErrorKind, message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean; detail?: string } = {}) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? false;
+    this.detail = options.detail;
+  }
+}
+
+// --- Messages ---
+
+const formatWait = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 90) return `${seconds} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 90) return `${minutes} minutes`;
+  return `${Math.ceil(minutes / 60)} hours`;
+};
+
+const messageFor = (kind: ServiceErrorKind, detail: string, retryAfterMs?: number): string => {
+  switch (kind) {
+    case 'auth':
+      return "The API key is missing or was rejected. Check it under Connect Apps, then retry.";
+    case 'quota':
+      return retryAfterMs
+        ? `Usage limit reached. Try again in about ${formatWait(retryAfterMs)}.`
+        : "Usage limit reached. Wait a minute and retry, or check your plan's quota.";
+    case 'safety':
+      return "This request was blocked by the safety filters. Rephrase it and try again.";
+    case 'network':
+      return "Couldn't reach the service. Check your connection and retry.";
+    case 'invalid_input':
+      return `The request was rejected: ${detail || 'invalid input'}. Check the prompt or file and try again.`;
+    case 'server':
+      return "The service ran into a problem on its side. Retry in a moment.";
+  }
+};
+
+// --- Classification ---
+
+// Finish/block reasons are upper-case enum names, so this stays case-sensitive
+const SAFETY_PATTERN = /\b(?:IMAGE_)?SAFETY\b|\bPROHIBITED_CONTENT\b|\bBLOCKLIST\b|\bSPII\b/;
+const AUTH_PATTERN = /API key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|Requested entity was not found/i;
+const NETWORK_PATTERN = /Failed to fetch|fetch failed|NetworkError|Load failed|network/i;
+
+// Returns the error unchanged if it already is a ServiceError
+export const classifyError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+
+  const detail = error instanceof Error ? error.message : String(error);
+  const status = Number((error as { status?: unknown })?.status) || undefined;
+  const retryAfterMs = error instanceof ApiServerError && error.retryAfterSeconds ? error.retryAfterSeconds * 1000 : undefined;
+  const build = (kind: ServiceErrorKind, retryable: boolean) =>
+    new ServiceError(kind, messageFor(kind, detail, retryAfterMs), { status, retryAfterMs, retryable, detail });
+
+  if (SAFETY_PATTERN.test(detail)) return build('safety', false);
+  // Gemini answers a bad key with 400 and a missing Veo entitlement with 404, so those need the text
+  if (status === 401 || status === 403 || ((!status || status === 400 || status === 404) && AUTH_PATTERN.test(detail))) {
+    return build('auth', false);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(detail)) {
+    return build('quota', retryAfterMs === undefined || retryAfterMs <= MAX_RETRY_WAIT_MS);
+  }
+  if (status === 408 || (!status && error instanceof TypeError && NETWORK_PATTERN.test(detail))) return build('network', true);
+  if (status && status >= 500) return build('server', true);
+  if (status && status >= 400) return build('invalid_input', false);
+  // Anything else (an empty result, a parse error, ...) is not worth repeating automatically
+  return new ServiceError('server', `Something went wrong: ${detail.replace(/\.$/, '')}. Retry, or try a different request.`, { status, detail });
+};
+
+// Maps an HTTP status (e.g. from a raw fetch) to an error with the same classification
+export const errorFromResponse = (response: Response, detail: string): ServiceError => {
+  const retryAfterSeconds = Number(response.headers.get('Retry-After')) || undefined;
+  return classifyError(new ApiServerError(`${detail} (${response.status})`, response.status, retryAfterSeconds));
+};
+
+// For providers that see the block reason on an otherwise successful response
+export const safetyError = (reason: string): ServiceError =>
+  new ServiceError('safety', messageFor('safety', reason), { detail: reason });
+
+export const toMessageError = (error: unknown): MessageError => {
+  const { kind, message } = classifyError(error);
+  return { kind, message };
+};
+
+// --- Retry ---
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryOptions {
+  retries?: number;
+  signal?: AbortSignal;
+  // Checked before each retry, e.g. to stop once part of a stream has reached the user
+  canRetry?: () => boolean;
+}
+
+// Runs action, retrying transient failures with exponential backoff (honouring Retry-After).
+// Rejects with the classified error; aborts are passed through untouched.
+export const withRetry = async <T>(action: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = DEFAULT_RETRIES, signal, canRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await action();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt >= retries || (canRetry && !canRetry())) throw classified;
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+      // Jitter keeps parallel calls (e.g. several converter files) from retrying in lockstep
+      const delay = classified.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2;
+      console.warn(`Retrying after ${classified.kind} error (attempt ${attempt + 1} of ${retries}):`, classified.detail);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseSessionExport, SESSION_EXPORT_FORMAT } from './sessionExport';
+
+const exportOf = (message: Record<string, unknown>) => JSON.stringify({
+  format: SESSION_EXPORT_FORMAT,
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  sessions: [{
+    id: 's1',
+    title: 'Imported',
+    activeModule: 'General',
+    lastModified: 1,
+    messages: [{ id: 'm1', role: 'model', content: 'Hi', timestamp: 1, ...message }]
+  }]
+});
+
+const importedMessage = (message: Record<string, unknown>) => parseSessionExport(exportOf(message))[0].messages[0];
+
+const gstResult = {
+  pricing: 'exclusive',
+  supplyType: 'intra',
+  reverseCharge: false,
+  rounding: 'none',
+  lines: [{ description: 'Tea', quantity: 1, unitPrice: 100, rate: 5, taxableValue: 100, cgst: 2.5, sgst: 2.5, igst: 0, cess: 0, totalTax: 5, lineTotal: 105 }],
+  rateSummary: [{ rate: 5, taxableValue: 100, cgst: 2.5, sgst: 2.5, igst: 0, cess: 0 }],
+  taxableValue: 100,
+  cgst: 2.5,
+  sgst: 2.5,
+  igst: 0,
+  cess: 0,
+  totalTax: 5,
+  roundOff: 0,
+  invoiceTotal: 105,
+  taxPayableByRecipient: 0,
+  steps: ['Taxable value: 100']
+};
+
+describe('parseSessionExport', () => {
+  it('drops downloads that would open as HTML', () => {
+    expect(importedMessage({ downloadData: { fileName: 'x.html', data: '<script>alert(1)</script>', mimeType: 'text/html' } }).downloadData).toBeUndefined();
+    expect(importedMessage({ downloadData: { fileName: 'x.xhtml', data: '<x/>', mimeType: 'application/xhtml+xml' } }).downloadData).toBeUndefined();
+    expect(importedMessage({ downloadData: { fileName: 'a.csv', data: 'a,b', mimeType: 'text/csv' } }).downloadData)
+      .toEqual({ fileName: 'a.csv', data: 'a,b', mimeType: 'text/csv' });
+  });
+
+  it('keeps only known tool call fields', () => {
+    const [call] = importedMessage({
+      toolCalls: [
+        { id: 't1', name: 'generate_image', status: 'running', onClick: 'alert(1)', media: { url: 'data:image/png;base64,AA', type: 'text/html' } },
+        { id: 2, name: 'broken' }
+      ]
+    }).toolCalls!;
+    expect(call).toEqual({
+      id: 't1',
+      name: 'generate_image',
+      label: 'generate_image',
+      args: {},
+      status: 'cancelled',
+      summary: undefined,
+      error: undefined,
+      media: undefined,
+      startedAt: 0,
+      finishedAt: undefined
+    });
+  });
+
+  it('keeps valid task ticks only', () => {
+    expect(importedMessage({ taskState: { 0: true, 1: 'yes', x: false, 2: false } }).taskState).toEqual({ 0: true, 2: false });
+    expect(importedMessage({ taskState: { a: 1 } }).taskState).toBeUndefined();
+  });
+
+  it('keeps well-formed GST results and drops malformed ones', () => {
+    const extra = { ...gstResult, script: '<img onerror>' };
+    expect(importedMessage({ gstCalculations: [extra] }).gstCalculations).toEqual([gstResult]);
+    expect(importedMessage({ gstCalculations: [{ ...gstResult, cgst: '2.5' }] }).gstCalculations).toBeUndefined();
+    expect(importedMessage({ gstCalculations: [{ ...gstResult, supplyType: 'overseas' }] }).gstCalculations).toBeUndefined();
+    expect(importedMessage({ gstCalculations: [{ ...gstResult, lines: [{ description: 'Tea' }] }] }).gstCalculations).toBeUndefined();
+  });
+
+  it('rejects messages with an unknown role', () => {
+    expect(() => parseSessionExport(exportOf({ role: 'admin' }))).toThrow('has an unknown role "admin"');
+  });
+});
@@ -0,0 +1,488 @@
+// Session export and import.
+// JSON is the lossless format: every branch, attachments and generated media (inlined as data URLs)
+// in a versioned envelope that import validates. Markdown and HTML are read-only transcripts of the
+// branch that is showing; the HTML file embeds its media so it opens anywhere without the app.
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DocumentCitation, DownloadData, FileAttachment, GstCalculationResult, GstLineResult, GstRateSummary,
+  Message, Role, Session, TaskModule, ToolCallRecord
+} from '../types';
+import { restoreMediaUrls } from './storageService';
+import { blobToDataUrl, isDataUrl } from '../utils/dataUrl';
+import { getSessionPath } from '../utils/messageTree';
+import { parseMarkdown, BlockNode, InlineNode, TableAlign } from '../utils/markdown';
+
+export const SESSION_EXPORT_FORMAT = 'swiftmind-sessions';
+export const SESSION_EXPORT_VERSION = 1;
+
+export type SessionExportFormat = 'markdown' | 'json' | 'html';
+
+export interface SessionExportFile {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  sessions: Session[];
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  [Role.USER]: 'You',
+  [Role.MODEL]: 'SwiftMind',
+  [Role.SYSTEM]: 'System'
+};
+
+const baseFileName = (session: Session) =>
+  (session.title.trim() || 'conversation').replace(/[^\p{L}\p{N}_-]+/gu, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'conversation';
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+// --- Media ---
+
+const toDataUrl = async (url: string | undefined): Promise<string | undefined> => {
+  if (!url || isDataUrl(url) || !url.startsWith('blob:')) return url || undefined;
+  try {
+    return await blobToDataUrl(await (await fetch(url)).blob());
+  } catch (error) {
+    console.warn("Failed to read media for export:", error);
+    return undefined;
+  }
+};
+
+// Copies of the messages with stored media loaded and every object URL turned into a data URL.
+// Blob ids only mean something in this browser's database, so they are dropped.
+const inlineMedia = async (messages: Message[]): Promise<Message[]> => {
+  const patches = await restoreMediaUrls(messages);
+  return Promise.all(messages.map(async original => {
+    const { mediaBlobId, audioBlobId, isStreaming, ...message } = { ...original, ...patches.get(original.id) };
+    return {
+      ...message,
+      mediaUrl: await toDataUrl(message.mediaUrl),
+      audioUrl: await toDataUrl(message.audioUrl),
+      toolCalls: message.toolCalls && await Promise.all(message.toolCalls.map(async call => {
+        if (!call.media) return call;
+        const { blobId, ...media } = call.media;
+        return { ...call, media: { ...media, url: (await toDataUrl(media.url)) || '' } };
+      }))
+    };
+  }));
+};
+
+// --- JSON ---
+
+export const inlineSessionMedia = async (session: Session): Promise<Session> => ({
+  ...session,
+  messages: await inlineMedia(session.messages)
+});
+
+export const buildSessionExport = async (sessions: Session[]): Promise<SessionExportFile> => ({
+  format: SESSION_EXPORT_FORMAT,
+  version: SESSION_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  sessions: await Promise.all(sessions.map(async ({ isDeleted, deletedAt, ...session }) => inlineSessionMedia(session)))
+});
+
+export const sessionToJson = async (session: Session): Promise<DownloadData> => ({
+  fileName: `${baseFileName(session)}.json`,
+  data: JSON.stringify(await buildSessionExport([session]), null, 2),
+  mimeType: 'application/json'
+});
+
+// --- Markdown ---
+
+const describeMedia = (message: Message): string[] => [
+  ...(message.attachments || []).map(att => `_Attachment: ${att.name}_`),
+  message.mediaUrl ? `_Generated ${message.mediaType || 'media'}_` : '',
+  message.audioUrl ? '_Generated audio_' : '',
+  message.downloadData ? `_File: ${message.downloadData.fileName}_` : '',
+  ...(message.toolCalls || []).map(call => `_${call.label}${call.summary ? `: ${call.summary}` : ''}_`)
+].filter(Boolean);
+
+export const sessionToMarkdown = (session: Session): DownloadData => {
+  const turns = getSessionPath(session).map(message => [
+    `### ${ROLE_LABELS[message.role]} · ${formatTimestamp(message.timestamp)}`,
+    message.content.trim(),
+    ...describeMedia(message)
+  ].filter(Boolean).join('\n\n'));
+
+  const header = `# ${session.title || 'Untitled Session'}\n\n_${session.activeModule} · exported ${formatTimestamp(Date.now())}_`;
+  const markdown = [header, ...turns].join('\n\n---\n\n');
+
+  return { fileName: `${baseFileName(session)}.md`, data: `${markdown}\n`, mimeType: 'text/markdown' };
+};
+
+// --- HTML ---
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Media URLs end up in src/href attributes, so only data and http(s) URLs are kept
+const safeMediaUrl = (url: string | undefined) => (url && /^(data:|https?:)/i.test(url) ? escapeHtml(url) : null);
+
+const renderInlineHtml = (nodes: InlineNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return escapeHtml(node.value);
+    case 'strong': return `<strong>${renderInlineHtml(node.children)}</strong>`;
+    case 'em': return `<em>${renderInlineHtml(node.children)}</em>`;
+    case 'del': return `<del>${renderInlineHtml(node.children)}</del>`;
+    case 'code': return `<code>${escapeHtml(node.value)}</code>`;
+    case 'link': return `<a href="${escapeHtml(node.href)}">${renderInlineHtml(node.children)}</a>`;
+    case 'image': return `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}">`;
+    case 'break': return '<br>';
+  }
+}).join('');
+
+const alignStyle = (align: TableAlign) => (align ? ` style="text-align:${align}"` : '');
+
+const renderBlocksHtml = (blocks: BlockNode[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading': return `<h${block.level}>${renderInlineHtml(block.children)}</h${block.level}>`;
+    case 'paragraph': return `<p>${renderInlineHtml(block.children)}</p>`;
+    case 'code': return `<pre><code>${escapeHtml(block.value)}</code></pre>`;
+    case 'blockquote': return `<blockquote>${renderBlocksHtml(block.children)}</blockquote>`;
+    case 'hr': return '<hr>';
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      const items = block.items.map(item => {
+        const box = item.checked === null ? '' : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+        return `<li>${box}${renderBlocksHtml(item.children)}</li>`;
+      }).join('');
+      return `<${tag}${start}>${items}</${tag}>`;
+    }
+    case 'table': {
+      const header = block.header
+        ? `<thead><tr>${block.header.map((cell, i) => `<th${alignStyle(block.align[i])}>${renderInlineHtml(cell)}</th>`).join('')}</tr></thead>`
+        : '';
+      const rows = block.rows.map(row =>
+        `<tr>${row.map((cell, i) => `<td${alignStyle(block.align[i])}>${renderInlineHtml(cell)}</td>`).join('')}</tr>`
+      ).join('');
+      return `<table>${header}<tbody>${rows}</tbody></table>`;
+    }
+  }
+}).join('\n');
+
+const renderMediaHtml = (url: string | undefined, type: string, label: string): string => {
+  const src = safeMediaUrl(url);
+  if (!src) return '';
+  if (type.startsWith('image')) return `<img class="media" src="${src}" alt="${escapeHtml(label)}">`;
+  if (type.startsWith('video')) return `<video class="media" src="${src}" controls></video>`;
+  if (type.startsWith('audio')) return `<audio src="${src}" controls></audio>`;
+  return `<a class="file" href="${src}" download="${escapeHtml(label)}">${escapeHtml(label)}</a>`;
+};
+
+const renderMessageHtml = (message: Message): string => {
+  const isUser = message.role === Role.USER;
+  const body = isUser
+    ? `<p>${escapeHtml(message.content).replace(/\n/g, '<br>')}</p>`
+    : renderBlocksHtml(parseMarkdown(message.content));
+  const media = [
+    ...(message.attachments || []).map(att => renderMediaHtml(att.data, att.type, att.name)),
+    renderMediaHtml(message.mediaUrl, message.mediaType || 'image', 'Generated media'),
+    renderMediaHtml(message.audioUrl, 'audio', 'Generated audio'),
+    ...(message.toolCalls || []).map(call => call.media ? renderMediaHtml(call.media.url, call.media.type, call.label) : '')
+  ].filter(Boolean).join('\n');
+  const tools = (message.toolCalls || [])
+    .map(call => `<div class="tool">${escapeHtml(call.label)}${call.summary ? ` — ${escapeHtml(call.summary)}` : ''}</div>`)
+    .join('');
+
+  return `<article class="message ${isUser ? 'user' : 'model'}">
+<header>${ROLE_LABELS[message.role]} <time>${escapeHtml(formatTimestamp(message.timestamp))}</time></header>
+${media}
+${body}
+${tools}
+</article>`;
+};
+
+const TRANSCRIPT_STYLES = `
+body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; background: #f9fafb; color: #374151; margin: 0; }
+main { max-width: 760px; margin: 0 auto; padding: 32px 16px; }
+h1.title { font-size: 22px; color: #111827; margin: 0 0 4px; }
+.meta { font-size: 12px; color: #9ca3af; margin-bottom: 24px; }
+.message { border-radius: 16px; padding: 16px 20px; margin: 12px 0; line-height: 1.6; }
+.message.user { background: #38bdf8; color: #fff; margin-left: 15%; }
+.message.model { background: #fff; border: 1px solid #f3f4f6; margin-right: 5%; }
+.message header { font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: .05em; opacity: .7; margin-bottom: 8px; }
+.message header time { font-weight: 400; text-transform: none; margin-left: 6px; }
+.media { max-width: 100%; border-radius: 8px; display: block; margin: 8px 0; }
+audio { width: 100%; margin: 8px 0; }
+.file { display: inline-block; margin: 4px 0; color: inherit; }
+.tool { font-size: 12px; color: #6b7280; border-top: 1px solid #f3f4f6; padding-top: 6px; margin-top: 8px; }
+pre { background: #111827; color: #e5e7eb; padding: 12px; border-radius: 8px; overflow-x: auto; }
+code { font-family: ui-monospace, Menlo, monospace; font-size: 13px; }
+table { border-collapse: collapse; margin: 8px 0; }
+th, td { border: 1px solid #e5e7eb; padding: 4px 8px; }
+blockquote { border-left: 3px solid #e5e7eb; margin: 8px 0; padding-left: 12px; color: #6b7280; }
+a { color: #0284c7; }
+`;
+
+export const sessionToHtml = async (session: Session): Promise<DownloadData> => {
+  const messages = await inlineMedia(getSessionPath(session));
+  const title = escapeHtml(session.title || 'Untitled Session');
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${TRANSCRIPT_STYLES}</style>
+</head>
+<body>
+<main>
+<h1 class="title">${title}</h1>
+<div class="meta">${escapeHtml(session.activeModule)} · exported ${escapeHtml(formatTimestamp(Date.now()))}</div>
+${messages.map(renderMessageHtml).join('\n')}
+</main>
+</body>
+</html>
+`;
+  return { fileName: `${baseFileName(session)}.html`, data: html, mimeType: 'text/html' };
+};
+
+export const exportSession = (session: Session, format: SessionExportFormat): Promise<DownloadData> => {
+  switch (format) {
+    case 'markdown': return Promise.resolve(sessionToMarkdown(session));
+    case 'html': return sessionToHtml(session);
+    default: return sessionToJson(session);
+  }
+};
+
+// --- Import ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const readString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') throw new Error(`${field} must be a string.`);
+  return value;
+};
+
+const readTimestamp = (value: unknown, field: string): number => {
+  if (!isFiniteNumber(value)) throw new Error(`${field} must be a timestamp.`);
+  return value;
+};
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const optionalNumber = (value: unknown): number | undefined => (isFiniteNumber(value) ? value : undefined);
+
+// The named fields as numbers, or null if any of them is missing or not a finite number
+const readNumbers = <K extends string>(record: Record<string, unknown>, fields: readonly K[]): Record<K, number> | null => {
+  const numbers = {} as Record<K, number>;
+  for (const field of fields) {
+    const value = record[field];
+    if (!isFiniteNumber(value)) return null;
+    numbers[field] = value;
+  }
+  return numbers;
+};
+
+const MEDIA_TYPES = ['image', 'video', 'audio'] as const;
+
+const readAttachments = (value: unknown, field: string): FileAttachment[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new Error(`${field} must be a list.`);
+  return value.map((att: unknown, i) => {
+    if (!isRecord(att)) throw new Error(`${field} ${i + 1} is not an attachment.`);
+    return {
+      name: readString(att.name, `${field} ${i + 1} name`),
+      type: readString(att.type, `${field} ${i + 1} type`),
+      data: readString(att.data, `${field} ${i + 1} data`)
+    };
+  });
+};
+
+const readToolCalls = (value: unknown): ToolCallRecord[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap((call: unknown): ToolCallRecord[] => {
+    if (!isRecord(call) || typeof call.id !== 'string' || typeof call.name !== 'string') return [];
+    const media = call.media;
+    return [{
+      id: call.id,
+      name: call.name,
+      label: optionalString(call.label) || call.name,
+      args: isRecord(call.args) ? call.args : {},
+      status: isOneOf(call.status, ['success', 'error'] as const) ? call.status : 'cancelled', // Nothing is running after an import
+      summary: optionalString(call.summary),
+      error: optionalString(call.error),
+      media: isRecord(media) && typeof media.url === 'string' && isOneOf(media.type, MEDIA_TYPES)
+        ? { url: media.url, type: media.type }
+        : undefined,
+      startedAt: optionalNumber(call.startedAt) ?? 0,
+      finishedAt: optionalNumber(call.finishedAt)
+    }];
+  });
+};
+
+const readCitations = (value: unknown): DocumentCitation[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const citations = value.flatMap((citation: unknown): DocumentCitation[] => {
+    if (!isRecord(citation) || !isFiniteNumber(citation.marker) || typeof citation.documentKey !== 'string' ||
+      typeof citation.fileName !== 'string' || typeof citation.location !== 'string' || !isFiniteNumber(citation.chunkIndex)) {
+      return [];
+    }
+    return [{
+      marker: citation.marker,
+      documentKey: citation.documentKey,
+      fileName: citation.fileName,
+      location: citation.location,
+      page: optionalNumber(citation.page),
+      chunkIndex: citation.chunkIndex,
+      excerpt: optionalString(citation.excerpt) || ''
+    }];
+  });
+  return citations.length > 0 ? citations : undefined;
+};
+
+// Ticks keyed by task index
+const readTaskState = (value: unknown): Record<number, boolean> | undefined => {
+  if (!isRecord(value)) return undefined;
+  const entries = Object.entries(value).filter(([key, checked]) => /^\d+$/.test(key) && typeof checked === 'boolean');
+  return entries.length > 0 ? Object.fromEntries(entries) as Record<number, boolean> : undefined;
+};
+
+// Files open from the message's download button; HTML would open as a page in the app's origin,
+// so an imported HTML file is dropped rather than trusted.
+const readDownloadData = (value: unknown, field: string): DownloadData | undefined => {
+  if (!isRecord(value) || typeof value.data !== 'string') return undefined;
+  const mimeType = readString(value.mimeType, `${field} file type`);
+  if (/html|xml/i.test(mimeType)) return undefined;
+  return { fileName: readString(value.fileName, `${field} file name`), data: value.data, mimeType };
+};
+
+const GST_LINE_NUMBERS = ['quantity', 'unitPrice', 'rate', 'taxableValue', 'cgst', 'sgst', 'igst', 'cess', 'totalTax', 'lineTotal'] as const;
+const GST_SUMMARY_NUMBERS = ['rate', 'taxableValue', 'cgst', 'sgst', 'igst', 'cess'] as const;
+const GST_RESULT_NUMBERS = ['taxableValue', 'cgst', 'sgst', 'igst', 'cess', 'totalTax', 'roundOff', 'invoiceTotal', 'taxPayableByRecipient'] as const;
+
+const readGstLine = (value: unknown): GstLineResult | null => {
+  if (!isRecord(value) || typeof value.description !== 'string') return null;
+  const numbers = readNumbers(value, GST_LINE_NUMBERS);
+  return numbers && { description: value.description, ...numbers };
+};
+
+const readGstSummary = (value: unknown): GstRateSummary | null => (isRecord(value) ? readNumbers(value, GST_SUMMARY_NUMBERS) : null);
+
+// Results are shown as saved, so one with a missing or mistyped figure is dropped
+const readGstCalculation = (value: unknown): GstCalculationResult | null => {
+  if (!isRecord(value) || !Array.isArray(value.lines) || !Array.isArray(value.rateSummary) || !Array.isArray(value.steps)) return null;
+  if (!isOneOf(value.pricing, ['exclusive', 'inclusive'] as const) || !isOneOf(value.supplyType, ['intra', 'inter'] as const) ||
+    !isOneOf(value.rounding, ['none', 'nearest', 'up', 'down'] as const) || typeof value.reverseCharge !== 'boolean') {
+    return null;
+  }
+  const lines = value.lines.map(readGstLine);
+  const rateSummary = value.rateSummary.map(readGstSummary);
+  const numbers = readNumbers(value, GST_RESULT_NUMBERS);
+  const steps: unknown[] = value.steps;
+  if (!numbers || lines.some(line => !line) || rateSummary.some(row => !row) || !steps.every(step => typeof step === 'string')) return null;
+  return {
+    pricing: value.pricing,
+    supplyType: value.supplyType,
+    reverseCharge: value.reverseCharge,
+    rounding: value.rounding,
+    lines: lines as GstLineResult[],
+    rateSummary: rateSummary as GstRateSummary[],
+    ...numbers,
+    steps: steps as string[]
+  };
+};
+
+const readGstCalculations = (value: unknown): GstCalculationResult[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const results = value.map(readGstCalculation).filter((result): result is GstCalculationResult => result !== null);
+  return results.length > 0 ? results : undefined;
+};
+
+const readMessage = (value: unknown, field: string): Message => {
+  if (!isRecord(value)) throw new Error(`${field} is not a message.`);
+  const { role, parentId } = value;
+  if (!isOneOf(role, Object.values(Role))) throw new Error(`${field} has an unknown role "${String(role)}".`);
+  return {
+    id: readString(value.id, `${field} id`),
+    parentId: typeof parentId === 'string' ? parentId : parentId === null ? null : undefined,
+    role,
+    content: readString(value.content, `${field} content`),
+    timestamp: readTimestamp(value.timestamp, `${field} timestamp`),
+    isInterrupted: value.isInterrupted === true || undefined,
+    mediaUrl: optionalString(value.mediaUrl),
+    audioUrl: optionalString(value.audioUrl),
+    mediaType: isOneOf(value.mediaType, MEDIA_TYPES) ? value.mediaType : undefined,
+    attachments: readAttachments(value.attachments, `${field} attachment`),
+    taskState: readTaskState(value.taskState),
+    reaction: value.reaction === 'like' || value.reaction === 'dislike' ? value.reaction : undefined,
+    feedback: optionalString(value.feedback),
+    downloadData: readDownloadData(value.downloadData, field),
+    gstCalculations: readGstCalculations(value.gstCalculations),
+    invoiceId: optionalString(value.invoiceId),
+    toolCalls: readToolCalls(value.toolCalls),
+    videoJobId: optionalString(value.videoJobId),
+    conversionBatchId: optionalString(value.conversionBatchId),
+    citations: readCitations(value.citations)
+  };
+};
+
+const readSession = (value: unknown, field: string): Session => {
+  if (!isRecord(value)) throw new Error(`${field} is not a conversation.`);
+  if (!Array.isArray(value.messages)) throw new Error(`${field} has no message list.`);
+  const module = isOneOf(value.activeModule, Object.values(TaskModule)) ? value.activeModule : TaskModule.GENERAL;
+  const branchSelections = isRecord(value.branchSelections)
+    ? Object.fromEntries(Object.entries(value.branchSelections).filter(([, id]) => typeof id === 'string')) as Record<string, string>
+    : undefined;
+  return {
+    id: readString(value.id, `${field} id`),
+    title: readString(value.title, `${field} title`),
+    messages: value.messages.map((msg: unknown, i: number) => readMessage(msg, `${field}, message ${i + 1}`)),
+    activeModule: module,
+    lastModified: readTimestamp(value.lastModified, `${field} lastModified`),
+    isDeleted: value.isDeleted === true || undefined,
+    deletedAt: optionalNumber(value.deletedAt),
+    branchSelections
+  };
+};
+
+// Validates a list of sessions from a file (an export or an account backup)
+export const parseSessionList = (value: unknown): Session[] => {
+  if (!Array.isArray(value)) throw new Error('The file has no conversation list.');
+  return value.map((session: unknown, i: number) => readSession(session, `Conversation ${i + 1}`));
+};
+
+// Validates an exported JSON file and returns its sessions. Throws with a readable reason.
+export const parseSessionExport = (text: string): Session[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== SESSION_EXPORT_FORMAT) {
+    throw new Error('This is not a SwiftMind conversation export.');
+  }
+  if (typeof data.version !== 'number' || data.version < 1) throw new Error('The export has no valid version.');
+  if (data.version > SESSION_EXPORT_VERSION) {
+    throw new Error(`This export was made by a newer version of SwiftMind (format ${data.version}).`);
+  }
+  if (!Array.isArray(data.sessions) || data.sessions.length === 0) throw new Error('The export contains no conversations.');
+  return parseSessionList(data.sessions);
+};
+
+// Gives imported sessions and their messages fresh ids. Message ids are keys across every account
+// in storage, so even a first-time import could otherwise overwrite someone else's data.
+export const prepareImportedSessions = (sessions: Session[]): Session[] => sessions.map(session => {
+  const ids = new Map(session.messages.map(msg => [msg.id, uuidv4()]));
+  const remap = (id: string) => ids.get(id) ?? id;
+  return {
+    ...session,
+    id: uuidv4(),
+    messages: session.messages.map(msg => ({
+      ...msg,
+      id: remap(msg.id),
+      parentId: typeof msg.parentId === 'string' ? remap(msg.parentId) : msg.parentId
+    })),
+    branchSelections: session.branchSelections && Object.fromEntries(
+      Object.entries(session.branchSelections).map(([key, id]) => [remap(key), remap(id)])
+    )
+  };
+});
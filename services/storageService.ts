@@ -0,0 +1,579 @@
+// IndexedDB persistence for users, sessions, messages and binary blobs.
+// Sessions are saved as diffs against the last saved snapshot, so a streamed reply rewrites one
+// message record instead of the whole history. Large data URLs (uploads, generated media, files)
+// live in the blobs store and are swapped for a reference inside the message record.
+// Each session's document index (see services/documentStore.ts) has its own store and goes with the session.
+// Generated video and audio arrive as object URLs; their bytes are kept as media blobs that the
+// message points to by id, and fresh object URLs are created when the session is opened again.
+// Accounts with a passphrase have their records sealed with AES-GCM under the account's data key
+// (see services/authService.ts); only ids and the indexed owner fields stay readable.
+
+import { Message, Session, SessionDocument, StorageUsage, UserProfile } from '../types';
+import { blobToDataUrl, dataUrlToBlob, isDataUrl } from '../utils/dataUrl';
+import { v4 as uuidv4 } from 'uuid';
+
+const DB_NAME = 'swiftmind';
+const DB_VERSION = 2;
+
+const USERS_STORE = 'users';
+const SESSIONS_STORE = 'sessions';
+const MESSAGES_STORE = 'messages';
+const BLOBS_STORE = 'blobs';
+const DOCUMENTS_STORE = 'documents';
+
+const BLOB_REF_PREFIX = 'swiftmind-blob:';
+const MIN_BLOB_LENGTH = 4096; // Smaller data URLs stay inline
+
+interface Sealed {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+type SessionRecord = Omit<Session, 'messages'> & { userId: string };
+type MessageRecord = Message & { sessionId: string; userId: string; order: number };
+type SealedSessionRecord = { id: string; userId: string; sealed: Sealed };
+type SealedMessageRecord = { id: string; sessionId: string; userId: string; order: number; sealed: Sealed };
+type DocumentRecord = SessionDocument & { userId: string };
+type SealedDocumentRecord = { id: string; sessionId: string; userId: string; sealed: Sealed };
+
+interface BlobRecord {
+  id: string;
+  userId: string;
+  sessionId: string;
+  messageId: string;
+  blob: Blob;
+  sealedType?: string; // Set when blob holds IV + ciphertext; the original MIME type
+  createdAt: number;
+}
+
+// --- Database ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(USERS_STORE, { keyPath: 'id' });
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' }).createIndex('userId', 'userId');
+          db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+          const blobs = db.createObjectStore(BLOBS_STORE, { keyPath: 'id' });
+          blobs.createIndex('sessionId', 'sessionId');
+          blobs.createIndex('messageId', 'messageId');
+        }
+        if (event.oldVersion < 2) {
+          const documents = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+          documents.createIndex('userId', 'userId');
+          documents.createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // A newer version opened in another tab takes over; this tab reopens on its next request
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Storage is locked by another SwiftMind tab. Close it and reload.'));
+    });
+    // Let a later call retry instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Storage transaction was aborted.'));
+});
+
+const deleteByIndex = (store: IDBObjectStore, index: string, key: string) => {
+  const cursorRequest = store.index(index).openKeyCursor(IDBKeyRange.only(key));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+};
+
+// --- Encryption at rest ---
+
+const IV_BYTES = 12;
+
+// Data keys of unlocked accounts. null marks an encrypted account that is locked; accounts without
+// an entry have no passphrase yet and are stored in the clear.
+const vaultKeys = new Map<string, CryptoKey | null>();
+
+const getVaultKey = (userId: string): CryptoKey | undefined => {
+  const key = vaultKeys.get(userId);
+  if (key === null) throw new Error('This account is locked. Unlock it to open your chats.');
+  return key;
+};
+
+export const setVaultKey = (userId: string, key: CryptoKey) => {
+  vaultKeys.set(userId, key);
+};
+
+export const isVaultOpen = (userId: string): boolean => !!vaultKeys.get(userId);
+
+// Forgets the key and everything decrypted with it. Call after pending saves are written.
+export const lockVault = (userId: string) => {
+  vaultKeys.set(userId, null);
+  snapshots.delete(userId);
+  releaseMediaUrls(Array.from(mediaUrls.keys()));
+};
+
+const encrypt = async (key: CryptoKey, bytes: BufferSource): Promise<Sealed> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+const sealJson = (key: CryptoKey, value: unknown) => encrypt(key, new TextEncoder().encode(JSON.stringify(value)));
+
+const openJson = async <T>(key: CryptoKey, sealed: Sealed): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data)));
+
+// Small values kept outside IndexedDB (e.g. API keys in localStorage) are sealed into base64 text:
+// the IV followed by the ciphertext
+export const sealText = async (userId: string, value: unknown): Promise<string> => {
+  const key = getVaultKey(userId);
+  if (!key) throw new Error('Set a passphrase for this account first.');
+  const { iv, data } = await sealJson(key, value);
+  return btoa(String.fromCharCode(...iv, ...new Uint8Array(data)));
+};
+
+export const openText = async <T>(userId: string, text: string): Promise<T> => {
+  const key = getVaultKey(userId);
+  if (!key) throw new Error('Set a passphrase for this account first.');
+  const bytes = Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+  return openJson<T>(key, { iv: bytes.slice(0, IV_BYTES), data: bytes.slice(IV_BYTES).buffer });
+};
+
+const sealSessionRecord = async (key: CryptoKey, { id, userId, ...meta }: SessionRecord): Promise<SealedSessionRecord> =>
+  ({ id, userId, sealed: await sealJson(key, meta) });
+
+const sealMessageRecord = async (key: CryptoKey, { sessionId, userId, order, ...message }: MessageRecord): Promise<SealedMessageRecord> =>
+  ({ id: message.id, sessionId, userId, order, sealed: await sealJson(key, message) });
+
+const sealBlobRecord = async (key: CryptoKey, record: BlobRecord): Promise<BlobRecord> => {
+  const { iv, data } = await encrypt(key, await record.blob.arrayBuffer());
+  return { ...record, blob: new Blob([iv, data]), sealedType: record.blob.type };
+};
+
+const sealDocumentRecord = async (key: CryptoKey, { id, sessionId, userId, ...document }: DocumentRecord): Promise<SealedDocumentRecord> =>
+  ({ id, sessionId, userId, sealed: await sealJson(key, document) });
+
+const openSessionRecord = async (record: SessionRecord | SealedSessionRecord): Promise<SessionRecord> => {
+  if (!('sealed' in record)) return record;
+  const meta = await openJson<Omit<SessionRecord, 'id' | 'userId'>>(getVaultKey(record.userId)!, record.sealed);
+  return { ...meta, id: record.id, userId: record.userId };
+};
+
+const openMessageRecord = async (record: MessageRecord | SealedMessageRecord): Promise<MessageRecord> => {
+  if (!('sealed' in record)) return record;
+  const message = await openJson<Message>(getVaultKey(record.userId)!, record.sealed);
+  return { ...message, sessionId: record.sessionId, userId: record.userId, order: record.order };
+};
+
+const openDocumentRecord = async (record: DocumentRecord | SealedDocumentRecord): Promise<DocumentRecord> => {
+  if (!('sealed' in record)) return record;
+  const document = await openJson<Omit<DocumentRecord, 'id' | 'sessionId' | 'userId'>>(getVaultKey(record.userId)!, record.sealed);
+  return { ...document, id: record.id, sessionId: record.sessionId, userId: record.userId };
+};
+
+const openBlob = async (record: BlobRecord): Promise<Blob> => {
+  if (record.sealedType === undefined) return record.blob;
+  const bytes = new Uint8Array(await record.blob.arrayBuffer());
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) }, getVaultKey(record.userId)!, bytes.slice(IV_BYTES));
+  return new Blob([plain], { type: record.sealedType });
+};
+
+// --- Users ---
+
+export const getStoredUsers = async (): Promise<UserProfile[]> => {
+  const db = await openDatabase();
+  return requestResult(db.transaction(USERS_STORE).objectStore(USERS_STORE).getAll());
+};
+
+export const putStoredUsers = async (users: UserProfile[]) => {
+  const db = await openDatabase();
+  const tx = db.transaction(USERS_STORE, 'readwrite');
+  users.forEach(user => tx.objectStore(USERS_STORE).put(user));
+  await transactionDone(tx);
+};
+
+// --- Blob references ---
+
+// Replaces large data URLs anywhere in the message with references, collecting the blobs to write.
+// Values unchanged since the last save are referenced again without rewriting the blob.
+const dehydrateMessage = (
+  message: Message,
+  previous: Message | undefined,
+  owner: { userId: string; sessionId: string },
+  blobs: BlobRecord[]
+): Message => {
+  const walk = (value: unknown, prev: unknown, path: string): unknown => {
+    if (typeof value === 'string') {
+      // Object URLs die with the page; media blobs referenced by id bring them back
+      if (value.startsWith('blob:')) return '';
+      if (!isDataUrl(value) || value.length < MIN_BLOB_LENGTH) return value;
+      const id = `${message.id}:${path}`;
+      if (value !== prev) {
+        blobs.push({ id, ...owner, messageId: message.id, blob: dataUrlToBlob(value), createdAt: Date.now() });
+      }
+      return `${BLOB_REF_PREFIX}${id}`;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => walk(item, Array.isArray(prev) ? prev[i] : undefined, `${path}.${i}`));
+    }
+    if (value && typeof value === 'object') {
+      const prevObject = prev && typeof prev === 'object' ? prev as Record<string, unknown> : {};
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item, prevObject[key], `${path}.${key}`)]));
+    }
+    return value;
+  };
+  return walk(message, previous, 'm') as Message;
+};
+
+// Ids of the blobs a stored message refers to
+const blobRefs = (value: unknown): Set<string> => {
+  const refs = new Set<string>();
+  JSON.stringify(value, (_key, item) => {
+    if (typeof item === 'string' && item.startsWith(BLOB_REF_PREFIX)) refs.add(item.slice(BLOB_REF_PREFIX.length));
+    return item;
+  });
+  return refs;
+};
+
+// Deletes the message's path-keyed blobs that it no longer refers to, e.g. after an attachment was
+// removed or the attachments were reordered. Media blobs have their own ids and are left alone.
+const deleteStaleBlobs = (blobStore: IDBObjectStore, messageId: string, keep: Set<string>) => {
+  const cursorRequest = blobStore.index('messageId').openKeyCursor(IDBKeyRange.only(messageId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const id = String(cursor.primaryKey);
+    if (id.startsWith(`${messageId}:`) && !keep.has(id)) blobStore.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+const rehydrateMessage = (record: MessageRecord, dataUrls: Map<string, string>): Message => {
+  const walk = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      // A missing blob leaves an empty value rather than a dangling reference
+      return value.startsWith(BLOB_REF_PREFIX) ? dataUrls.get(value.slice(BLOB_REF_PREFIX.length)) ?? '' : value;
+    }
+    if (Array.isArray(value)) return value.map(walk);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item)]));
+    }
+    return value;
+  };
+  const { sessionId, userId, order, ...message } = record;
+  return walk(message) as Message;
+};
+
+// --- Sessions ---
+
+// What each user's sessions looked like at the last successful save, by session id
+const snapshots = new Map<string, Map<string, Session>>();
+let writeQueue: Promise<void> = Promise.resolve();
+
+const toSessionRecord = ({ messages, ...session }: Session, userId: string): SessionRecord => ({ ...session, userId });
+
+const sessionMetaChanged = (a: Session, b: Session) =>
+  a.title !== b.title || a.activeModule !== b.activeModule || a.lastModified !== b.lastModified ||
+  a.isDeleted !== b.isDeleted || a.deletedAt !== b.deletedAt || a.branchSelections !== b.branchSelections;
+
+export const loadSessions = async (userId: string): Promise<Session[]> => {
+  const db = await openDatabase();
+  const sessionRecords = await requestResult<(SessionRecord | SealedSessionRecord)[]>(
+    db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index('userId').getAll(userId)
+  );
+
+  const sessions = await Promise.all(sessionRecords.map(async stored => {
+    const { userId: _owner, ...record } = await openSessionRecord(stored);
+    const storedMessages = await requestResult<(MessageRecord | SealedMessageRecord)[]>(
+      db.transaction(MESSAGES_STORE).objectStore(MESSAGES_STORE).index('sessionId').getAll(record.id)
+    );
+    const messageRecords = await Promise.all(storedMessages.map(openMessageRecord));
+    // Only inline references are read here; media blobs load when the session is opened
+    const refs = blobRefs(messageRecords);
+    const blobStore = db.transaction(BLOBS_STORE).objectStore(BLOBS_STORE);
+    const blobRecords = await Promise.all(Array.from(refs).map(id => requestResult<BlobRecord | undefined>(blobStore.get(id))));
+    const dataUrls = new Map(await Promise.all(
+      blobRecords.filter((blob): blob is BlobRecord => !!blob)
+        .map(async blob => [blob.id, await blobToDataUrl(await openBlob(blob))] as [string, string])
+    ));
+    const messages = messageRecords
+      .sort((a, b) => a.order - b.order)
+      .map(message => rehydrateMessage(message, dataUrls));
+    return { ...record, messages } as Session;
+  }));
+
+  sessions.sort((a, b) => b.lastModified - a.lastModified);
+  snapshots.set(userId, new Map(sessions.map(session => [session.id, session])));
+  return sessions;
+};
+
+const writeSessionDiff = async (userId: string, sessions: Session[]) => {
+  const snapshot = snapshots.get(userId) || new Map<string, Session>();
+  const owner = (sessionId: string) => ({ userId, sessionId });
+
+  const sessionPuts: SessionRecord[] = [];
+  const messagePuts: MessageRecord[] = [];
+  const messageDeletes: { id: string; message: Message }[] = [];
+  const blobPuts: BlobRecord[] = [];
+  const blobChecks: { messageId: string; keep: Set<string> }[] = [];
+
+  sessions.forEach(session => {
+    const previous = snapshot.get(session.id);
+    if (previous === session) return;
+    if (!previous || sessionMetaChanged(previous, session)) {
+      sessionPuts.push(toSessionRecord(session, userId));
+    }
+    if (previous?.messages === session.messages) return;
+
+    const previousMessages = new Map((previous?.messages || []).map((msg, order) => [msg.id, { msg, order }]));
+    session.messages.forEach((message, order) => {
+      const prev = previousMessages.get(message.id);
+      previousMessages.delete(message.id);
+      if (prev && prev.msg === message && prev.order === order) return;
+      const stored = dehydrateMessage(message, prev?.msg, owner(session.id), blobPuts);
+      messagePuts.push({ ...stored, ...owner(session.id), order });
+      if (prev && prev.msg !== message) blobChecks.push({ messageId: message.id, keep: blobRefs(stored) });
+    });
+    previousMessages.forEach(({ msg }, id) => messageDeletes.push({ id, message: msg }));
+  });
+
+  const currentIds = new Set(sessions.map(session => session.id));
+  const sessionDeletes = Array.from(snapshot.keys()).filter(id => !currentIds.has(id));
+
+  if (sessionPuts.length + messagePuts.length + messageDeletes.length + sessionDeletes.length === 0) {
+    snapshots.set(userId, new Map(sessions.map(session => [session.id, session])));
+    return;
+  }
+
+  // Encryption is async, so it finishes before the transaction opens (transactions close on await)
+  const key = getVaultKey(userId);
+  const records = key
+    ? await Promise.all([
+        Promise.all(sessionPuts.map(record => sealSessionRecord(key, record))),
+        Promise.all(messagePuts.map(record => sealMessageRecord(key, record))),
+        Promise.all(blobPuts.map(record => sealBlobRecord(key, record)))
+      ])
+    : [sessionPuts, messagePuts, blobPuts];
+
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, MESSAGES_STORE, BLOBS_STORE, DOCUMENTS_STORE], 'readwrite');
+  const sessionStore = tx.objectStore(SESSIONS_STORE);
+  const messageStore = tx.objectStore(MESSAGES_STORE);
+  const blobStore = tx.objectStore(BLOBS_STORE);
+
+  records[0].forEach(record => sessionStore.put(record));
+  records[1].forEach(record => messageStore.put(record));
+  records[2].forEach(record => blobStore.put(record));
+  blobChecks.forEach(({ messageId, keep }) => deleteStaleBlobs(blobStore, messageId, keep));
+  messageDeletes.forEach(({ id, message }) => {
+    releaseMediaUrls(getMediaBlobIds(message));
+    messageStore.delete(id);
+    deleteByIndex(blobStore, 'messageId', id);
+  });
+  sessionDeletes.forEach(id => {
+    snapshot.get(id)?.messages.forEach(message => releaseMediaUrls(getMediaBlobIds(message)));
+    sessionStore.delete(id);
+    deleteByIndex(messageStore, 'sessionId', id);
+    deleteByIndex(blobStore, 'sessionId', id);
+    deleteByIndex(tx.objectStore(DOCUMENTS_STORE), 'sessionId', id);
+  });
+
+  await transactionDone(tx);
+  snapshots.set(userId, new Map(sessions.map(session => [session.id, session])));
+};
+
+// Writes run one at a time so diffs always apply on top of the previous save
+export const saveSessions = (userId: string, sessions: Session[]): Promise<void> => {
+  const write = writeQueue.then(() => writeSessionDiff(userId, sessions));
+  writeQueue = write.catch(() => undefined);
+  return write;
+};
+
+// Rewrites every record of an account under its data key, e.g. right after a passphrase is set
+// on an account that was stored in the clear
+export const sealUserRecords = (userId: string): Promise<void> => {
+  const write = writeQueue.then(async () => {
+    const key = getVaultKey(userId);
+    if (!key) return;
+    const db = await openDatabase();
+    const sessionRecords = await requestResult<(SessionRecord | SealedSessionRecord)[]>(
+      db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index('userId').getAll(userId)
+    );
+    const plainSessions = sessionRecords.filter((record): record is SessionRecord => !('sealed' in record));
+    const messageRecords: MessageRecord[] = [];
+    const blobRecords: BlobRecord[] = [];
+    const documentRecords = await requestResult<(DocumentRecord | SealedDocumentRecord)[]>(
+      db.transaction(DOCUMENTS_STORE).objectStore(DOCUMENTS_STORE).index('userId').getAll(userId)
+    );
+    const plainDocuments = documentRecords.filter((record): record is DocumentRecord => !('sealed' in record));
+    for (const session of sessionRecords) {
+      const messages = await requestResult<(MessageRecord | SealedMessageRecord)[]>(
+        db.transaction(MESSAGES_STORE).objectStore(MESSAGES_STORE).index('sessionId').getAll(session.id)
+      );
+      messageRecords.push(...messages.filter((record): record is MessageRecord => !('sealed' in record)));
+      const blobs = await requestResult<BlobRecord[]>(
+        db.transaction(BLOBS_STORE).objectStore(BLOBS_STORE).index('sessionId').getAll(session.id)
+      );
+      blobRecords.push(...blobs.filter(record => record.sealedType === undefined));
+    }
+
+    const [sealedSessions, sealedMessages, sealedBlobs, sealedDocuments] = await Promise.all([
+      Promise.all(plainSessions.map(record => sealSessionRecord(key, record))),
+      Promise.all(messageRecords.map(record => sealMessageRecord(key, record))),
+      Promise.all(blobRecords.map(record => sealBlobRecord(key, record))),
+      Promise.all(plainDocuments.map(record => sealDocumentRecord(key, record)))
+    ]);
+    const tx = db.transaction([SESSIONS_STORE, MESSAGES_STORE, BLOBS_STORE, DOCUMENTS_STORE], 'readwrite');
+    sealedSessions.forEach(record => tx.objectStore(SESSIONS_STORE).put(record));
+    sealedMessages.forEach(record => tx.objectStore(MESSAGES_STORE).put(record));
+    sealedBlobs.forEach(record => tx.objectStore(BLOBS_STORE).put(record));
+    sealedDocuments.forEach(record => tx.objectStore(DOCUMENTS_STORE).put(record));
+    await transactionDone(tx);
+  });
+  writeQueue = write.catch(() => undefined);
+  return write;
+};
+
+// --- Document index ---
+
+export const loadSessionDocuments = async (userId: string): Promise<SessionDocument[]> => {
+  const db = await openDatabase();
+  const records = await requestResult<(DocumentRecord | SealedDocumentRecord)[]>(
+    db.transaction(DOCUMENTS_STORE).objectStore(DOCUMENTS_STORE).index('userId').getAll(userId)
+  );
+  return Promise.all(records.map(async stored => {
+    const { userId: _owner, ...document } = await openDocumentRecord(stored);
+    return document;
+  }));
+};
+
+// Queued with the session saves, so writes land in the order they were made
+export const saveSessionDocuments = (userId: string, puts: SessionDocument[], deleteIds: string[] = []): Promise<void> => {
+  const write = writeQueue.then(async () => {
+    const key = getVaultKey(userId);
+    const plain = puts.map(document => ({ ...document, userId }));
+    const records = key ? await Promise.all(plain.map(record => sealDocumentRecord(key, record))) : plain;
+    const db = await openDatabase();
+    const tx = db.transaction(DOCUMENTS_STORE, 'readwrite');
+    records.forEach(record => tx.objectStore(DOCUMENTS_STORE).put(record));
+    deleteIds.forEach(id => tx.objectStore(DOCUMENTS_STORE).delete(id));
+    await transactionDone(tx);
+  });
+  writeQueue = write.catch(() => undefined);
+  return write;
+};
+
+// --- Media blobs ---
+
+// One object URL per media blob for the lifetime of the page
+const mediaUrls = new Map<string, string>();
+
+export const getMediaBlobIds = (message: Message): string[] => [
+  message.mediaBlobId,
+  message.audioBlobId,
+  ...(message.toolCalls || []).map(call => call.media?.blobId)
+].filter((id): id is string => !!id);
+
+const releaseMediaUrls = (blobIds: string[]) => {
+  blobIds.forEach(id => {
+    const url = mediaUrls.get(id);
+    if (url) {
+      URL.revokeObjectURL(url);
+      mediaUrls.delete(id);
+    }
+  });
+};
+
+// Copies the bytes behind an object URL into the blobs store and returns the new blob id
+export const persistMediaUrl = async (
+  owner: { userId: string; sessionId: string; messageId: string },
+  url: string
+): Promise<string> => {
+  const blob = await (await fetch(url)).blob();
+  const id = uuidv4();
+  const key = getVaultKey(owner.userId);
+  const plain: BlobRecord = { id, ...owner, blob, createdAt: Date.now() };
+  const record = key ? await sealBlobRecord(key, plain) : plain;
+  const db = await openDatabase();
+  const tx = db.transaction(BLOBS_STORE, 'readwrite');
+  tx.objectStore(BLOBS_STORE).put(record);
+  await transactionDone(tx);
+  mediaUrls.set(id, url);
+  return id;
+};
+
+// Playable URLs for every message whose media was stored but whose URL is gone (e.g. after a reload).
+// Returns the fields to patch, keyed by message id.
+export const restoreMediaUrls = async (messages: Message[]): Promise<Map<string, Partial<Message>>> => {
+  const patches = new Map<string, Partial<Message>>();
+  const missing = messages.filter(message =>
+    (message.mediaBlobId && !message.mediaUrl) ||
+    (message.audioBlobId && !message.audioUrl) ||
+    message.toolCalls?.some(call => call.media?.blobId && !call.media.url)
+  );
+  if (missing.length === 0) return patches;
+
+  const db = await openDatabase();
+  const resolveUrl = async (blobId: string): Promise<string> => {
+    const cached = mediaUrls.get(blobId);
+    if (cached) return cached;
+    const record = await requestResult<BlobRecord | undefined>(db.transaction(BLOBS_STORE).objectStore(BLOBS_STORE).get(blobId));
+    if (!record) return '';
+    const url = URL.createObjectURL(await openBlob(record));
+    mediaUrls.set(blobId, url);
+    return url;
+  };
+
+  await Promise.all(missing.map(async message => {
+    const patch: Partial<Message> = {};
+    if (message.mediaBlobId && !message.mediaUrl) patch.mediaUrl = await resolveUrl(message.mediaBlobId);
+    if (message.audioBlobId && !message.audioUrl) patch.audioUrl = await resolveUrl(message.audioBlobId);
+    if (message.toolCalls) {
+      patch.toolCalls = await Promise.all(message.toolCalls.map(async call =>
+        call.media?.blobId && !call.media.url ? { ...call, media: { ...call.media, url: await resolveUrl(call.media.blobId) } } : call
+      ));
+    }
+    patches.set(message.id, patch);
+  }));
+  return patches;
+};
+
+// --- Quota ---
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Asks the browser not to evict our data under storage pressure; it may silently decline
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
+
+export const isQuotaError = (error: any): boolean => error?.name === 'QuotaExceededError';
@@ -0,0 +1,144 @@
+// Typed tool registry shared by every chat module.
+// Tools are offered to the model through native function calling; providers without it
+// fall back to inline {{TAG: ...}} markers, which parseToolTags turns into the same calls.
+
+import { Message, ProviderId, TaskModule, ToolCallRecord } from '../types';
+import { ToolDeclaration, ToolHandler } from './modelProvider';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ToolContext {
+  userId?: string;
+  sessionId: string;
+  provider?: ProviderId;
+  signal: AbortSignal;
+  // Attaches structured results (GST breakdowns, invoices) to the reply being written
+  patchMessage: (updater: (msg: Message) => Partial<Message>) => void;
+}
+
+export interface ToolOutcome {
+  response: Record<string, unknown>; // Sent back to the model
+  summary?: string; // Shown on the status card
+  media?: ToolCallRecord['media'];
+}
+
+export interface RegisteredTool {
+  declaration: ToolDeclaration;
+  label: string;
+  modules: TaskModule[] | 'all';
+  // Long jobs (video, audio) answer the model straight away and finish in the background
+  deferred?: boolean;
+  // Inline marker understood by the fallback parser, e.g. {{IMAGE: a red fox}}
+  tag?: { name: string; toArgs: (body: string) => Record<string, unknown> };
+  execute: (args: Record<string, unknown>, ctx: ToolContext) => Promise<ToolOutcome>;
+}
+
+// --- Registry ---
+
+const tools = new Map<string, RegisteredTool>();
+
+export const registerTool = (tool: RegisteredTool) => {
+  tools.set(tool.declaration.name, tool);
+};
+
+export const getTool = (name: string): RegisteredTool | undefined => tools.get(name);
+
+export const getToolsForModule = (module: TaskModule): RegisteredTool[] =>
+  Array.from(tools.values()).filter(tool => tool.modules === 'all' || tool.modules.includes(module));
+
+// --- Fallback tag protocol ---
+
+export interface ParsedToolTag {
+  tool: RegisteredTool;
+  args: Record<string, unknown>;
+}
+
+// Every {{NAME: body}} marker, bodies may span lines
+const TAG_PATTERN = /\{\{\s*([A-Z_]+)\s*:\s*([\s\S]*?)\s*\}\}/g;
+
+export const parseToolTags = (text: string, available: RegisteredTool[]): { calls: ParsedToolTag[]; cleanText: string } => {
+  const calls: ParsedToolTag[] = [];
+  const cleanText = text.replace(TAG_PATTERN, (match, name: string, body: string) => {
+    const tool = available.find(t => t.tag?.name === name);
+    if (!tool || !tool.tag || !body.trim()) return match;
+    calls.push({ tool, args: tool.tag.toArgs(body.trim()) });
+    return '';
+  });
+  return { calls, cleanText: calls.length > 0 ? cleanText.replace(/\n{3,}/g, '\n\n').trim() : text };
+};
+
+// Hides complete markers while a reply is still streaming
+export const stripToolTags = (text: string, available: RegisteredTool[]): string =>
+  parseToolTags(text, available).cleanText;
+
+// --- Execution ---
+
+export interface ToolSession {
+  handlers: ToolHandler[]; // For providers with native function calling
+  runTags: (text: string) => string; // Runs tag calls found in the text; returns it without the tags
+  settled: () => Promise<void>; // Resolves once every call, deferred ones included, has finished
+}
+
+const errorMessage = (error: any) => error?.message || String(error);
+
+export const createToolSession = (
+  available: RegisteredTool[],
+  ctx: ToolContext,
+  onRecord: (record: ToolCallRecord) => void
+): ToolSession => {
+  const pending: Promise<unknown>[] = [];
+
+  const run = (tool: RegisteredTool, args: Record<string, unknown>) => {
+    const record: ToolCallRecord = {
+      id: uuidv4(),
+      name: tool.declaration.name,
+      label: tool.label,
+      args,
+      status: 'running',
+      startedAt: Date.now()
+    };
+    onRecord(record);
+
+    const job = tool.execute(args, ctx).then(
+      outcome => {
+        onRecord({ ...record, status: 'success', summary: outcome.summary, media: outcome.media, finishedAt: Date.now() });
+        return outcome.response;
+      },
+      error => {
+        const cancelled = ctx.signal.aborted;
+        onRecord({ ...record, status: cancelled ? 'cancelled' : 'error', error: cancelled ? undefined : errorMessage(error), finishedAt: Date.now() });
+        throw error;
+      }
+    );
+    pending.push(job.catch(() => undefined));
+    return job;
+  };
+
+  const handlers: ToolHandler[] = available.map(tool => ({
+    declaration: tool.declaration,
+    execute: async (args) => {
+      const job = run(tool, args);
+      if (tool.deferred) {
+        job.catch(() => undefined); // Failure is shown on the card; the model has already moved on
+        return { status: 'started', note: 'The result will appear under your reply when ready.' };
+      }
+      return job;
+    }
+  }));
+
+  return {
+    handlers,
+    runTags: (text) => {
+      const { calls, cleanText } = parseToolTags(text, available);
+      calls.forEach(call => { run(call.tool, call.args).catch(() => undefined); });
+      return cleanText;
+    },
+    settled: async () => {
+      // Tools may start more work while earlier calls finish, so drain until nothing is left
+      let count = 0;
+      while (count !== pending.length) {
+        count = pending.length;
+        await Promise.all(pending);
+      }
+    }
+  };
+};
@@ -1,77 +1,244 @@
 import { UserProfile, Session } from '../types';
+import { getStoredUsers, putStoredUsers, loadSessions, saveSessions, setVaultKey, lockVault, isVaultOpen, sealUserRecords } from './storageService';
+import { createCredential, unlockCredential, hasCredential, linkIdentity, isIdentityLinked, validatePassphrase } from './authService';
+import { IdentityAssertion } from './identityProvider';
+import { loadConnectionKeys, saveConnectionKeys, clearActiveConnectionKeys } from './keyVault';
+import { clearInvoices, flushInvoices, loadInvoices, restoreInvoices } from './invoiceService';
+import { AccountBackup, RestoreStrategy, RestoreSummary, isSameAccount, mergeRestoredSessions } from './backupService';
 import { v4 as uuidv4 } from 'uuid';
 
-const USERS_KEY = 'swiftmind_users';
 const CURRENT_USER_KEY = 'swiftmind_current_user_id';
-const SESSIONS_PREFIX = 'swiftmind_sessions_';
 
-// Retrieve all registered users
-const getUsers = (): UserProfile[] => {
-  const usersJson = localStorage.getItem(USERS_KEY);
-  return usersJson ? JSON.parse(usersJson) : [];
+// Pre-IndexedDB storage, migrated on first use
+const LEGACY_USERS_KEY = 'swiftmind_users';
+const LEGACY_SESSIONS_PREFIX = 'swiftmind_sessions_';
+
+const TRASH_RETENTION_PREFIX = 'swiftmind_trash_retention_';
+
+const SAVE_DELAY_MS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// --- MIGRATION ---
+
+// Moves users and sessions out of localStorage. Keys are only removed once their data is written,
+// so an interrupted migration simply resumes on the next load.
+const migrateLegacyData = async () => {
+  const usersJson = localStorage.getItem(LEGACY_USERS_KEY);
+  if (usersJson) {
+    await putStoredUsers(JSON.parse(usersJson));
+    localStorage.removeItem(LEGACY_USERS_KEY);
+  }
+
+  const sessionKeys = Object.keys(localStorage).filter(key => key.startsWith(LEGACY_SESSIONS_PREFIX));
+  for (const key of sessionKeys) {
+    const sessions: Session[] = JSON.parse(localStorage.getItem(key) || '[]');
+    await saveSessions(key.slice(LEGACY_SESSIONS_PREFIX.length), sessions);
+    localStorage.removeItem(key);
+  }
+};
+
+let migration: Promise<void> | null = null;
+
+const ready = (): Promise<void> => {
+  if (!migration) {
+    migration = migrateLegacyData().catch(error => {
+      console.error("Failed to migrate saved data from localStorage:", error);
+    });
+  }
+  return migration;
 };
 
-// Save users list
-const saveUsers = (users: UserProfile[]) => {
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+// Retrieve all registered users
+const getUsers = async (): Promise<UserProfile[]> => {
+  await ready();
+  return getStoredUsers();
 };
 
 // --- AUTHENTICATION METHODS ---
 
-export const login = (email: string, name: string): UserProfile => {
-  const users = getUsers();
-  let user = users.find(u => u.email.toLowerCase() === email.toLowerCase());
-
-  if (!user) {
-    // Register new user (simulate Google Account Creation)
-    user = {
-      id: uuidv4(),
-      name: name,
-      email: email,
-      avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=0ea5e9&color=fff&rounded=true&bold=true`
-    };
-    users.push(user);
-    saveUsers(users);
-  }
+const avatarFor = (name: string) =>
+  `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=0ea5e9&color=fff&rounded=true&bold=true`;
 
-  // Set as current user
+const findUserByEmail = (users: UserProfile[], email: string) =>
+  users.find(u => u.email.toLowerCase() === email.toLowerCase());
+
+const signIn = (user: UserProfile, dataKey: CryptoKey): UserProfile => {
+  setVaultKey(user.id, dataKey);
   localStorage.setItem(CURRENT_USER_KEY, user.id);
   return user;
 };
 
-export const logout = () => {
+// Creates an account protected by a passphrase. An identity from an external provider is linked so
+// the same sign-in finds this account next time.
+export const register = async (
+  email: string,
+  name: string,
+  passphrase: string,
+  identity?: IdentityAssertion,
+  profile?: UserProfile
+): Promise<UserProfile> => {
+  const problem = validatePassphrase(passphrase);
+  if (problem) throw new Error(problem);
+  const users = await getUsers();
+  if (findUserByEmail(users, email)) throw new Error('An account with this email already exists. Sign in instead.');
+
+  const user: UserProfile = profile || {
+    id: uuidv4(),
+    name,
+    email,
+    avatar: identity?.picture || avatarFor(name)
+  };
+  const dataKey = await createCredential(user.id, passphrase);
+  await putStoredUsers([user]);
+  if (identity) linkIdentity(user.id, identity);
+  return signIn(user, dataKey);
+};
+
+// Opens an account with its passphrase
+export const unlockAccount = async (userId: string, passphrase: string): Promise<UserProfile> => {
+  const user = (await getUsers()).find(u => u.id === userId);
+  if (!user) throw new Error('This account no longer exists on this device.');
+  return signIn(user, await unlockCredential(userId, passphrase));
+};
+
+// Accounts made before passphrases existed are claimed by setting one; their chats are then
+// re-encrypted under the new key
+export const secureAccount = async (userId: string, passphrase: string): Promise<UserProfile> => {
+  const user = (await getUsers()).find(u => u.id === userId);
+  if (!user) throw new Error('This account no longer exists on this device.');
+  if (hasCredential(userId)) throw new Error('This account already has a passphrase.');
+  const signedIn = signIn(user, await createCredential(userId, passphrase));
+  await sealUserRecords(userId);
+  return signedIn;
+};
+
+export const needsPassphraseSetup = (userId: string): boolean => !hasCredential(userId);
+
+export const isAccountUnlocked = (userId: string): boolean => isVaultOpen(userId);
+
+// The account an external sign-in belongs to: one it was linked to before, else one with its email
+export const findAccountForIdentity = async (identity: IdentityAssertion): Promise<UserProfile | null> => {
+  const users = await getUsers();
+  return users.find(u => isIdentityLinked(u.id, identity)) || findUserByEmail(users, identity.email) || null;
+};
+
+// Writes pending saves, then forgets the data key. The account stays selected for the lock screen.
+export const lockAccount = async (userId: string) => {
+  await Promise.all([flushUserSessions(), flushInvoices()]);
+  clearInvoices();
+  clearActiveConnectionKeys();
+  lockVault(userId);
+};
+
+export const logout = async () => {
+  const currentId = localStorage.getItem(CURRENT_USER_KEY);
   localStorage.removeItem(CURRENT_USER_KEY);
+  if (currentId) await lockAccount(currentId);
 };
 
-export const getCurrentUser = (): UserProfile | null => {
+// The last signed-in account. It still has to be unlocked after a reload.
+export const getCurrentUser = async (): Promise<UserProfile | null> => {
   const currentId = localStorage.getItem(CURRENT_USER_KEY);
   if (!currentId) return null;
 
-  const users = getUsers();
+  const users = await getUsers();
   return users.find(u => u.id === currentId) || null;
 };
 
-export const getAvailableAccounts = (): UserProfile[] => {
+export const getAvailableAccounts = (): Promise<UserProfile[]> => {
   return getUsers();
 };
 
-export const switchAccount = (userId: string): UserProfile | null => {
-  const users = getUsers();
-  const user = users.find(u => u.id === userId);
-  if (user) {
-    localStorage.setItem(CURRENT_USER_KEY, user.id);
-    return user;
-  }
-  return null;
+// --- SESSION MANAGEMENT METHODS ---
+
+export const getUserSessions = async (userId: string): Promise<Session[]> => {
+  await ready();
+  return loadSessions(userId);
 };
 
-// --- SESSION MANAGEMENT METHODS ---
+// --- TRASH ---
+
+// 0 keeps deleted sessions until the user empties the trash
+export const getTrashRetentionDays = (userId: string): number => {
+  const stored = localStorage.getItem(`${TRASH_RETENTION_PREFIX}${userId}`);
+  return stored === null ? DEFAULT_TRASH_RETENTION_DAYS : Math.max(0, Number(stored) || 0);
+};
 
-export const getUserSessions = (userId: string): Session[] => {
-  const sessionsJson = localStorage.getItem(`${SESSIONS_PREFIX}${userId}`);
-  return sessionsJson ? JSON.parse(sessionsJson) : [];
+export const setTrashRetentionDays = (userId: string, days: number) => {
+  localStorage.setItem(`${TRASH_RETENTION_PREFIX}${userId}`, String(days));
 };
 
-export const saveUserSessions = (userId: string, sessions: Session[]) => {
-  localStorage.setItem(`${SESSIONS_PREFIX}${userId}`, JSON.stringify(sessions));
+// Drops trashed sessions older than the retention window. Sessions trashed before deletedAt
+// existed fall back to their last activity.
+export const purgeExpiredSessions = (sessions: Session[], retentionDays: number, now = Date.now()): Session[] => {
+  if (retentionDays <= 0) return sessions;
+  const cutoff = now - retentionDays * DAY_MS;
+  return sessions.filter(s => !s.isDeleted || (s.deletedAt ?? s.lastModified) > cutoff);
+};
+
+let pendingSave: { timer: ReturnType<typeof setTimeout>; run: () => Promise<void> } | null = null;
+
+// Debounced: a streaming reply changes sessions on every chunk, but only the latest state is written
+export const saveUserSessions = (userId: string, sessions: Session[], onError?: (error: unknown) => void, onSaved?: () => void) => {
+  if (pendingSave) clearTimeout(pendingSave.timer);
+  const run = () => {
+    pendingSave = null;
+    return saveSessions(userId, sessions).then(onSaved, error => {
+      console.error("Failed to save sessions:", error);
+      onError?.(error);
+    });
+  };
+  pendingSave = { timer: setTimeout(run, SAVE_DELAY_MS), run };
+};
+
+// Writes any debounced save now, e.g. before logging out or closing the tab
+export const flushUserSessions = (): Promise<void> => {
+  if (!pendingSave) return Promise.resolve();
+  clearTimeout(pendingSave.timer);
+  return pendingSave.run();
+};
+
+// --- BACKUP RESTORE ---
+
+// Writes a backup into the local account with the same email (or id) and signs that account in.
+// The passphrase is the account's on this browser, not the backup password: it unlocks that account,
+// or becomes the passphrase of an account this browser has never seen. Connection keys and a seller
+// already set locally win.
+// The signed-in account's sessions live in App state, so App merges those itself instead.
+export const restoreAccount = async (
+  backup: AccountBackup,
+  strategy: RestoreStrategy,
+  passphrase: string
+): Promise<{ user: UserProfile; summary: RestoreSummary }> => {
+  const users = await getUsers();
+  const existing = users.find(u => isSameAccount(u, backup.profile));
+  if (!passphrase) {
+    throw new Error(existing
+      ? `Enter the passphrase of ${existing.email} on this device to restore into it.`
+      : 'Choose a passphrase for the restored account on this device.');
+  }
+  let user: UserProfile;
+  if (!existing) {
+    user = await register(backup.profile.email, backup.profile.name, passphrase, undefined, backup.profile);
+  } else if (hasCredential(existing.id)) {
+    user = await unlockAccount(existing.id, passphrase).catch(() => {
+      throw new Error(`Enter the passphrase of ${existing.email} on this device to restore into it.`);
+    });
+  } else {
+    user = await secureAccount(existing.id, passphrase);
+  }
+
+  await flushUserSessions();
+  const { sessions, summary } = mergeRestoredSessions(await loadSessions(user.id), backup.sessions, strategy);
+  await saveSessions(user.id, sessions);
+  await loadInvoices(user.id);
+  restoreInvoices(user.id, backup.invoices);
+  await flushInvoices();
+
+  setTrashRetentionDays(user.id, backup.settings.trashRetentionDays);
+  const keys = await loadConnectionKeys(user.id);
+  await saveConnectionKeys(user.id, { ...backup.connections, ...keys });
+  return { user, summary };
 };
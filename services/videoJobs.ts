@@ -0,0 +1,245 @@
+// Background Veo jobs.
+// A video takes minutes, so generation is split into start + poll (ModelProvider.startVideo/checkVideo).
+// Unfinished jobs are sealed into localStorage with their operation handle, which lets polling pick up
+// again after a reload. At most MAX_RUNNING_JOBS run at once; the rest wait in order.
+
+import { v4 as uuidv4 } from 'uuid';
+import { VideoJob, ProviderId } from '../types';
+import { getProvider, VideoAspectRatio } from './modelProvider';
+import { openText, sealText, isQuotaError } from './storageService';
+import { ServiceError, classifyError, toMessageError, withRetry } from './serviceErrors';
+
+const JOBS_PREFIX = 'swiftmind_video_jobs_';
+const DURATION_PREFIX = 'swiftmind_video_duration_'; // Running average of finished jobs, for the ETA
+
+const MAX_RUNNING_JOBS = 2;
+const POLL_MS = 10000;
+const JOB_TIMEOUT_MS = 15 * 60 * 1000;
+const MAX_POLL_FAILURES = 3; // Consecutive transient failures before a job is given up
+const DEFAULT_DURATION_MS = 75 * 1000;
+
+type JobListener = (job: VideoJob) => void;
+
+const jobs = new Map<string, VideoJob>();
+const timers = new Map<string, number>();
+const pollFailures = new Map<string, number>();
+const listeners = new Set<JobListener>();
+let activeUserId: string | null = null;
+// Bumped on suspend so checks still in flight for the previous account are ignored
+let generation = 0;
+let saving: Promise<void> = Promise.resolve();
+
+const isFinished = (job: VideoJob) => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+
+// --- Persistence ---
+
+const storedJob = ({ videoUrl, ...job }: VideoJob): VideoJob => job;
+
+// Writes are chained so an older snapshot never lands after a newer one
+const saveJobs = () => {
+  const userId = activeUserId;
+  if (!userId) return;
+  const pending = Array.from(jobs.values()).filter(job => !isFinished(job)).map(storedJob);
+  saving = saving.then(async () => {
+    const key = `${JOBS_PREFIX}${userId}`;
+    if (pending.length === 0) {
+      localStorage.removeItem(key);
+      return;
+    }
+    try {
+      localStorage.setItem(key, await sealText(userId, pending));
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      // Start frames are the bulk; without them queued image jobs can't survive a reload, but the rest can
+      const slim = pending.map(job => job.image ? { ...job, image: undefined, imageDropped: true } : job);
+      localStorage.setItem(key, await sealText(userId, slim));
+    }
+  }).catch(error => console.warn("Failed to save video jobs:", error));
+};
+
+const expectedDuration = (userId: string): number =>
+  Number(localStorage.getItem(`${DURATION_PREFIX}${userId}`)) || DEFAULT_DURATION_MS;
+
+const recordDuration = (userId: string, durationMs: number) => {
+  const average = expectedDuration(userId) * 0.7 + durationMs * 0.3;
+  localStorage.setItem(`${DURATION_PREFIX}${userId}`, String(Math.round(average)));
+};
+
+// --- Scheduling ---
+
+const update = (id: string, patch: Partial<VideoJob>) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  const next = { ...job, ...patch };
+  jobs.set(id, next);
+  saveJobs();
+  listeners.forEach(listener => listener(next));
+  if (isFinished(next)) {
+    window.clearTimeout(timers.get(id));
+    timers.delete(id);
+    pollFailures.delete(id);
+    pump();
+  }
+};
+
+const fail = (id: string, error: unknown) => {
+  update(id, { status: 'failed', finishedAt: Date.now(), error: toMessageError(error) });
+};
+
+const schedulePoll = (id: string, delay = POLL_MS) => {
+  window.clearTimeout(timers.get(id));
+  timers.set(id, window.setTimeout(() => poll(id), delay));
+};
+
+const poll = async (id: string) => {
+  const job = jobs.get(id);
+  if (!job || job.status !== 'running' || !job.operation) return;
+  if (Date.now() - (job.startedAt || job.createdAt) > JOB_TIMEOUT_MS) {
+    fail(id, new ServiceError('server', 'Video generation took more than 15 minutes and was given up. Retry to start it again.'));
+    return;
+  }
+
+  const current = generation;
+  try {
+    const status = await getProvider(job.provider).checkVideo(job.operation);
+    if (current !== generation || jobs.get(id)?.status !== 'running') return;
+    pollFailures.delete(id);
+    if (!status.done) {
+      schedulePoll(id);
+      return;
+    }
+    const finishedAt = Date.now();
+    recordDuration(job.userId, finishedAt - (job.startedAt || job.createdAt));
+    update(id, { status: 'done', finishedAt, videoUrl: status.videoUrl });
+  } catch (error) {
+    if (current !== generation || jobs.get(id)?.status !== 'running') return;
+    const failures = (pollFailures.get(id) || 0) + 1;
+    pollFailures.set(id, failures);
+    if (!classifyError(error).retryable || failures >= MAX_POLL_FAILURES) fail(id, error);
+    else schedulePoll(id);
+  }
+};
+
+const start = async (id: string) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  update(id, { status: 'running', startedAt: Date.now() });
+
+  const current = generation;
+  try {
+    const operation = await withRetry(() => getProvider(job.provider).startVideo(job.prompt, job.aspectRatio, job.image));
+    if (current !== generation) return;
+    // Cancelled while starting: the provider has no way to stop it, so the result is simply never fetched
+    if (jobs.get(id)?.status !== 'running') return;
+    update(id, { operation, image: undefined });
+    schedulePoll(id);
+  } catch (error) {
+    if (current !== generation || jobs.get(id)?.status !== 'running') return;
+    fail(id, error);
+  }
+};
+
+// Starts queued jobs, oldest first, while there is room
+const pump = () => {
+  const all = Array.from(jobs.values());
+  let running = all.filter(job => job.status === 'running').length;
+  all.filter(job => job.status === 'queued')
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(job => {
+      if (running >= MAX_RUNNING_JOBS) return;
+      running++;
+      start(job.id);
+    });
+};
+
+// --- Public API ---
+
+export interface VideoJobInput {
+  sessionId: string;
+  messageId: string;
+  provider?: ProviderId;
+  prompt: string;
+  aspectRatio: VideoAspectRatio;
+  image?: string;
+}
+
+export const enqueueVideoJob = (input: VideoJobInput): VideoJob => {
+  if (!activeUserId) throw new Error('Open an account before generating videos.');
+  const job: VideoJob = { id: uuidv4(), userId: activeUserId, ...input, status: 'queued', createdAt: Date.now() };
+  jobs.set(job.id, job);
+  saveJobs();
+  listeners.forEach(listener => listener(job));
+  pump();
+  return jobs.get(job.id) || job;
+};
+
+// Veo has no cancel call, so cancelling stops polling and discards the result
+export const cancelVideoJob = (id: string) => {
+  const job = jobs.get(id);
+  if (!job || isFinished(job)) return;
+  update(id, { status: 'cancelled', finishedAt: Date.now() });
+};
+
+// Used when a session is deleted for good, so nothing lands in it afterwards
+export const cancelSessionVideoJobs = (sessionId: string) => {
+  Array.from(jobs.values()).filter(job => job.sessionId === sessionId).forEach(job => cancelVideoJob(job.id));
+};
+
+export const getVideoJob = (id: string): VideoJob | undefined => jobs.get(id);
+
+export const getVideoJobs = (): VideoJob[] => Array.from(jobs.values());
+
+// Position among waiting jobs (1-based), or 0 when the job isn't waiting
+export const getQueuePosition = (id: string): number => {
+  const queued = Array.from(jobs.values()).filter(job => job.status === 'queued').sort((a, b) => a.createdAt - b.createdAt);
+  return queued.findIndex(job => job.id === id) + 1;
+};
+
+// Estimated from how long this account's earlier videos took; capped below 100% until the video arrives
+export const getVideoJobProgress = (job: VideoJob, now = Date.now()): { progress: number; remainingMs: number } => {
+  if (job.status === 'done') return { progress: 1, remainingMs: 0 };
+  if (job.status !== 'running' || !job.startedAt) return { progress: 0, remainingMs: expectedDuration(job.userId) };
+  const expected = expectedDuration(job.userId);
+  const elapsed = now - job.startedAt;
+  return { progress: Math.min(0.95, elapsed / expected), remainingMs: Math.max(0, expected - elapsed) };
+};
+
+export const subscribeToVideoJobs = (listener: JobListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Loads the account's unfinished jobs and carries on with them. Resolves with the jobs now known.
+export const resumeVideoJobs = async (userId: string): Promise<VideoJob[]> => {
+  suspendVideoJobs();
+  activeUserId = userId;
+  const current = generation;
+  const sealed = localStorage.getItem(`${JOBS_PREFIX}${userId}`);
+  const stored = sealed ? await openText<VideoJob[]>(userId, sealed) : [];
+  if (current !== generation) return [];
+
+  stored.forEach(job => jobs.set(job.id, job));
+  stored.forEach(job => {
+    listeners.forEach(listener => listener(job));
+    if (job.status === 'running' && job.operation) {
+      poll(job.id);
+    } else if (job.imageDropped && !job.image) {
+      fail(job.id, new ServiceError('invalid_input', "The start image couldn't be kept across the reload. Attach it again and retry."));
+    } else if (job.status === 'running') {
+      // The page closed before the provider answered the start request; start again
+      update(job.id, { status: 'queued', startedAt: undefined });
+    }
+  });
+  pump();
+  return getVideoJobs();
+};
+
+// Stops polling when the account locks or signs out; stored jobs resume on the next unlock
+export const suspendVideoJobs = () => {
+  generation++;
+  timers.forEach(timer => window.clearTimeout(timer));
+  timers.clear();
+  pollFailures.clear();
+  jobs.clear();
+  activeUserId = null;
+};
@@ -13,27 +13,185 @@ export interface UserProfile {
   avatar: string; // URL or base64
 }
 
+export interface FileAttachment {
+  name: string;
+  type: string;
+  data: string; // base64 data URL
+}
+
 export interface Message {
   id: string;
+  parentId?: string | null; // Previous turn in the conversation tree; null for the first (see utils/messageTree.ts)
   role: Role;
   content: string;
   timestamp: number;
   isStreaming?: boolean;
+  isInterrupted?: boolean; // Stopped by the user before the response finished
   mediaUrl?: string; // For generated images/videos
   audioUrl?: string; // For generated speech
+  mediaBlobId?: string; // Stored bytes behind mediaUrl, see services/storageService.ts
+  audioBlobId?: string; // Stored bytes behind audioUrl
   mediaType?: 'image' | 'video' | 'audio';
-  attachments?: { // For user uploads (Updated to array)
-    name: string;
-    type: string;
-    data: string; // base64
-  }[];
+  attachments?: FileAttachment[]; // For user uploads
+  taskState?: Record<number, boolean>; // User ticks on markdown task items, keyed by task index
   reaction?: 'like' | 'dislike';
   feedback?: string;
-  downloadData?: { // For generated files (converter)
-    fileName: string;
-    data: string;
-    mimeType: string;
-  };
+  downloadData?: DownloadData; // For generated files (converter)
+  gstCalculations?: GstCalculationResult[]; // Verified results from the local GST engine
+  invoiceId?: string; // Invoice drafted in this reply (see services/invoiceService.ts)
+  toolCalls?: ToolCallRecord[]; // Tools the model invoked while writing this reply
+  videoJobId?: string; // Background Veo job filling this reply (see services/videoJobs.ts)
+  conversionBatchId?: string; // Converter batch reporting into this reply (see services/conversionQueue.ts)
+  error?: MessageError; // Why the reply failed, shown with a retry button
+  citations?: DocumentCitation[]; // Document passages the reply cites (see services/documentStore.ts)
+}
+
+// --- Service errors ---
+
+// See services/serviceErrors.ts
+export type ServiceErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'invalid_input' | 'server';
+
+export interface MessageError {
+  kind: ServiceErrorKind;
+  message: string; // What went wrong and what the user can do about it
+}
+
+// --- Tool calls ---
+
+export type ToolCallStatus = 'running' | 'success' | 'error' | 'cancelled';
+
+export interface ToolCallRecord {
+  id: string;
+  name: string; // Tool name, e.g. generate_image
+  label: string; // Human-readable action shown on the status card
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  summary?: string;
+  error?: string;
+  media?: { url: string; type: 'image' | 'video' | 'audio'; blobId?: string };
+  startedAt: number;
+  finishedAt?: number;
+}
+
+// --- Video jobs ---
+
+export type VideoJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface VideoJob {
+  id: string;
+  userId: string;
+  sessionId: string;
+  messageId: string;
+  provider?: ProviderId;
+  prompt: string;
+  aspectRatio: '16:9' | '9:16';
+  image?: string; // Start frame, kept only until the job has started
+  imageDropped?: boolean; // The start frame was too large to store, so the job can't restart after a reload
+  operation?: string; // Provider handle from ModelProvider.startVideo
+  status: VideoJobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  videoUrl?: string; // Object URL of the finished clip; never stored
+  error?: MessageError;
+}
+
+export interface DownloadData {
+  fileName: string;
+  data: string; // Plain text, or a base64 data URL for binary files
+  mimeType: string;
+}
+
+// --- Converter ---
+
+export type ConvertTarget = 'PDF' | 'EXCEL' | 'WORD' | 'PPT';
+
+export type ConversionStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type ConversionStage = 'upload' | 'process' | 'download';
+
+export type ConversionMethod = 'direct' | 'ilovepdf' | 'ai';
+
+export interface ConversionItem {
+  id: string;
+  fileName: string;
+  status: ConversionStatus;
+  stage?: ConversionStage;
+  progress?: number; // 0-1 within the stage; undefined when it can't be measured
+  method?: ConversionMethod;
+  result?: DownloadData;
+  error?: MessageError;
+}
+
+export interface ConversionBatch {
+  id: string;
+  sessionId: string;
+  messageId: string;
+  target: ConvertTarget;
+  createdAt: number;
+  items: ConversionItem[];
+}
+
+// --- Documents ---
+
+export type DocumentKind = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'text';
+
+export interface DocumentPage {
+  number: number; // 1-based; the sheet's position for workbooks
+  label?: string; // Sheet name for workbooks; pages of PDFs and Word files are cited by number
+  text: string; // Markdown for Word, Excel and CSV content
+}
+
+// Text read from an attachment in the browser (see services/documentIngestion.ts)
+export interface IngestedDocument {
+  fileName: string;
+  kind: DocumentKind;
+  pages: DocumentPage[];
+  paginated: boolean; // False for text, CSV and Word files without rendered page breaks
+}
+
+export interface DocumentChunk {
+  index: number;
+  location: string; // "p. 4", "pp. 4–5", "sheet Sales" or "part 3"
+  page: number; // First page (or sheet position) the chunk covers
+  text: string;
+}
+
+// A document in a session's retrieval index (see services/documentStore.ts)
+export interface SessionDocument {
+  id: string;
+  sessionId: string;
+  key: string; // Identifies the attachment it was read from, whichever messages carry it
+  fileName: string;
+  kind: DocumentKind;
+  paginated: boolean;
+  chunks: (DocumentChunk & { vector?: number[] })[];
+  embedder?: ProviderId; // Provider whose embedding model made the chunk vectors; none means keyword search only
+  createdAt: number;
+}
+
+// A passage placed in a reply's prompt, shown under the reply when the reply cites it
+export interface DocumentCitation {
+  marker: number; // The [n] the reply cites it by
+  documentKey: string;
+  fileName: string;
+  location: string;
+  page?: number; // Set for paginated documents, so PDFs can open at the page
+  chunkIndex: number;
+  excerpt: string;
+}
+
+// Per-user credentials for third-party integrations, set in the Connect Apps modal.
+// Stored sealed with the account's data key (see services/keyVault.ts).
+export interface ConnectionKeys {
+  gemini?: { apiKey: string };
+  ilovePdf?: { public: string; secret: string };
+}
+
+// Browser storage estimate for this origin, in bytes
+export interface StorageUsage {
+  usage: number;
+  quota: number;
 }
 
 export interface Session {
@@ -43,6 +201,8 @@ export interface Session {
   activeModule: TaskModule;
   lastModified: number;
   isDeleted?: boolean; // Soft delete flag
+  deletedAt?: number; // When it was moved to trash; older trash is purged automatically
+  branchSelections?: Record<string, string>; // Parent key -> child showing on the active branch
 }
 
 export enum TaskModule {
@@ -60,11 +220,126 @@ export enum TaskModule {
   IMAGE_ANALYSIS = 'Image Analysis'
 }
 
+// Backend that serves a module's model calls (see services/modelProvider.ts)
+export type ProviderId = 'gemini' | 'mock' | 'server';
+
+// Inline SVG icon (see Icons in constants.tsx); clone it to override width/height
+export type IconElement = React.ReactElement<React.SVGProps<SVGSVGElement>>;
+
 export interface ModuleConfig {
   id: TaskModule;
-  icon: React.ReactNode;
+  icon: IconElement;
   label: string;
   description: string;
   contextParams: string;
   modelPreference?: string; // Optional override for specific model
-}
\ No newline at end of file
+  provider?: ProviderId; // Optional override, defaults to MODEL_PROVIDER
+}
+
+// --- GST ---
+// Shapes used by the deterministic engine in services/gstEngine.ts. Amounts are in rupees.
+
+export type GstPricing = 'exclusive' | 'inclusive'; // Whether the entered amount already contains GST
+export type GstSupplyType = 'intra' | 'inter'; // Intra-state: CGST + SGST, inter-state: IGST
+export type GstRounding = 'none' | 'nearest' | 'up' | 'down'; // Applied to the invoice total, in whole rupees
+
+export interface GstLineInput {
+  description?: string;
+  amount: number; // Unit price, before or after tax depending on pricing
+  quantity?: number;
+  rate: number; // GST rate in percent, must be a notified slab
+  cessRate?: number; // Compensation cess in percent
+}
+
+export interface GstCalculationInput {
+  items: GstLineInput[];
+  pricing?: GstPricing;
+  supplyType?: GstSupplyType;
+  reverseCharge?: boolean;
+  rounding?: GstRounding;
+}
+
+export interface GstLineResult {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  totalTax: number;
+  lineTotal: number;
+}
+
+export interface GstRateSummary {
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+}
+
+export interface GstCalculationResult {
+  pricing: GstPricing;
+  supplyType: GstSupplyType;
+  reverseCharge: boolean;
+  rounding: GstRounding;
+  lines: GstLineResult[];
+  rateSummary: GstRateSummary[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  totalTax: number;
+  roundOff: number;
+  invoiceTotal: number; // What the supplier bills, after round-off
+  taxPayableByRecipient: number; // Non-zero only under reverse charge
+  steps: string[];
+}
+
+// --- Invoices ---
+
+export interface InvoiceParty {
+  name: string;
+  address: string;
+  state?: string; // Place of supply; decides CGST/SGST vs IGST
+  gstin?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  description: string;
+  hsn?: string; // HSN/SAC code
+  quantity: number;
+  unitPrice: number;
+  taxRate: number; // GST slab in percent
+}
+
+export type InvoiceTemplateId = 'classic' | 'modern' | 'minimal';
+export type InvoiceStatus = 'draft' | 'issued' | 'paid';
+
+export interface Invoice {
+  id: string;
+  number: string; // Per-user sequence, e.g. INV-2026-0007
+  userId: string;
+  sessionId?: string; // Chat the invoice was drafted in
+  status: InvoiceStatus;
+  template: InvoiceTemplateId;
+  issueDate: string; // YYYY-MM-DD
+  dueDate: string; // YYYY-MM-DD
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  items: InvoiceLineItem[];
+  pricing: GstPricing;
+  supplyType: GstSupplyType;
+  reverseCharge: boolean;
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,48 @@
+// Task-list helpers for the Lists module.
+// Items are identified by their taskIndex within a message (see utils/markdown.ts),
+// and the user's ticks live on Message.taskState so they survive reloads.
+
+import { Message, Role } from '../types';
+import { parseMarkdown, inlineToText, BlockNode } from './markdown';
+
+export interface ChecklistItem {
+  messageId: string;
+  taskIndex: number;
+  text: string;
+  checked: boolean;
+}
+
+export const isTaskChecked = (message: Message, taskIndex: number, markdownChecked: boolean): boolean =>
+  message.taskState?.[taskIndex] ?? markdownChecked;
+
+const collectFromBlocks = (blocks: BlockNode[], message: Message, items: ChecklistItem[]) => {
+  for (const block of blocks) {
+    if (block.type === 'list') {
+      for (const item of block.items) {
+        if (item.checked !== null && item.taskIndex !== undefined) {
+          const first = item.children[0];
+          const text = first && first.type === 'paragraph' ? inlineToText(first.children).trim() : '';
+          items.push({
+            messageId: message.id,
+            taskIndex: item.taskIndex,
+            text,
+            checked: isTaskChecked(message, item.taskIndex, item.checked)
+          });
+        }
+        collectFromBlocks(item.children, message, items);
+      }
+    } else if (block.type === 'blockquote') {
+      collectFromBlocks(block.children, message, items);
+    }
+  }
+};
+
+export const getChecklistItems = (message: Message): ChecklistItem[] => {
+  if (message.role !== Role.MODEL || !message.content.includes('[')) return [];
+  const items: ChecklistItem[] = [];
+  collectFromBlocks(parseMarkdown(message.content), message, items);
+  return items;
+};
+
+export const getSessionChecklist = (messages: Message[]): ChecklistItem[] =>
+  messages.flatMap(getChecklistItems);
@@ -0,0 +1,35 @@
+// Conversions between base64 data URLs (how the app passes files around) and Blobs
+
+export const isDataUrl = (value: string): boolean => value.startsWith('data:');
+
+export const dataUrlToBytes = (data: string): Uint8Array => {
+  const match = data.match(/^data:([^;,]*)(;base64)?,/);
+  if (!match) return new TextEncoder().encode(data);
+
+  const payload = data.slice(match[0].length);
+  if (!match[2]) return new TextEncoder().encode(decodeURIComponent(payload));
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const dataUrlToBlob = (data: string, mimeType?: string): Blob =>
+  new Blob([dataUrlToBytes(data)], { type: mimeType || data.match(/^data:([^;,]*)[;,]/)?.[1] });
+
+// Generated files (PDF, Office packages) as base64 data URLs
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
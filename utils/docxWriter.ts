@@ -0,0 +1,219 @@
+// Minimal DOCX (WordprocessingML) writer for Markdown documents parsed by utils/markdown.ts.
+// Headings, lists, tables, quotes and code map to built-in style names, so Word's navigation pane,
+// numbering and table of contents work on the result.
+
+import { BlockNode, InlineNode, ListItemNode } from './markdown';
+import { createZip, escapeXml } from './zipWriter';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const HYPERLINK_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink';
+
+// Abstract numbering definitions in numbering.xml
+const BULLET_LIST = 0;
+const ORDERED_LIST = 1;
+const MAX_LIST_LEVEL = 8;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+interface DocxState {
+  links: string[]; // Hyperlink targets; relationship ids follow the fixed ones
+  orderedStarts: number[]; // Each ordered list gets its own numbering instance so it restarts
+}
+
+// Relationship ids 1-2 are styles and numbering
+const linkRelId = (index: number) => `rId${index + 3}`;
+
+// --- Inline ---
+
+const runXml = (text: string, style: RunStyle): string => {
+  const props = [
+    style.link ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    style.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.strike ? '<w:strike/>' : '',
+    style.code ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : ''
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const inlineXml = (nodes: InlineNode[], state: DocxState, style: RunStyle = {}): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': return runXml(node.value, style);
+      case 'code': return runXml(node.value, { ...style, code: true });
+      case 'break': return '<w:r><w:br/></w:r>';
+      case 'image': return node.alt ? runXml(`[${node.alt}]`, { ...style, italic: true }) : '';
+      case 'strong': return inlineXml(node.children, state, { ...style, bold: true });
+      case 'em': return inlineXml(node.children, state, { ...style, italic: true });
+      case 'del': return inlineXml(node.children, state, { ...style, strike: true });
+      case 'link': {
+        state.links.push(node.href);
+        return `<w:hyperlink r:id="${linkRelId(state.links.length - 1)}">${inlineXml(node.children, state, { ...style, link: true })}</w:hyperlink>`;
+      }
+    }
+  }).join('');
+
+const paragraphXml = (content: string, props = ''): string =>
+  `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+// --- Blocks ---
+
+const listXml = (node: Extract<BlockNode, { type: 'list' }>, level: number, state: DocxState): string => {
+  const numId = node.ordered ? 1 + state.orderedStarts.push(node.start) : 1;
+  return node.items.map((item: ListItemNode) => item.children.map((child, i) => {
+    if (child.type === 'list') return listXml(child, Math.min(level + 1, MAX_LIST_LEVEL), state);
+    // Only the first paragraph of an item carries the bullet; the rest are indented continuations
+    const marker = i === 0 ? `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>` : `<w:ind w:left="${720 * (level + 1)}"/>`;
+    const checkbox = i === 0 && item.checked !== null ? runXml(item.checked ? '☑ ' : '☐ ', {}) : '';
+    if (child.type === 'paragraph' || child.type === 'heading') {
+      return paragraphXml(checkbox + inlineXml(child.children, state), `<w:pStyle w:val="ListParagraph"/>${marker}`);
+    }
+    return blockXml(child, state);
+  }).join('')).join('');
+};
+
+const tableXml = (node: Extract<BlockNode, { type: 'table' }>, state: DocxState): string => {
+  const columnCount = Math.max(node.header?.length || 0, ...node.rows.map(row => row.length), 1);
+  const cellXml = (cell: InlineNode[] | undefined, col: number, header: boolean) => {
+    const align = node.align[col];
+    const jc = align === 'center' ? '<w:jc w:val="center"/>' : align === 'right' ? '<w:jc w:val="right"/>' : '';
+    const shading = header ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : '';
+    return `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/>${shading}</w:tcPr>` +
+      paragraphXml(inlineXml(cell || [], state, { bold: header }), `<w:spacing w:before="40" w:after="40"/>${jc}`) +
+      '</w:tc>';
+  };
+  const rowXml = (cells: InlineNode[][], header: boolean) =>
+    `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${Array.from({ length: columnCount }, (_, col) => cellXml(cells[col], col, header)).join('')}</w:tr>`;
+
+  return '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>' +
+    `<w:tblGrid>${'<w:gridCol/>'.repeat(columnCount)}</w:tblGrid>` +
+    (node.header ? rowXml(node.header, true) : '') +
+    node.rows.map(row => rowXml(row, false)).join('') +
+    '</w:tbl>' +
+    // Word merges back-to-back tables, so each is followed by an empty paragraph
+    paragraphXml('');
+};
+
+const blockXml = (node: BlockNode, state: DocxState): string => {
+  switch (node.type) {
+    case 'heading':
+      return paragraphXml(inlineXml(node.children, state), `<w:pStyle w:val="Heading${Math.min(node.level, 6)}"/>`);
+    case 'paragraph':
+      return paragraphXml(inlineXml(node.children, state));
+    case 'code':
+      return node.value.split('\n').map(line => paragraphXml(runXml(line, { code: true }), '<w:pStyle w:val="Code"/>')).join('');
+    case 'list':
+      return listXml(node, 0, state);
+    case 'blockquote':
+      return node.children.map(child => child.type === 'paragraph'
+        ? paragraphXml(inlineXml(child.children, state), '<w:pStyle w:val="Quote"/>')
+        : blockXml(child, state)
+      ).join('');
+    case 'table':
+      return tableXml(node, state);
+    case 'hr':
+      return paragraphXml('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D5DB"/></w:pBdr>');
+  }
+};
+
+// --- Package parts ---
+
+const headingStyle = (level: number): string => {
+  const sizes = [36, 30, 26, 24, 22, 22];
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="111827"/><w:sz w:val="${sizes[level - 1]}"/></w:rPr></w:style>`;
+};
+
+const STYLES_XML = XML_HEADER +
+  `<w:styles ${W_NS}>` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  [1, 2, 3, 4, 5, 6].map(headingStyle).join('') +
+  '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D5DB"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:i/><w:color w:val="4B5563"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>' +
+  '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0369A1"/><w:u w:val="single"/></w:rPr></w:style>' +
+  '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+  ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`).join('') +
+  '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+  '</w:styles>';
+
+const levelXml = (level: number, ordered: boolean): string => {
+  const format = ordered ? ['decimal', 'lowerLetter', 'lowerRoman'][level % 3] : 'bullet';
+  const text = ordered ? `%${level + 1}.` : ['•', '◦', '▪'][level % 3];
+  return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+    `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+};
+
+const numberingXml = (orderedStarts: number[]): string => {
+  const levels = (ordered: boolean) => Array.from({ length: MAX_LIST_LEVEL + 1 }, (_, level) => levelXml(level, ordered)).join('');
+  // numId 1 is bullets, 2+ are one instance per ordered list
+  const orderedNums = orderedStarts.map((start, i) =>
+    `<w:num w:numId="${2 + i}"><w:abstractNumId w:val="${ORDERED_LIST}"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+  ).join('');
+  return XML_HEADER + `<w:numbering ${W_NS}>` +
+    `<w:abstractNum w:abstractNumId="${BULLET_LIST}"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="${ORDERED_LIST}"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>` +
+    `<w:num w:numId="1"><w:abstractNumId w:val="${BULLET_LIST}"/></w:num>` +
+    orderedNums +
+    '</w:numbering>';
+};
+
+export const createDocx = (blocks: BlockNode[], title = ''): Uint8Array => {
+  const state: DocxState = { links: [], orderedStarts: [] };
+  const body = blocks.map(block => blockXml(block, state)).join('') || paragraphXml('');
+
+  // A4 with 2 cm margins, in twentieths of a point
+  const document = XML_HEADER + `<w:document ${W_NS}><w:body>${body}` +
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>' +
+    '</w:body></w:document>';
+
+  const documentRels = XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+    state.links.map((href, i) => `<Relationship Id="${linkRelId(i)}" Type="${HYPERLINK_TYPE}" Target="${escapeXml(href)}" TargetMode="External"/>`).join('') +
+    '</Relationships>';
+
+  const contentTypes = XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>';
+
+  const rootRels = XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>';
+
+  const core = XML_HEADER +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title><dc:creator>SwiftMind</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'docProps/core.xml', data: core },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/_rels/document.xml.rels', data: documentRels },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'word/numbering.xml', data: numberingXml(state.orderedStarts) }
+  ]);
+};
@@ -0,0 +1,27 @@
+import { DownloadData } from '../types';
+import { dataUrlToBlob } from './dataUrl';
+
+export const downloadFile = (download: DownloadData, options: { print?: boolean } = {}) => {
+  // HTML documents open in a print dialog so they can be saved as PDF, unless the HTML file itself is wanted
+  if (options.print ?? download.mimeType === 'text/html') {
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(download.data);
+      printWindow.document.close();
+      setTimeout(() => {
+        printWindow.print();
+      }, 500);
+    }
+    return;
+  }
+
+  // Binary exports travel as base64 data URLs; decode them so the file isn't saved as text
+  const url = URL.createObjectURL(dataUrlToBlob(download.data, download.mimeType));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = download.fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
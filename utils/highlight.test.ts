@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CodeToken, highlightCode } from './highlight';
+
+const joined = (tokens: CodeToken[]) => tokens.map(token => token.value).join('');
+const ofType = (tokens: CodeToken[], type: CodeToken['type']) =>
+  tokens.filter(token => token.type === type).map(token => token.value);
+
+describe('highlightCode', () => {
+  it('never changes the text it tokenizes', () => {
+    const samples: [string, string][] = [
+      ['const s = `a\n${b}`; // done', 'ts'],
+      ['def f(x):\n    return "unterminated', 'python'],
+      ['<div class="a" data-x=\'1\'>x = "y"</div><!-- open', 'html'],
+      ['a,b,c\n1,2,3', 'csv'],
+      ['/* never closed', 'css']
+    ];
+    for (const [code, lang] of samples) {
+      expect(joined(highlightCode(code, lang))).toBe(code);
+    }
+  });
+
+  it('tokenizes keywords, literals, strings, numbers and comments', () => {
+    expect(highlightCode('const x = "hi"; // note\nreturn null || 0x1F;', 'js')).toEqual([
+      { type: 'keyword', value: 'const' },
+      { type: 'plain', value: ' x = ' },
+      { type: 'string', value: '"hi"' },
+      { type: 'plain', value: '; ' },
+      { type: 'comment', value: '// note' },
+      { type: 'plain', value: '\n' },
+      { type: 'keyword', value: 'return' },
+      { type: 'plain', value: ' ' },
+      { type: 'literal', value: 'null' },
+      { type: 'plain', value: ' || ' },
+      { type: 'number', value: '0x1F' },
+      { type: 'plain', value: ';' }
+    ]);
+  });
+
+  it('does not treat digits inside identifiers as numbers', () => {
+    expect(ofType(highlightCode('let v2 = 3.5e2;', 'ts'), 'number')).toEqual(['3.5e2']);
+  });
+
+  it('ends a quoted string at the line break unless it is a template literal', () => {
+    expect(ofType(highlightCode("x = 'open\ny = 1", 'python'), 'string')).toEqual(["'open"]);
+    expect(ofType(highlightCode('x = `a\nb` + 1', 'js'), 'string')).toEqual(['`a\nb`']);
+  });
+
+  it('respects escaped quotes', () => {
+    expect(ofType(highlightCode('"a \\" b" + c', 'json'), 'string')).toEqual(['"a \\" b"']);
+  });
+
+  it('matches SQL keywords case-insensitively', () => {
+    expect(ofType(highlightCode('SELECT id FROM users -- all', 'sql'), 'keyword')).toEqual(['SELECT', 'FROM']);
+  });
+
+  it('highlights tags and attributes only inside markup tags', () => {
+    const tokens = highlightCode('<a href="/x">key="value"</a>', 'html');
+    expect(ofType(tokens, 'tag')).toEqual(['<a', '>', '</a>']);
+    expect(ofType(tokens, 'attr')).toEqual(['href']);
+    expect(ofType(tokens, 'string')).toEqual(['"/x"']);
+  });
+
+  it('alternates CSV columns', () => {
+    expect(highlightCode('a,b,c', 'CSV')).toEqual([
+      { type: 'plain', value: 'a,' },
+      { type: 'attr', value: 'b' },
+      { type: 'plain', value: ',c' }
+    ]);
+  });
+
+  it('returns unknown languages as a single plain token', () => {
+    expect(highlightCode('fn main() {}', 'rust')).toEqual([{ type: 'plain', value: 'fn main() {}' }]);
+  });
+});
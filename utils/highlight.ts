@@ -0,0 +1,211 @@
+// Lightweight syntax highlighter for fenced code blocks.
+// Covers the languages the modules actually produce (JS/TS, Python, JSON, HTML, CSS, SQL, shell, CSV)
+// without pulling in a highlighting library.
+
+export type TokenType = 'plain' | 'keyword' | 'string' | 'number' | 'comment' | 'tag' | 'attr' | 'literal';
+
+export interface CodeToken {
+  type: TokenType;
+  value: string;
+}
+
+interface LanguageRules {
+  keywords: Set<string>;
+  literals: Set<string>;
+  lineComments: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  caseInsensitive?: boolean;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const JS_RULES: LanguageRules = {
+  keywords: words('const let var function return if else for while do switch case break continue new class extends import export from default async await try catch finally throw typeof instanceof in of interface type enum implements public private protected readonly static yield delete void as'),
+  literals: words('true false null undefined this super NaN Infinity'),
+  lineComments: ['//'],
+  blockComment: ['/*', '*/'],
+  quotes: ['"', "'", '`']
+};
+
+const PYTHON_RULES: LanguageRules = {
+  keywords: words('def return if elif else for while break continue class import from as try except finally raise with lambda yield pass global nonlocal and or not in is assert del async await'),
+  literals: words('True False None self'),
+  lineComments: ['#'],
+  quotes: ['"', "'"]
+};
+
+const JSON_RULES: LanguageRules = {
+  keywords: new Set(),
+  literals: words('true false null'),
+  lineComments: [],
+  quotes: ['"']
+};
+
+const CSS_RULES: LanguageRules = {
+  keywords: words('important media import keyframes font-face supports'),
+  literals: new Set(),
+  lineComments: [],
+  blockComment: ['/*', '*/'],
+  quotes: ['"', "'"]
+};
+
+const SQL_RULES: LanguageRules = {
+  keywords: words('select from where and or not insert into values update set delete create table drop alter add join left right inner outer on group by order having limit offset as distinct union all case when then else end primary key foreign references index view in is like between exists'),
+  literals: words('null true false'),
+  lineComments: ['--'],
+  blockComment: ['/*', '*/'],
+  quotes: ["'", '"'],
+  caseInsensitive: true
+};
+
+const SHELL_RULES: LanguageRules = {
+  keywords: words('if then else elif fi for while do done case esac function in return export local echo cd sudo npm npx git'),
+  literals: words('true false'),
+  lineComments: ['#'],
+  quotes: ['"', "'"]
+};
+
+const LANGUAGE_ALIASES: Record<string, LanguageRules> = {
+  js: JS_RULES, javascript: JS_RULES, jsx: JS_RULES,
+  ts: JS_RULES, typescript: JS_RULES, tsx: JS_RULES,
+  java: JS_RULES, c: JS_RULES, cpp: JS_RULES, cs: JS_RULES, go: JS_RULES,
+  py: PYTHON_RULES, python: PYTHON_RULES,
+  json: JSON_RULES,
+  css: CSS_RULES, scss: CSS_RULES,
+  sql: SQL_RULES,
+  sh: SHELL_RULES, bash: SHELL_RULES, shell: SHELL_RULES, zsh: SHELL_RULES
+};
+
+const MARKUP_LANGUAGES = new Set(['html', 'xml', 'svg', 'vue']);
+
+const NUMBER_RE = /^(0x[\da-f]+|\d+(\.\d+)?(e[+-]?\d+)?)/i;
+const IDENT_RE = /^[A-Za-z_$][\w$-]*/;
+
+const pushToken = (tokens: CodeToken[], type: TokenType, value: string) => {
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    tokens.push({ type, value });
+  }
+};
+
+const tokenizeWithRules = (code: string, rules: LanguageRules): CodeToken[] => {
+  const tokens: CodeToken[] = [];
+  let i = 0;
+
+  while (i < code.length) {
+    const rest = code.slice(i);
+
+    const lineComment = rules.lineComments.find(marker => rest.startsWith(marker));
+    if (lineComment) {
+      const end = code.indexOf('\n', i);
+      const value = end === -1 ? rest : code.slice(i, end);
+      pushToken(tokens, 'comment', value);
+      i += value.length;
+      continue;
+    }
+
+    if (rules.blockComment && rest.startsWith(rules.blockComment[0])) {
+      const end = code.indexOf(rules.blockComment[1], i + rules.blockComment[0].length);
+      const value = end === -1 ? rest : code.slice(i, end + rules.blockComment[1].length);
+      pushToken(tokens, 'comment', value);
+      i += value.length;
+      continue;
+    }
+
+    const quote = rules.quotes.find(q => rest.startsWith(q));
+    if (quote) {
+      let j = i + 1;
+      while (j < code.length && code[j] !== quote) {
+        if (code[j] === '\\') j++;
+        // Only template literals may span lines
+        if (code[j] === '\n' && quote !== '`') break;
+        j++;
+      }
+      // An unterminated string stops before the line break rather than swallowing it
+      const value = code.slice(i, code[j] === quote ? j + 1 : j);
+      pushToken(tokens, 'string', value);
+      i += value.length;
+      continue;
+    }
+
+    const prev = code[i - 1];
+    if (!prev || !/[\w$]/.test(prev)) {
+      const number = rest.match(NUMBER_RE);
+      if (number) {
+        pushToken(tokens, 'number', number[0]);
+        i += number[0].length;
+        continue;
+      }
+    }
+
+    const ident = rest.match(IDENT_RE);
+    if (ident) {
+      const word = ident[0];
+      const lookup = rules.caseInsensitive ? word.toLowerCase() : word;
+      const type: TokenType = rules.keywords.has(lookup) ? 'keyword' : rules.literals.has(lookup) ? 'literal' : 'plain';
+      pushToken(tokens, type, word);
+      i += word.length;
+      continue;
+    }
+
+    pushToken(tokens, 'plain', code[i]);
+    i++;
+  }
+
+  return tokens;
+};
+
+const MARKUP_RE = /(<!--[\s\S]*?(?:-->|$))|(<\/?[\w:-]+)|([\w:-]+)(?==)|("[^"]*"|'[^']*')|(\/?>)/g;
+
+const tokenizeMarkup = (code: string): CodeToken[] => {
+  const tokens: CodeToken[] = [];
+  let last = 0;
+  let insideTag = false;
+  let match: RegExpExecArray | null;
+  MARKUP_RE.lastIndex = 0;
+
+  while ((match = MARKUP_RE.exec(code)) !== null) {
+    if (match[0] === '') {
+      MARKUP_RE.lastIndex++;
+      continue;
+    }
+    // Attribute names and values only count inside a tag
+    if (!insideTag && (match[3] || match[4])) continue;
+
+    if (match.index > last) pushToken(tokens, 'plain', code.slice(last, match.index));
+    if (match[1]) pushToken(tokens, 'comment', match[1]);
+    else if (match[2]) { pushToken(tokens, 'tag', match[2]); insideTag = true; }
+    else if (match[3]) pushToken(tokens, 'attr', match[3]);
+    else if (match[4]) pushToken(tokens, 'string', match[4]);
+    else if (match[5]) { pushToken(tokens, 'tag', match[5]); insideTag = false; }
+    last = match.index + match[0].length;
+  }
+
+  if (last < code.length) pushToken(tokens, 'plain', code.slice(last));
+  return tokens;
+};
+
+// CSV: colour every other column so wide exports stay readable
+const tokenizeCsv = (code: string): CodeToken[] => {
+  const tokens: CodeToken[] = [];
+  code.split('\n').forEach((line, lineIndex) => {
+    if (lineIndex > 0) pushToken(tokens, 'plain', '\n');
+    line.split(',').forEach((cell, cellIndex) => {
+      if (cellIndex > 0) pushToken(tokens, 'plain', ',');
+      pushToken(tokens, cellIndex % 2 === 0 ? 'plain' : 'attr', cell);
+    });
+  });
+  return tokens;
+};
+
+export const highlightCode = (code: string, lang: string): CodeToken[] => {
+  const language = lang.toLowerCase();
+  if (MARKUP_LANGUAGES.has(language)) return tokenizeMarkup(code);
+  if (language === 'csv') return tokenizeCsv(code);
+  const rules = LANGUAGE_ALIASES[language];
+  if (!rules) return [{ type: 'plain', value: code }];
+  return tokenizeWithRules(code, rules);
+};
@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import { BlockNode, inlineToText, parseInline, parseMarkdown, sanitizeUrl } from './markdown';
+
+const text = (value: string) => ({ type: 'text', value });
+
+describe('code fences', () => {
+  it('runs an unclosed fence to the end of the input', () => {
+    expect(parseMarkdown('Intro\n\n```ts\nconst a = 1;\n\nconst b = 2;')).toEqual([
+      { type: 'paragraph', children: [text('Intro')] },
+      { type: 'code', lang: 'ts', value: 'const a = 1;\n\nconst b = 2;' }
+    ]);
+  });
+
+  it('keeps markdown inside a fence as code', () => {
+    expect(parseMarkdown('~~~\n# not a heading\n- not a list\n~~~\nafter')).toEqual([
+      { type: 'code', lang: '', value: '# not a heading\n- not a list' },
+      { type: 'paragraph', children: [text('after')] }
+    ]);
+  });
+
+  it('only closes on a fence at least as long as the opener', () => {
+    const [block] = parseMarkdown('````md\n```js\nx\n```\n````');
+    expect(block).toEqual({ type: 'code', lang: 'md', value: '```js\nx\n```' });
+  });
+
+  it('parses a fence inside a list item and keeps the list going', () => {
+    const [list] = parseMarkdown('1. Install\n\n   ```bash\n   npm install\n   ```\n2. Run');
+    expect(list).toEqual({
+      type: 'list',
+      ordered: true,
+      start: 1,
+      items: [
+        {
+          checked: null,
+          taskIndex: undefined,
+          children: [
+            { type: 'paragraph', children: [text('Install')] },
+            { type: 'code', lang: 'bash', value: 'npm install' }
+          ]
+        },
+        { checked: null, taskIndex: undefined, children: [{ type: 'paragraph', children: [text('Run')] }] }
+      ]
+    });
+  });
+});
+
+describe('lists', () => {
+  const listAt = (blocks: BlockNode[], index = 0) => {
+    const block = blocks[index];
+    if (block.type !== 'list') throw new Error(`expected a list, got ${block.type}`);
+    return block;
+  };
+
+  it('nests an ordered list inside an unordered one', () => {
+    const outer = listAt(parseMarkdown('- Fruit\n  1. Apple\n  2. Pear\n- Veg'));
+    expect(outer.ordered).toBe(false);
+    expect(outer.items).toHaveLength(2);
+
+    const inner = listAt(outer.items[0].children, 1);
+    expect(inner.ordered).toBe(true);
+    expect(inner.items.map(item => item.children)).toEqual([
+      [{ type: 'paragraph', children: [text('Apple')] }],
+      [{ type: 'paragraph', children: [text('Pear')] }]
+    ]);
+    expect(outer.items[1].children).toEqual([{ type: 'paragraph', children: [text('Veg')] }]);
+  });
+
+  it('nests an unordered list inside an ordered one, three levels deep', () => {
+    const outer = listAt(parseMarkdown('3. One\n   - Two\n     1. Three\n4. Four'));
+    expect(outer).toMatchObject({ ordered: true, start: 3 });
+    expect(outer.items).toHaveLength(2);
+
+    const middle = listAt(outer.items[0].children, 1);
+    expect(middle.ordered).toBe(false);
+    const inner = listAt(middle.items[0].children, 1);
+    expect(inner).toMatchObject({ ordered: true, start: 1 });
+  });
+
+  it('starts a new list when the bullet or kind changes', () => {
+    const blocks = parseMarkdown('- a\n* b\n1. c');
+    expect(blocks.map(block => block.type === 'list' && block.ordered)).toEqual([false, false, true]);
+  });
+
+  it('reads task items and numbers them across the document', () => {
+    const blocks = parseMarkdown('- [x] Done\n- [ ] Todo\n- Plain\n\nText\n\n- [X] Later');
+    expect(listAt(blocks, 0).items.map(({ checked, taskIndex }) => ({ checked, taskIndex }))).toEqual([
+      { checked: true, taskIndex: 0 },
+      { checked: false, taskIndex: 1 },
+      { checked: null, taskIndex: undefined }
+    ]);
+    expect(listAt(blocks, 0).items[0].children).toEqual([{ type: 'paragraph', children: [text('Done')] }]);
+    expect(listAt(blocks, 2).items[0]).toMatchObject({ checked: true, taskIndex: 2 });
+  });
+
+  it('does not treat brackets without a space after them as a task', () => {
+    const [item] = listAt(parseMarkdown('- [x]done')).items;
+    expect(item.checked).toBeNull();
+  });
+});
+
+describe('tables', () => {
+  it('parses a table with a header row and alignment', () => {
+    expect(parseMarkdown('| Name | Qty |\n|:-----|----:|\n| Tea | 2 |')).toEqual([
+      {
+        type: 'table',
+        align: ['left', 'right'],
+        header: [[text('Name')], [text('Qty')]],
+        rows: [[[text('Tea')], [text('2')]]]
+      }
+    ]);
+  });
+
+  it('parses a table without a header row', () => {
+    expect(parseMarkdown('| a | b |\n| c | d |')).toEqual([
+      {
+        type: 'table',
+        align: [],
+        header: null,
+        rows: [
+          [[text('a')], [text('b')]],
+          [[text('c')], [text('d')]]
+        ]
+      }
+    ]);
+  });
+
+  it('drops a separator row that does not follow the first row', () => {
+    const [table] = parseMarkdown('| a |\n| b |\n|---|\n| c |');
+    expect(table).toMatchObject({ header: null, rows: [[[text('a')]], [[text('b')]], [[text('c')]]] });
+  });
+
+  it('keeps escaped pipes inside a cell', () => {
+    const [table] = parseMarkdown('| a \\| b | c |');
+    expect(table).toMatchObject({ rows: [[[text('a | b')], [text('c')]]] });
+  });
+});
+
+describe('links', () => {
+  it('renders javascript: links as their plain label', () => {
+    expect(parseInline('[click me](javascript:alert(1))')).toEqual([text('click me')]);
+    expect(parseInline('[x]( JavaScript:void(0) )')).toEqual([text('x')]);
+  });
+
+  it('drops images with an unsafe source', () => {
+    const nodes = parseInline('![pic](javascript:alert(1))');
+    expect(nodes.some(node => node.type === 'image')).toBe(false);
+  });
+
+  it('keeps http, mailto, anchor and relative links', () => {
+    expect(parseInline('[a](https://example.com/x_(y) "title")')).toEqual([
+      { type: 'link', href: 'https://example.com/x_(y)', children: [text('a')] }
+    ]);
+    expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com');
+    expect(sanitizeUrl('#section')).toBe('#section');
+    expect(sanitizeUrl('/docs')).toBe('/docs');
+    expect(sanitizeUrl('data:text/html,<script>')).toBeNull();
+    expect(sanitizeUrl('vbscript:msgbox')).toBeNull();
+  });
+
+  it('links bare URLs without trailing punctuation', () => {
+    expect(parseInline('See https://example.com/a.')).toEqual([
+      text('See '),
+      { type: 'link', href: 'https://example.com/a', children: [text('https://example.com/a')] },
+      text('.')
+    ]);
+  });
+});
+
+describe('emphasis', () => {
+  it('nests emphasis inside strong', () => {
+    expect(parseInline('**bold _and italic_ text**')).toEqual([
+      { type: 'strong', children: [text('bold '), { type: 'em', children: [text('and italic')] }, text(' text')] }
+    ]);
+  });
+
+  it('nests strong inside emphasis', () => {
+    expect(parseInline('*an **important** note*')).toEqual([
+      { type: 'em', children: [text('an '), { type: 'strong', children: [text('important')] }, text(' note')] }
+    ]);
+  });
+
+  it('nests strikethrough, strong and code', () => {
+    expect(parseInline('~~**old** `api`~~')).toEqual([
+      { type: 'del', children: [{ type: 'strong', children: [text('old')] }, text(' '), { type: 'code', value: 'api' }] }
+    ]);
+  });
+
+  it('leaves intraword underscores and unmatched delimiters alone', () => {
+    expect(parseInline('snake_case_name and 2 * 3')).toEqual([text('snake_case_name and 2 * 3')]);
+    expect(parseInline('**unclosed')).toEqual([text('**unclosed')]);
+  });
+
+  it('does not close emphasis inside a code span', () => {
+    expect(parseInline('*a `b*` c*')).toEqual([
+      { type: 'em', children: [text('a '), { type: 'code', value: 'b*' }, text(' c')] }
+    ]);
+  });
+});
+
+describe('inlineToText', () => {
+  it('flattens nested inline nodes', () => {
+    expect(inlineToText(parseInline('**a** [b](https://x.y) `c` ![d](/d.png)\\\ne'))).toBe('a b c d\ne');
+  });
+});
@@ -0,0 +1,542 @@
+// Markdown parser for model responses.
+// Turns text into a small AST that components/MarkdownRenderer.tsx renders.
+// Tolerates half-streamed input (e.g. an unclosed code fence) since it runs on every chunk.
+
+// --- AST ---
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'del'; children: InlineNode[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface ListItemNode {
+  checked: boolean | null; // null for plain items, boolean for task items
+  taskIndex?: number; // Position among all task items in the document
+  children: BlockNode[];
+}
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; lang: string; value: string }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItemNode[] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][] | null; rows: InlineNode[][][] }
+  | { type: 'hr' };
+
+// --- Block patterns ---
+
+const FENCE_RE = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_RE = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK_RE = /^\[([ xX])\]\s+(.*)$/s;
+
+const indentOf = (line: string): number => {
+  const match = line.match(/^[ \t]*/);
+  if (!match) return 0;
+  // Tabs count as four columns, like most editors
+  return match[0].replace(/\t/g, '    ').length;
+};
+
+const stripIndent = (line: string, amount: number): string => {
+  let removed = 0;
+  let i = 0;
+  while (i < line.length && removed < amount && (line[i] === ' ' || line[i] === '\t')) {
+    removed += line[i] === '\t' ? 4 : 1;
+    i++;
+  }
+  return line.slice(i);
+};
+
+const isBlank = (line: string) => line.trim() === '';
+
+const isTableRow = (line: string) => line.trim().startsWith('|');
+
+const startsBlock = (line: string): boolean =>
+  FENCE_RE.test(line) || HEADING_RE.test(line) || HR_RE.test(line) ||
+  LIST_RE.test(line) || QUOTE_RE.test(line) || isTableRow(line);
+
+// --- Tables ---
+
+const splitRow = (row: string): string[] => {
+  let trimmed = row.trim();
+  if (trimmed.startsWith('|')) trimmed = trimmed.slice(1);
+  if (trimmed.endsWith('|') && !trimmed.endsWith('\\|')) trimmed = trimmed.slice(0, -1);
+  // Split on pipes that are not escaped
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const parseTable = (lines: string[], state: ParseState): BlockNode => {
+  const rows = lines.map(splitRow);
+  const separatorIndex = lines.findIndex(line => TABLE_SEPARATOR_RE.test(line) && line.includes('-'));
+
+  let header: InlineNode[][] | null = null;
+  let align: TableAlign[] = [];
+  let bodyRows = rows;
+
+  if (separatorIndex === 1) {
+    header = rows[0].map(cell => parseInline(cell, state));
+    align = rows[1].map(parseAlign);
+    bodyRows = rows.slice(2);
+  } else if (separatorIndex !== -1) {
+    bodyRows = rows.filter((_, idx) => idx !== separatorIndex);
+  }
+
+  return {
+    type: 'table',
+    align,
+    header,
+    rows: bodyRows.map(row => row.map(cell => parseInline(cell, state)))
+  };
+};
+
+// --- Lists ---
+
+interface ListMarker {
+  indent: number;
+  ordered: boolean;
+  bullet: string;
+  number: number;
+  contentIndent: number;
+  text: string;
+}
+
+const readMarker = (line: string): ListMarker | null => {
+  const match = line.match(LIST_RE);
+  if (!match) return null;
+  const indent = indentOf(match[1]);
+  const marker = match[2];
+  const ordered = /\d/.test(marker);
+  return {
+    indent,
+    ordered,
+    bullet: ordered ? marker.slice(-1) : marker,
+    number: ordered ? parseInt(marker, 10) : 1,
+    contentIndent: indent + marker.length + 1,
+    text: match[3]
+  };
+};
+
+const parseList = (lines: string[], start: number, state: ParseState): { node: BlockNode; next: number } => {
+  const first = readMarker(lines[start])!;
+  const items: ListItemNode[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = readMarker(lines[i]);
+    if (!marker || marker.indent !== first.indent || marker.ordered !== first.ordered || marker.bullet !== first.bullet) {
+      break;
+    }
+
+    const itemLines = [marker.text];
+    i++;
+
+    // Gather continuation lines: anything indented past the marker, blank lines
+    // between indented lines, and lazy paragraph continuations.
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        const nextContent = lines.slice(i + 1).find(l => !isBlank(l));
+        if (nextContent !== undefined && indentOf(nextContent) > first.indent) {
+          itemLines.push('');
+          i++;
+          continue;
+        }
+        break;
+      }
+      const indent = indentOf(line);
+      if (indent > first.indent) {
+        itemLines.push(stripIndent(line, Math.min(indent, marker.contentIndent)));
+        i++;
+        continue;
+      }
+      const previous = itemLines[itemLines.length - 1];
+      if (!startsBlock(line) && previous !== '' && !LIST_RE.test(previous)) {
+        itemLines.push(line.trim());
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    let checked: boolean | null = null;
+    let taskIndex: number | undefined;
+    const task = itemLines[0].match(TASK_RE);
+    if (task) {
+      checked = task[1].toLowerCase() === 'x';
+      taskIndex = state.taskCount++;
+      itemLines[0] = task[2];
+    }
+
+    items.push({ checked, taskIndex, children: parseBlockLines(itemLines, state) });
+
+    // A blank line between items of the same list is allowed
+    if (i < lines.length && isBlank(lines[i])) {
+      const nextIndex = lines.findIndex((l, idx) => idx > i && !isBlank(l));
+      const nextMarker = nextIndex !== -1 ? readMarker(lines[nextIndex]) : null;
+      if (nextMarker && nextMarker.indent === first.indent && nextMarker.ordered === first.ordered && nextMarker.bullet === first.bullet) {
+        i = nextIndex;
+      }
+    }
+  }
+
+  return {
+    node: { type: 'list', ordered: first.ordered, start: first.number, items },
+    next: i
+  };
+};
+
+// --- Blocks ---
+
+interface ParseState {
+  taskCount: number;
+}
+
+const parseBlockLines = (lines: string[], state: ParseState): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code (an unclosed fence runs to the end, which is normal mid-stream)
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const fenceIndent = indentOf(fence[1]);
+      const fenceChar = fence[2][0];
+      const fenceLength = fence[2].length;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const closing = lines[i].trim();
+        if (closing.length >= fenceLength && closing.split('').every(c => c === fenceChar)) {
+          i++;
+          break;
+        }
+        body.push(stripIndent(lines[i], fenceIndent));
+        i++;
+      }
+      blocks.push({ type: 'code', lang: fence[3].toLowerCase(), value: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2], state) });
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (isTableRow(line)) {
+      const tableLines: string[] = [];
+      while (i < lines.length && isTableRow(lines[i])) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      blocks.push(parseTable(tableLines, state));
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const quote = lines[i].match(QUOTE_RE);
+        if (quote) {
+          quoteLines.push(quote[1]);
+        } else if (!startsBlock(lines[i])) {
+          quoteLines.push(lines[i]); // lazy continuation
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlockLines(quoteLines, state) });
+      continue;
+    }
+
+    if (LIST_RE.test(line)) {
+      const { node, next } = parseList(lines, i, state);
+      blocks.push(node);
+      i = next;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block.
+    // A pipe-separated line followed by a separator row is a table without leading pipes.
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_RE.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const tableLines: string[] = [line, lines[i + 1]];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      blocks.push(parseTable(tableLines, state));
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), state) });
+  }
+
+  return blocks;
+};
+
+// --- Inline ---
+
+const SAFE_URL_RE = /^(https?:|mailto:|#|\/)/i;
+const AUTOLINK_RE = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/;
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~>';
+
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  return SAFE_URL_RE.test(trimmed) ? trimmed : null;
+};
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch);
+
+// Finds the closing delimiter for emphasis starting at `from`, skipping code spans
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        i = end + run.length;
+        continue;
+      }
+    }
+    // For single-char delimiters, do not close on either half of a double (nested strong)
+    if (delimiter.length === 1 && text.startsWith(delimiter + delimiter, i)) {
+      i += 2;
+      continue;
+    }
+    if (text.startsWith(delimiter, i) && text[i - 1] !== ' ' && i > from) {
+      if (delimiter[0] === '_' && isWordChar(text[i + delimiter.length])) {
+        i++;
+        continue;
+      }
+      return i;
+    }
+    i++;
+  }
+  return -1;
+};
+
+// Finds the `]` matching the `[` at `open`, allowing nested brackets
+const findBracket = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '[') depth++;
+    if (text[i] === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+// Reads `(url "title")` after a link label, allowing balanced parentheses inside the url
+const readLinkTarget = (text: string, open: number): { url: string; end: number } | null => {
+  if (text[open] !== '(') return null;
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') {
+      depth--;
+      if (depth === 0) {
+        const inner = text.slice(open + 1, i).trim();
+        const url = inner.replace(/\s+("[^"]*"|'[^']*')$/, '').replace(/^<|>$/g, '');
+        return { url, end: i + 1 };
+      }
+    }
+    if (text[i] === '\n') return null;
+  }
+  return null;
+};
+
+export const parseInline = (text: string, state: ParseState = { taskCount: 0 }): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', value: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    // Backslash escapes and hard breaks
+    if (ch === '\\') {
+      const next = text[i + 1];
+      if (next === '\n') {
+        flush();
+        nodes.push({ type: 'break' });
+        i += 2;
+        continue;
+      }
+      if (next && ESCAPABLE.includes(next)) {
+        buffer += next;
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    // Code spans
+    if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        let value = text.slice(i + run.length, end);
+        if (value.startsWith(' ') && value.endsWith(' ') && value.trim() !== '') value = value.slice(1, -1);
+        nodes.push({ type: 'code', value });
+        i = end + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    // Images and links
+    if (ch === '!' && text[i + 1] === '[') {
+      const close = findBracket(text, i + 1);
+      const target = close !== -1 ? readLinkTarget(text, close + 1) : null;
+      const src = target ? sanitizeUrl(target.url) : null;
+      if (target && src) {
+        flush();
+        nodes.push({ type: 'image', src, alt: text.slice(i + 2, close) });
+        i = target.end;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const close = findBracket(text, i);
+      const target = close !== -1 ? readLinkTarget(text, close + 1) : null;
+      if (target) {
+        const href = sanitizeUrl(target.url);
+        flush();
+        const label = parseInline(text.slice(i + 1, close), state);
+        // Unsafe schemes (javascript: etc.) render as plain text
+        nodes.push(...(href ? [{ type: 'link', href, children: label } as InlineNode] : label));
+        i = target.end;
+        continue;
+      }
+    }
+
+    // Bare URLs
+    if ((ch === 'h' || ch === 'H') && !isWordChar(text[i - 1])) {
+      const auto = text.slice(i).match(AUTOLINK_RE);
+      if (auto) {
+        flush();
+        nodes.push({ type: 'link', href: auto[0], children: [{ type: 'text', value: auto[0] }] });
+        i += auto[0].length;
+        continue;
+      }
+    }
+
+    // Emphasis: **strong**, __strong__, *em*, _em_, ~~del~~
+    const double = text.slice(i, i + 2);
+    if ((double === '**' || double === '__' || double === '~~') && text[i + 2] && text[i + 2] !== ' ') {
+      const openerOk = double !== '__' || !isWordChar(text[i - 1]);
+      const close = openerOk ? findClosing(text, double, i + 2) : -1;
+      if (close !== -1) {
+        flush();
+        const children = parseInline(text.slice(i + 2, close), state);
+        nodes.push({ type: double === '~~' ? 'del' : 'strong', children });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if ((ch === '*' || ch === '_') && text[i + 1] && text[i + 1] !== ' ' && text[i + 1] !== ch) {
+      const openerOk = ch !== '_' || !isWordChar(text[i - 1]);
+      const close = openerOk ? findClosing(text, ch, i + 1) : -1;
+      if (close !== -1) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, close), state) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+export const parseMarkdown = (text: string): BlockNode[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  return parseBlockLines(lines, { taskCount: 0 });
+};
+
+// Plain text of inline nodes, e.g. for copy buttons or accessibility labels
+export const inlineToText = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': return node.value;
+      case 'code': return node.value;
+      case 'image': return node.alt;
+      case 'break': return '\n';
+      default: return inlineToText(node.children);
+    }
+  }).join('');
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Message, Role } from '../types';
+import { getActivePath, ROOT_KEY, selectPathTo } from './messageTree';
+
+const message = (id: string, parentId?: string | null): Message => ({ id, parentId, role: Role.USER, content: id, timestamp: 0 });
+const ids = (path: Message[]) => path.map(m => m.id);
+
+describe('getActivePath', () => {
+  it('follows selections and defaults to the newest child', () => {
+    const messages = [message('a', null), message('b', 'a'), message('c', 'a'), message('d', 'b')];
+    expect(ids(getActivePath(messages))).toEqual(['a', 'c']);
+    expect(ids(getActivePath(messages, { a: 'b' }))).toEqual(['a', 'b', 'd']);
+  });
+
+  it('chains messages saved before branching onto the previous one', () => {
+    expect(ids(getActivePath([message('a'), message('b'), message('c')]))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('stops when a message leads back onto the path', () => {
+    expect(ids(getActivePath([message(ROOT_KEY, null)]))).toEqual([ROOT_KEY]);
+    expect(ids(getActivePath([message('a', null), message('b', 'a'), message('a', 'b')]))).toEqual(['a', 'b']);
+  });
+});
+
+describe('selectPathTo', () => {
+  it('selects every ancestor of the message', () => {
+    const messages = [message('a', null), message('b', 'a'), message('c', 'a'), message('d', 'b')];
+    expect(selectPathTo(messages, { a: 'c' }, 'd')).toEqual({ [ROOT_KEY]: 'a', a: 'b', b: 'd' });
+  });
+
+  it('stops on a self-parent or a cycle', () => {
+    expect(selectPathTo([message('a', 'a')], {}, 'a')).toEqual({ a: 'a' });
+    expect(selectPathTo([message('a', 'b'), message('b', 'a')], {}, 'a')).toEqual({ b: 'a', a: 'b' });
+  });
+});
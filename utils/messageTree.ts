@@ -0,0 +1,80 @@
+// Conversation branching.
+// A session stores every message from every branch in one flat list; parentId links them into a
+// tree and Session.branchSelections records which child is showing under each parent.
+// Messages saved before branching existed have no parentId and chain onto the previous message.
+
+import { Message, Session } from '../types';
+
+export const ROOT_KEY = 'root'; // Selection key for the first turn of a conversation
+export const NO_BRANCH = ''; // Selection value that ends the path at its parent (a reply being regenerated)
+
+export interface MessageTree {
+  children: Map<string, Message[]>; // Parent key -> children, oldest first
+  parentKeys: Map<string, string>; // Message id -> parent key
+}
+
+export interface BranchPosition {
+  index: number; // Zero-based among siblings
+  count: number;
+}
+
+export const buildMessageTree = (messages: Message[]): MessageTree => {
+  const children = new Map<string, Message[]>();
+  const parentKeys = new Map<string, string>();
+  messages.forEach((message, i) => {
+    const parentKey = message.parentId !== undefined
+      ? message.parentId ?? ROOT_KEY
+      : (i > 0 ? messages[i - 1].id : ROOT_KEY);
+    parentKeys.set(message.id, parentKey);
+    if (!children.has(parentKey)) children.set(parentKey, []);
+    children.get(parentKey)!.push(message);
+  });
+  return { children, parentKeys };
+};
+
+// Follows the selected child under each parent, defaulting to the newest one.
+// Imported or corrupted sessions can link a message back onto the path, so a repeated id ends it.
+export const getActivePath = (messages: Message[], selections: Record<string, string> = {}, tree = buildMessageTree(messages)): Message[] => {
+  const path: Message[] = [];
+  const visited = new Set<string>();
+  let key = ROOT_KEY;
+  while (true) {
+    const kids = tree.children.get(key);
+    const selected = selections[key];
+    if (!kids || kids.length === 0 || selected === NO_BRANCH) break;
+    const next = kids.find(kid => kid.id === selected) || kids[kids.length - 1];
+    if (visited.has(next.id)) break;
+    visited.add(next.id);
+    path.push(next);
+    key = next.id;
+  }
+  return path;
+};
+
+export const getSessionPath = (session: Session): Message[] => getActivePath(session.messages, session.branchSelections);
+
+export const getBranchPosition = (tree: MessageTree, messageId: string): BranchPosition => {
+  const siblings = tree.children.get(tree.parentKeys.get(messageId) ?? ROOT_KEY) || [];
+  return { index: Math.max(0, siblings.findIndex(m => m.id === messageId)), count: siblings.length };
+};
+
+// Selections that make the given message part of the active path; stops if the parent links loop
+export const selectPathTo = (messages: Message[], selections: Record<string, string> = {}, messageId: string): Record<string, string> => {
+  const { parentKeys } = buildMessageTree(messages);
+  const next = { ...selections };
+  const visited = new Set<string>();
+  let id: string | undefined = messageId;
+  while (id && parentKeys.has(id) && !visited.has(id)) {
+    visited.add(id);
+    const parentKey: string = parentKeys.get(id)!;
+    next[parentKey] = id;
+    id = parentKey === ROOT_KEY ? undefined : parentKey;
+  }
+  return next;
+};
+
+// The message a new turn continues from, or ROOT_KEY for an empty conversation
+export const getLeafKey = (session: Session): string => {
+  const path = getSessionPath(session);
+  return path.length > 0 ? path[path.length - 1].id : ROOT_KEY;
+};
@@ -0,0 +1,159 @@
+// Text and tables from DOCX and XLSX packages. The XML is scanned with regular expressions rather than
+// a DOM, which is enough for the parts Word and Excel write and also works outside the browser.
+
+import { openZip } from './zipReader';
+
+const decodeXml = (value: string): string =>
+  value.replace(/&(lt|gt|amp|quot|apos|#x[0-9a-fA-F]+|#\d+);/g, (_, entity: string) => {
+    const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+    if (entity in named) return named[entity];
+    return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+  });
+
+const attribute = (tag: string, name: string): string | undefined =>
+  tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// --- DOCX ---
+
+export interface DocxPage {
+  number: number; // From Word's rendered page breaks; everything is page 1 when there are none
+  blocks: string[]; // Markdown: headings, list items, paragraphs and tables
+}
+
+const DOCX_RUN_RE = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br(?:\s[^>]*)?\/>|<w:lastRenderedPageBreak\/>/g;
+
+// Text of one paragraph, and how many page breaks fall inside it
+const docxParagraph = (xml: string): { text: string; breaks: number } => {
+  let text = '';
+  let breaks = 0;
+  for (const match of xml.matchAll(DOCX_RUN_RE)) {
+    if (match[1] !== undefined) text += decodeXml(match[1]);
+    else if (match[0] === '<w:tab/>') text += '\t';
+    else if (match[0] === '<w:lastRenderedPageBreak/>' || attribute(match[0], 'w:type') === 'page') breaks++;
+    else text += '\n';
+  }
+  return { text: text.trim(), breaks };
+};
+
+const markdownRow = (cells: string[]): string => `| ${cells.map(cell => cell.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')).join(' | ')} |`;
+
+// Tables as Markdown, header row first
+export const markdownTable = (rows: string[][]): string => {
+  const width = Math.max(1, ...rows.map(row => row.length));
+  const padded = rows.map(row => Array.from({ length: width }, (_, i) => row[i] ?? ''));
+  return [markdownRow(padded[0]), markdownRow(padded[0].map(() => '---')), ...padded.slice(1).map(markdownRow)].join('\n');
+};
+
+const docxTable = (xml: string): string => {
+  const rows = Array.from(xml.matchAll(/<w:tr[\s>][\s\S]*?<\/w:tr>/g), row =>
+    Array.from(row[0].matchAll(/<w:tc[\s>][\s\S]*?<\/w:tc>/g), cell =>
+      Array.from(cell[0].matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g), p => docxParagraph(p[0]).text).filter(Boolean).join(' ')
+    )
+  );
+  return rows.length > 0 ? markdownTable(rows) : '';
+};
+
+export const readDocx = async (bytes: Uint8Array): Promise<DocxPage[]> => {
+  const xml = await openZip(bytes).readText('word/document.xml');
+  if (xml === null) throw new Error('This is not a Word document.');
+
+  const pages: DocxPage[] = [{ number: 1, blocks: [] }];
+  const current = () => pages[pages.length - 1];
+  const breakPage = (count: number) => {
+    for (let i = 0; i < count; i++) pages.push({ number: current().number + 1, blocks: [] });
+  };
+
+  // Top-level paragraphs and tables, in order; nested tables stay inside their cell's text
+  const blockRe = /<w:tbl>|<w:tbl\s[^>]*>|<w:p\/>|<w:p[\s>][\s\S]*?<\/w:p>/g;
+  for (let match = blockRe.exec(xml); match; match = blockRe.exec(xml)) {
+    if (match[0].startsWith('<w:tbl')) {
+      let depth = 1;
+      const tagRe = /<w:tbl[\s>]|<\/w:tbl>/g;
+      tagRe.lastIndex = blockRe.lastIndex;
+      let end = xml.length;
+      for (let tag = tagRe.exec(xml); tag; tag = tagRe.exec(xml)) {
+        depth += tag[0] === '</w:tbl>' ? -1 : 1;
+        if (depth === 0) { end = tagRe.lastIndex; break; }
+      }
+      const tableXml = xml.slice(match.index, end);
+      const table = docxTable(tableXml);
+      if (table) current().blocks.push(table);
+      breakPage((tableXml.match(/<w:lastRenderedPageBreak\/>/g) || []).length);
+      blockRe.lastIndex = end;
+      continue;
+    }
+
+    const { text, breaks } = docxParagraph(match[0]);
+    if (/<w:pageBreakBefore\/>/.test(match[0]) && current().blocks.length > 0) breakPage(1);
+    // Breaks inside a paragraph usually sit before its text, so the paragraph lands on the new page
+    breakPage(breaks);
+    if (!text) continue;
+    const style = match[0].match(/<w:pStyle w:val="([^"]+)"/)?.[1] || '';
+    const heading = style === 'Title' ? 1 : Number(style.match(/^Heading(\d)$/i)?.[1] || 0);
+    if (heading) current().blocks.push(`${'#'.repeat(Math.min(heading, 6))} ${text}`);
+    else if (/<w:numPr>/.test(match[0])) current().blocks.push(`- ${text}`);
+    else current().blocks.push(text);
+  }
+  return pages.filter(page => page.blocks.length > 0);
+};
+
+// --- XLSX ---
+
+export interface XlsxTable {
+  name: string;
+  rows: string[][];
+}
+
+const columnIndex = (ref: string): number =>
+  (ref.match(/^[A-Z]+/)?.[0] || 'A').split('').reduce((acc, letter) => acc * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const cellText = (xml: string): string =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g), m => decodeXml(m[1])).join('');
+
+export const readXlsx = async (bytes: Uint8Array): Promise<XlsxTable[]> => {
+  const zip = openZip(bytes);
+  const workbook = await zip.readText('xl/workbook.xml');
+  if (workbook === null) throw new Error('This is not an Excel workbook.');
+
+  const rels = (await zip.readText('xl/_rels/workbook.xml.rels')) || '';
+  const targets = new Map(Array.from(rels.matchAll(/<Relationship\s[^>]*>/g), m => [attribute(m[0], 'Id'), attribute(m[0], 'Target')]));
+  const sharedXml = (await zip.readText('xl/sharedStrings.xml')) || '';
+  const shared = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g), m => cellText(m[1]));
+
+  const tables: XlsxTable[] = [];
+  for (const sheet of workbook.matchAll(/<sheet\s[^>]*>/g)) {
+    const target = targets.get(attribute(sheet[0], 'r:id'));
+    if (!target) continue;
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const xml = await zip.readText(path);
+    if (xml === null) continue;
+
+    const rows: string[][] = [];
+    for (const row of xml.matchAll(/<row[\s>][\s\S]*?<\/row>|<row\s[^>]*\/>/g)) {
+      const cells: string[] = [];
+      for (const cell of row[0].matchAll(/<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const open = cell[1] || '';
+        const body = cell[2] || '';
+        const type = attribute(open, 't');
+        const value = decodeXml(body.match(/<v>([^<]*)<\/v>/)?.[1] ?? '');
+        const index = columnIndex(attribute(open, 'r') || '');
+        cells[index >= 0 ? index : cells.length] = type === 's' ? shared[Number(value)] ?? ''
+          : type === 'inlineStr' ? cellText(body)
+          : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+          : value;
+      }
+      const rowIndex = Number(attribute(row[0], 'r')) - 1;
+      rows[rowIndex >= 0 ? rowIndex : rows.length] = Array.from(cells, cell => cell ?? '');
+    }
+
+    // Sparse rows become empty ones, and trailing blanks are dropped
+    const filled = Array.from(rows, row => row ?? []).map(row => {
+      let end = row.length;
+      while (end > 0 && !row[end - 1]) end--;
+      return row.slice(0, end);
+    });
+    while (filled.length > 0 && filled[filled.length - 1].length === 0) filled.pop();
+    if (filled.length > 0) tables.push({ name: decodeXml(attribute(sheet[0], 'name') || `Sheet${tables.length + 1}`), rows: filled });
+  }
+  return tables;
+};
@@ -0,0 +1,580 @@
+// Minimal PDF text extractor: finds the page tree, decodes content streams and reads the text
+// operators, using each font's ToUnicode map or simple encoding. Layout is approximated with line
+// breaks where the text moves down; there is no OCR, so scanned pages come back empty.
+
+import { inflate } from './zipReader';
+
+// --- Objects ---
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfString {
+  constructor(readonly bytes: Uint8Array) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+class PdfStream {
+  constructor(readonly dict: PdfDict, readonly raw: Uint8Array) {}
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+type PdfDict = Map<string, PdfObject>;
+type PdfObject = number | boolean | null | PdfName | PdfString | PdfRef | PdfStream | PdfDict | PdfObject[];
+
+// --- Lexer and parser ---
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set('()<>[]{}/%'.split('').map(c => c.charCodeAt(0)));
+const NUMBER_RE = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+type Token = { kind: 'value'; value: PdfObject } | { kind: 'keyword'; value: string };
+
+const createParser = (bytes: Uint8Array, start = 0) => {
+  let pos = start;
+
+  const skipSpace = () => {
+    while (pos < bytes.length) {
+      if (WHITESPACE.has(bytes[pos])) pos++;
+      else if (bytes[pos] === 37) { // % comment
+        while (pos < bytes.length && bytes[pos] !== 10 && bytes[pos] !== 13) pos++;
+      } else break;
+    }
+  };
+
+  const regularRun = (): string => {
+    const from = pos;
+    while (pos < bytes.length && !WHITESPACE.has(bytes[pos]) && !DELIMITERS.has(bytes[pos])) pos++;
+    return String.fromCharCode(...bytes.subarray(from, pos));
+  };
+
+  const literalString = (): PdfString => {
+    const out: number[] = [];
+    let depth = 1;
+    pos++; // (
+    while (pos < bytes.length) {
+      const c = bytes[pos++];
+      if (c === 40) depth++;
+      else if (c === 41 && --depth === 0) break;
+      if (c !== 92) {
+        out.push(c);
+        continue;
+      }
+      const e = bytes[pos++];
+      const escapes: Record<number, number> = { 110: 10, 114: 13, 116: 9, 98: 8, 102: 12 };
+      if (e in escapes) out.push(escapes[e]);
+      else if (e >= 48 && e <= 55) { // Up to three octal digits
+        let value = e - 48;
+        for (let i = 0; i < 2 && bytes[pos] >= 48 && bytes[pos] <= 55; i++) value = value * 8 + bytes[pos++] - 48;
+        out.push(value & 0xff);
+      } else if (e === 13) { // Line continuation
+        if (bytes[pos] === 10) pos++;
+      } else if (e !== 10) out.push(e);
+    }
+    return new PdfString(Uint8Array.from(out));
+  };
+
+  const hexString = (): PdfString => {
+    pos++; // <
+    let hex = '';
+    while (pos < bytes.length && bytes[pos] !== 62) {
+      if (!WHITESPACE.has(bytes[pos])) hex += String.fromCharCode(bytes[pos]);
+      pos++;
+    }
+    pos++; // >
+    if (hex.length % 2) hex += '0';
+    return new PdfString(Uint8Array.from(hex.match(/../g) || [], pair => parseInt(pair, 16) || 0));
+  };
+
+  const nextToken = (): Token | null => {
+    skipSpace();
+    if (pos >= bytes.length) return null;
+    const c = bytes[pos];
+    if (c === 40) return { kind: 'value', value: literalString() };
+    if (c === 60) {
+      if (bytes[pos + 1] === 60) { pos += 2; return { kind: 'keyword', value: '<<' }; }
+      return { kind: 'value', value: hexString() };
+    }
+    if (c === 62 && bytes[pos + 1] === 62) { pos += 2; return { kind: 'keyword', value: '>>' }; }
+    if (c === 47) {
+      pos++;
+      return { kind: 'value', value: new PdfName(regularRun().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))) };
+    }
+    if (DELIMITERS.has(c)) {
+      pos++;
+      return { kind: 'keyword', value: String.fromCharCode(c) };
+    }
+    const word = regularRun();
+    if (NUMBER_RE.test(word)) return { kind: 'value', value: Number(word) };
+    if (word === 'true' || word === 'false') return { kind: 'value', value: word === 'true' };
+    if (word === 'null') return { kind: 'value', value: null };
+    if (!word) pos++; // Stray byte; skip it rather than loop
+    return { kind: 'keyword', value: word };
+  };
+
+  // Turns a token into a value, reading arrays and dictionaries whole; "n g R" becomes a reference
+  const parseFrom = (token: Token | null): PdfObject | PdfOperator => {
+    if (!token) return null;
+    if (token.kind === 'value') {
+      if (typeof token.value === 'number' && Number.isInteger(token.value)) {
+        const saved = pos;
+        const gen = nextToken();
+        if (gen?.kind === 'value' && typeof gen.value === 'number') {
+          const r = nextToken();
+          if (r?.kind === 'keyword' && r.value === 'R') return new PdfRef(token.value);
+        }
+        pos = saved;
+      }
+      return token.value;
+    }
+    if (token.value === '[') {
+      const items: PdfObject[] = [];
+      for (let t = nextToken(); t && !(t.kind === 'keyword' && t.value === ']'); t = nextToken()) {
+        const item = parseFrom(t);
+        if (!(item instanceof PdfOperator)) items.push(item);
+      }
+      return items;
+    }
+    if (token.value === '<<') {
+      const dict: PdfDict = new Map();
+      for (let t = nextToken(); t && !(t.kind === 'keyword' && t.value === '>>'); t = nextToken()) {
+        if (t.kind !== 'value' || !(t.value instanceof PdfName)) continue;
+        const value = parseFrom(nextToken());
+        dict.set(t.value.name, value instanceof PdfOperator ? null : value);
+      }
+      return dict;
+    }
+    return new PdfOperator(token.value);
+  };
+
+  return {
+    get pos() { return pos; },
+    set pos(value: number) { pos = value; },
+    next: () => parseFrom(nextToken()),
+    atEnd: () => {
+      skipSpace();
+      return pos >= bytes.length;
+    },
+    // Skips an inline image's binary data after its ID operator, up to the closing EI
+    skipInlineImage: () => {
+      pos++;
+      while (pos < bytes.length - 2) {
+        if (WHITESPACE.has(bytes[pos]) && bytes[pos + 1] === 69 && bytes[pos + 2] === 73
+            && (pos + 3 >= bytes.length || WHITESPACE.has(bytes[pos + 3]) || DELIMITERS.has(bytes[pos + 3]))) {
+          pos += 3;
+          return;
+        }
+        pos++;
+      }
+      pos = bytes.length;
+    }
+  };
+};
+
+// --- Document ---
+
+const OBJECT_RE = /(\d+)\s+\d+\s+obj\b/g;
+
+const latin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+};
+
+const asName = (value: PdfObject | undefined): string | undefined => (value instanceof PdfName ? value.name : undefined);
+const asDict = (value: PdfObject | undefined): PdfDict | undefined => (value instanceof Map ? value : value instanceof PdfStream ? value.dict : undefined);
+
+const ascii85Decode = (data: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84); // 'u' pads a short final group
+    let value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+    const bytes = [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) & 0xff);
+    value = 0;
+    out.push(...bytes.slice(0, count));
+    group = [];
+  };
+  for (const c of data) {
+    if (c === 126) break; // ~> ends the data
+    if (c === 122 && group.length === 0) { out.push(0, 0, 0, 0); continue; }
+    if (c < 33 || c > 117) continue;
+    group.push(c - 33);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 0) flush(group.length - 1);
+  return Uint8Array.from(out);
+};
+
+const openPdf = (bytes: Uint8Array) => {
+  const text = latin1(bytes);
+  const objects = new Map<number, PdfObject>();
+  const parser = createParser(bytes);
+
+  // Objects are found by scanning rather than through the xref table, which is often damaged;
+  // later definitions (incremental updates) replace earlier ones
+  OBJECT_RE.lastIndex = 0;
+  for (let match = OBJECT_RE.exec(text); match; match = OBJECT_RE.exec(text)) {
+    const num = Number(match[1]);
+    parser.pos = match.index + match[0].length;
+    try {
+      let value = parser.next();
+      if (value instanceof PdfOperator) continue;
+      const after = parser.pos;
+      const keyword = parser.next();
+      if (value instanceof Map && keyword instanceof PdfOperator && keyword.op === 'stream') {
+        let start = parser.pos;
+        if (bytes[start] === 13) start++;
+        if (bytes[start] === 10) start++;
+        const length = value.get('Length');
+        let end = typeof length === 'number' && /^\s*endstream/.test(text.slice(start + length, start + length + 20)) ? start + length : text.indexOf('endstream', start);
+        if (end < 0) end = bytes.length;
+        const next = end + 'endstream'.length;
+        while (end > start && (bytes[end - 1] === 10 || bytes[end - 1] === 13) && typeof length !== 'number') end--;
+        value = new PdfStream(value, bytes.subarray(start, end));
+        OBJECT_RE.lastIndex = next;
+      } else {
+        OBJECT_RE.lastIndex = after;
+      }
+      objects.set(num, value);
+    } catch {
+      OBJECT_RE.lastIndex = match.index + match[0].length;
+    }
+  }
+
+  const resolve = (value: PdfObject | undefined): PdfObject | undefined => {
+    for (let i = 0; i < 8 && value instanceof PdfRef; i++) value = objects.get(value.num);
+    return value instanceof PdfRef ? undefined : value;
+  };
+  const get = (dict: PdfDict | undefined, key: string) => resolve(dict?.get(key));
+
+  const decodeStream = async (stream: PdfStream): Promise<Uint8Array | null> => {
+    const filter = get(stream.dict, 'Filter');
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => asName(resolve(f)));
+    let data = stream.raw;
+    for (const name of filters) {
+      if (name === 'FlateDecode' || name === 'Fl') data = await inflate(data, 'deflate');
+      else if (name === 'ASCIIHexDecode' || name === 'AHx') data = Uint8Array.from(latin1(data).replace(/[^0-9a-fA-F]/g, '').match(/..?/g) || [], h => parseInt(h.padEnd(2, '0'), 16));
+      else if (name === 'ASCII85Decode' || name === 'A85') data = ascii85Decode(data);
+      else return null; // Images and rarer filters carry no text
+    }
+    return data;
+  };
+
+  return { text, objects, resolve, get, decodeStream };
+};
+
+type PdfFile = ReturnType<typeof openPdf>;
+
+// Objects packed into object streams (PDF 1.5+) are unpacked into the same table
+const unpackObjectStreams = async (pdf: PdfFile) => {
+  for (const value of Array.from(pdf.objects.values())) {
+    if (!(value instanceof PdfStream) || asName(value.dict.get('Type')) !== 'ObjStm') continue;
+    const data = await pdf.decodeStream(value).catch(() => null);
+    const first = pdf.get(value.dict, 'First');
+    const count = pdf.get(value.dict, 'N');
+    if (!data || typeof first !== 'number' || typeof count !== 'number') continue;
+    const parser = createParser(data);
+    const header: number[] = [];
+    for (let i = 0; i < count * 2; i++) {
+      const n = parser.next();
+      if (typeof n === 'number') header.push(n);
+    }
+    for (let i = 0; i + 1 < header.length; i += 2) {
+      if (pdf.objects.has(header[i])) continue;
+      parser.pos = first + header[i + 1];
+      const object = parser.next();
+      if (!(object instanceof PdfOperator)) pdf.objects.set(header[i], object);
+    }
+  }
+};
+
+// --- Fonts ---
+
+const WIN_ANSI = Array.from(new TextDecoder('windows-1252').decode(Uint8Array.from({ length: 256 }, (_, i) => i)));
+
+// Glyph names that don't spell their character; single letters and digits map to themselves
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&', quotesingle: "'",
+  parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+  backslash: '\\', bracketright: ']', underscore: '_', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+  quoteleft: '‘', quoteright: '’', quotedblleft: '“', quotedblright: '”', bullet: '•',
+  endash: '–', emdash: '—', ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  degree: '°', copyright: '©', registered: '®', trademark: '™', Euro: '€', rupee: '₹',
+  minus: '−', multiply: '×', divide: '÷', section: '§', paragraph: '¶', nbspace: ' '
+};
+
+const glyphToUnicode = (name: string): string => {
+  if (name in GLYPH_NAMES) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const hex = name.match(/^uni([0-9A-Fa-f]{4,})$/)?.[1] || name.match(/^u([0-9A-Fa-f]{4,6})$/)?.[1];
+  return hex ? String.fromCodePoint(parseInt(hex.slice(0, 6), 16)) : '';
+};
+
+const utf16Hex = (hex: string): string => {
+  const units = (hex.match(/.{1,4}/g) || []).map(unit => parseInt(unit.padEnd(4, '0'), 16));
+  return String.fromCharCode(...units);
+};
+
+interface ToUnicodeMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+const parseToUnicode = (cmap: string): ToUnicodeMap => {
+  const map = new Map<number, string>();
+  const space = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const codeLength = space ? Math.ceil(space[1].length / 2) : 2;
+
+  for (const block of cmap.match(/beginbfchar[\s\S]*?endbfchar/g) || []) {
+    for (const [, src, dst] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) map.set(parseInt(src, 16), utf16Hex(dst));
+  }
+  for (const block of cmap.match(/beginbfrange[\s\S]*?endbfrange/g) || []) {
+    for (const [, lo, hi, dst, list] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g)) {
+      const from = parseInt(lo, 16);
+      const to = Math.min(parseInt(hi, 16), from + 0xffff);
+      if (list !== undefined) {
+        (list.match(/<([0-9a-fA-F]*)>/g) || []).forEach((item, i) => map.set(from + i, utf16Hex(item.slice(1, -1))));
+        continue;
+      }
+      const base = utf16Hex(dst);
+      for (let code = from; code <= to; code++) {
+        // The last UTF-16 unit counts up through the range
+        map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - from));
+      }
+    }
+  }
+  return { codeLength, map };
+};
+
+type FontDecoder = (bytes: Uint8Array) => string;
+
+const loadFont = async (pdf: PdfFile, font: PdfDict): Promise<FontDecoder> => {
+  const composite = asName(font.get('Subtype')) === 'Type0';
+  const toUnicodeStream = pdf.get(font, 'ToUnicode');
+  const toUnicode = toUnicodeStream instanceof PdfStream
+    ? await pdf.decodeStream(toUnicodeStream).then(data => (data ? parseToUnicode(latin1(data)) : null)).catch(() => null)
+    : null;
+
+  // Simple fonts: the base encoding with any /Differences applied
+  const table = [...WIN_ANSI];
+  const encoding = pdf.get(font, 'Encoding');
+  const differences = pdf.get(asDict(encoding), 'Differences');
+  if (Array.isArray(differences)) {
+    let code = 0;
+    differences.forEach(item => {
+      if (typeof item === 'number') code = item;
+      else if (item instanceof PdfName) table[code++ & 0xff] = glyphToUnicode(item.name);
+    });
+  }
+
+  const codeLength = toUnicode?.codeLength ?? (composite ? 2 : 1);
+  return (bytes) => {
+    let out = '';
+    for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+      const code = codeLength === 1 ? bytes[i] : (bytes[i] << 8) | bytes[i + 1];
+      const mapped = toUnicode?.map.get(code);
+      // Composite fonts without a map use glyph ids that can't be read back as text
+      out += mapped ?? (composite ? '' : table[code & 0xff] ?? '');
+    }
+    return out;
+  };
+};
+
+// --- Content streams ---
+
+const MAX_FORM_DEPTH = 4;
+
+const readContent = async (
+  pdf: PdfFile,
+  content: Uint8Array,
+  resources: PdfDict | undefined,
+  fonts: Map<PdfObject, FontDecoder>,
+  depth = 0
+): Promise<string> => {
+  const parser = createParser(content);
+  let out = '';
+  let operands: PdfObject[] = [];
+  let decode: FontDecoder = (bytes) => Array.from(bytes, b => WIN_ANSI[b]).join('');
+  // Origin of the current text line, in page units; text shown lower than the last run starts a new line
+  let x = 0;
+  let y = 0;
+  let scale = 1;
+  let leading = 0;
+  let shownY: number | null = null;
+  let moved = false;
+  let lineBreak = false;
+
+  const newline = () => { if (out && !out.endsWith('\n')) out += '\n'; };
+  const space = () => { if (out && !/\s$/.test(out)) out += ' '; };
+  const moveTo = (nextX: number, nextY: number) => {
+    if (nextX !== x) moved = true;
+    x = nextX;
+    y = nextY;
+  };
+  const nextLine = () => {
+    moveTo(x, y - leading * scale);
+    lineBreak = true;
+  };
+  const show = (value: PdfObject) => {
+    if (!(value instanceof PdfString)) return;
+    if (shownY !== null && (lineBreak || Math.abs(y - shownY) > 1)) newline();
+    else if (moved) space();
+    moved = lineBreak = false;
+    shownY = y;
+    out += decode(value.bytes);
+  };
+  const num = (value: PdfObject) => (typeof value === 'number' ? value : 0);
+
+  while (!parser.atEnd()) {
+    const item = parser.next();
+    if (!(item instanceof PdfOperator)) {
+      operands.push(item);
+      continue;
+    }
+    const args = operands;
+    operands = [];
+    switch (item.op) {
+      case 'Tf': {
+        const fontRef = asDict(pdf.get(resources, 'Font'))?.get(asName(args[0]) || '');
+        const font = asDict(pdf.resolve(fontRef));
+        if (font) {
+          if (!fonts.has(font)) fonts.set(font, await loadFont(pdf, font));
+          decode = fonts.get(font)!;
+        }
+        break;
+      }
+      case 'BT':
+        scale = 1;
+        moveTo(0, 0);
+        break;
+      case 'TL':
+        leading = num(args[0]);
+        break;
+      case 'TD':
+        leading = -num(args[1]);
+        moveTo(x + num(args[0]) * scale, y + num(args[1]) * scale);
+        break;
+      case 'Td':
+        moveTo(x + num(args[0]) * scale, y + num(args[1]) * scale);
+        break;
+      case 'Tm':
+        scale = Math.abs(num(args[3])) || 1;
+        moveTo(num(args[4]), num(args[5]));
+        break;
+      case 'T*':
+        nextLine();
+        break;
+      case 'Tj':
+        show(args[0]);
+        break;
+      case "'":
+        nextLine();
+        show(args[0]);
+        break;
+      case '"':
+        nextLine();
+        show(args[2]);
+        break;
+      case 'TJ':
+        if (Array.isArray(args[0])) {
+          args[0].forEach(part => {
+            // Large negative adjustments are how many PDFs draw word spaces
+            if (typeof part === 'number') { if (part < -200) space(); }
+            else show(part);
+          });
+        }
+        break;
+      case 'ID':
+        parser.skipInlineImage();
+        break;
+      case 'Do': {
+        if (depth >= MAX_FORM_DEPTH) break;
+        const form = pdf.resolve(asDict(pdf.get(resources, 'XObject'))?.get(asName(args[0]) || ''));
+        if (!(form instanceof PdfStream) || asName(form.dict.get('Subtype')) !== 'Form') break;
+        const data = await pdf.decodeStream(form).catch(() => null);
+        if (!data) break;
+        newline();
+        out += await readContent(pdf, data, asDict(pdf.get(form.dict, 'Resources')) || resources, fonts, depth + 1);
+        newline();
+        break;
+      }
+    }
+  }
+  return out;
+};
+
+// Collapses runs of spaces and blank lines left by positioning
+const tidy = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => line.replace(/[\u0000-\u0008\u000b-\u001f]/g, '').replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Text of each page, in page order. Throws when the PDF is encrypted or has no page tree.
+export const extractPdfText = async (bytes: Uint8Array): Promise<string[]> => {
+  const pdf = openPdf(bytes);
+  await unpackObjectStreams(pdf);
+
+  // The document catalog, from the last trailer or cross-reference stream that names one
+  const trailers: PdfDict[] = [];
+  for (const match of pdf.text.matchAll(/trailer\s*<</g)) {
+    const parser = createParser(bytes, (match.index ?? 0) + match[0].length - 2);
+    const dict = parser.next();
+    if (dict instanceof Map) trailers.push(dict);
+  }
+  pdf.objects.forEach(value => {
+    if (value instanceof PdfStream && asName(value.dict.get('Type')) === 'XRef') trailers.push(value.dict);
+  });
+  if (trailers.some(t => t.has('Encrypt'))) throw new Error('This PDF is encrypted, so its text can\'t be read here.');
+
+  let catalog = asDict(pdf.resolve(trailers.reverse().find(t => t.has('Root'))?.get('Root')));
+  if (!catalog) catalog = Array.from(pdf.objects.values()).map(asDict).find(d => asName(d?.get('Type')) === 'Catalog');
+
+  const pages: { dict: PdfDict; resources?: PdfDict }[] = [];
+  const visited = new Set<PdfDict>();
+  const walk = (node: PdfDict | undefined, resources?: PdfDict) => {
+    if (!node || visited.has(node)) return;
+    visited.add(node);
+    const own = asDict(pdf.get(node, 'Resources')) || resources;
+    const kids = pdf.get(node, 'Kids');
+    if (Array.isArray(kids)) kids.forEach(kid => walk(asDict(pdf.resolve(kid)), own));
+    else pages.push({ dict: node, resources: own });
+  };
+  walk(asDict(pdf.get(catalog, 'Pages')));
+  if (pages.length === 0) {
+    // No usable tree; fall back to every page object in file order
+    pdf.objects.forEach(value => {
+      const dict = asDict(value);
+      if (dict && asName(dict.get('Type')) === 'Page') pages.push({ dict, resources: asDict(pdf.get(dict, 'Resources')) });
+    });
+  }
+  if (pages.length === 0) throw new Error('No pages were found in this PDF.');
+
+  const fonts = new Map<PdfObject, FontDecoder>();
+  const texts: string[] = [];
+  for (const page of pages) {
+    const contents = pdf.get(page.dict, 'Contents');
+    const streams = (Array.isArray(contents) ? contents.map(pdf.resolve) : [contents]).filter((s): s is PdfStream => s instanceof PdfStream);
+    const parts: Uint8Array[] = [];
+    for (const stream of streams) {
+      const data = await pdf.decodeStream(stream).catch(() => null);
+      if (data) parts.push(data, Uint8Array.of(10));
+    }
+    const content = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((offset, part) => (content.set(part, offset), offset + part.length), 0);
+    texts.push(tidy(await readContent(pdf, content, page.resources, fonts)));
+  }
+  return texts;
+};
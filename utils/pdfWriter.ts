@@ -0,0 +1,223 @@
+// Minimal PDF 1.4 writer for generated documents (invoices, converter output).
+// Uses the built-in Helvetica faces, so files stay small and need no font embedding.
+// Coordinates are in points from the top-left corner of an A4 page.
+
+import { bytesToDataUrl } from './dataUrl';
+
+export type PdfColor = string; // '#rrggbb'
+export type PdfAlign = 'left' | 'center' | 'right';
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: PdfAlign;
+}
+
+export interface PdfShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  readonly pageCount: number;
+  addPage: () => void;
+  text: (value: string, x: number, y: number, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PdfShapeOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, options?: PdfShapeOptions) => void;
+  toBytes: () => Uint8Array;
+  toDataUrl: () => string;
+}
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+// --- Font metrics (Adobe AFM widths for ASCII 32-126, in 1/1000 em) ---
+
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside WinAnsi fall back to close ASCII equivalents
+const CHAR_REPLACEMENTS: Record<string, string> = {
+  '₹': 'Rs.', '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', '…': '...', '\u00a0': ' ', '→': '->'
+};
+
+const normalizeText = (value: string): string =>
+  value
+    .replace(/[₹‘’“”–—…\u00a0→]/g, ch => CHAR_REPLACEMENTS[ch])
+    .replace(/[\r\n\t]+/g, ' ');
+
+// WinAnsi characters outside Latin-1 that are worth keeping (code point in the font, width)
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '•': { code: 149, width: 350 }
+};
+
+export const measureText = (value: string, size: number, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const ch of normalizeText(value)) {
+    const code = ch.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : WIN_ANSI_EXTRAS[ch]?.width ?? 556;
+  }
+  return (total / 1000) * size;
+};
+
+// Greedy word wrap; words longer than the line are split by character
+export const wrapText = (value: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of value.split(/\r?\n/)) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+      current = '';
+      let piece = '';
+      for (const ch of word) {
+        if (measureText(piece + ch, size, bold) > maxWidth && piece) {
+          lines.push(piece);
+          piece = '';
+        }
+        piece += ch;
+      }
+      current = piece;
+    }
+    lines.push(current);
+  }
+  return lines;
+};
+
+// --- Serialisation helpers ---
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const colorOperands = (color: PdfColor): string => {
+  const hex = color.replace('#', '');
+  const r = parseInt(hex.slice(0, 2), 16) / 255;
+  const g = parseInt(hex.slice(2, 4), 16) / 255;
+  const b = parseInt(hex.slice(4, 6), 16) / 255;
+  return `${num(r)} ${num(g)} ${num(b)}`;
+};
+
+// PDF literal string; Latin-1 characters are written as octal escapes to keep the file 7-bit
+const pdfString = (value: string): string => {
+  let out = '(';
+  for (const ch of normalizeText(value)) {
+    const code = ch.charCodeAt(0);
+    if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+    else if (code >= 32 && code <= 126) out += ch;
+    else if (code >= 160 && code <= 255) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else if (WIN_ANSI_EXTRAS[ch]) out += `\\${WIN_ANSI_EXTRAS[ch].code.toString(8)}`;
+    else out += '?';
+  }
+  return `${out})`;
+};
+
+// --- Document ---
+
+export const createPdfDocument = (): PdfDocument => {
+  const pages: string[][] = [];
+  const width = A4_WIDTH;
+  const height = A4_HEIGHT;
+
+  const current = () => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+
+  const text = (value: string, x: number, y: number, options: PdfTextOptions = {}) => {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const textWidth = measureText(value, size, bold);
+    const left = options.align === 'right' ? x - textWidth : options.align === 'center' ? x - textWidth / 2 : x;
+    // y is the top of the line box; PDF positions text by its baseline from the bottom edge
+    const baseline = height - y - size * 0.8;
+    current().push(
+      `BT ${colorOperands(options.color ?? '#111827')} rg /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(baseline)} Td ${pdfString(value)} Tj ET`
+    );
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}) => {
+    current().push(
+      `${colorOperands(options.stroke ?? '#d1d5db')} RG ${num(options.lineWidth ?? 0.75)} w ${num(x1)} ${num(height - y1)} m ${num(x2)} ${num(height - y2)} l S`
+    );
+  };
+
+  const rect = (x: number, y: number, w: number, h: number, options: PdfShapeOptions = {}) => {
+    const ops: string[] = [];
+    if (options.fill) ops.push(`${colorOperands(options.fill)} rg`);
+    if (options.stroke) ops.push(`${colorOperands(options.stroke)} RG ${num(options.lineWidth ?? 0.75)} w`);
+    const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+    ops.push(`${num(x)} ${num(height - y - h)} ${num(w)} ${num(h)} re ${paint}`);
+    current().push(ops.join(' '));
+  };
+
+  const toBytes = (): Uint8Array => {
+    if (pages.length === 0) pages.push([]);
+
+    // Object layout: 1 catalog, 2 page tree, 3-4 fonts, then a page + content pair per page
+    const objects: string[] = [];
+    const pageIds = pages.map((_, i) => 5 + i * 2);
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    pages.forEach((ops, i) => {
+      const pageId = pageIds[i];
+      const stream = ops.join('\n');
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+
+    // Every string above is 7-bit ASCII, so string offsets equal byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(output);
+  };
+
+  return {
+    width,
+    height,
+    get pageCount() { return Math.max(pages.length, 1); },
+    addPage: () => { pages.push([]); },
+    text,
+    line,
+    rect,
+    toBytes,
+    toDataUrl: () => bytesToDataUrl(toBytes(), 'application/pdf')
+  };
+};
@@ -0,0 +1,180 @@
+// Minimal PPTX (PresentationML) writer for outline slides: a title plus bullet points per slide.
+// Every slide uses one blank layout with its own text boxes, so the package needs no placeholders.
+
+import { createZip, escapeXml } from './zipWriter';
+
+export interface PptxBullet {
+  text: string;
+  level: number; // 0 for top-level points
+}
+
+export interface PptxSlide {
+  title: string;
+  subtitle?: string; // Shown on slides without bullets, e.g. the title slide
+  bullets: PptxBullet[];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// 16:9 in EMU (914400 per inch)
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const MARGIN = 609600;
+const MAX_BULLETS_PER_SLIDE = 8;
+const ACCENT = '0EA5E9';
+const TEXT = '111827';
+const MUTED = '4B5563';
+
+// --- Shapes ---
+
+const GROUP_PROPS = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const frame = (x: number, y: number, cx: number, cy: number) =>
+  `<a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom>`;
+
+const run = (text: string, size: number, color: string, bold = false) =>
+  `<a:r><a:rPr lang="en-US" sz="${size}"${bold ? ' b="1"' : ''} dirty="0"><a:solidFill><a:srgbClr val="${color}"/></a:solidFill></a:rPr><a:t>${escapeXml(text)}</a:t></a:r>`;
+
+const textBox = (id: number, name: string, position: [number, number, number, number], anchor: 't' | 'ctr' | 'b', paragraphs: string) =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+  `<p:spPr>${frame(...position)}<a:noFill/></p:spPr>` +
+  `<p:txBody><a:bodyPr wrap="square" lIns="0" rIns="0" anchor="${anchor}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs}</p:txBody></p:sp>`;
+
+const accentBar = (id: number, x: number, y: number, cx: number, cy: number) =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Accent"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+  `<p:spPr>${frame(x, y, cx, cy)}<a:solidFill><a:srgbClr val="${ACCENT}"/></a:solidFill><a:ln><a:noFill/></a:ln></p:spPr></p:sp>`;
+
+const bulletParagraph = ({ text, level }: PptxBullet) => {
+  const indent = 342900;
+  const depth = Math.min(level, 4);
+  return `<a:p><a:pPr marL="${indent * (depth + 1)}" indent="-${indent}" lvl="${depth}"><a:spcBef><a:spcPts val="600"/></a:spcBef>` +
+    `<a:buClr><a:srgbClr val="${ACCENT}"/></a:buClr><a:buFont typeface="Arial"/><a:buChar char="${depth === 0 ? '•' : '–'}"/></a:pPr>` +
+    `${run(text, depth === 0 ? 2000 : 1800, depth === 0 ? TEXT : MUTED)}</a:p>`;
+};
+
+const slideXml = (slide: PptxSlide): string => {
+  const width = SLIDE_WIDTH - MARGIN * 2;
+  const shapes = slide.bullets.length === 0
+    // Title slide: large centred title with the subtitle underneath
+    ? textBox(2, 'Title', [MARGIN, 2057400, width, 1371600], 'b', `<a:p><a:pPr algn="ctr"/>${run(slide.title, 4000, TEXT, true)}</a:p>`) +
+      accentBar(3, (SLIDE_WIDTH - 1219200) / 2, 3520440, 1219200, 45720) +
+      (slide.subtitle ? textBox(4, 'Subtitle', [MARGIN, 3703320, width, 914400], 't', `<a:p><a:pPr algn="ctr"/>${run(slide.subtitle, 2000, MUTED)}</a:p>`) : '')
+    : textBox(2, 'Title', [MARGIN, 365760, width, 914400], 'b', `<a:p>${run(slide.title, 3200, TEXT, true)}</a:p>`) +
+      accentBar(3, MARGIN, 1325880, 914400, 45720) +
+      textBox(4, 'Content', [MARGIN, 1554480, width, SLIDE_HEIGHT - 1554480 - MARGIN], 't', slide.bullets.map(bulletParagraph).join(''));
+
+  return XML_HEADER + `<p:sld ${NS}><p:cSld><p:spTree>${GROUP_PROPS}${shapes}</p:spTree></p:cSld>` +
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+};
+
+// Long slides continue on a new slide with the same title
+const paginate = (slides: PptxSlide[]): PptxSlide[] => slides.flatMap(slide => {
+  if (slide.bullets.length <= MAX_BULLETS_PER_SLIDE) return [slide];
+  const pages: PptxSlide[] = [];
+  for (let i = 0; i < slide.bullets.length; i += MAX_BULLETS_PER_SLIDE) {
+    pages.push({ title: i === 0 ? slide.title : `${slide.title} (cont.)`, bullets: slide.bullets.slice(i, i + MAX_BULLETS_PER_SLIDE) });
+  }
+  return pages;
+});
+
+// --- Package parts ---
+
+const THEME_XML = XML_HEADER +
+  '<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="SwiftMind"><a:themeElements>' +
+  '<a:clrScheme name="SwiftMind">' +
+  `<a:dk1><a:srgbClr val="${TEXT}"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>` +
+  `<a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2>` +
+  [ACCENT, '6366F1', '10B981', 'F59E0B', 'EF4444', '8B5CF6'].map((color, i) => `<a:accent${i + 1}><a:srgbClr val="${color}"/></a:accent${i + 1}>`).join('') +
+  '<a:hlink><a:srgbClr val="0369A1"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink>' +
+  '</a:clrScheme>' +
+  '<a:fontScheme name="SwiftMind">' +
+  '<a:majorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+  '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont>' +
+  '</a:fontScheme>' +
+  '<a:fmtScheme name="SwiftMind">' +
+  `<a:fillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:fillStyleLst>` +
+  `<a:lnStyleLst>${'<a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>'.repeat(3)}</a:lnStyleLst>` +
+  `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>` +
+  `<a:bgFillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:bgFillStyleLst>` +
+  '</a:fmtScheme></a:themeElements></a:theme>';
+
+const MASTER_XML = XML_HEADER +
+  `<p:sldMaster ${NS}><p:cSld><p:spTree>${GROUP_PROPS}</p:spTree></p:cSld>` +
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>' +
+  '</p:sldMaster>';
+
+const LAYOUT_XML = XML_HEADER +
+  `<p:sldLayout ${NS} preserve="1"><p:cSld name="Blank"><p:spTree>${GROUP_PROPS}</p:spTree></p:cSld>` +
+  '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+
+const relationships = (items: { type: string; target: string }[]) => XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  items.map((item, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/${item.type}" Target="${item.target}"/>`).join('') +
+  '</Relationships>';
+
+export const createPptx = (input: PptxSlide[], title = ''): Uint8Array => {
+  const slides = paginate(input.length > 0 ? input : [{ title: title || 'Untitled', bullets: [] }]);
+
+  const contentTypes = XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>' +
+    '<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml"/>' +
+    '<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml"/>' +
+    '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    slides.map((_, i) => `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`).join('') +
+    '</Types>';
+
+  const rootRels = XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="ppt/presentation.xml"/>` +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>';
+
+  // Relationship ids: rId1 master, rId2 theme, rId3+ slides
+  const presentation = XML_HEADER +
+    `<p:presentation ${NS} saveSubsetFonts="1">` +
+    '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+    `<p:sldIdLst>${slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`).join('')}</p:sldIdLst>` +
+    `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="${SLIDE_HEIGHT}" cy="${SLIDE_WIDTH}"/>` +
+    '</p:presentation>';
+
+  const core = XML_HEADER +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title><dc:creator>SwiftMind</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'docProps/core.xml', data: core },
+    { name: 'ppt/presentation.xml', data: presentation },
+    {
+      name: 'ppt/_rels/presentation.xml.rels',
+      data: relationships([
+        { type: 'slideMaster', target: 'slideMasters/slideMaster1.xml' },
+        { type: 'theme', target: 'theme/theme1.xml' },
+        ...slides.map((_, i) => ({ type: 'slide', target: `slides/slide${i + 1}.xml` }))
+      ])
+    },
+    { name: 'ppt/slideMasters/slideMaster1.xml', data: MASTER_XML },
+    {
+      name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationships([{ type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' }, { type: 'theme', target: '../theme/theme1.xml' }])
+    },
+    { name: 'ppt/slideLayouts/slideLayout1.xml', data: LAYOUT_XML },
+    { name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels', data: relationships([{ type: 'slideMaster', target: '../slideMasters/slideMaster1.xml' }]) },
+    { name: 'ppt/theme/theme1.xml', data: THEME_XML },
+    ...slides.flatMap((slide, i) => [
+      { name: `ppt/slides/slide${i + 1}.xml`, data: slideXml(slide) },
+      { name: `ppt/slides/_rels/slide${i + 1}.xml.rels`, data: relationships([{ type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' }]) }
+    ])
+  ]);
+};
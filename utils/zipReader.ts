@@ -0,0 +1,81 @@
+// Minimal ZIP reader for Office packages (DOCX, XLSX). Deflated entries are inflated with the
+// browser's DecompressionStream, so no decompression library is needed.
+
+export type InflateFormat = 'deflate' | 'deflate-raw';
+
+// 'deflate' is zlib-wrapped (PDF FlateDecode), 'deflate-raw' is bare (ZIP entries)
+export const inflate = async (bytes: Uint8Array, format: InflateFormat): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export interface ZipArchive {
+  names: string[];
+  read: (name: string) => Promise<Uint8Array | null>; // Null when the entry doesn't exist
+  readText: (name: string) => Promise<string | null>;
+}
+
+interface CentralEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_HEADER = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+// Reads the central directory up front; entries are only inflated when asked for
+export const openZip = (bytes: Uint8Array): ZipArchive => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP file.');
+
+  const count = view.getUint16(end + 10, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, CentralEntry>();
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_HEADER) throw new Error('The ZIP directory is damaged.');
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      localOffset: view.getUint32(position + 42, true)
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const local = entry.localOffset;
+    if (view.getUint32(local, true) !== LOCAL_HEADER) throw new Error(`The ZIP entry ${name} is damaged.`);
+    // The local header's own name and extra lengths can differ from the central directory's
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflate(data, 'deflate-raw');
+    throw new Error(`The ZIP entry ${name} uses an unsupported compression method.`);
+  };
+
+  return {
+    names: Array.from(entries.keys()),
+    read,
+    readText: async (name) => {
+      const data = await read(name);
+      return data ? decoder.decode(data) : null;
+    }
+  };
+};
@@ -1,9 +1,13 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Keys from .env.local are only compiled in for the dev server. Builds get keys from the
+    // user's vault or the key proxy (API_PROXY_URL) at runtime.
+    const devKey = command === 'serve' ? env.GEMINI_API_KEY || '' : '';
     return {
       server: {
         port: 3000,
@@ -11,13 +15,24 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(devKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(devKey),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL || ''),
+        'process.env.API_SERVER_URL': JSON.stringify(env.API_SERVER_URL || ''),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER || ''),
+        'process.env.OIDC_ISSUER': JSON.stringify(env.OIDC_ISSUER || ''),
+        'process.env.OIDC_CLIENT_ID': JSON.stringify(env.OIDC_CLIENT_ID || ''),
+        'process.env.OIDC_LABEL': JSON.stringify(env.OIDC_LABEL || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // server/ runs its own tests with node --test (npm --prefix server test)
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules', 'server/**', 'dist']
       }
     };
 });